@@ -11,9 +11,20 @@ import stockListRoutes from './routes/stockListRoutes.js';
 import authRoutes from './routes/authRoutes.js';
 import watchlistRoutes from './routes/watchlistRoutes.js';
 import chartConfigRoutes from './routes/chartConfigRoutes.js';
+import marketRoutes from './routes/marketRoutes.js';
+import adminRoutes from './routes/adminRoutes.js';
+import replayRoutes from './routes/replayRoutes.js';
+import alertRoutes from './routes/alertRoutes.js';
+import screenRoutes from './routes/screenRoutes.js';
 import { initializeDatabase, checkDatabaseConnection } from './services/databaseService.js';
 import { websocketService } from './services/websocketService.js';
 import { realtimePriceService } from './services/realtimePriceService.js';
+import { getRealtimeFeed } from './services/realtime/index.js';
+import { clusterService } from './services/clusterService.js';
+import { replayService } from './services/replayService.js';
+import { alertEvaluatorService } from './services/alertEvaluatorService.js';
+import { scheduleFundamentalsRefresh, stopFundamentalsRefresh } from './jobs/fundamentalsJob.js';
+import { scheduleDailyMetricsUpdate, stopDailyMetricsUpdate } from './jobs/dailyMetricsJob.js';
 
 // Debug: Log environment variables to verify they're loaded
 console.log('Environment variables loaded:');
@@ -40,6 +51,8 @@ app.get('/api/health', (_req: Request, res: Response) => {
     status: 'ok',
     message: 'Kuya Charts API is running',
     timestamp: new Date().toISOString(),
+    realtimeFeed: getRealtimeFeed().getHealth(),
+    cluster: clusterService.getStatus(),
   });
 });
 
@@ -47,6 +60,9 @@ app.get('/api/health', (_req: Request, res: Response) => {
 app.use('/api/stock', stockRoutes);
 app.use('/api/stocks', stockListRoutes);
 
+// Market calendar routes
+app.use('/api/market', marketRoutes);
+
 // Authentication routes
 app.use('/api/auth', authRoutes);
 
@@ -56,6 +72,18 @@ app.use('/api/watchlist', watchlistRoutes);
 // Chart config routes
 app.use('/api/chart-configs', chartConfigRoutes);
 
+// Price alert routes
+app.use('/api/alerts', alertRoutes);
+
+// Saved screen routes
+app.use('/api/screens', screenRoutes);
+
+// Admin routes (cache inspection and invalidation)
+app.use('/api/admin', adminRoutes);
+
+// Historical market replay routes
+app.use('/api/replay', replayRoutes);
+
 // 404 handler - must be after all other routes
 app.use((req: Request, res: Response) => {
   res.status(404).json({
@@ -65,8 +93,16 @@ app.use((req: Request, res: Response) => {
       'GET /api/health',
       'GET /api/stock/:symbol/daily',
       'GET /api/stock/:symbol/intraday?interval=<interval>',
+      'GET /api/stock/:symbol/bars?timeframe=<timeframe>',
+      'GET /api/stock/:symbol/events?from=&to=',
       'GET /api/stocks/list?sector=&minMarketCap=&maxMarketCap=&limit=&offset=',
       'GET /api/stocks/sectors',
+      'GET /api/stocks/search?q=&limit=',
+      'GET /api/stocks/fundamentals/status',
+      'GET /api/stocks/earnings/upcoming?symbols=',
+      'GET /api/stocks/quota/status',
+      'GET /api/market/status',
+      'GET /api/market/calendar?from=&to=',
       'POST /api/auth/register',
       'POST /api/auth/login',
       'GET /api/auth/me',
@@ -80,6 +116,26 @@ app.use((req: Request, res: Response) => {
       'POST /api/chart-configs',
       'PUT /api/chart-configs/:id',
       'DELETE /api/chart-configs/:id',
+      'GET /api/alerts',
+      'GET /api/alerts/history?limit=',
+      'POST /api/alerts',
+      'PUT /api/alerts/:id',
+      'DELETE /api/alerts/:id',
+      'GET /api/screens',
+      'GET /api/screens/:id',
+      'POST /api/screens',
+      'PUT /api/screens/:id',
+      'DELETE /api/screens/:id',
+      'GET /api/screens/:id/runs?limit=',
+      'POST /api/screens/:id/run',
+      'POST /api/replay',
+      'GET /api/replay',
+      'GET /api/replay/:id',
+      'POST /api/replay/:id/pause',
+      'POST /api/replay/:id/resume',
+      'POST /api/replay/:id/seek',
+      'POST /api/replay/:id/speed',
+      'DELETE /api/replay/:id',
     ],
   });
 });
@@ -96,10 +152,12 @@ app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
 
 // Initialize database and start server
 async function startServer() {
+  let dbConnected = false;
+
   try {
     // Test database connection
     console.log('Testing database connection...');
-    const dbConnected = await checkDatabaseConnection();
+    dbConnected = await checkDatabaseConnection();
     
     if (dbConnected) {
       console.log('✅ Database connection successful');
@@ -108,6 +166,12 @@ async function startServer() {
       console.log('Initializing database schema...');
       await initializeDatabase();
       console.log('✅ Database schema initialized');
+
+      // Keep market cap and valuation data fresh for the screener
+      scheduleFundamentalsRefresh();
+
+      // Update technical metrics after the close, then run saved screens
+      scheduleDailyMetricsUpdate();
     } else {
       console.warn('⚠️  Database connection failed - stock list features will not be available');
       console.warn('Please ensure PostgreSQL is running and DATABASE_URL is configured in .env');
@@ -123,11 +187,17 @@ async function startServer() {
   // Initialize WebSocket server
   console.log('Initializing WebSocket server...');
   websocketService.initialize(server);
+  websocketService.setReplaySessionLookup((sessionId, userId) => replayService.getSession(sessionId, userId));
 
   // Start real-time price service
   console.log('Starting real-time price service...');
   await realtimePriceService.start();
 
+  // Price alerts are stored in the database
+  if (dbConnected) {
+    await alertEvaluatorService.start();
+  }
+
   // Start the HTTP server with WebSocket support
   server.listen(PORT, () => {
     console.log(`Server is running on port ${PORT}`);
@@ -141,7 +211,13 @@ async function startServer() {
     console.log('\nReceived shutdown signal, closing gracefully...');
     
     // Stop real-time price service
-    realtimePriceService.stop();
+    alertEvaluatorService.stop();
+    await realtimePriceService.stop();
+    replayService.stopAll();
+
+    // Stop scheduled jobs
+    stopFundamentalsRefresh();
+    stopDailyMetricsUpdate();
     
     // Close WebSocket connections
     websocketService.shutdown();
@@ -1,17 +1,26 @@
-import cron from 'node-cron';
+import cron, { ScheduledTask } from 'node-cron';
 import { updateAllStockMetrics } from '../services/metricsUpdateService.js';
+import { runAllSavedScreens } from '../services/screenRunService.js';
+import { MARKET_TIME_ZONE, getExchangeDate, isTradingDay } from '../utils/marketCalendar.js';
+
+let job: ScheduledTask | null = null;
 
 /**
- * Daily job to update technical metrics for all stocks
+ * Daily job to update technical metrics for all stocks, then run users' saved
+ * screens against them
  * Scheduled to run at 7:00 PM ET (after market close at 4:00 PM ET + 3 hours)
- * 
- * Cron schedule: "0 19 * * 1-5" = Every weekday at 7:00 PM
- * Note: Adjust timezone in your system if needed
+ *
+ * Cron schedule: "0 19 * * 1-5" = Every weekday at 7:00 PM, America/New_York
+ * Exchange holidays are skipped since no new daily bar exists
  */
 export function scheduleDailyMetricsUpdate(): void {
-  // Schedule job for weekdays at 7:00 PM
-  // Export the job reference to prevent it from being garbage collected
-  const job = cron.schedule('0 19 * * 1-5', async () => {
+  job = cron.schedule('0 19 * * 1-5', async () => {
+    const today = getExchangeDate();
+    if (!isTradingDay(today)) {
+      console.log(`Skipping daily metrics update: market closed on ${today}`);
+      return;
+    }
+
     console.log('\n=== Daily Metrics Update Job Started ===');
     console.log(`Time: ${new Date().toISOString()}`);
 
@@ -23,15 +32,16 @@ export function scheduleDailyMetricsUpdate(): void {
       console.log('\n=== Daily Metrics Update Job Completed ===');
       console.log(`Successful: ${result.successful}`);
       console.log(`Failed: ${result.failed}`);
+
+      // Diff each saved screen against its last run and notify its user
+      const screens = await runAllSavedScreens();
+      console.log(`Saved screens run: ${screens.successful} of ${screens.total} (${screens.changed} changed, ${screens.failed} failed)`);
     } catch (error) {
       console.error('Daily metrics update job failed:', error);
     }
-  });
-
-  // Keep reference to prevent garbage collection
-  void job;
+  }, { timezone: MARKET_TIME_ZONE });
 
-  console.log('Daily metrics update job scheduled (7:00 PM ET on weekdays)');
+  console.log('Daily metrics update job scheduled (7:00 PM ET on trading days)');
   console.log('Note: Job will update 25 stocks per day due to API rate limits');
 }
 
@@ -39,7 +49,8 @@ export function scheduleDailyMetricsUpdate(): void {
  * Stop the scheduled job (for cleanup)
  */
 export function stopDailyMetricsUpdate(): void {
-  cron.getTasks().forEach((task) => task.stop());
+  job?.stop();
+  job = null;
   console.log('Daily metrics update job stopped');
 }
 
@@ -0,0 +1,41 @@
+import cron, { ScheduledTask } from 'node-cron';
+import { refreshStaleFundamentals } from '../services/fundamentalsService.js';
+
+let job: ScheduledTask | null = null;
+
+/**
+ * Weekend job to refresh company fundamentals (market cap, P/E, dividend yield, ...)
+ * Runs at 8:00 AM on Saturdays and Sundays so it doesn't compete with the
+ * weekday metrics job for the provider's daily request quota
+ *
+ * Cron schedule: "0 8 * * 0,6" = Every Saturday and Sunday at 8:00 AM
+ * Note: Adjust timezone in your system if needed
+ */
+export function scheduleFundamentalsRefresh(): void {
+  job = cron.schedule('0 8 * * 0,6', async () => {
+    console.log('\n=== Fundamentals Refresh Job Started ===');
+    console.log(`Time: ${new Date().toISOString()}`);
+
+    try {
+      // Stalest stocks first; 25 per run respects the free tier's daily limit
+      const result = await refreshStaleFundamentals(25);
+
+      console.log('\n=== Fundamentals Refresh Job Completed ===');
+      console.log(`Successful: ${result.successful}`);
+      console.log(`Failed: ${result.failed}`);
+    } catch (error) {
+      console.error('Fundamentals refresh job failed:', error);
+    }
+  });
+
+  console.log('Fundamentals refresh job scheduled (8:00 AM on weekends)');
+}
+
+/**
+ * Stop the scheduled job (for cleanup)
+ */
+export function stopFundamentalsRefresh(): void {
+  job?.stop();
+  job = null;
+  console.log('Fundamentals refresh job stopped');
+}
@@ -103,3 +103,29 @@ export function optionalAuthentication(
     next();
   }
 }
+
+/**
+ * Middleware restricting a route to admins
+ * Must run after authenticateToken; admins are the users whose email is
+ * listed in ADMIN_EMAILS (comma-separated)
+ */
+export function requireAdmin(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void {
+  const adminEmails = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map((email) => email.trim().toLowerCase())
+    .filter((email) => email.length > 0);
+
+  if (!req.user || !adminEmails.includes(req.user.email.toLowerCase())) {
+    res.status(403).json({
+      error: 'Forbidden',
+      message: 'Admin access required',
+    });
+    return;
+  }
+
+  next();
+}
@@ -0,0 +1,47 @@
+-- Migration 007: Create OHLCV Bar Store
+-- Purpose: Persist price history so charts survive cache expiry and API quota limits
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- TABLE: ohlcv_bars
+-- Purpose: Store OHLCV bars per symbol and interval
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ohlcv_bars (
+  symbol VARCHAR(20) NOT NULL,
+  interval VARCHAR(10) NOT NULL,
+  ts TIMESTAMPTZ NOT NULL,
+  open NUMERIC(18,6) NOT NULL,
+  high NUMERIC(18,6) NOT NULL,
+  low NUMERIC(18,6) NOT NULL,
+  close NUMERIC(18,6) NOT NULL,
+  volume BIGINT NOT NULL DEFAULT 0,
+  CONSTRAINT pk_ohlcv_bars PRIMARY KEY (symbol, interval, ts)
+);
+
+-- Index for "latest N bars" reads (primary key covers ascending scans)
+CREATE INDEX IF NOT EXISTS idx_ohlcv_bars_latest ON ohlcv_bars(symbol, interval, ts DESC);
+
+COMMENT ON TABLE ohlcv_bars IS 'Persistent price history filled from the market data provider';
+COMMENT ON COLUMN ohlcv_bars.interval IS 'daily or an intraday interval (1min, 5min, 15min, 30min, 60min)';
+COMMENT ON COLUMN ohlcv_bars.ts IS 'Bar open time; daily bars use midnight UTC of the trading date';
+
+-- ============================================================================
+-- TABLE: ohlcv_sync_state
+-- Purpose: Track when each symbol/interval was last synced with the provider
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ohlcv_sync_state (
+  symbol VARCHAR(20) NOT NULL,
+  interval VARCHAR(10) NOT NULL,
+  has_full_history BOOLEAN NOT NULL DEFAULT FALSE,
+  last_synced_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT pk_ohlcv_sync_state PRIMARY KEY (symbol, interval)
+);
+
+COMMENT ON TABLE ohlcv_sync_state IS 'Backfill bookkeeping for ohlcv_bars';
+COMMENT ON COLUMN ohlcv_sync_state.has_full_history IS 'TRUE once the full provider history has been stored, not just the latest bars';
+
+-- ============================================================================
+-- END OF MIGRATION 007
+-- ============================================================================
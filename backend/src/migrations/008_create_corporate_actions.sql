@@ -0,0 +1,35 @@
+-- Migration 008: Create Corporate Actions
+-- Purpose: Store splits and dividends so price series can be adjusted
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- TABLE: corporate_actions
+-- Purpose: Split factors and cash dividends per symbol, keyed by ex-date
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS corporate_actions (
+  symbol VARCHAR(20) NOT NULL,
+  ex_date DATE NOT NULL,
+  action_type VARCHAR(10) NOT NULL CHECK (action_type IN ('split', 'dividend')),
+  value NUMERIC(18,8) NOT NULL,
+  CONSTRAINT pk_corporate_actions PRIMARY KEY (symbol, ex_date, action_type)
+);
+
+COMMENT ON TABLE corporate_actions IS 'Splits and dividends used to build adjusted price series';
+COMMENT ON COLUMN corporate_actions.value IS 'split: shares after / shares before; dividend: cash amount per share';
+
+-- ============================================================================
+-- TABLE: corporate_actions_sync_state
+-- Purpose: Track when each symbol's corporate actions were last fetched
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS corporate_actions_sync_state (
+  symbol VARCHAR(20) PRIMARY KEY,
+  last_synced_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+COMMENT ON TABLE corporate_actions_sync_state IS 'Refresh bookkeeping for corporate_actions';
+
+-- ============================================================================
+-- END OF MIGRATION 008
+-- ============================================================================
@@ -0,0 +1,23 @@
+-- Migration 009: Widen Symbol Columns
+-- Purpose: Fit canonical symbols with share classes and exchange suffixes (BRK.B, BAC-PL, BRK.B.TO)
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- TABLE: stocks
+-- Purpose: Allow canonical symbols up to 20 characters
+-- ============================================================================
+
+ALTER TABLE IF EXISTS stocks ALTER COLUMN symbol TYPE VARCHAR(20);
+
+-- ============================================================================
+-- TABLE: user_watchlists
+-- Purpose: Allow canonical symbols up to 20 characters
+-- ============================================================================
+
+ALTER TABLE user_watchlists ALTER COLUMN stock_symbol TYPE VARCHAR(20);
+
+COMMENT ON COLUMN user_watchlists.stock_symbol IS 'Canonical symbol, e.g. AAPL, BRK.B, SHOP.TO';
+
+-- ============================================================================
+-- END OF MIGRATION 009
+-- ============================================================================
@@ -0,0 +1,36 @@
+-- Migration 010: Create Stock Fundamentals
+-- Purpose: Store valuation, growth and income fundamentals for screening
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- TABLE: stock_fundamentals
+-- Purpose: Latest fundamentals per symbol, refreshed on a schedule
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS stock_fundamentals (
+  symbol VARCHAR(20) PRIMARY KEY,
+  industry VARCHAR(255),
+  pe_ratio NUMERIC(12,2),
+  eps NUMERIC(12,4),
+  eps_growth NUMERIC(10,2),
+  dividend_yield NUMERIC(8,2),
+  beta NUMERIC(8,3),
+  profit_margin NUMERIC(10,2),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Indexes for screener filters
+CREATE INDEX IF NOT EXISTS idx_fundamentals_pe_ratio ON stock_fundamentals(pe_ratio);
+CREATE INDEX IF NOT EXISTS idx_fundamentals_dividend_yield ON stock_fundamentals(dividend_yield);
+
+-- Index for picking the stalest rows to refresh
+CREATE INDEX IF NOT EXISTS idx_fundamentals_updated_at ON stock_fundamentals(updated_at);
+
+COMMENT ON TABLE stock_fundamentals IS 'Company fundamentals from the market data provider (market cap is kept on stocks)';
+COMMENT ON COLUMN stock_fundamentals.eps_growth IS 'Quarterly EPS growth year over year, in percent';
+COMMENT ON COLUMN stock_fundamentals.dividend_yield IS 'Trailing twelve month dividend yield, in percent';
+COMMENT ON COLUMN stock_fundamentals.profit_margin IS 'Trailing twelve month profit margin, in percent';
+
+-- ============================================================================
+-- END OF MIGRATION 010
+-- ============================================================================
@@ -0,0 +1,39 @@
+-- Migration 011: Create Earnings Events
+-- Purpose: Store earnings report dates with EPS estimates and actuals
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- TABLE: earnings_events
+-- Purpose: Reported and scheduled quarterly earnings per symbol
+-- (ex-dividend dates are served from corporate_actions)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS earnings_events (
+  symbol VARCHAR(20) NOT NULL,
+  report_date DATE NOT NULL,
+  fiscal_date_ending DATE,
+  eps_estimate NUMERIC(12,4),
+  eps_actual NUMERIC(12,4),
+  CONSTRAINT pk_earnings_events PRIMARY KEY (symbol, report_date)
+);
+
+-- Index for "next earnings" lookups across a watchlist
+CREATE INDEX IF NOT EXISTS idx_earnings_events_report_date ON earnings_events(report_date);
+
+COMMENT ON TABLE earnings_events IS 'Quarterly earnings reports; eps_actual is NULL for scheduled reports';
+
+-- ============================================================================
+-- TABLE: earnings_sync_state
+-- Purpose: Track when each symbol's earnings were last fetched
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS earnings_sync_state (
+  symbol VARCHAR(20) PRIMARY KEY,
+  last_synced_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+COMMENT ON TABLE earnings_sync_state IS 'Refresh bookkeeping for earnings_events';
+
+-- ============================================================================
+-- END OF MIGRATION 011
+-- ============================================================================
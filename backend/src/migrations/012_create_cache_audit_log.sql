@@ -0,0 +1,29 @@
+-- Migration 012: Create Cache Audit Log
+-- Purpose: Record who invalidated which cache entries through the admin API
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- TABLE: cache_audit_log
+-- Purpose: One row per cache invalidation (by symbol, by pattern or everything)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS cache_audit_log (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  user_email VARCHAR(255) NOT NULL,
+  action VARCHAR(20) NOT NULL,
+  target TEXT,
+  keys_deleted INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT chk_cache_audit_action CHECK (action IN ('symbol', 'pattern', 'all'))
+);
+
+-- Index for listing the most recent entries
+CREATE INDEX IF NOT EXISTS idx_cache_audit_log_created_at ON cache_audit_log(created_at DESC);
+
+COMMENT ON TABLE cache_audit_log IS 'Cache invalidations made through /api/admin/cache';
+COMMENT ON COLUMN cache_audit_log.user_email IS 'Kept so entries stay readable after the user is deleted';
+
+-- ============================================================================
+-- END OF MIGRATION 012
+-- ============================================================================
@@ -0,0 +1,25 @@
+-- Migration 013: Track Stored Intraday Months
+-- Purpose: Remember which past months of intraday history are already in ohlcv_bars
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- TABLE: ohlcv_intraday_months
+-- Purpose: One row per symbol/interval/month fetched with the provider's month parameter
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ohlcv_intraday_months (
+  symbol VARCHAR(20) NOT NULL,
+  interval VARCHAR(10) NOT NULL,
+  month CHAR(7) NOT NULL,
+  complete BOOLEAN NOT NULL DEFAULT FALSE,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT pk_ohlcv_intraday_months PRIMARY KEY (symbol, interval, month)
+);
+
+COMMENT ON TABLE ohlcv_intraday_months IS 'Intraday history months backfilled into ohlcv_bars';
+COMMENT ON COLUMN ohlcv_intraday_months.month IS 'YYYY-MM, in exchange time';
+COMMENT ON COLUMN ohlcv_intraday_months.complete IS 'TRUE when fetched after the month ended, so the stored bars are final';
+
+-- ============================================================================
+-- END OF MIGRATION 013
+-- ============================================================================
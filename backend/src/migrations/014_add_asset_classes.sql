@@ -0,0 +1,40 @@
+-- Migration 014: Add Asset Classes
+-- Purpose: Store crypto and fx pairs alongside equities, with prices beyond 2 decimals
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- TABLE: stocks
+-- Purpose: Record each instrument's asset class (existing rows are equities)
+-- ============================================================================
+
+ALTER TABLE IF EXISTS stocks ADD COLUMN IF NOT EXISTS asset_class VARCHAR(10) NOT NULL DEFAULT 'equity';
+
+ALTER TABLE IF EXISTS stocks DROP CONSTRAINT IF EXISTS chk_stocks_asset_class;
+ALTER TABLE IF EXISTS stocks ADD CONSTRAINT chk_stocks_asset_class
+  CHECK (asset_class IN ('equity', 'crypto', 'fx'));
+
+CREATE INDEX IF NOT EXISTS idx_stocks_asset_class ON stocks(asset_class);
+
+COMMENT ON COLUMN stocks.asset_class IS 'equity, crypto or fx; pairs use BASE-QUOTE symbols, e.g. BTC-USD, EUR-USD';
+
+-- ============================================================================
+-- TABLE: stock_metrics
+-- Purpose: Keep sub-cent closes (fx pips, low-priced crypto)
+-- ============================================================================
+
+ALTER TABLE IF EXISTS stock_metrics ALTER COLUMN close_price TYPE NUMERIC(20,8);
+
+-- ============================================================================
+-- TABLE: ohlcv_bars
+-- Purpose: Keep 8 decimals for low-priced crypto
+-- ============================================================================
+
+ALTER TABLE ohlcv_bars
+  ALTER COLUMN open TYPE NUMERIC(20,8),
+  ALTER COLUMN high TYPE NUMERIC(20,8),
+  ALTER COLUMN low TYPE NUMERIC(20,8),
+  ALTER COLUMN close TYPE NUMERIC(20,8);
+
+-- ============================================================================
+-- END OF MIGRATION 014
+-- ============================================================================
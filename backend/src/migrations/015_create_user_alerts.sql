@@ -0,0 +1,69 @@
+-- Migration 015: Create User Alerts
+-- Purpose: Price alerts evaluated against the real-time feed, with a history of triggers
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- TABLE: user_alerts
+-- Purpose: A user's price alerts; each fires once, then waits to be re-armed
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS user_alerts (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  symbol VARCHAR(20) NOT NULL,
+  condition VARCHAR(20) NOT NULL,
+  target NUMERIC(20,8) NOT NULL,
+  rearm BOOLEAN NOT NULL DEFAULT FALSE,
+  note VARCHAR(200),
+  status VARCHAR(10) NOT NULL DEFAULT 'active',
+  trigger_count INTEGER NOT NULL DEFAULT 0,
+  last_triggered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT chk_user_alerts_condition
+    CHECK (condition IN ('price_above', 'price_below', 'percent_change', 'crosses')),
+  CONSTRAINT chk_user_alerts_status CHECK (status IN ('active', 'triggered'))
+);
+
+-- Index for listing a user's alerts
+CREATE INDEX IF NOT EXISTS idx_user_alerts_user_id ON user_alerts(user_id);
+
+-- Index for loading the alerts the evaluator watches
+CREATE INDEX IF NOT EXISTS idx_user_alerts_status ON user_alerts(status);
+
+COMMENT ON TABLE user_alerts IS 'Price alerts checked against every real-time price update';
+COMMENT ON COLUMN user_alerts.target IS 'Price level, or day change in percent for percent_change (negative for a drop)';
+COMMENT ON COLUMN user_alerts.rearm IS 'Return to active once the condition no longer holds, instead of staying triggered';
+
+DROP TRIGGER IF EXISTS update_user_alerts_updated_at ON user_alerts;
+CREATE TRIGGER update_user_alerts_updated_at
+  BEFORE UPDATE ON user_alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- TABLE: user_alert_history
+-- Purpose: One row per alert trigger, kept after the alert is deleted
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS user_alert_history (
+  id SERIAL PRIMARY KEY,
+  alert_id INTEGER REFERENCES user_alerts(id) ON DELETE SET NULL,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  symbol VARCHAR(20) NOT NULL,
+  condition VARCHAR(20) NOT NULL,
+  target NUMERIC(20,8) NOT NULL,
+  price NUMERIC(20,8) NOT NULL,
+  change_percent NUMERIC(12,4),
+  triggered_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Index for a user's most recent triggers
+CREATE INDEX IF NOT EXISTS idx_user_alert_history_user_triggered
+  ON user_alert_history(user_id, triggered_at DESC);
+
+COMMENT ON TABLE user_alert_history IS 'Alert triggers, with the price that fired them';
+
+-- ============================================================================
+-- END OF MIGRATION 015
+-- ============================================================================
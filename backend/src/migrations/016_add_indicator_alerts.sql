@@ -0,0 +1,49 @@
+-- Migration 016: Add Indicator Alerts
+-- Purpose: Alerts on indicator rules (e.g. RSI(14) crosses below 30) checked when a bar closes,
+--          with the indicator values recorded at each trigger
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- TABLE: user_alerts
+-- Purpose: Indicator alerts have a timeframe and rule instead of a target
+-- ============================================================================
+
+ALTER TABLE user_alerts ALTER COLUMN target DROP NOT NULL;
+ALTER TABLE user_alerts ADD COLUMN IF NOT EXISTS timeframe VARCHAR(10);
+ALTER TABLE user_alerts ADD COLUMN IF NOT EXISTS rule JSONB;
+
+ALTER TABLE user_alerts DROP CONSTRAINT IF EXISTS chk_user_alerts_condition;
+ALTER TABLE user_alerts ADD CONSTRAINT chk_user_alerts_condition
+  CHECK (condition IN ('price_above', 'price_below', 'percent_change', 'crosses', 'indicator'));
+
+ALTER TABLE user_alerts DROP CONSTRAINT IF EXISTS chk_user_alerts_timeframe;
+ALTER TABLE user_alerts ADD CONSTRAINT chk_user_alerts_timeframe
+  CHECK (timeframe IS NULL OR timeframe IN ('15min', '1hour', 'daily'));
+
+ALTER TABLE user_alerts DROP CONSTRAINT IF EXISTS chk_user_alerts_indicator;
+ALTER TABLE user_alerts ADD CONSTRAINT chk_user_alerts_indicator
+  CHECK (CASE WHEN condition = 'indicator'
+              THEN target IS NULL AND timeframe IS NOT NULL AND rule IS NOT NULL
+              ELSE target IS NOT NULL AND timeframe IS NULL AND rule IS NULL END);
+
+COMMENT ON COLUMN user_alerts.target IS 'Price level, or day change in percent for percent_change (negative for a drop); NULL for indicator alerts';
+COMMENT ON COLUMN user_alerts.timeframe IS 'Indicator alerts: chart timeframe whose bar close triggers the check (15min, 1hour or daily)';
+COMMENT ON COLUMN user_alerts.rule IS 'Indicator alerts: {left, comparison, right}, e.g. {"left": {"indicator": "rsi", "period": 14}, "comparison": "crosses_below", "right": 30}';
+
+-- ============================================================================
+-- TABLE: user_alert_history
+-- Purpose: Keep the rule and the indicator values at the closed bar
+-- ============================================================================
+
+ALTER TABLE user_alert_history ALTER COLUMN target DROP NOT NULL;
+ALTER TABLE user_alert_history ADD COLUMN IF NOT EXISTS timeframe VARCHAR(10);
+ALTER TABLE user_alert_history ADD COLUMN IF NOT EXISTS rule JSONB;
+ALTER TABLE user_alert_history ADD COLUMN IF NOT EXISTS indicator_values JSONB;
+ALTER TABLE user_alert_history ADD COLUMN IF NOT EXISTS bar_time TIMESTAMPTZ;
+
+COMMENT ON COLUMN user_alert_history.indicator_values IS 'Indicator alerts: values at the closed bar by label, e.g. {"RSI(14)": 28.4, "Close": 181.2}';
+COMMENT ON COLUMN user_alert_history.bar_time IS 'Indicator alerts: open time of the bar whose close fired the alert';
+
+-- ============================================================================
+-- END OF MIGRATION 016
+-- ============================================================================
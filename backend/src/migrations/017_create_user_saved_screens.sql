@@ -0,0 +1,69 @@
+-- Migration 017: Create User Saved Screens
+-- Purpose: Screener filters saved per user, run after each metrics update with a history of results
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- TABLE: user_saved_screens
+-- Purpose: A user's saved screener filters and display settings
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS user_saved_screens (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  display JSONB NOT NULL DEFAULT '{}'::jsonb,
+  notify BOOLEAN NOT NULL DEFAULT TRUE,
+  filters_updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  last_run_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT uq_user_saved_screens_name UNIQUE (user_id, name)
+);
+
+-- Index for listing a user's screens
+CREATE INDEX IF NOT EXISTS idx_user_saved_screens_user_id ON user_saved_screens(user_id);
+
+COMMENT ON TABLE user_saved_screens IS 'Saved screener filters, run after each metrics update';
+COMMENT ON COLUMN user_saved_screens.filters IS 'Stock list filters (StockListFilters without paging), e.g. {"rsiMax": 30, "sectors": ["Technology"]}';
+COMMENT ON COLUMN user_saved_screens.display IS 'Screener display settings, e.g. {"sort": {"field": "market_cap", "direction": "desc"}, "pageSize": 25}';
+COMMENT ON COLUMN user_saved_screens.notify IS 'Send the user symbols that entered or left the screen after each run';
+COMMENT ON COLUMN user_saved_screens.filters_updated_at IS 'Runs before this used other filters, so the next run starts a new baseline';
+
+DROP TRIGGER IF EXISTS update_user_saved_screens_updated_at ON user_saved_screens;
+CREATE TRIGGER update_user_saved_screens_updated_at
+  BEFORE UPDATE ON user_saved_screens
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- TABLE: user_screen_runs
+-- Purpose: Result set of each screen run, with the symbols that entered or left since the run before
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS user_screen_runs (
+  id SERIAL PRIMARY KEY,
+  screen_id INTEGER NOT NULL REFERENCES user_saved_screens(id) ON DELETE CASCADE,
+  previous_run_id INTEGER,
+  symbols TEXT[] NOT NULL,
+  entered TEXT[] NOT NULL DEFAULT '{}',
+  exited TEXT[] NOT NULL DEFAULT '{}',
+  run_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Index for a screen's most recent runs
+CREATE INDEX IF NOT EXISTS idx_user_screen_runs_screen_run_at
+  ON user_screen_runs(screen_id, run_at DESC);
+
+-- Each run follows a single one, so when several nodes run a screen at once only one records it
+CREATE UNIQUE INDEX IF NOT EXISTS uq_user_screen_runs_previous_run_id
+  ON user_screen_runs(previous_run_id);
+CREATE UNIQUE INDEX IF NOT EXISTS uq_user_screen_runs_first_run
+  ON user_screen_runs(screen_id) WHERE previous_run_id IS NULL;
+
+COMMENT ON TABLE user_screen_runs IS 'Saved screen results over time';
+COMMENT ON COLUMN user_screen_runs.previous_run_id IS 'Run the entered and exited symbols are relative to (NULL for the first run)';
+
+-- ============================================================================
+-- END OF MIGRATION 017
+-- ============================================================================
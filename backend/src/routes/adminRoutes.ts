@@ -0,0 +1,174 @@
+import { Router, Response } from 'express';
+import {
+  getCacheOverview,
+  inspectCacheKey,
+  invalidateSymbol,
+  invalidatePattern,
+  invalidateAll,
+  getCacheAuditLog,
+} from '../services/cacheAdminService.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.js';
+import { AuthenticatedRequest } from '../types/auth.js';
+import { normalizeSymbol } from '../utils/symbol.js';
+
+const router = Router();
+
+// Key patterns: key characters plus the * and ? wildcards
+const PATTERN_REGEX = /^[A-Za-z0-9:._\-*?]{1,200}$/;
+const DEFAULT_AUDIT_LIMIT = 50;
+const MAX_AUDIT_LIMIT = 500;
+
+// Every admin route requires an authenticated admin (see ADMIN_EMAILS)
+router.use(authenticateToken, requireAdmin);
+
+/**
+ * GET /api/admin/cache
+ * Cache tiers with hit/miss counters and key counts per namespace
+ */
+router.get('/cache', async (_req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    res.json(await getCacheOverview());
+  } catch (error: unknown) {
+    console.error('Get cache overview error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get cache overview',
+    });
+  }
+});
+
+/**
+ * GET /api/admin/cache/key?key=stock:daily:AAPL:compact:raw
+ * Where a key is cached, its age and its TTL
+ */
+router.get('/cache/key', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const key = req.query.key as string | undefined;
+
+    if (!key) {
+      res.status(400).json({
+        error: 'Missing Parameter',
+        message: 'key parameter is required',
+      });
+      return;
+    }
+
+    const details = await inspectCacheKey(key);
+    if (!details) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Key ${key} is not cached`,
+      });
+      return;
+    }
+
+    res.json(details);
+  } catch (error: unknown) {
+    console.error('Inspect cache key error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to inspect cache key',
+    });
+  }
+});
+
+/**
+ * DELETE /api/admin/cache/symbols/:symbol
+ * Invalidate every cached bar, corporate action, event and metrics entry for a symbol
+ */
+router.delete('/cache/symbols/:symbol', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const symbol = normalizeSymbol(req.params.symbol);
+
+    if (!symbol) {
+      res.status(400).json({
+        error: 'Invalid Symbol',
+        message: 'Please provide a valid symbol (e.g., AAPL, BRK.B, SHOP.TO, BTC-USD, EUR/USD)',
+      });
+      return;
+    }
+
+    res.json(await invalidateSymbol(symbol, req.user!));
+  } catch (error: unknown) {
+    console.error('Invalidate symbol cache error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to invalidate cache',
+    });
+  }
+});
+
+/**
+ * DELETE /api/admin/cache/keys?pattern=screener:*
+ * Invalidate every key matching a pattern (* and ? wildcards)
+ */
+router.delete('/cache/keys', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const pattern = req.query.pattern as string | undefined;
+
+    if (!pattern || !PATTERN_REGEX.test(pattern) || /^[*?]+$/.test(pattern)) {
+      res.status(400).json({
+        error: 'Invalid Pattern',
+        message:
+          'pattern must be a cache key pattern using letters, digits, : . _ - and the * ? wildcards ' +
+          '(use DELETE /api/admin/cache to clear everything)',
+      });
+      return;
+    }
+
+    res.json(await invalidatePattern(pattern, req.user!));
+  } catch (error: unknown) {
+    console.error('Invalidate cache pattern error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to invalidate cache',
+    });
+  }
+});
+
+/**
+ * DELETE /api/admin/cache
+ * Clear both cache tiers
+ */
+router.delete('/cache', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    res.json(await invalidateAll(req.user!));
+  } catch (error: unknown) {
+    console.error('Clear cache error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to clear cache',
+    });
+  }
+});
+
+/**
+ * GET /api/admin/cache/audit?limit=50
+ * Most recent cache invalidations
+ * Query params (optional):
+ *   - limit: Number of entries (default: 50, max: 500)
+ */
+router.get('/cache/audit', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const limitParam = req.query.limit as string | undefined;
+    const limit = limitParam !== undefined ? parseInt(limitParam, 10) : DEFAULT_AUDIT_LIMIT;
+
+    if (isNaN(limit) || limit < 1 || limit > MAX_AUDIT_LIMIT) {
+      res.status(400).json({
+        error: 'Invalid Parameter',
+        message: `limit must be between 1 and ${MAX_AUDIT_LIMIT}`,
+      });
+      return;
+    }
+
+    res.json({ entries: await getCacheAuditLog(limit) });
+  } catch (error: unknown) {
+    console.error('Get cache audit log error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get cache audit log',
+    });
+  }
+});
+
+export default router;
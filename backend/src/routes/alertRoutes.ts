@@ -0,0 +1,299 @@
+import { Router, Response } from 'express';
+import {
+  getUserAlerts,
+  createAlert,
+  updateAlert,
+  deleteAlert,
+  getAlertHistory,
+  AlertLimitError,
+  ALERT_CONDITIONS,
+} from '../services/alertService.js';
+import { alertEvaluatorService } from '../services/alertEvaluatorService.js';
+import {
+  INDICATOR_ALERT_TIMEFRAMES,
+  normalizeIndicatorRule,
+  validateIndicatorRule,
+} from '../services/indicatorAlertService.js';
+import { authenticateToken } from '../middleware/auth.js';
+import { AuthenticatedRequest } from '../types/auth.js';
+import { AlertCondition, IndicatorAlertTimeframe, IndicatorRule, UpdateAlertInput } from '../types/alerts.js';
+import { normalizeSymbol } from '../utils/symbol.js';
+
+const router = Router();
+
+const MAX_NOTE_LENGTH = 200;
+const DEFAULT_HISTORY_LIMIT = 50;
+const MAX_HISTORY_LIMIT = 500;
+
+// Every alert route acts on the signed-in user's alerts
+router.use(authenticateToken);
+
+/**
+ * Validate an alert's condition with its target, or with its timeframe and
+ * rule for indicator alerts
+ * @returns Error message, or null when they are valid
+ */
+function validateCondition(condition: unknown, target: unknown, timeframe: unknown, rule: unknown): string | null {
+  if (!ALERT_CONDITIONS.includes(condition as AlertCondition)) {
+    return `condition must be one of: ${ALERT_CONDITIONS.join(', ')}`;
+  }
+  if (condition === 'indicator') {
+    if (target !== undefined && target !== null) {
+      return 'indicator alerts take a timeframe and rule instead of a target';
+    }
+    if (!(typeof timeframe === 'string' && Object.hasOwn(INDICATOR_ALERT_TIMEFRAMES, timeframe))) {
+      return `timeframe must be one of: ${Object.keys(INDICATOR_ALERT_TIMEFRAMES).join(', ')}`;
+    }
+    return validateIndicatorRule(rule);
+  }
+  if (timeframe !== undefined || rule !== undefined) {
+    return 'timeframe and rule are only for indicator alerts';
+  }
+  if (typeof target !== 'number' || !Number.isFinite(target)) {
+    return 'target must be a number';
+  }
+  if (condition === 'percent_change') {
+    return target !== 0 ? null : 'target must be a non-zero percent change (e.g. 5, or -5 for a drop)';
+  }
+  return target > 0 ? null : 'target must be a price above 0';
+}
+
+function validateNote(note: unknown): string | null {
+  if (note === undefined || note === null) {
+    return null;
+  }
+  return typeof note === 'string' && note.length <= MAX_NOTE_LENGTH
+    ? null
+    : `note must be a string of at most ${MAX_NOTE_LENGTH} characters`;
+}
+
+function parseAlertId(id: string): number | null {
+  const alertId = parseInt(id, 10);
+  return /^\d+$/.test(id) && alertId > 0 ? alertId : null;
+}
+
+/**
+ * GET /api/alerts
+ * The user's alerts, newest first
+ */
+router.get('/', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    res.json({ alerts: await getUserAlerts(req.user!.userId) });
+  } catch (error: unknown) {
+    console.error('Get alerts error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get alerts',
+    });
+  }
+});
+
+/**
+ * GET /api/alerts/history?limit=50
+ * The user's most recent alert triggers
+ */
+router.get('/history', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const limitParam = req.query.limit as string | undefined;
+    const limit = limitParam !== undefined ? parseInt(limitParam, 10) : DEFAULT_HISTORY_LIMIT;
+
+    if (isNaN(limit) || limit < 1 || limit > MAX_HISTORY_LIMIT) {
+      res.status(400).json({
+        error: 'Invalid Parameter',
+        message: `limit must be between 1 and ${MAX_HISTORY_LIMIT}`,
+      });
+      return;
+    }
+
+    res.json({ history: await getAlertHistory(req.user!.userId, limit) });
+  } catch (error: unknown) {
+    console.error('Get alert history error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get alert history',
+    });
+  }
+});
+
+/**
+ * POST /api/alerts
+ * Create an alert
+ * Body:
+ *   - symbol: Symbol to watch (required)
+ *   - condition: price_above, price_below, percent_change, crosses or indicator (required)
+ *   - target: Price level, or day change in percent for percent_change (negative for a drop)
+ *     (required, except for indicator)
+ *   - timeframe: indicator only: 15min, 1hour or daily; the rule is checked when a bar closes (required)
+ *   - rule: indicator only: { left, comparison, right }, e.g.
+ *     { left: { indicator: 'rsi', period: 14 }, comparison: 'crosses_below', right: 30 } (required)
+ *   - rearm: Fire again each time the condition is met anew (default: false)
+ *   - note: Shown with the notification (optional)
+ */
+router.post('/', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { symbol: symbolParam, condition, target, timeframe, rule, rearm = false, note = null } = req.body ?? {};
+
+    const symbol = typeof symbolParam === 'string' ? normalizeSymbol(symbolParam) : null;
+    if (!symbol) {
+      res.status(400).json({
+        error: 'Invalid Symbol',
+        message: 'Please provide a valid symbol (e.g., AAPL, BRK.B, SHOP.TO, BTC-USD, EUR/USD)',
+      });
+      return;
+    }
+
+    const validationError =
+      validateCondition(condition, target, timeframe, rule) ??
+      (typeof rearm !== 'boolean' ? 'rearm must be a boolean' : null) ??
+      validateNote(note);
+    if (validationError) {
+      res.status(400).json({
+        error: 'Invalid Alert',
+        message: validationError,
+      });
+      return;
+    }
+
+    const isIndicator = condition === 'indicator';
+    const alert = await createAlert(req.user!.userId, {
+      symbol,
+      condition,
+      target: isIndicator ? null : target,
+      timeframe: isIndicator ? (timeframe as IndicatorAlertTimeframe) : null,
+      rule: isIndicator ? normalizeIndicatorRule(rule as IndicatorRule) : null,
+      rearm,
+      note: note || null,
+    });
+    alertEvaluatorService.trackAlert(alert);
+
+    res.status(201).json({ alert });
+  } catch (error: unknown) {
+    console.error('Create alert error:', error);
+
+    if (error instanceof AlertLimitError) {
+      res.status(409).json({
+        error: 'Alert Limit Reached',
+        message: error.message,
+      });
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to create alert',
+    });
+  }
+});
+
+/**
+ * PUT /api/alerts/:id
+ * Change an alert
+ * Body (all optional): condition, target, timeframe, rule, rearm, note, status: 'active' to re-arm a triggered alert
+ * A new condition comes with its target (or timeframe and rule, for indicator), which it replaces, and re-arms the alert.
+ */
+router.put('/:id', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const alertId = parseAlertId(req.params.id);
+    if (alertId === null) {
+      res.status(400).json({
+        error: 'Invalid Parameter',
+        message: 'Alert ID must be a positive integer',
+      });
+      return;
+    }
+
+    const { condition, target, timeframe, rule, rearm, note, status } = req.body ?? {};
+    const input: UpdateAlertInput = {};
+    let validationError: string | null = null;
+
+    if (condition !== undefined || target !== undefined || timeframe !== undefined || rule !== undefined) {
+      // Each is checked against the others, so they're changed together
+      validationError =
+        condition === undefined
+          ? 'condition must be given with its target (or timeframe and rule)'
+          : validateCondition(condition, target, timeframe, rule);
+      if (!validationError) {
+        const isIndicator = condition === 'indicator';
+        input.condition = condition;
+        input.target = isIndicator ? null : target;
+        input.timeframe = isIndicator ? timeframe : null;
+        input.rule = isIndicator ? normalizeIndicatorRule(rule) : null;
+      }
+    }
+    if (!validationError && rearm !== undefined) {
+      validationError = typeof rearm === 'boolean' ? null : 'rearm must be a boolean';
+      input.rearm = rearm;
+    }
+    if (!validationError && note !== undefined) {
+      validationError = validateNote(note);
+      input.note = note || null;
+    }
+    if (!validationError && status !== undefined) {
+      validationError = status === 'active' ? null : "status can only be set to 'active' (to re-arm the alert)";
+      input.status = status;
+    }
+
+    if (validationError) {
+      res.status(400).json({
+        error: 'Invalid Alert',
+        message: validationError,
+      });
+      return;
+    }
+
+    const alert = await updateAlert(req.user!.userId, alertId, input);
+    if (!alert) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Alert ${alertId} not found`,
+      });
+      return;
+    }
+    alertEvaluatorService.trackAlert(alert);
+
+    res.json({ alert });
+  } catch (error: unknown) {
+    console.error('Update alert error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update alert',
+    });
+  }
+});
+
+/**
+ * DELETE /api/alerts/:id
+ * Delete an alert (its trigger history is kept)
+ */
+router.delete('/:id', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const alertId = parseAlertId(req.params.id);
+    if (alertId === null) {
+      res.status(400).json({
+        error: 'Invalid Parameter',
+        message: 'Alert ID must be a positive integer',
+      });
+      return;
+    }
+
+    const deleted = await deleteAlert(req.user!.userId, alertId);
+    if (!deleted) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Alert ${alertId} not found`,
+      });
+      return;
+    }
+    alertEvaluatorService.untrackAlert(alertId);
+
+    res.json({ message: 'Alert deleted' });
+  } catch (error: unknown) {
+    console.error('Delete alert error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to delete alert',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,80 @@
+import { Router, Request, Response } from 'express';
+import {
+  MARKET_TIME_ZONE,
+  getMarketStatus,
+  getTradingDays,
+  getHoliday,
+  getExchangeDate,
+} from '../utils/marketCalendar.js';
+
+const router = Router();
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_CALENDAR_DAYS = 366;
+
+/**
+ * GET /api/market/status
+ * Current market session (pre, regular, post or closed) with the next open and close
+ */
+router.get('/status', (_req: Request, res: Response): void => {
+  res.json({
+    timeZone: MARKET_TIME_ZONE,
+    ...getMarketStatus(),
+  });
+});
+
+/**
+ * GET /api/market/calendar?from=2024-01-01&to=2024-01-31
+ * Trading days with pre/regular/post session windows, plus holidays in the range
+ * Query params (optional):
+ *   - from: Start date (YYYY-MM-DD, default: today)
+ *   - to: End date (YYYY-MM-DD, default: 30 days after from; at most 366 days after from)
+ */
+router.get('/calendar', (req: Request, res: Response): void => {
+  const fromParam = req.query.from as string | undefined;
+  const toParam = req.query.to as string | undefined;
+
+  for (const [name, value] of [['from', fromParam], ['to', toParam]] as const) {
+    if (value !== undefined && (!DATE_REGEX.test(value) || isNaN(Date.parse(value)))) {
+      res.status(400).json({
+        error: 'Invalid Date',
+        message: `${name} must be a date in YYYY-MM-DD format`,
+      });
+      return;
+    }
+  }
+
+  const from = fromParam ?? getExchangeDate();
+  const to = toParam ?? addDays(from, 30);
+  const days = (Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000);
+
+  if (days < 0 || days > MAX_CALENDAR_DAYS) {
+    res.status(400).json({
+      error: 'Invalid Range',
+      message: `to must be on or after from and at most ${MAX_CALENDAR_DAYS} days later`,
+    });
+    return;
+  }
+
+  const holidays: { date: string; name: string }[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    const name = getHoliday(date);
+    if (name) {
+      holidays.push({ date, name });
+    }
+  }
+
+  res.json({
+    timeZone: MARKET_TIME_ZONE,
+    from,
+    to,
+    tradingDays: getTradingDays(from, to),
+    holidays,
+  });
+});
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+}
+
+export default router;
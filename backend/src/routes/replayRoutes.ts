@@ -0,0 +1,263 @@
+import { Router, Response } from 'express';
+import {
+  replayService,
+  ReplayUnavailableError,
+  MIN_REPLAY_SPEED,
+  MAX_REPLAY_SPEED,
+} from '../services/replayService.js';
+import { INTRADAY_HISTORY_START_MONTH } from '../services/alphaVantageService.js';
+import {
+  SymbolNotFoundError,
+  QuotaExceededError,
+  RequestQueuedError,
+  ProviderUnavailableError,
+} from '../services/marketData/index.js';
+import { stockDataLimiter } from '../middleware/rateLimiter.js';
+import { authenticateToken } from '../middleware/auth.js';
+import { AuthenticatedRequest } from '../types/auth.js';
+import { normalizeSymbol, getAssetClass } from '../utils/symbol.js';
+import { getSessionDate } from '../utils/marketCalendar.js';
+import { IntradayInterval } from '../types/stock.js';
+import { ReplaySessionInfo } from '../types/replay.js';
+
+const router = Router();
+
+// Sessions belong to the user who created them
+router.use(authenticateToken);
+
+const VALID_INTERVALS: IntradayInterval[] = ['1min', '5min', '15min', '30min', '60min'];
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_SPEED = 10;
+
+/**
+ * Validate a replay speed
+ * @returns Error message, or null when the speed is valid
+ */
+function validateSpeed(speed: unknown): string | null {
+  if (typeof speed !== 'number' || !Number.isFinite(speed) || speed < MIN_REPLAY_SPEED || speed > MAX_REPLAY_SPEED) {
+    return `speed must be a number from ${MIN_REPLAY_SPEED} to ${MAX_REPLAY_SPEED} (e.g. 1, 10, 60)`;
+  }
+  return null;
+}
+
+function sendSessionNotFound(res: Response, id: string): void {
+  res.status(404).json({
+    error: 'Not Found',
+    message: `Replay session ${id} not found`,
+  });
+}
+
+function sendSession(res: Response, id: string, session: ReplaySessionInfo | null): void {
+  if (!session) {
+    sendSessionNotFound(res, id);
+    return;
+  }
+  res.json({ session });
+}
+
+/**
+ * POST /api/replay
+ * Start replaying a past trading day of a symbol over the WebSocket stream
+ * Body:
+ *   - symbol: Symbol to replay (required)
+ *   - date: Trading date (YYYY-MM-DD, required)
+ *   - speed: Playback speed, 1 = real time (default: 10)
+ *   - interval: Intraday bars to replay (default: 1min)
+ *   - extendedHours: Include pre-market and after-hours bars (equities, default: false)
+ *   - paused: Create the session paused at the first bar (default: false)
+ * Clients receive the updates by sending { type: 'replay_join', sessionId } on /ws,
+ * signed in as the same user
+ */
+router.post(
+  '/',
+  stockDataLimiter.middleware(),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const {
+        symbol: symbolParam,
+        date,
+        speed = DEFAULT_SPEED,
+        interval = '1min',
+        extendedHours = false,
+        paused = false,
+      } = req.body ?? {};
+
+      const symbol = typeof symbolParam === 'string' ? normalizeSymbol(symbolParam) : null;
+      if (!symbol) {
+        res.status(400).json({
+          error: 'Invalid Symbol',
+          message: 'Please provide a valid symbol (e.g., AAPL, BRK.B, SHOP.TO, BTC-USD, EUR/USD)',
+        });
+        return;
+      }
+
+      const assetClass = getAssetClass(symbol);
+      const today = getSessionDate(assetClass);
+      if (
+        typeof date !== 'string' ||
+        !DATE_REGEX.test(date) ||
+        isNaN(Date.parse(date)) ||
+        date.slice(0, 7) < INTRADAY_HISTORY_START_MONTH ||
+        date > today
+      ) {
+        res.status(400).json({
+          error: 'Invalid Date',
+          message: `date must be a trading date in YYYY-MM-DD format, no later than ${today}`,
+        });
+        return;
+      }
+
+      const speedError = validateSpeed(speed);
+      if (speedError) {
+        res.status(400).json({
+          error: 'Invalid Speed',
+          message: speedError,
+        });
+        return;
+      }
+
+      if (!VALID_INTERVALS.includes(interval)) {
+        res.status(400).json({
+          error: 'Invalid Interval',
+          message: `Invalid interval: ${interval}. Valid values: ${VALID_INTERVALS.join(', ')}`,
+        });
+        return;
+      }
+
+      const session = await replayService.createSession(
+        req.user!.userId,
+        {
+          symbol,
+          date,
+          speed,
+          interval,
+          // Pre/post sessions only exist for equities
+          extendedHours: assetClass === 'equity' && extendedHours === true,
+        },
+        paused === true
+      );
+
+      res.status(201).json({ session });
+    } catch (error) {
+      console.error('Create replay error:', error);
+
+      if (error instanceof ReplayUnavailableError) {
+        res.status(422).json({
+          error: 'Replay Unavailable',
+          message: error.message,
+        });
+        return;
+      }
+      if (error instanceof SymbolNotFoundError) {
+        res.status(404).json({
+          error: 'Symbol Not Found',
+          message: error.message,
+        });
+        return;
+      }
+      if (error instanceof QuotaExceededError || error instanceof RequestQueuedError) {
+        res.status(429).json({
+          error: 'API Rate Limit',
+          message: error.message,
+        });
+        return;
+      }
+      if (error instanceof ProviderUnavailableError) {
+        res.status(503).json({
+          error: 'Service Unavailable',
+          message: error.message,
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to create replay session',
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/replay
+ * The user's active replay sessions
+ */
+router.get('/', (req: AuthenticatedRequest, res: Response): void => {
+  res.json({ sessions: replayService.listSessions(req.user!.userId) });
+});
+
+/**
+ * GET /api/replay/:id
+ * Replay session status and position
+ */
+router.get('/:id', (req: AuthenticatedRequest, res: Response): void => {
+  sendSession(res, req.params.id, replayService.getSession(req.params.id, req.user!.userId));
+});
+
+/**
+ * POST /api/replay/:id/pause
+ */
+router.post('/:id/pause', (req: AuthenticatedRequest, res: Response): void => {
+  sendSession(res, req.params.id, replayService.pause(req.params.id, req.user!.userId));
+});
+
+/**
+ * POST /api/replay/:id/resume
+ * Resume playback; a session that reached the end restarts from the first bar
+ */
+router.post('/:id/resume', (req: AuthenticatedRequest, res: Response): void => {
+  sendSession(res, req.params.id, replayService.resume(req.params.id, req.user!.userId));
+});
+
+/**
+ * POST /api/replay/:id/seek
+ * Body:
+ *   - time: Point in the session to jump to (ISO timestamp or UTC milliseconds)
+ */
+router.post('/:id/seek', (req: AuthenticatedRequest, res: Response): void => {
+  const time = req.body?.time;
+  const timestamp = typeof time === 'number' ? time : typeof time === 'string' ? Date.parse(time) : NaN;
+
+  if (isNaN(timestamp)) {
+    res.status(400).json({
+      error: 'Invalid Time',
+      message: 'time must be an ISO timestamp or UTC milliseconds',
+    });
+    return;
+  }
+
+  sendSession(res, req.params.id, replayService.seek(req.params.id, req.user!.userId, timestamp));
+});
+
+/**
+ * POST /api/replay/:id/speed
+ * Body:
+ *   - speed: New playback speed
+ */
+router.post('/:id/speed', (req: AuthenticatedRequest, res: Response): void => {
+  const speed = req.body?.speed;
+  const speedError = validateSpeed(speed);
+  if (speedError) {
+    res.status(400).json({
+      error: 'Invalid Speed',
+      message: speedError,
+    });
+    return;
+  }
+
+  sendSession(res, req.params.id, replayService.setSpeed(req.params.id, req.user!.userId, speed));
+});
+
+/**
+ * DELETE /api/replay/:id
+ * Stop a replay; joined clients receive a final replay_status with status ended
+ */
+router.delete('/:id', (req: AuthenticatedRequest, res: Response): void => {
+  if (!replayService.closeSession(req.params.id, req.user!.userId)) {
+    sendSessionNotFound(res, req.params.id);
+    return;
+  }
+  res.json({ message: 'Replay session closed' });
+});
+
+export default router;
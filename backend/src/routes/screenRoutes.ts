@@ -0,0 +1,469 @@
+import { Router, Response } from 'express';
+import {
+  getUserScreens,
+  getScreen,
+  createScreen,
+  updateScreen,
+  deleteScreen,
+  getScreenRuns,
+  ScreenLimitError,
+  ScreenNameTakenError,
+} from '../services/savedScreenService.js';
+import { runSavedScreen } from '../services/screenRunService.js';
+import { authenticateToken } from '../middleware/auth.js';
+import { AuthenticatedRequest } from '../types/auth.js';
+import { validateScreenerExpression } from '../utils/screenerExpression.js';
+import { AssetClass } from '../types/marketData.js';
+import { SavedScreen, ScreenDisplaySettings, ScreenFilters, UpdateScreenInput } from '../types/screens.js';
+
+const router = Router();
+
+const MAX_NAME_LENGTH = 100;
+const MAX_SECTORS = 50;
+const MAX_PAGE_SIZE = 500;
+const DEFAULT_RUNS_LIMIT = 20;
+const MAX_RUNS_LIMIT = 100;
+
+const ASSET_CLASSES: AssetClass[] = ['equity', 'crypto', 'fx'];
+
+// Numeric stock list filters and their allowed range
+const NUMBER_FILTERS: Record<string, { min?: number; max?: number }> = {
+  minMarketCap: { min: 0 },
+  maxMarketCap: { min: 0 },
+  minPrice: { min: 0 },
+  maxPrice: { min: 0 },
+  rsiMin: { min: 0, max: 100 },
+  rsiMax: { min: 0, max: 100 },
+  volumeSpikeMin: { min: 0 },
+  peMin: {},
+  peMax: {},
+  epsGrowthMin: {},
+  dividendYieldMin: { min: 0 },
+  betaMin: {},
+  betaMax: {},
+  profitMarginMin: {},
+};
+
+// Every user's saved screens are their own
+router.use(authenticateToken);
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate a screen's stock list filters (the screener's filters, without paging)
+ * @returns Error message, or null when they are valid
+ */
+function validateFilters(filters: unknown): string | null {
+  if (!isObject(filters)) {
+    return 'filters must be an object';
+  }
+
+  for (const [key, value] of Object.entries(filters)) {
+    if (key in NUMBER_FILTERS) {
+      const { min, max } = NUMBER_FILTERS[key];
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return `filters.${key} must be a number`;
+      }
+      if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+        return max !== undefined
+          ? `filters.${key} must be between ${min} and ${max}`
+          : `filters.${key} must be at least ${min}`;
+      }
+      continue;
+    }
+
+    switch (key) {
+      case 'sector':
+        if (typeof value !== 'string' || value.length === 0) {
+          return 'filters.sector must be a sector name';
+        }
+        break;
+      case 'sectors':
+        if (
+          !Array.isArray(value) ||
+          value.length > MAX_SECTORS ||
+          !value.every((sector) => typeof sector === 'string' && sector.length > 0)
+        ) {
+          return `filters.sectors must be a list of at most ${MAX_SECTORS} sector names`;
+        }
+        break;
+      case 'assetClass':
+        if (!ASSET_CLASSES.includes(value as AssetClass)) {
+          return `filters.assetClass must be one of: ${ASSET_CLASSES.join(', ')}`;
+        }
+        break;
+      case 'priceVsSma50':
+      case 'priceVsSma200':
+        if (value !== 'above' && value !== 'below') {
+          return `filters.${key} must be "above" or "below"`;
+        }
+        break;
+      case 'expression': {
+        if (typeof value !== 'string') {
+          return 'filters.expression must be a string';
+        }
+        const expressionError = validateScreenerExpression(value);
+        if (expressionError) {
+          return `filters.expression is invalid: ${expressionError.message} (at character ${expressionError.position + 1})`;
+        }
+        break;
+      }
+      default:
+        return `Unknown filter: ${key}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Validate a screen's display settings
+ * @returns Error message, or null when they are valid
+ */
+function validateDisplay(display: unknown): string | null {
+  if (!isObject(display)) {
+    return 'display must be an object';
+  }
+
+  const { sort, pageSize, ...rest } = display;
+  const unknownKey = Object.keys(rest)[0];
+  if (unknownKey) {
+    return `Unknown display setting: ${unknownKey}`;
+  }
+  if (
+    sort !== undefined &&
+    !(isObject(sort) && typeof sort.field === 'string' && sort.field.length <= 50 &&
+      (sort.direction === 'asc' || sort.direction === 'desc'))
+  ) {
+    return 'display.sort must be { field, direction: "asc" | "desc" }';
+  }
+  if (pageSize !== undefined && !(Number.isInteger(pageSize) && (pageSize as number) >= 1 && (pageSize as number) <= MAX_PAGE_SIZE)) {
+    return `display.pageSize must be an integer between 1 and ${MAX_PAGE_SIZE}`;
+  }
+  return null;
+}
+
+function validateName(name: unknown): string | null {
+  return typeof name === 'string' && name.trim().length > 0 && name.trim().length <= MAX_NAME_LENGTH
+    ? null
+    : `name must be 1 to ${MAX_NAME_LENGTH} characters`;
+}
+
+function parseScreenId(id: string): number | null {
+  const screenId = parseInt(id, 10);
+  return /^\d+$/.test(id) && screenId > 0 ? screenId : null;
+}
+
+/**
+ * Run a screen with new filters right away, so the scheduled run after the
+ * next metrics update reports changes against its results
+ */
+function runBaseline(screen: SavedScreen): void {
+  runSavedScreen(screen).catch((error) => {
+    console.error(`Failed to run saved screen ${screen.id}:`, error);
+  });
+}
+
+/**
+ * GET /api/screens
+ * The user's saved screens, by name
+ */
+router.get('/', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    res.json({ screens: await getUserScreens(req.user!.userId) });
+  } catch (error: unknown) {
+    console.error('Get screens error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get saved screens',
+    });
+  }
+});
+
+/**
+ * POST /api/screens
+ * Save a screen
+ * Body:
+ *   - name: Unique among the user's screens (required)
+ *   - filters: Stock list filters, as for GET /api/stocks/list plus sectors (list of sectors) (default: none)
+ *   - display: Screener display settings: sort { field, direction }, pageSize (optional)
+ *   - notify: Send the symbols that entered or left after each run (default: true)
+ */
+router.post('/', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { name, filters = {}, display = {}, notify = true } = req.body ?? {};
+
+    const validationError =
+      validateName(name) ??
+      validateFilters(filters) ??
+      validateDisplay(display) ??
+      (typeof notify !== 'boolean' ? 'notify must be a boolean' : null);
+    if (validationError) {
+      res.status(400).json({
+        error: 'Invalid Screen',
+        message: validationError,
+      });
+      return;
+    }
+
+    const screen = await createScreen(req.user!.userId, {
+      name: name.trim(),
+      filters: filters as ScreenFilters,
+      display: display as ScreenDisplaySettings,
+      notify,
+    });
+    runBaseline(screen);
+
+    res.status(201).json({ screen });
+  } catch (error: unknown) {
+    console.error('Create screen error:', error);
+
+    if (error instanceof ScreenLimitError || error instanceof ScreenNameTakenError) {
+      res.status(409).json({
+        error: error instanceof ScreenLimitError ? 'Screen Limit Reached' : 'Duplicate Name',
+        message: error.message,
+      });
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to save screen',
+    });
+  }
+});
+
+/**
+ * GET /api/screens/:id
+ * One saved screen
+ */
+router.get('/:id', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const screenId = parseScreenId(req.params.id);
+    if (screenId === null) {
+      res.status(400).json({
+        error: 'Invalid Parameter',
+        message: 'Screen ID must be a positive integer',
+      });
+      return;
+    }
+
+    const screen = await getScreen(req.user!.userId, screenId);
+    if (!screen) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Screen ${screenId} not found`,
+      });
+      return;
+    }
+
+    res.json({ screen });
+  } catch (error: unknown) {
+    console.error('Get screen error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get saved screen',
+    });
+  }
+});
+
+/**
+ * PUT /api/screens/:id
+ * Change a saved screen
+ * Body (all optional): name, filters, display, notify
+ * New filters start a new baseline: the screen is run right away and changes
+ * are reported from there.
+ */
+router.put('/:id', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const screenId = parseScreenId(req.params.id);
+    if (screenId === null) {
+      res.status(400).json({
+        error: 'Invalid Parameter',
+        message: 'Screen ID must be a positive integer',
+      });
+      return;
+    }
+
+    const { name, filters, display, notify } = req.body ?? {};
+    const input: UpdateScreenInput = {};
+    let validationError: string | null = null;
+
+    if (name !== undefined) {
+      validationError = validateName(name);
+      input.name = validationError ? undefined : name.trim();
+    }
+    if (!validationError && filters !== undefined) {
+      validationError = validateFilters(filters);
+      input.filters = filters;
+    }
+    if (!validationError && display !== undefined) {
+      validationError = validateDisplay(display);
+      input.display = display;
+    }
+    if (!validationError && notify !== undefined) {
+      validationError = typeof notify === 'boolean' ? null : 'notify must be a boolean';
+      input.notify = notify;
+    }
+
+    if (validationError) {
+      res.status(400).json({
+        error: 'Invalid Screen',
+        message: validationError,
+      });
+      return;
+    }
+
+    const screen = await updateScreen(req.user!.userId, screenId, input);
+    if (!screen) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Screen ${screenId} not found`,
+      });
+      return;
+    }
+    if (input.filters) {
+      runBaseline(screen);
+    }
+
+    res.json({ screen });
+  } catch (error: unknown) {
+    console.error('Update screen error:', error);
+
+    if (error instanceof ScreenNameTakenError) {
+      res.status(409).json({
+        error: 'Duplicate Name',
+        message: error.message,
+      });
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update saved screen',
+    });
+  }
+});
+
+/**
+ * DELETE /api/screens/:id
+ * Delete a saved screen and its run history
+ */
+router.delete('/:id', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const screenId = parseScreenId(req.params.id);
+    if (screenId === null) {
+      res.status(400).json({
+        error: 'Invalid Parameter',
+        message: 'Screen ID must be a positive integer',
+      });
+      return;
+    }
+
+    const deleted = await deleteScreen(req.user!.userId, screenId);
+    if (!deleted) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Screen ${screenId} not found`,
+      });
+      return;
+    }
+
+    res.json({ message: 'Screen deleted' });
+  } catch (error: unknown) {
+    console.error('Delete screen error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to delete saved screen',
+    });
+  }
+});
+
+/**
+ * GET /api/screens/:id/runs?limit=20
+ * A screen's most recent runs: result set, and the symbols that entered or left since the run before
+ */
+router.get('/:id/runs', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const screenId = parseScreenId(req.params.id);
+    if (screenId === null) {
+      res.status(400).json({
+        error: 'Invalid Parameter',
+        message: 'Screen ID must be a positive integer',
+      });
+      return;
+    }
+
+    const limitParam = req.query.limit as string | undefined;
+    const limit = limitParam !== undefined ? parseInt(limitParam, 10) : DEFAULT_RUNS_LIMIT;
+    if (isNaN(limit) || limit < 1 || limit > MAX_RUNS_LIMIT) {
+      res.status(400).json({
+        error: 'Invalid Parameter',
+        message: `limit must be between 1 and ${MAX_RUNS_LIMIT}`,
+      });
+      return;
+    }
+
+    if (!(await getScreen(req.user!.userId, screenId))) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Screen ${screenId} not found`,
+      });
+      return;
+    }
+
+    res.json({ runs: await getScreenRuns(req.user!.userId, screenId, limit) });
+  } catch (error: unknown) {
+    console.error('Get screen runs error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get screen runs',
+    });
+  }
+});
+
+/**
+ * POST /api/screens/:id/run
+ * Run a saved screen now (recorded and notified like the scheduled runs)
+ */
+router.post('/:id/run', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const screenId = parseScreenId(req.params.id);
+    if (screenId === null) {
+      res.status(400).json({
+        error: 'Invalid Parameter',
+        message: 'Screen ID must be a positive integer',
+      });
+      return;
+    }
+
+    const screen = await getScreen(req.user!.userId, screenId);
+    if (!screen) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Screen ${screenId} not found`,
+      });
+      return;
+    }
+
+    const run = await runSavedScreen(screen);
+    if (!run) {
+      res.status(409).json({
+        error: 'Run In Progress',
+        message: 'The screen was just run; try again shortly',
+      });
+      return;
+    }
+
+    res.json({ run });
+  } catch (error: unknown) {
+    console.error('Run screen error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to run saved screen',
+    });
+  }
+});
+
+export default router;
@@ -1,16 +1,28 @@
 import express, { Request, Response } from 'express';
 import { getStocksList, getDistinctSectors } from '../services/databaseService.js';
 import { getMetricsStatus } from '../services/metricsUpdateService.js';
+import { getFundamentalsStatus } from '../services/fundamentalsService.js';
+import { searchSymbols } from '../services/symbolSearchService.js';
+import { getUpcomingEarnings } from '../services/eventsService.js';
+import { getMarketDataProvider, getAlphaVantageQuota } from '../services/marketData/index.js';
+import { normalizeSymbol } from '../utils/symbol.js';
+import { validateScreenerExpression } from '../utils/screenerExpression.js';
 import { StockListFilters } from '../types/stock.js';
+import { AssetClass } from '../types/marketData.js';
 
 const router = express.Router();
 
+const MAX_UPCOMING_EARNINGS_SYMBOLS = 50;
+
+const ASSET_CLASSES: AssetClass[] = ['equity', 'crypto', 'fx'];
+
 /**
  * GET /api/stocks/list
  * Returns a list of stocks with optional filtering and pagination
  *
  * Query parameters:
  * - sector: Filter by sector (string)
+ * - assetClass: Filter by asset class ('equity', 'crypto' or 'fx')
  * - minMarketCap: Minimum market cap in USD (number)
  * - maxMarketCap: Maximum market cap in USD (number)
  * - minPrice: Minimum stock price (number)
@@ -20,6 +32,13 @@ const router = express.Router();
  * - priceVsSma50: Price vs 50-day SMA ('above' or 'below')
  * - priceVsSma200: Price vs 200-day SMA ('above' or 'below')
  * - volumeSpikeMin: Minimum volume spike ratio (e.g., 1.5 for 1.5x average)
+ * - peMin / peMax: P/E ratio range (number)
+ * - epsGrowthMin: Minimum quarterly EPS growth year over year, in percent (number)
+ * - dividendYieldMin: Minimum dividend yield, in percent (number)
+ * - betaMin / betaMax: Beta range (number)
+ * - profitMarginMin: Minimum profit margin, in percent (number)
+ * - expression: Filter expression, e.g. "rsi < 30 and (sector = 'Technology' or volume_spike >= 2)"
+ *   (see utils/screenerExpression.ts); invalid ones get a 400 with the error's position
  * - limit: Number of results to return (default: 100, max: 500)
  * - offset: Number of results to skip for pagination (default: 0)
  */
@@ -33,6 +52,17 @@ router.get('/list', async (req: Request, res: Response) => {
       filters.sector = req.query.sector as string;
     }
 
+    if (req.query.assetClass) {
+      const value = req.query.assetClass as string;
+      if (!ASSET_CLASSES.includes(value as AssetClass)) {
+        return res.status(400).json({
+          error: 'Invalid parameter',
+          message: `assetClass must be one of: ${ASSET_CLASSES.join(', ')}`,
+        });
+      }
+      filters.assetClass = value as AssetClass;
+    }
+
     if (req.query.minMarketCap) {
       const value = parseInt(req.query.minMarketCap as string, 10);
       if (isNaN(value) || value < 0) {
@@ -134,6 +164,108 @@ router.get('/list', async (req: Request, res: Response) => {
       filters.volumeSpikeMin = value;
     }
 
+    // Valuation filters
+    if (req.query.peMin) {
+      const value = parseFloat(req.query.peMin as string);
+      if (isNaN(value)) {
+        return res.status(400).json({
+          error: 'Invalid parameter',
+          message: 'peMin must be a number',
+        });
+      }
+      filters.peMin = value;
+    }
+
+    if (req.query.peMax) {
+      const value = parseFloat(req.query.peMax as string);
+      if (isNaN(value)) {
+        return res.status(400).json({
+          error: 'Invalid parameter',
+          message: 'peMax must be a number',
+        });
+      }
+      filters.peMax = value;
+    }
+
+    if (req.query.epsGrowthMin) {
+      const value = parseFloat(req.query.epsGrowthMin as string);
+      if (isNaN(value)) {
+        return res.status(400).json({
+          error: 'Invalid parameter',
+          message: 'epsGrowthMin must be a number',
+        });
+      }
+      filters.epsGrowthMin = value;
+    }
+
+    if (req.query.dividendYieldMin) {
+      const value = parseFloat(req.query.dividendYieldMin as string);
+      if (isNaN(value) || value < 0) {
+        return res.status(400).json({
+          error: 'Invalid parameter',
+          message: 'dividendYieldMin must be a non-negative number',
+        });
+      }
+      filters.dividendYieldMin = value;
+    }
+
+    if (req.query.betaMin) {
+      const value = parseFloat(req.query.betaMin as string);
+      if (isNaN(value)) {
+        return res.status(400).json({
+          error: 'Invalid parameter',
+          message: 'betaMin must be a number',
+        });
+      }
+      filters.betaMin = value;
+    }
+
+    if (req.query.betaMax) {
+      const value = parseFloat(req.query.betaMax as string);
+      if (isNaN(value)) {
+        return res.status(400).json({
+          error: 'Invalid parameter',
+          message: 'betaMax must be a number',
+        });
+      }
+      filters.betaMax = value;
+    }
+
+    if (req.query.profitMarginMin) {
+      const value = parseFloat(req.query.profitMarginMin as string);
+      if (isNaN(value)) {
+        return res.status(400).json({
+          error: 'Invalid parameter',
+          message: 'profitMarginMin must be a number',
+        });
+      }
+      filters.profitMarginMin = value;
+    }
+
+    // Filter expression
+    if (req.query.expression !== undefined && req.query.expression !== '') {
+      const value = req.query.expression;
+      // Repeated or bracketed parameters (?expression=a&expression=b) aren't strings
+      if (typeof value !== 'string') {
+        return res.status(400).json({
+          error: 'Invalid expression',
+          message: 'expression must be given once, as a string',
+          position: 0,
+          length: 0,
+        });
+      }
+      const expressionError = validateScreenerExpression(value);
+      if (expressionError) {
+        return res.status(400).json({
+          error: 'Invalid expression',
+          message: expressionError.message,
+          position: expressionError.position,
+          length: expressionError.length,
+        });
+      }
+      filters.expression = value.trim();
+    }
+
     // Pagination
     if (req.query.limit) {
       const value = parseInt(req.query.limit as string, 10);
@@ -198,6 +330,98 @@ router.get('/sectors', async (_req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/stocks/search
+ * Search symbols by ticker or company name (autocomplete)
+ * Ranks exact, prefix and fuzzy matches from the stocks table, then falls back
+ * to the market data provider for symbols outside our universe
+ *
+ * Query parameters:
+ * - q: Ticker or name fragment (required, max 50 characters)
+ * - limit: Number of results to return (default: 10, max: 25)
+ */
+router.get('/search', async (req: Request, res: Response) => {
+  try {
+    const q = ((req.query.q as string) || '').trim();
+
+    if (!q) {
+      return res.status(400).json({
+        error: 'Invalid parameter',
+        message: 'q is required',
+      });
+    }
+
+    if (q.length > 50) {
+      return res.status(400).json({
+        error: 'Invalid parameter',
+        message: 'q must be at most 50 characters',
+      });
+    }
+
+    let limit = 10;
+    if (req.query.limit) {
+      limit = parseInt(req.query.limit as string, 10);
+      if (isNaN(limit) || limit < 1 || limit > 25) {
+        return res.status(400).json({
+          error: 'Invalid parameter',
+          message: 'limit must be between 1 and 25',
+        });
+      }
+    }
+
+    const results = await searchSymbols(q, limit);
+    return res.json({ query: q, results });
+  } catch (error) {
+    console.error('Error searching symbols:', error);
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to search symbols',
+    });
+  }
+});
+
+/**
+ * GET /api/stocks/earnings/upcoming
+ * Returns the next scheduled earnings report for each symbol (for watchlists)
+ *
+ * Query parameters:
+ * - symbols: Comma-separated symbols (required, max 50)
+ */
+router.get('/earnings/upcoming', async (req: Request, res: Response) => {
+  try {
+    const rawSymbols = typeof req.query.symbols === 'string' ? req.query.symbols : '';
+    const symbols = rawSymbols.split(',').map((symbol) => symbol.trim()).filter((symbol) => symbol !== '');
+
+    if (symbols.length === 0 || symbols.length > MAX_UPCOMING_EARNINGS_SYMBOLS) {
+      return res.status(400).json({
+        error: 'Invalid parameter',
+        message: `symbols must list between 1 and ${MAX_UPCOMING_EARNINGS_SYMBOLS} comma-separated symbols`,
+      });
+    }
+
+    const normalizedSymbols: string[] = [];
+    for (const symbol of symbols) {
+      const normalizedSymbol = normalizeSymbol(symbol);
+      if (!normalizedSymbol) {
+        return res.status(400).json({
+          error: 'Invalid parameter',
+          message: `Invalid symbol: ${symbol}`,
+        });
+      }
+      normalizedSymbols.push(normalizedSymbol);
+    }
+
+    const earnings = await getUpcomingEarnings([...new Set(normalizedSymbols)]);
+    return res.json({ earnings });
+  } catch (error) {
+    console.error('Error fetching upcoming earnings:', error);
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch upcoming earnings',
+    });
+  }
+});
+
 /**
  * GET /api/stocks/metrics/status
  * Returns status information about technical metrics
@@ -216,4 +440,35 @@ router.get('/metrics/status', async (_req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/stocks/fundamentals/status
+ * Returns status information about fundamentals
+ * Includes last refresh time and how many stocks have missing or stale data
+ */
+router.get('/fundamentals/status', async (_req: Request, res: Response) => {
+  try {
+    const status = await getFundamentalsStatus();
+    return res.json(status);
+  } catch (error) {
+    console.error('Error fetching fundamentals status:', error);
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch fundamentals status',
+    });
+  }
+});
+
+/**
+ * GET /api/stocks/quota/status
+ * Returns market data provider quota usage (per-minute/per-day budgets and queue)
+ * quota is null for providers without a request quota (csv, synthetic)
+ */
+router.get('/quota/status', (_req: Request, res: Response) => {
+  const provider = getMarketDataProvider().name;
+  return res.json({
+    provider,
+    quota: provider === 'alphavantage' ? getAlphaVantageQuota().getStatus() : null,
+  });
+});
+
 export default router;
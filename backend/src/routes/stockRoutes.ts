@@ -4,17 +4,144 @@ import {
   fetchIntradayData,
   fetchHistoricalData,
   filterDataByDateRange,
-  getDataRangeMetadata
+  getDataRangeMetadata,
+  getIntradayRangeMetadata,
+  INTRADAY_HISTORY_START_MONTH,
 } from '../services/alphaVantageService.js';
-import { cache } from '../utils/cache.js';
+import { tieredCache, CachePolicies, CachePolicy } from '../services/tieredCacheService.js';
+import { CacheKeys } from '../services/cacheService.js';
+import { normalizeSymbol, getAssetClass } from '../utils/symbol.js';
+import { getExchangeDate, getSessionDate, getAssetTradingDays, TradingDay } from '../utils/marketCalendar.js';
 import { stockDataLimiter } from '../middleware/rateLimiter.js';
+import { getTimeframeBars, isDailyBased, VALID_TIMEFRAMES } from '../services/barAggregationService.js';
+import { getCorporateActions } from '../services/corporateActionsService.js';
+import { getStockEvents } from '../services/eventsService.js';
 import { OHLCVData, IntradayInterval } from '../types/stock.js';
+import { BarTimeframe, CorporateAction } from '../types/marketData.js';
+import {
+  SymbolNotFoundError,
+  QuotaExceededError,
+  RequestQueuedError,
+  ProviderUnavailableError,
+} from '../services/marketData/index.js';
 
 const router = Router();
 
 // Valid intraday intervals
 const VALID_INTERVALS: IntradayInterval[] = ['1min', '5min', '15min', '30min', '60min'];
 
+const MONTH_REGEX = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+/**
+ * Validate an intraday history month parameter
+ * @returns Error message, or null when the month is valid (or not given)
+ */
+function validateHistoryMonth(month: string | undefined): string | null {
+  if (month === undefined) {
+    return null;
+  }
+  const currentMonth = getExchangeDate().slice(0, 7);
+  if (!MONTH_REGEX.test(month) || month < INTRADAY_HISTORY_START_MONTH || month > currentMonth) {
+    return `month must be in YYYY-MM format, from ${INTRADAY_HISTORY_START_MONTH} to ${currentMonth}`;
+  }
+  return null;
+}
+
+/**
+ * Past months of intraday history are final, so they are cached longer
+ */
+function getIntradayCachePolicy(month: string | undefined): CachePolicy {
+  return month && month < getExchangeDate().slice(0, 7)
+    ? CachePolicies.INTRADAY_MONTH
+    : CachePolicies.INTRADAY_BARS;
+}
+
+/**
+ * Translate market data provider errors into HTTP responses
+ */
+function sendMarketDataError(res: Response, error: unknown): void {
+  if (error instanceof SymbolNotFoundError) {
+    res.status(404).json({
+      error: 'Symbol Not Found',
+      message: error.message,
+    });
+    return;
+  }
+
+  if (error instanceof QuotaExceededError) {
+    if (error.retryAfterSeconds !== undefined) {
+      res.setHeader('Retry-After', error.retryAfterSeconds.toString());
+    }
+    res.status(429).json({
+      error: error.resetAt ? 'API Quota Exhausted' : 'API Rate Limit',
+      message: error.message,
+      retryAfter: error.retryAfterSeconds,
+      resetAt: error.resetAt,
+    });
+    return;
+  }
+
+  if (error instanceof RequestQueuedError) {
+    res.setHeader('Retry-After', error.etaSeconds.toString());
+    res.status(429).json({
+      error: 'Request Queued',
+      message: error.message,
+      retryAfter: error.etaSeconds,
+      queued: true,
+    });
+    return;
+  }
+
+  if (error instanceof ProviderUnavailableError) {
+    res.status(503).json({
+      error: 'Service Unavailable',
+      message: error.message,
+    });
+    return;
+  }
+
+  res.status(500).json({
+    error: 'Internal Server Error',
+    message: error instanceof Error ? error.message : 'An unexpected error occurred',
+  });
+}
+
+/**
+ * Get the splits and dividends that fall inside a bar series, for chart markers
+ * @param data - Bars (most recent first)
+ */
+async function getCorporateActionsForBars(symbol: string, data: OHLCVData[]): Promise<CorporateAction[]> {
+  if (data.length === 0) {
+    return [];
+  }
+
+  const { data: actions } = await tieredCache.getOrLoad(
+    CacheKeys.corporateActions(symbol),
+    () => getCorporateActions(symbol),
+    CachePolicies.CORPORATE_ACTIONS
+  );
+
+  const start = data[data.length - 1].timestamp.split('T')[0];
+  const end = data[0].timestamp.split('T')[0];
+  return actions.filter((action) => action.date >= start && action.date <= end);
+}
+
+/**
+ * Get the trading sessions an intraday bar series spans, for chart session breaks
+ * @param symbol - Canonical symbol, whose asset class decides the session calendar
+ * @param data - Bars (most recent first)
+ */
+function getTradingSessionsForBars(symbol: string, data: OHLCVData[]): TradingDay[] {
+  if (data.length === 0) {
+    return [];
+  }
+
+  const assetClass = getAssetClass(symbol);
+  const start = getSessionDate(assetClass, new Date(data[data.length - 1].timestamp).getTime());
+  const end = getSessionDate(assetClass, new Date(data[0].timestamp).getTime());
+  return getAssetTradingDays(assetClass, start, end);
+}
+
 /**
  * GET /api/stock/:symbol/daily
  * Fetch daily OHLCV data for a stock symbol
@@ -22,52 +149,44 @@ const VALID_INTERVALS: IntradayInterval[] = ['1min', '5min', '15min', '30min', '
  *   - from: Start date (YYYY-MM-DD or ISO string)
  *   - to: End date (YYYY-MM-DD or ISO string)
  *   - full: Request full historical data (true/false, default: false)
+ *   - adjusted: Split- and dividend-adjusted prices (true/false, default: false)
  */
 router.get(
   '/:symbol/daily',
   stockDataLimiter.middleware(),
   async (req: Request, res: Response): Promise<void> => {
     try {
-      const symbol = req.params.symbol.toUpperCase();
+      const symbol = normalizeSymbol(req.params.symbol);
       const fromDate = req.query.from as string | undefined;
       const toDate = req.query.to as string | undefined;
       const requestFull = req.query.full === 'true';
+      const adjusted = req.query.adjusted === 'true';
 
-      // Validate symbol format (basic validation)
-      if (!symbol || symbol.length > 10 || !/^[A-Z]+$/.test(symbol)) {
+      // Validate symbol format (share classes, exchange suffixes and currency pairs allowed)
+      if (!symbol) {
         res.status(400).json({
           error: 'Invalid Symbol',
-          message: 'Please provide a valid stock symbol (letters only, max 10 characters)',
-        });
-        return;
-      }
-
-      // Check cache first
-      const cachedData = cache.get<OHLCVData[]>(symbol);
-      if (cachedData) {
-        console.log(`Cache hit for daily data: ${symbol}`);
-        
-        // Apply date range filter if requested
-        const filteredData = filterDataByDateRange(cachedData, fromDate, toDate);
-        const metadata = getDataRangeMetadata(cachedData);
-        
-        res.json({
-          symbol,
-          interval: 'daily',
-          data: filteredData,
-          cached: true,
-          metadata,
+          message: 'Please provide a valid symbol (e.g., AAPL, BRK.B, SHOP.TO, BTC-USD, EUR/USD)',
         });
         return;
       }
 
-      // Fetch from Alpha Vantage API
+      // Compact/full and raw/adjusted responses are cached separately
       // Use fetchHistoricalData if full data is requested, otherwise use fetchDailyData
-      console.log(`Fetching ${requestFull ? 'full historical' : 'recent'} daily data from API: ${symbol}`);
-      const data = requestFull ? await fetchHistoricalData(symbol) : await fetchDailyData(symbol);
-
-      // Store in cache
-      cache.set(symbol, data);
+      const { data, cached, stale } = await tieredCache.getOrLoad(
+        CacheKeys.dailyBars(symbol, requestFull, adjusted),
+        () => {
+          // Fetch from the bar store (backfills from the market data provider)
+          console.log(`Fetching ${requestFull ? 'full historical' : 'recent'} daily data: ${symbol}`);
+          return requestFull
+            ? fetchHistoricalData(symbol, { adjusted })
+            : fetchDailyData(symbol, { adjusted });
+        },
+        CachePolicies.DAILY_BARS
+      );
+      if (cached) {
+        console.log(`Cache hit for daily data: ${symbol}${stale ? ' (stale)' : ''}`);
+      }
 
       // Apply date range filter if requested
       const filteredData = filterDataByDateRange(data, fromDate, toDate);
@@ -75,51 +194,18 @@ router.get(
 
       res.json({
         symbol,
+        assetClass: getAssetClass(symbol),
         interval: 'daily',
+        adjusted,
         data: filteredData,
-        cached: false,
+        cached,
+        stale,
         metadata,
+        corporateActions: await getCorporateActionsForBars(symbol, filteredData),
       });
     } catch (error: unknown) {
       console.error('Error fetching daily data:', error);
-      
-      if (error instanceof Error) {
-        // Handle specific error types
-        if (error.message.includes('Invalid symbol')) {
-          res.status(404).json({
-            error: 'Symbol Not Found',
-            message: error.message,
-          });
-          return;
-        }
-        
-        if (error.message.includes('rate limit')) {
-          res.status(429).json({
-            error: 'API Rate Limit',
-            message: error.message,
-          });
-          return;
-        }
-
-        if (error.message.includes('API key')) {
-          res.status(503).json({
-            error: 'Service Configuration Error',
-            message: 'API service is not properly configured',
-          });
-          return;
-        }
-        
-        res.status(500).json({
-          error: 'Internal Server Error',
-          message: error.message,
-        });
-        return;
-      }
-
-      res.status(500).json({
-        error: 'Internal Server Error',
-        message: 'An unexpected error occurred',
-      });
+      sendMarketDataError(res, error);
     }
   }
 );
@@ -129,24 +215,35 @@ router.get(
  * Fetch intraday OHLCV data for a stock symbol
  * Query params:
  *   - interval: Required, one of: 1min, 5min, 15min, 30min, 60min
+ *   - full: Trailing month of bars instead of the latest 100 (true/false, default: false)
+ *   - month: One calendar month of history (YYYY-MM); metadata.previousMonth names the next one to load
+ *   - extendedHours: Include pre-market and after-hours bars (true/false, default: false)
+ * Each bar carries its session: pre, regular or post
  */
 router.get(
   '/:symbol/intraday',
   stockDataLimiter.middleware(),
   async (req: Request, res: Response): Promise<void> => {
     try {
-      const symbol = req.params.symbol.toUpperCase();
+      const symbol = normalizeSymbol(req.params.symbol);
       const interval = req.query.interval as string;
+      const requestFull = req.query.full === 'true';
+      const month = req.query.month as string | undefined;
+      const extendedHoursParam = req.query.extendedHours === 'true';
 
-      // Validate symbol format
-      if (!symbol || symbol.length > 10 || !/^[A-Z]+$/.test(symbol)) {
+      // Validate symbol format (share classes, exchange suffixes and currency pairs allowed)
+      if (!symbol) {
         res.status(400).json({
           error: 'Invalid Symbol',
-          message: 'Please provide a valid stock symbol (letters only, max 10 characters)',
+          message: 'Please provide a valid symbol (e.g., AAPL, BRK.B, SHOP.TO, BTC-USD, EUR/USD)',
         });
         return;
       }
 
+      // Currency pairs trade around the clock, so only equities have extended hours
+      const assetClass = getAssetClass(symbol);
+      const extendedHours = extendedHoursParam && assetClass === 'equity';
+
       // Validate interval parameter
       if (!interval) {
         res.status(400).json({
@@ -164,72 +261,192 @@ router.get(
         return;
       }
 
-      // Check cache first
-      const cachedData = cache.get<OHLCVData[]>(symbol, interval);
-      if (cachedData) {
-        console.log(`Cache hit for intraday data: ${symbol} (${interval})`);
-        res.json({
-          symbol,
-          interval,
-          data: cachedData,
-          cached: true,
+      const monthError = validateHistoryMonth(month);
+      if (monthError) {
+        res.status(400).json({
+          error: 'Invalid Parameter',
+          message: monthError,
         });
         return;
       }
 
-      // Fetch from Alpha Vantage API
-      console.log(`Fetching intraday data from API: ${symbol} (${interval})`);
-      const data = await fetchIntradayData(symbol, interval as IntradayInterval);
-
-      // Store in cache
-      cache.set(symbol, data, interval);
+      const { data, cached, stale } = await tieredCache.getOrLoad(
+        CacheKeys.intradayBars(symbol, interval, month ?? (requestFull ? 'full' : 'compact'), extendedHours),
+        () => {
+          // Fetch from the bar store (backfills from the market data provider)
+          console.log(`Fetching intraday data: ${symbol} (${interval})${month ? ` for ${month}` : ''}`);
+          return fetchIntradayData(symbol, interval as IntradayInterval, { full: requestFull, month, extendedHours });
+        },
+        getIntradayCachePolicy(month)
+      );
+      if (cached) {
+        console.log(`Cache hit for intraday data: ${symbol} (${interval})${stale ? ' (stale)' : ''}`);
+      }
 
       res.json({
         symbol,
+        assetClass,
         interval,
+        extendedHours,
         data,
-        cached: false,
+        cached,
+        stale,
+        metadata: getIntradayRangeMetadata(data, month),
       });
     } catch (error: unknown) {
       console.error('Error fetching intraday data:', error);
-      
-      if (error instanceof Error) {
-        // Handle specific error types
-        if (error.message.includes('Invalid symbol')) {
-          res.status(404).json({
-            error: 'Symbol Not Found',
-            message: error.message,
-          });
-          return;
-        }
-        
-        if (error.message.includes('rate limit')) {
-          res.status(429).json({
-            error: 'API Rate Limit',
-            message: error.message,
-          });
-          return;
-        }
+      sendMarketDataError(res, error);
+    }
+  }
+);
+
+/**
+ * GET /api/stock/:symbol/bars?timeframe=weekly
+ * Fetch OHLCV candles for a chart timeframe
+ * 2hour/4hour are resampled from 60min bars; weekly/monthly/quarterly from daily bars
+ * Query params:
+ *   - timeframe: Required, one of: 15min, 30min, 1hour, 2hour, 4hour, daily, weekly, monthly, quarterly
+ *   - full: Request full history for non-resampled timeframes (true/false, default: false)
+ *   - adjusted: Split- and dividend-adjusted prices for daily-based timeframes (true/false, default: false)
+ *   - month: Intraday timeframes only, one calendar month of history (YYYY-MM)
+ *   - extendedHours: Intraday timeframes only, include pre-market and after-hours bars (true/false, default: false)
+ * Intraday timeframes also return the trading sessions the bars span (for session breaks)
+ * and metadata.previousMonth, the next month of history to load
+ */
+router.get(
+  '/:symbol/bars',
+  stockDataLimiter.middleware(),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const symbol = normalizeSymbol(req.params.symbol);
+      const timeframe = req.query.timeframe as string;
+      const requestFull = req.query.full === 'true';
+      const adjustedParam = req.query.adjusted === 'true';
+      const month = req.query.month as string | undefined;
+      const extendedHoursParam = req.query.extendedHours === 'true';
+
+      // Validate symbol format (share classes, exchange suffixes and currency pairs allowed)
+      if (!symbol) {
+        res.status(400).json({
+          error: 'Invalid Symbol',
+          message: 'Please provide a valid symbol (e.g., AAPL, BRK.B, SHOP.TO, BTC-USD, EUR/USD)',
+        });
+        return;
+      }
+
+      if (!timeframe || !VALID_TIMEFRAMES.includes(timeframe as BarTimeframe)) {
+        res.status(400).json({
+          error: 'Invalid Timeframe',
+          message: `Invalid timeframe: ${timeframe}. Valid values: ${VALID_TIMEFRAMES.join(', ')}`,
+        });
+        return;
+      }
+
+      // Adjustment and corporate action markers only apply to daily-based timeframes
+      const dailyBased = isDailyBased(timeframe as BarTimeframe);
+      const adjusted = adjustedParam && dailyBased;
+      // Daily bars and currency pairs have no extended sessions
+      const assetClass = getAssetClass(symbol);
+      const extendedHours = extendedHoursParam && !dailyBased && assetClass === 'equity';
+
+      const monthError = dailyBased && month !== undefined
+        ? 'month is only supported for intraday timeframes'
+        : validateHistoryMonth(month);
+      if (monthError) {
+        res.status(400).json({
+          error: 'Invalid Parameter',
+          message: monthError,
+        });
+        return;
+      }
+
+      const { data, cached, stale } = await tieredCache.getOrLoad(
+        CacheKeys.timeframeBars(symbol, timeframe, month ?? (requestFull ? 'full' : 'compact'), adjusted, extendedHours),
+        () => {
+          console.log(`Fetching bars: ${symbol} (${timeframe})${month ? ` for ${month}` : ''}`);
+          return getTimeframeBars(symbol, timeframe as BarTimeframe, { full: requestFull, adjusted, month, extendedHours });
+        },
+        dailyBased ? CachePolicies.DAILY_BARS : getIntradayCachePolicy(month)
+      );
+      if (cached) {
+        console.log(`Cache hit for bars: ${symbol} (${timeframe})${stale ? ' (stale)' : ''}`);
+      }
 
-        if (error.message.includes('API key')) {
-          res.status(503).json({
-            error: 'Service Configuration Error',
-            message: 'API service is not properly configured',
+      res.json({
+        symbol,
+        assetClass,
+        timeframe,
+        adjusted,
+        extendedHours,
+        data,
+        cached,
+        stale,
+        metadata: dailyBased ? getDataRangeMetadata(data) : getIntradayRangeMetadata(data, month),
+        corporateActions: dailyBased ? await getCorporateActionsForBars(symbol, data) : [],
+        sessions: dailyBased ? [] : getTradingSessionsForBars(symbol, data),
+      });
+    } catch (error: unknown) {
+      console.error('Error fetching bars:', error);
+      sendMarketDataError(res, error);
+    }
+  }
+);
+
+/**
+ * GET /api/stock/:symbol/events
+ * Earnings reports (EPS estimate/actual/surprise) and ex-dividend dates
+ * Query params (optional):
+ *   - from: Start date (YYYY-MM-DD)
+ *   - to: End date (YYYY-MM-DD)
+ */
+router.get(
+  '/:symbol/events',
+  stockDataLimiter.middleware(),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const symbol = normalizeSymbol(req.params.symbol);
+      const fromDate = req.query.from as string | undefined;
+      const toDate = req.query.to as string | undefined;
+
+      // Validate symbol format (share classes, exchange suffixes and currency pairs allowed)
+      if (!symbol) {
+        res.status(400).json({
+          error: 'Invalid Symbol',
+          message: 'Please provide a valid symbol (e.g., AAPL, BRK.B, SHOP.TO, BTC-USD, EUR/USD)',
+        });
+        return;
+      }
+
+      for (const [name, value] of [['from', fromDate], ['to', toDate]]) {
+        if (value !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+          res.status(400).json({
+            error: 'Invalid Parameter',
+            message: `${name} must be a date in YYYY-MM-DD format`,
           });
           return;
         }
-        
-        res.status(500).json({
-          error: 'Internal Server Error',
-          message: error.message,
-        });
-        return;
       }
 
-      res.status(500).json({
-        error: 'Internal Server Error',
-        message: 'An unexpected error occurred',
+      // Date filtering is applied per request, so the full event list is cached
+      const { data: events, cached, stale } = await tieredCache.getOrLoad(
+        CacheKeys.stockEvents(symbol),
+        () => getStockEvents(symbol),
+        CachePolicies.EVENTS
+      );
+
+      const filtered = events.filter(
+        (event) => (!fromDate || event.date >= fromDate) && (!toDate || event.date <= toDate)
+      );
+
+      res.json({
+        symbol,
+        events: filtered,
+        cached,
+        stale,
       });
+    } catch (error: unknown) {
+      console.error('Error fetching events:', error);
+      sendMarketDataError(res, error);
     }
   }
 );
@@ -7,12 +7,10 @@ import {
 } from '../services/watchlistService.js';
 import { authenticateToken } from '../middleware/auth.js';
 import { AuthenticatedRequest } from '../types/auth.js';
+import { normalizeSymbol, canonicalSymbol } from '../utils/symbol.js';
 
 const router = Router();
 
-// Symbol validation regex (uppercase letters and numbers, 1-10 characters)
-const SYMBOL_REGEX = /^[A-Z0-9]{1,10}$/;
-
 /**
  * GET /api/watchlist
  * Get current user's watchlist
@@ -78,13 +76,13 @@ router.post('/', authenticateToken, async (req: AuthenticatedRequest, res: Respo
       return;
     }
 
-    // Validate symbol format
-    const normalizedSymbol = symbol.toUpperCase().trim();
-    if (!SYMBOL_REGEX.test(normalizedSymbol)) {
+    // Validate and normalize symbol format (e.g. brk-b -> BRK.B)
+    const normalizedSymbol = normalizeSymbol(symbol);
+    if (!normalizedSymbol) {
       res.status(400).json({
         success: false,
         error: 'Invalid symbol format',
-        message: 'Symbol must be 1-10 uppercase alphanumeric characters',
+        message: 'Please provide a valid symbol (e.g., AAPL, BRK.B, SHOP.TO, BTC-USD, EUR/USD)',
       });
       return;
     }
@@ -149,7 +147,7 @@ router.delete('/:symbol', authenticateToken, async (req: AuthenticatedRequest, r
       return;
     }
 
-    const normalizedSymbol = symbol.toUpperCase().trim();
+    const normalizedSymbol = canonicalSymbol(symbol);
 
     // Remove from watchlist
     const removed = await removeFromWatchlist(req.user.userId, normalizedSymbol);
@@ -208,7 +206,7 @@ router.get('/check/:symbol', authenticateToken, async (req: AuthenticatedRequest
       return;
     }
 
-    const normalizedSymbol = symbol.toUpperCase().trim();
+    const normalizedSymbol = canonicalSymbol(symbol);
 
     // Check if in watchlist
     const inWatchlist = await isInWatchlist(req.user.userId, normalizedSymbol);
@@ -0,0 +1,70 @@
+import dotenv from 'dotenv';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { MockExchangeServer } from '../services/realtime/mockExchange.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Load environment variables
+dotenv.config({ path: join(__dirname, '../../.env') });
+
+/**
+ * Run the local mock exchange for REALTIME_FEED=websocket
+ *
+ * Usage:
+ *   npm run mock-feed                                  - Steady feed on port 5002
+ *   npm run mock-feed -- --drop-every 30000            - Drop connections every 30s
+ *   npm run mock-feed -- --gap-rate 0.05               - Skip ~5% of sequence numbers
+ *   npm run mock-feed -- --burst-every 10000 --burst-size 200
+ *   npm run mock-feed -- --stall-every 60000 --stall-ms 30000
+ *
+ * Other options: --port, --tick (ms between trades). Clients must send
+ * REALTIME_FEED_API_KEY when it is set.
+ */
+function readOption(args: string[], name: string): number | undefined {
+  const index = args.indexOf(`--${name}`);
+  if (index < 0 || !args[index + 1]) {
+    return undefined;
+  }
+  const value = parseFloat(args[index + 1]);
+  if (isNaN(value)) {
+    console.error(`Invalid value for --${name}: ${args[index + 1]}`);
+    process.exit(1);
+  }
+  return value;
+}
+
+async function runMockExchange() {
+  const args = process.argv.slice(2);
+  const defaultPort = parseInt(new URL(process.env.REALTIME_FEED_URL || 'ws://localhost:5002').port || '5002', 10);
+
+  const server = new MockExchangeServer({
+    port: readOption(args, 'port') ?? defaultPort,
+    tickIntervalMs: readOption(args, 'tick'),
+    dropEveryMs: readOption(args, 'drop-every'),
+    gapRate: readOption(args, 'gap-rate'),
+    burstEveryMs: readOption(args, 'burst-every'),
+    burstSize: readOption(args, 'burst-size'),
+    stallEveryMs: readOption(args, 'stall-every'),
+    stallMs: readOption(args, 'stall-ms'),
+    apiKey: process.env.REALTIME_FEED_API_KEY || undefined,
+  });
+
+  try {
+    await server.start();
+  } catch (error) {
+    console.error('Error starting mock exchange:', error);
+    process.exit(1);
+  }
+
+  const shutdown = async () => {
+    console.log('\nStopping mock exchange...');
+    await server.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+runMockExchange();
@@ -0,0 +1,64 @@
+import dotenv from 'dotenv';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { refreshStaleFundamentals } from '../services/fundamentalsService.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Load environment variables
+dotenv.config({ path: join(__dirname, '../../.env') });
+
+/**
+ * Seed fundamentals (market cap, P/E, EPS growth, dividend yield, beta, profit margin)
+ * Only stocks with missing or stale fundamentals are fetched.
+ *
+ * Usage:
+ *   npm run seed:fundamentals              - Process all stale stocks (respects rate limits)
+ *   npm run seed:fundamentals -- --limit 10 - Process only the 10 stalest stocks
+ */
+async function seedFundamentals() {
+  try {
+    console.log('Starting fundamentals seeding...\n');
+
+    // Parse command line arguments for stock limit
+    const args = process.argv.slice(2);
+    const limitIndex = args.indexOf('--limit');
+    const stockLimit = limitIndex >= 0 && args[limitIndex + 1]
+      ? parseInt(args[limitIndex + 1], 10)
+      : undefined;
+
+    if (!stockLimit) {
+      console.log('⚠️  WARNING: Processing ALL stale stocks');
+      console.log('   Alpha Vantage free tier allows only 25 requests/day');
+      console.log('   Consider using --limit flag (e.g., --limit 25)\n');
+    }
+
+    const result = await refreshStaleFundamentals(stockLimit);
+
+    console.log('\n=== Seeding Summary ===');
+    console.log(`Total stocks processed: ${result.total}`);
+    console.log(`Successful: ${result.successful}`);
+    console.log(`Failed: ${result.failed}`);
+
+    if (result.errors.length > 0) {
+      console.log('\nFailed stocks:');
+      result.errors.forEach(({ symbol, error }) => {
+        console.log(`  - ${symbol}: ${error}`);
+      });
+    }
+
+    if (result.successful > 0) {
+      console.log('\n✓ Fundamentals have been seeded successfully!');
+      console.log('You can now use the fundamental filters in the screener.');
+    }
+
+    process.exit(result.failed > 0 ? 1 : 0);
+  } catch (error) {
+    console.error('Error seeding fundamentals:', error);
+    process.exit(1);
+  }
+}
+
+// Run the seeding script
+seedFundamentals();
@@ -0,0 +1,395 @@
+import { realtimePriceService } from './realtimePriceService.js';
+import { liveBarService } from './liveBarService.js';
+import { websocketService } from './websocketService.js';
+import { getTimeframeBars } from './barAggregationService.js';
+import { COMPACT_SIZE } from './barStoreService.js';
+import { runWithPriority } from './marketData/index.js';
+import { getAlertsToEvaluate, recordAlertTrigger, rearmAlert } from './alertService.js';
+import {
+  describeIndicatorTrigger,
+  evaluateIndicatorRule,
+  getIndicatorAlertTimeframe,
+  getRequiredBars,
+  mergeClosedBar,
+} from './indicatorAlertService.js';
+import { AlertTriggeredEvent, AlertTriggerInput, PriceAlert } from '../types/alerts.js';
+import { OHLCVData } from '../types/stock.js';
+import { IndicatorAlertTimeframe, LiveBar, LiveBarInterval, PriceUpdateData } from '../types/wsProtocol.js';
+import { getPricePrecision } from '../utils/symbol.js';
+
+/**
+ * Alert Evaluator Service
+ *
+ * Checks users' price alerts against every price update of the real-time price
+ * service, and their indicator alerts whenever a live bar of the alert's
+ * timeframe closes (over the stored history plus the closed bar; see
+ * indicatorAlertService). An alert fires once: it's marked triggered, recorded
+ * in the alert history and sent to the user's connections (user_event on the
+ * alerts channel). Alerts with rearm return to active once their condition no
+ * longer holds. The feed follows symbols with alerts even when no client
+ * watches them.
+ *
+ * With several nodes, a symbol's updates and bars only reach its feed owner,
+ * and the database update that marks an alert triggered lets a single caller
+ * fire it.
+ * Alerts are reloaded from the database periodically, which is how changes
+ * made through another node arrive; the alert routes apply this node's changes
+ * right away.
+ */
+
+interface IndicatorHistory {
+  bars: OHLCVData[]; // Most recent first, ending with the last closed bar
+  required: number;
+  barStart: number; // Start of the last closed bar (ms)
+}
+
+// Consecutive bars of the intraday timeframes start this far apart; daily bars
+// close once a day, so their history is loaded on each close
+const CONSECUTIVE_BAR_MS: Partial<Record<IndicatorAlertTimeframe, number>> = {
+  '15min': 15 * 60 * 1000,
+  '1hour': 60 * 60 * 1000,
+};
+
+/**
+ * Whether an update meets a price alert's condition
+ * @param previousPrice - Symbol's price before the update (crosses needs one)
+ */
+function isConditionMet(alert: PriceAlert, update: PriceUpdateData, previousPrice: number | undefined): boolean {
+  const target = alert.target ?? NaN;
+
+  switch (alert.condition) {
+    case 'price_above':
+      return update.price >= target;
+    case 'price_below':
+      return update.price <= target;
+    case 'percent_change':
+      // A negative target waits for a drop
+      return target >= 0 ? update.changePercent >= target : update.changePercent <= target;
+    case 'crosses':
+      return (
+        previousPrice !== undefined &&
+        ((previousPrice < target && update.price >= target) ||
+          (previousPrice > target && update.price <= target))
+      );
+    case 'indicator':
+      // Checked on bar close
+      return false;
+  }
+}
+
+function formatPrice(symbol: string, price: number): string {
+  return price.toFixed(getPricePrecision(symbol, price));
+}
+
+/**
+ * Summary of a price alert trigger for notifications, e.g. "AAPL crossed 200.00 at 200.15"
+ */
+function describeTrigger(alert: PriceAlert, update: PriceUpdateData): string {
+  const target = formatPrice(alert.symbol, alert.target ?? NaN);
+  const price = formatPrice(alert.symbol, update.price);
+
+  switch (alert.condition) {
+    case 'price_above':
+      return `${alert.symbol} is above ${target} at ${price}`;
+    case 'price_below':
+      return `${alert.symbol} is below ${target} at ${price}`;
+    case 'percent_change':
+      return `${alert.symbol} is ${update.changePercent >= 0 ? 'up' : 'down'} ${Math.abs(update.changePercent).toFixed(2)}% today at ${price}`;
+    case 'crosses':
+      return `${alert.symbol} crossed ${target} at ${price}`;
+    case 'indicator':
+      // Described by indicatorAlertService
+      return `${alert.symbol} at ${price}`;
+  }
+}
+
+class AlertEvaluatorService {
+  // Alerts being evaluated, by symbol then alert ID
+  private alerts: Map<string, Map<number, PriceAlert>> = new Map();
+  // Each symbol's previous price, for crosses
+  private lastPrices: Map<string, number> = new Map();
+  // Each symbol's indicator alert history by timeframe, extended by every bar close
+  private histories: Map<string, Map<IndicatorAlertTimeframe, IndicatorHistory>> = new Map();
+  // Alerts with a trigger or re-arm being written
+  private pending: Set<number> = new Set();
+  private reloadInterval: NodeJS.Timeout | null = null;
+  private removePriceListener: (() => void) | null = null;
+  private removeBarCloseListener: (() => void) | null = null;
+  private removeSymbolsProvider: (() => void) | null = null;
+
+  // Configuration
+  private readonly RELOAD_INTERVAL_MS = 30000;
+
+  /**
+   * Load the alerts and start evaluating them (requires the database)
+   */
+  async start(): Promise<void> {
+    if (this.removePriceListener) {
+      console.warn('Alert evaluator already running');
+      return;
+    }
+
+    this.removePriceListener = realtimePriceService.onPriceUpdate((symbol, update) => this.evaluate(symbol, update));
+    this.removeBarCloseListener = liveBarService.onBarClose(
+      (symbol, interval, bar) => void this.evaluateBarClose(symbol, interval, bar)
+    );
+    this.removeSymbolsProvider = realtimePriceService.addWatchedSymbolsProvider(() => Array.from(this.alerts.keys()));
+
+    await this.reload();
+    this.reloadInterval = setInterval(() => void this.reload(), this.RELOAD_INTERVAL_MS);
+
+    console.log(`✅ Alert evaluator started (${this.getAlertCount()} alerts)`);
+  }
+
+  stop(): void {
+    if (this.reloadInterval) {
+      clearInterval(this.reloadInterval);
+      this.reloadInterval = null;
+    }
+    this.removePriceListener?.();
+    this.removePriceListener = null;
+    this.removeBarCloseListener?.();
+    this.removeBarCloseListener = null;
+    this.removeSymbolsProvider?.();
+    this.removeSymbolsProvider = null;
+
+    this.alerts.clear();
+    this.lastPrices.clear();
+    this.histories.clear();
+    this.pending.clear();
+  }
+
+  /**
+   * Evaluate a created or updated alert from now on
+   */
+  trackAlert(alert: PriceAlert): void {
+    this.untrackAlert(alert.id);
+    if (alert.status === 'triggered' && !alert.rearm) {
+      return;
+    }
+
+    let symbolAlerts = this.alerts.get(alert.symbol);
+    if (!symbolAlerts) {
+      symbolAlerts = new Map();
+      this.alerts.set(alert.symbol, symbolAlerts);
+    }
+    symbolAlerts.set(alert.id, { ...alert });
+  }
+
+  /**
+   * Stop evaluating an alert (deleted, or fired for good)
+   */
+  untrackAlert(alertId: number): void {
+    this.alerts.forEach((symbolAlerts, symbol) => {
+      if (symbolAlerts.delete(alertId) && symbolAlerts.size === 0) {
+        this.alerts.delete(symbol);
+        this.lastPrices.delete(symbol);
+        this.histories.delete(symbol);
+      }
+    });
+  }
+
+  private getAlertCount(): number {
+    let count = 0;
+    this.alerts.forEach((symbolAlerts) => {
+      count += symbolAlerts.size;
+    });
+    return count;
+  }
+
+  private async reload(): Promise<void> {
+    try {
+      const alerts = await getAlertsToEvaluate();
+
+      this.alerts = new Map();
+      alerts.forEach((alert) => this.trackAlert(alert));
+      this.lastPrices.forEach((_price, symbol) => {
+        if (!this.alerts.has(symbol)) {
+          this.lastPrices.delete(symbol);
+        }
+      });
+      this.histories.forEach((_histories, symbol) => {
+        if (!this.alerts.has(symbol)) {
+          this.histories.delete(symbol);
+        }
+      });
+    } catch (error) {
+      console.error('Failed to load price alerts:', error);
+    }
+  }
+
+  private evaluate(symbol: string, update: PriceUpdateData): void {
+    const symbolAlerts = this.alerts.get(symbol);
+    if (!symbolAlerts) {
+      return;
+    }
+
+    const previousPrice = this.lastPrices.get(symbol);
+    this.lastPrices.set(symbol, update.price);
+
+    symbolAlerts.forEach((alert) => {
+      if (alert.condition === 'indicator' || this.pending.has(alert.id)) {
+        return;
+      }
+
+      const met = isConditionMet(alert, update, previousPrice);
+      if (alert.status === 'active' && met) {
+        void this.fire(
+          alert,
+          { price: update.price, changePercent: update.changePercent },
+          describeTrigger(alert, update)
+        );
+      } else if (alert.status === 'triggered' && alert.rearm && !met) {
+        void this.rearm(alert);
+      }
+    });
+  }
+
+  /**
+   * Check the symbol's indicator alerts on the timeframe of a bar that closed
+   *
+   * The history is loaded once and then extended with each closed bar, so
+   * bar closes don't top up the bar store from the provider; it's loaded again
+   * (at background priority, behind chart requests) when a close doesn't
+   * follow the previous one, e.g. on the next trading day or after a missed bar.
+   */
+  private async evaluateBarClose(symbol: string, interval: LiveBarInterval, bar: LiveBar): Promise<void> {
+    const timeframe = getIndicatorAlertTimeframe(interval);
+    // Stored history only has regular-session bars to continue
+    if (!timeframe || (bar.session !== undefined && bar.session !== 'regular')) {
+      return;
+    }
+
+    const alerts = Array.from(this.alerts.get(symbol)?.values() ?? []).filter(
+      (alert) => alert.condition === 'indicator' && alert.timeframe === timeframe && alert.rule
+    );
+    if (alerts.length === 0) {
+      this.histories.get(symbol)?.delete(timeframe);
+      return;
+    }
+
+    const required = Math.max(...alerts.map((alert) => getRequiredBars(alert.rule!)));
+    const barStart = Date.parse(bar.timestamp);
+    const kept = this.histories.get(symbol)?.get(timeframe);
+    const spacing = CONSECUTIVE_BAR_MS[timeframe];
+
+    let bars: OHLCVData[];
+    if (
+      kept &&
+      spacing !== undefined &&
+      kept.required >= required &&
+      barStart > kept.barStart &&
+      barStart - kept.barStart <= spacing
+    ) {
+      bars = mergeClosedBar(kept.bars, bar).slice(0, required);
+    } else {
+      try {
+        const history = await runWithPriority('background', () =>
+          getTimeframeBars(symbol, timeframe, { full: required > COMPACT_SIZE })
+        );
+        bars = mergeClosedBar(history, bar).slice(0, required);
+      } catch (error) {
+        console.error(`Failed to load ${timeframe} bars of ${symbol} for indicator alerts:`, error);
+        return;
+      }
+    }
+
+    // Alerts may have been removed while the history loaded
+    if (!this.alerts.has(symbol)) {
+      return;
+    }
+    let symbolHistories = this.histories.get(symbol);
+    if (!symbolHistories) {
+      symbolHistories = new Map();
+      this.histories.set(symbol, symbolHistories);
+    }
+    symbolHistories.set(timeframe, { bars, required, barStart });
+
+    alerts.forEach((alert) => {
+      if (this.pending.has(alert.id)) {
+        return;
+      }
+
+      const result = evaluateIndicatorRule(alert.rule!, bars);
+      if (!result) {
+        // Too little history for the rule's indicators
+        return;
+      }
+
+      if (alert.status === 'active' && result.met) {
+        void this.fire(
+          alert,
+          { price: bar.close, changePercent: null, indicators: result.values, barTime: bar.timestamp },
+          describeIndicatorTrigger(symbol, alert.rule!, timeframe, formatPrice(symbol, bar.close))
+        );
+      } else if (alert.status === 'triggered' && alert.rearm && !result.met) {
+        void this.rearm(alert);
+      }
+    });
+  }
+
+  private async fire(alert: PriceAlert, trigger: AlertTriggerInput, message: string): Promise<void> {
+    this.pending.add(alert.id);
+    try {
+      const entry = await recordAlertTrigger(alert.id, trigger);
+      if (!entry) {
+        // Fired elsewhere, changed or deleted meanwhile: the next reload has its state
+        this.untrackAlert(alert.id);
+        return;
+      }
+
+      alert.status = 'triggered';
+      alert.triggerCount += 1;
+      alert.lastTriggeredAt = entry.triggeredAt;
+      if (!alert.rearm) {
+        this.untrackAlert(alert.id);
+      }
+
+      const event: AlertTriggeredEvent = {
+        type: 'alert_triggered',
+        alertId: alert.id,
+        historyId: entry.id,
+        symbol: alert.symbol,
+        condition: alert.condition,
+        target: alert.target,
+        price: trigger.price,
+        changePercent: trigger.changePercent,
+        note: alert.note,
+        rearm: alert.rearm,
+        message,
+        triggeredAt: entry.triggeredAt,
+      };
+      if (alert.timeframe && alert.rule) {
+        event.timeframe = alert.timeframe;
+        event.rule = alert.rule;
+        event.barTime = trigger.barTime;
+        event.indicators = trigger.indicators;
+      }
+      console.log(`Alert ${alert.id} triggered for user ${alert.userId}: ${event.message}`);
+      websocketService.sendToUser(alert.userId, 'alerts', { ...event });
+    } catch (error) {
+      console.error(`Failed to record trigger of alert ${alert.id}:`, error);
+    } finally {
+      this.pending.delete(alert.id);
+    }
+  }
+
+  private async rearm(alert: PriceAlert): Promise<void> {
+    this.pending.add(alert.id);
+    try {
+      if (await rearmAlert(alert.id)) {
+        alert.status = 'active';
+      } else {
+        // Re-armed elsewhere, changed or deleted meanwhile
+        this.untrackAlert(alert.id);
+      }
+    } catch (error) {
+      console.error(`Failed to re-arm alert ${alert.id}:`, error);
+    } finally {
+      this.pending.delete(alert.id);
+    }
+  }
+}
+
+// Export singleton instance
+export const alertEvaluatorService = new AlertEvaluatorService();
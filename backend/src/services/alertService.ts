@@ -0,0 +1,293 @@
+// Alert service for database operations related to user price alerts
+
+import { query } from '../utils/db.js';
+import {
+  AlertCondition,
+  AlertHistoryEntry,
+  AlertStatus,
+  AlertTriggerInput,
+  CreateAlertInput,
+  IndicatorAlertTimeframe,
+  IndicatorRule,
+  PriceAlert,
+  UpdateAlertInput,
+} from '../types/alerts.js';
+
+export const ALERT_CONDITIONS: AlertCondition[] = ['price_above', 'price_below', 'percent_change', 'crosses', 'indicator'];
+export const MAX_ALERTS_PER_USER = 100;
+
+/**
+ * Thrown when a user already has MAX_ALERTS_PER_USER alerts
+ */
+export class AlertLimitError extends Error {
+  constructor() {
+    super(`You can have at most ${MAX_ALERTS_PER_USER} alerts`);
+    this.name = 'AlertLimitError';
+  }
+}
+
+interface AlertRow {
+  id: number;
+  user_id: number;
+  symbol: string;
+  condition: AlertCondition;
+  target: string | null; // NUMERIC comes back as a string
+  timeframe: IndicatorAlertTimeframe | null;
+  rule: IndicatorRule | null; // JSONB comes back parsed
+  rearm: boolean;
+  note: string | null;
+  status: AlertStatus;
+  trigger_count: number;
+  last_triggered_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface AlertHistoryRow {
+  id: number;
+  alert_id: number | null;
+  symbol: string;
+  condition: AlertCondition;
+  target: string | null;
+  timeframe: IndicatorAlertTimeframe | null;
+  rule: IndicatorRule | null;
+  price: string;
+  change_percent: string | null;
+  indicator_values: Record<string, number> | null;
+  bar_time: Date | null;
+  triggered_at: Date;
+}
+
+const ALERT_COLUMNS = `id, user_id, symbol, condition, target, timeframe, rule, rearm, note, status, trigger_count,
+  last_triggered_at, created_at, updated_at`;
+
+const HISTORY_COLUMNS = `id, alert_id, symbol, condition, target, timeframe, rule, price, change_percent,
+  indicator_values, bar_time, triggered_at`;
+
+function toAlert(row: AlertRow): PriceAlert {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    symbol: row.symbol,
+    condition: row.condition,
+    target: row.target !== null ? parseFloat(row.target) : null,
+    timeframe: row.timeframe,
+    rule: row.rule,
+    rearm: row.rearm,
+    note: row.note,
+    status: row.status,
+    triggerCount: row.trigger_count,
+    lastTriggeredAt: row.last_triggered_at?.toISOString() ?? null,
+    createdAt: row.created_at.toISOString(),
+    updatedAt: row.updated_at.toISOString(),
+  };
+}
+
+function toHistoryEntry(row: AlertHistoryRow): AlertHistoryEntry {
+  return {
+    id: row.id,
+    alertId: row.alert_id,
+    symbol: row.symbol,
+    condition: row.condition,
+    target: row.target !== null ? parseFloat(row.target) : null,
+    timeframe: row.timeframe,
+    rule: row.rule,
+    price: parseFloat(row.price),
+    changePercent: row.change_percent !== null ? parseFloat(row.change_percent) : null,
+    indicators: row.indicator_values,
+    barTime: row.bar_time?.toISOString() ?? null,
+    triggeredAt: row.triggered_at.toISOString(),
+  };
+}
+
+/**
+ * Get all alerts of a user
+ * @param userId - User's ID
+ * @returns Alerts, newest first
+ */
+export async function getUserAlerts(userId: number): Promise<PriceAlert[]> {
+  const result = await query<AlertRow>(
+    `SELECT ${ALERT_COLUMNS}
+     FROM user_alerts
+     WHERE user_id = $1
+     ORDER BY created_at DESC, id DESC`,
+    [userId]
+  );
+
+  return result.rows.map(toAlert);
+}
+
+/**
+ * Create an alert
+ * @param userId - User's ID
+ * @param input - Alert to create (symbol already normalized)
+ * @returns Created alert
+ * @throws AlertLimitError if the user already has MAX_ALERTS_PER_USER alerts
+ */
+export async function createAlert(userId: number, input: CreateAlertInput): Promise<PriceAlert> {
+  // Inserts only while the user is under the limit
+  const result = await query<AlertRow>(
+    `INSERT INTO user_alerts (user_id, symbol, condition, target, timeframe, rule, rearm, note)
+     SELECT $1::integer, $2::varchar, $3::varchar, $4::numeric, $5::varchar, $6::jsonb, $7::boolean, $8::varchar
+     WHERE (SELECT COUNT(*) FROM user_alerts WHERE user_id = $1) < $9
+     RETURNING ${ALERT_COLUMNS}`,
+    [
+      userId,
+      input.symbol,
+      input.condition,
+      input.target,
+      input.timeframe,
+      input.rule ? JSON.stringify(input.rule) : null,
+      input.rearm,
+      input.note,
+      MAX_ALERTS_PER_USER,
+    ]
+  );
+
+  if (result.rows.length === 0) {
+    throw new AlertLimitError();
+  }
+
+  return toAlert(result.rows[0]);
+}
+
+/**
+ * Update an alert
+ * @param userId - User's ID
+ * @param alertId - Alert ID
+ * @param input - Fields to change
+ * @returns Updated alert, or null if not found or not owned by the user
+ */
+export async function updateAlert(
+  userId: number,
+  alertId: number,
+  input: UpdateAlertInput
+): Promise<PriceAlert | null> {
+  const rearm = input.status === 'active' || input.condition !== undefined;
+
+  // A new condition replaces the target, timeframe and rule together
+  const result = await query<AlertRow>(
+    `UPDATE user_alerts
+     SET condition = COALESCE($3::varchar, condition),
+         target = CASE WHEN $3::varchar IS NULL THEN target ELSE $4::numeric END,
+         timeframe = CASE WHEN $3::varchar IS NULL THEN timeframe ELSE $5::varchar END,
+         rule = CASE WHEN $3::varchar IS NULL THEN rule ELSE $6::jsonb END,
+         rearm = COALESCE($7, rearm),
+         note = CASE WHEN $8 THEN $9 ELSE note END,
+         status = CASE WHEN $10 THEN 'active' ELSE status END
+     WHERE id = $1 AND user_id = $2
+     RETURNING ${ALERT_COLUMNS}`,
+    [
+      alertId,
+      userId,
+      input.condition ?? null,
+      input.target ?? null,
+      input.timeframe ?? null,
+      input.rule ? JSON.stringify(input.rule) : null,
+      input.rearm ?? null,
+      input.note !== undefined,
+      input.note ?? null,
+      rearm,
+    ]
+  );
+
+  return result.rows[0] ? toAlert(result.rows[0]) : null;
+}
+
+/**
+ * Delete an alert (its history is kept)
+ * @param userId - User's ID
+ * @param alertId - Alert ID
+ * @returns true if deleted, false if not found or not owned by the user
+ */
+export async function deleteAlert(userId: number, alertId: number): Promise<boolean> {
+  const result = await query(
+    `DELETE FROM user_alerts
+     WHERE id = $1 AND user_id = $2`,
+    [alertId, userId]
+  );
+
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Most recent alert triggers of a user
+ * @param userId - User's ID
+ * @param limit - Maximum number of entries
+ */
+export async function getAlertHistory(userId: number, limit: number): Promise<AlertHistoryEntry[]> {
+  const result = await query<AlertHistoryRow>(
+    `SELECT ${HISTORY_COLUMNS}
+     FROM user_alert_history
+     WHERE user_id = $1
+     ORDER BY triggered_at DESC, id DESC
+     LIMIT $2`,
+    [userId, limit]
+  );
+
+  return result.rows.map(toHistoryEntry);
+}
+
+/**
+ * Alerts the evaluator watches: active ones, and triggered ones that re-arm
+ */
+export async function getAlertsToEvaluate(): Promise<PriceAlert[]> {
+  const result = await query<AlertRow>(
+    `SELECT ${ALERT_COLUMNS}
+     FROM user_alerts
+     WHERE status = 'active' OR rearm`
+  );
+
+  return result.rows.map(toAlert);
+}
+
+/**
+ * Mark an active alert triggered and record the trigger in its history
+ * Only one caller wins when several try at once (e.g. two nodes).
+ * @param alertId - Alert ID
+ * @param trigger - Price that fired it, with the day change or the indicator values
+ * @returns History entry, or null if the alert was no longer active
+ */
+export async function recordAlertTrigger(
+  alertId: number,
+  trigger: AlertTriggerInput
+): Promise<AlertHistoryEntry | null> {
+  const result = await query<AlertHistoryRow>(
+    `WITH fired AS (
+       UPDATE user_alerts
+       SET status = 'triggered', trigger_count = trigger_count + 1, last_triggered_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status = 'active'
+       RETURNING id, user_id, symbol, condition, target, timeframe, rule
+     )
+     INSERT INTO user_alert_history
+       (alert_id, user_id, symbol, condition, target, timeframe, rule, price, change_percent, indicator_values, bar_time)
+     SELECT id, user_id, symbol, condition, target, timeframe, rule,
+            $2::numeric, $3::numeric, $4::jsonb, $5::timestamptz
+     FROM fired
+     RETURNING ${HISTORY_COLUMNS}`,
+    [
+      alertId,
+      trigger.price,
+      trigger.changePercent,
+      trigger.indicators ? JSON.stringify(trigger.indicators) : null,
+      trigger.barTime ?? null,
+    ]
+  );
+
+  return result.rows[0] ? toHistoryEntry(result.rows[0]) : null;
+}
+
+/**
+ * Return a triggered alert that re-arms to active
+ * @returns true if it was re-armed
+ */
+export async function rearmAlert(alertId: number): Promise<boolean> {
+  const result = await query(
+    `UPDATE user_alerts
+     SET status = 'active'
+     WHERE id = $1 AND status = 'triggered' AND rearm`,
+    [alertId]
+  );
+
+  return (result.rowCount ?? 0) > 0;
+}
@@ -1,297 +1,75 @@
-import axios from 'axios';
-import {
-  OHLCVData,
-  AlphaVantageTimeSeriesDaily,
-  AlphaVantageTimeSeriesIntraday,
-  IntradayInterval,
-} from '../types/stock.js';
-import { cacheService, CacheTTL, CacheKeys } from './cacheService.js';
-
-const BASE_URL = 'https://www.alphavantage.co/query';
+import { OHLCVData, IntradayInterval } from '../types/stock.js';
+import { getBars, getIntradayMonth } from './barStoreService.js';
+import { getExchangeDate } from '../utils/marketCalendar.js';
+import { getCorporateActions, adjustBars } from './corporateActionsService.js';
+
+export interface DailyDataOptions {
+  // Apply split and dividend adjustments (default: raw prices)
+  adjusted?: boolean;
+}
 
 /**
- * Fetch daily OHLCV data from Alpha Vantage
- * Implements cache-aside pattern: check cache → miss → fetch API → store cache
+ * Fetch daily OHLCV data (latest 100 bars)
+ * Served from the persistent bar store, which backfills from the market data provider
  */
-export async function fetchDailyData(symbol: string): Promise<OHLCVData[]> {
-  const cacheKey = CacheKeys.dailyData(symbol);
-  
-  // Try to get from cache first
-  const cachedData = await cacheService.getJSON<OHLCVData[]>(cacheKey);
-  if (cachedData) {
-    return cachedData;
-  }
-
-  // Cache miss - fetch from API
-  const API_KEY = process.env.ALPHA_VANTAGE_API_KEY;
-  
-  if (!API_KEY) {
-    throw new Error('Alpha Vantage API key is not configured');
-  }
-
-  try {
-    const response = await axios.get<AlphaVantageTimeSeriesDaily>(BASE_URL, {
-      params: {
-        function: 'TIME_SERIES_DAILY',
-        symbol: symbol.toUpperCase(),
-        apikey: API_KEY,
-        outputsize: 'compact', // Last 100 data points
-      },
-      timeout: 10000, // 10 second timeout
-    });
-
-    // Check for API error messages
-    if ('Error Message' in response.data) {
-      throw new Error(`Invalid symbol: ${symbol}`);
-    }
-
-    if ('Note' in response.data) {
-      throw new Error('API rate limit exceeded. Please try again later.');
-    }
-
-    if ('Information' in response.data) {
-      throw new Error('API rate limit exceeded. Please try again later.');
-    }
-
-    const timeSeries = response.data['Time Series (Daily)'];
-    if (!timeSeries) {
-      throw new Error('Invalid response format from Alpha Vantage API');
-    }
+export async function fetchDailyData(
+  symbol: string,
+  options: DailyDataOptions = {}
+): Promise<OHLCVData[]> {
+  const bars = await getBars(symbol, 'daily');
+  return options.adjusted ? adjustForCorporateActions(symbol, bars) : bars;
+}
 
-    const data = transformDailyData(timeSeries);
-    
-    // Store in cache with 24-hour TTL
-    await cacheService.setJSON(cacheKey, data, CacheTTL.DAILY_DATA);
-    
-    return data;
-  } catch (error: unknown) {
-    if (axios.isAxiosError(error)) {
-      if (error.code === 'ECONNABORTED') {
-        throw new Error('Request timeout: Alpha Vantage API is not responding');
-      }
-      if (error.response) {
-        throw new Error(`API error: ${error.response.status} - ${error.response.statusText}`);
-      }
-      if (error.request) {
-        throw new Error('Network error: Unable to reach Alpha Vantage API');
-      }
-    }
-    throw error;
-  }
+export interface IntradayDataOptions {
+  // Return the trailing month of bars instead of the latest 100
+  full?: boolean;
+  // Return one calendar month (YYYY-MM) of history instead of the latest bars
+  month?: string;
+  // Include pre-market and after-hours bars (default: regular session only)
+  extendedHours?: boolean;
 }
 
+// Earliest month the provider serves intraday history for
+export const INTRADAY_HISTORY_START_MONTH = '2000-01';
+
 /**
- * Fetch intraday OHLCV data from Alpha Vantage
- * Implements cache-aside pattern: check cache → miss → fetch API → store cache
+ * Fetch intraday OHLCV data (latest 100 bars, the trailing month, or a past month)
+ * Served from the persistent bar store, which backfills from the market data provider
+ * Each bar is tagged with its session (pre, regular or post)
  */
 export async function fetchIntradayData(
   symbol: string,
-  interval: IntradayInterval
+  interval: IntradayInterval,
+  options: IntradayDataOptions = {}
 ): Promise<OHLCVData[]> {
-  const cacheKey = CacheKeys.intradayData(symbol, interval);
-  
-  // Try to get from cache first
-  const cachedData = await cacheService.getJSON<OHLCVData[]>(cacheKey);
-  if (cachedData) {
-    return cachedData;
-  }
-
-  // Cache miss - fetch from API
-  const API_KEY = process.env.ALPHA_VANTAGE_API_KEY;
-  
-  if (!API_KEY) {
-    throw new Error('Alpha Vantage API key is not configured');
-  }
-
-  try {
-    const response = await axios.get<AlphaVantageTimeSeriesIntraday>(BASE_URL, {
-      params: {
-        function: 'TIME_SERIES_INTRADAY',
-        symbol: symbol.toUpperCase(),
-        interval: interval,
-        apikey: API_KEY,
-        outputsize: 'compact', // Last 100 data points
-      },
-      timeout: 10000, // 10 second timeout
-    });
-
-    // Check for API error messages
-    if ('Error Message' in response.data) {
-      throw new Error(`Invalid symbol: ${symbol}`);
-    }
-
-    if ('Note' in response.data) {
-      throw new Error('API rate limit exceeded. Please try again later.');
-    }
-
-    if ('Information' in response.data) {
-      throw new Error('API rate limit exceeded. Please try again later.');
-    }
-
-    // The key format is dynamic: "Time Series (1min)", "Time Series (5min)", etc.
-    const timeSeriesKey = `Time Series (${interval})`;
-    const timeSeries = response.data[timeSeriesKey];
-
-    if (!timeSeries) {
-      throw new Error('Invalid response format from Alpha Vantage API');
-    }
-
-    const data = transformIntradayData(timeSeries);
-    
-    // Store in cache with 5-minute TTL
-    await cacheService.setJSON(cacheKey, data, CacheTTL.INTRADAY_DATA);
-    
-    return data;
-  } catch (error: unknown) {
-    if (axios.isAxiosError(error)) {
-      if (error.code === 'ECONNABORTED') {
-        throw new Error('Request timeout: Alpha Vantage API is not responding');
-      }
-      if (error.response) {
-        throw new Error(`API error: ${error.response.status} - ${error.response.statusText}`);
-      }
-      if (error.request) {
-        throw new Error('Network error: Unable to reach Alpha Vantage API');
-      }
-    }
-    throw error;
+  const regularHoursOnly = !options.extendedHours;
+  if (options.month) {
+    return getIntradayMonth(symbol, interval, options.month, { regularHoursOnly });
   }
-}
-
-/**
- * Transform Alpha Vantage daily data to standardized OHLCV format
- */
-function transformDailyData(timeSeries: {
-  [date: string]: {
-    '1. open': string;
-    '2. high': string;
-    '3. low': string;
-    '4. close': string;
-    '5. volume': string;
-  };
-}): OHLCVData[] {
-  const data: OHLCVData[] = [];
-
-  for (const [date, values] of Object.entries(timeSeries)) {
-    data.push({
-      timestamp: new Date(date).toISOString(),
-      open: parseFloat(values['1. open']),
-      high: parseFloat(values['2. high']),
-      low: parseFloat(values['3. low']),
-      close: parseFloat(values['4. close']),
-      volume: parseFloat(values['5. volume']),
-    });
-  }
-
-  // Sort by timestamp in descending order (most recent first)
-  data.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-
-  return data;
+  return getBars(symbol, interval, { full: options.full, regularHoursOnly });
 }
 
 /**
  * Fetch historical daily data (full output size for technical analysis)
- * Implements cache-aside pattern: check cache → miss → fetch API → store cache
+ * Served from the persistent bar store; the full history is fetched once and then topped up
  * @param symbol - Stock ticker symbol
+ * @param options - adjusted: apply split and dividend adjustments
  * @returns Array of OHLCV data (most recent first)
  */
-export async function fetchHistoricalData(symbol: string): Promise<OHLCVData[]> {
-  // Use the same cache key as daily data since historical is just the full dataset
-  const cacheKey = CacheKeys.dailyData(symbol);
-  
-  // Try to get from cache first
-  const cachedData = await cacheService.getJSON<OHLCVData[]>(cacheKey);
-  if (cachedData) {
-    return cachedData;
-  }
-
-  // Cache miss - fetch from API
-  const API_KEY = process.env.ALPHA_VANTAGE_API_KEY;
-  
-  if (!API_KEY) {
-    throw new Error('Alpha Vantage API key is not configured');
-  }
-
-  try {
-    const response = await axios.get<AlphaVantageTimeSeriesDaily>(BASE_URL, {
-      params: {
-        function: 'TIME_SERIES_DAILY',
-        symbol: symbol.toUpperCase(),
-        apikey: API_KEY,
-        outputsize: 'full', // Get full historical data (20+ years)
-      },
-      timeout: 30000, // 30 second timeout for larger dataset
-    });
-
-    // Check for API error messages
-    if ('Error Message' in response.data) {
-      throw new Error(`Invalid symbol: ${symbol}`);
-    }
-
-    if ('Note' in response.data) {
-      throw new Error('API rate limit exceeded. Please try again later.');
-    }
-
-    if ('Information' in response.data) {
-      throw new Error('API rate limit exceeded. Please try again later.');
-    }
-
-    const timeSeries = response.data['Time Series (Daily)'];
-    if (!timeSeries) {
-      throw new Error('Invalid response format from Alpha Vantage API');
-    }
-
-    const data = transformDailyData(timeSeries);
-    
-    // Store in cache with 24-hour TTL
-    await cacheService.setJSON(cacheKey, data, CacheTTL.DAILY_DATA);
-    
-    return data;
-  } catch (error: unknown) {
-    if (axios.isAxiosError(error)) {
-      if (error.code === 'ECONNABORTED') {
-        throw new Error('Request timeout: Alpha Vantage API is not responding');
-      }
-      if (error.response) {
-        throw new Error(`API error: ${error.response.status} - ${error.response.statusText}`);
-      }
-      if (error.request) {
-        throw new Error('Network error: Unable to reach Alpha Vantage API');
-      }
-    }
-    throw error;
-  }
+export async function fetchHistoricalData(
+  symbol: string,
+  options: DailyDataOptions = {}
+): Promise<OHLCVData[]> {
+  const bars = await getBars(symbol, 'daily', { full: true });
+  return options.adjusted ? adjustForCorporateActions(symbol, bars) : bars;
 }
 
 /**
- * Transform Alpha Vantage intraday data to standardized OHLCV format
+ * Adjust daily bars using the symbol's stored splits and dividends
  */
-function transformIntradayData(timeSeries: {
-  [datetime: string]: {
-    '1. open': string;
-    '2. high': string;
-    '3. low': string;
-    '4. close': string;
-    '5. volume': string;
-  };
-}): OHLCVData[] {
-  const data: OHLCVData[] = [];
-
-  for (const [datetime, values] of Object.entries(timeSeries)) {
-    data.push({
-      timestamp: new Date(datetime).toISOString(),
-      open: parseFloat(values['1. open']),
-      high: parseFloat(values['2. high']),
-      low: parseFloat(values['3. low']),
-      close: parseFloat(values['4. close']),
-      volume: parseFloat(values['5. volume']),
-    });
-  }
-
-  // Sort by timestamp in descending order (most recent first)
-  data.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-
-  return data;
+async function adjustForCorporateActions(symbol: string, bars: OHLCVData[]): Promise<OHLCVData[]> {
+  const actions = await getCorporateActions(symbol);
+  return adjustBars(bars, actions);
 }
 
 /**
@@ -354,3 +132,36 @@ export function getDataRangeMetadata(data: OHLCVData[]): {
     hasMoreHistory,
   };
 }
+
+/**
+ * Get metadata about an intraday data range
+ * Older history is loaded a month at a time, so hasMoreHistory means there is
+ * a month to request next (previousMonth): the month before a month request,
+ * or for the latest bars the month of the oldest bar, which they only partly cover
+ * @param data - OHLCV data array (sorted descending by timestamp)
+ * @param month - Month the data was requested for, if any (YYYY-MM)
+ * @returns Metadata object with date range info
+ */
+export function getIntradayRangeMetadata(data: OHLCVData[], month?: string): ReturnType<typeof getDataRangeMetadata> & {
+  previousMonth: string | null;
+} {
+  const metadata = getDataRangeMetadata(data);
+  if (data.length === 0) {
+    return { ...metadata, hasMoreHistory: false, previousMonth: null };
+  }
+
+  let previousMonth = getExchangeDate(new Date(data[data.length - 1].timestamp).getTime()).slice(0, 7);
+  if (month) {
+    const [year, monthNumber] = month.split('-').map((part) => parseInt(part, 10));
+    previousMonth = monthNumber === 1
+      ? `${year - 1}-12`
+      : `${year}-${String(monthNumber - 1).padStart(2, '0')}`;
+  }
+  const hasMoreHistory = previousMonth >= INTRADAY_HISTORY_START_MONTH;
+
+  return {
+    ...metadata,
+    hasMoreHistory,
+    previousMonth: hasMoreHistory ? previousMonth : null,
+  };
+}
@@ -0,0 +1,173 @@
+import { OHLCVData } from '../types/stock.js';
+import { AssetClass, BarInterval, BarTimeframe } from '../types/marketData.js';
+import { getBars, getIntradayMonth } from './barStoreService.js';
+import { getCorporateActions, adjustBars } from './corporateActionsService.js';
+import { getSessionDate } from '../utils/marketCalendar.js';
+import { getAssetClass } from '../utils/symbol.js';
+
+interface TimeframeSource {
+  // Stored interval the timeframe is built from
+  interval: BarInterval;
+  // Whether the full stored history is needed to build a useful chart
+  full: boolean;
+  // Resample stored bars into larger candles (omitted when served as-is)
+  resample?: 'hours' | 'week' | 'month' | 'quarter';
+  hours?: number;
+}
+
+const TIMEFRAME_SOURCES: Record<BarTimeframe, TimeframeSource> = {
+  '15min': { interval: '15min', full: false },
+  '30min': { interval: '30min', full: false },
+  '1hour': { interval: '60min', full: false },
+  '2hour': { interval: '60min', full: true, resample: 'hours', hours: 2 },
+  '4hour': { interval: '60min', full: true, resample: 'hours', hours: 4 },
+  daily: { interval: 'daily', full: false },
+  weekly: { interval: 'daily', full: true, resample: 'week' },
+  monthly: { interval: 'daily', full: true, resample: 'month' },
+  quarterly: { interval: 'daily', full: true, resample: 'quarter' },
+};
+
+export const VALID_TIMEFRAMES = Object.keys(TIMEFRAME_SOURCES) as BarTimeframe[];
+
+export interface TimeframeBarsOptions {
+  // Return full history for timeframes that are served as-is
+  full?: boolean;
+  // Apply split/dividend adjustments (daily-based timeframes only)
+  adjusted?: boolean;
+  // Intraday timeframes only: one calendar month (YYYY-MM) of history
+  month?: string;
+  // Intraday timeframes only: include pre-market and after-hours bars
+  extendedHours?: boolean;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Get bars for a chart timeframe, resampling stored bars where needed
+ * @param symbol - Stock ticker symbol
+ * @param timeframe - Chart timeframe
+ * @param options - History length, adjustment, month and session options
+ * @returns Array of OHLCV data (most recent first)
+ */
+export async function getTimeframeBars(
+  symbol: string,
+  timeframe: BarTimeframe,
+  options: TimeframeBarsOptions = {}
+): Promise<OHLCVData[]> {
+  const source = TIMEFRAME_SOURCES[timeframe];
+  const regularHoursOnly = !options.extendedHours;
+  let bars = options.month && source.interval !== 'daily'
+    ? await getIntradayMonth(symbol, source.interval, options.month, { regularHoursOnly })
+    : await getBars(symbol, source.interval, { full: source.full || options.full, regularHoursOnly });
+
+  // Adjust before resampling so each candle combines comparable prices
+  if (options.adjusted && isDailyBased(timeframe)) {
+    bars = adjustBars(bars, await getCorporateActions(symbol));
+  }
+
+  return source.resample ? resampleBars(bars, timeframe, getAssetClass(symbol)) : bars;
+}
+
+/**
+ * Whether a timeframe is built from daily bars (and so supports adjustment)
+ */
+export function isDailyBased(timeframe: BarTimeframe): boolean {
+  return TIMEFRAME_SOURCES[timeframe].interval === 'daily';
+}
+
+/**
+ * Combine bars into larger candles for a timeframe
+ *
+ * - weekly: Monday-Sunday calendar weeks (UTC)
+ * - monthly / quarterly: calendar months / quarters (UTC)
+ * - 2hour / 4hour: blocks anchored at the first bar of each session (pre, regular,
+ *   post) of each trading day (by exchange date), so a 9:30 open gives
+ *   9:30-11:30, 11:30-13:30, ... and blocks never span two sessions; currency
+ *   pairs anchor at the start of their trading day (midnight UTC, 17:00 New York)
+ *
+ * Each candle takes the first open, highest high, lowest low, last close and
+ * summed volume, and is stamped with the timestamp of its first bar.
+ *
+ * @param bars - Source bars (most recent first)
+ * @param timeframe - Target timeframe
+ * @param assetClass - Asset class of the bars, which decides their trading days
+ * @returns Resampled bars (most recent first)
+ */
+export function resampleBars(
+  bars: OHLCVData[],
+  timeframe: BarTimeframe,
+  assetClass: AssetClass = 'equity'
+): OHLCVData[] {
+  const source = TIMEFRAME_SOURCES[timeframe];
+  if (!source.resample || bars.length === 0) {
+    return bars;
+  }
+
+  // Work oldest first so each candle's open/close come from the right bars
+  const ascending = [...bars].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+
+  const sessionStarts = new Map<string, number>();
+  const candles: OHLCVData[] = [];
+  let currentKey: string | null = null;
+
+  for (const bar of ascending) {
+    const time = new Date(bar.timestamp).getTime();
+    const key = periodKey(time, bar.session, source, assetClass, sessionStarts);
+
+    if (key !== currentKey) {
+      candles.push({ ...bar });
+      currentKey = key;
+      continue;
+    }
+
+    const candle = candles[candles.length - 1];
+    candle.high = Math.max(candle.high, bar.high);
+    candle.low = Math.min(candle.low, bar.low);
+    candle.close = bar.close;
+    candle.volume += bar.volume;
+  }
+
+  return candles.reverse();
+}
+
+/**
+ * Identify the resampling period a bar falls into
+ */
+function periodKey(
+  time: number,
+  session: OHLCVData['session'],
+  source: TimeframeSource,
+  assetClass: AssetClass,
+  sessionStarts: Map<string, number>
+): string {
+  const date = new Date(time);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  switch (source.resample) {
+    case 'week': {
+      // Days since Monday (getUTCDay: 0 = Sunday)
+      const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+      const weekStart = Math.floor(time / DAY_MS) - daysSinceMonday;
+      return `W${weekStart}`;
+    }
+    case 'month':
+      return `${year}-${month}`;
+    case 'quarter':
+      return `${year}-Q${Math.floor(month / 3)}`;
+    case 'hours': {
+      // Group by trading day so an evening (UTC next-day) bar stays in its session
+      const sessionKey = `${getSessionDate(assetClass, time)}:${session ?? 'regular'}`;
+      if (!sessionStarts.has(sessionKey)) {
+        sessionStarts.set(sessionKey, time);
+      }
+      const block = Math.floor((time - sessionStarts.get(sessionKey)!) / ((source.hours ?? 1) * HOUR_MS));
+      return `${sessionKey}:${block}`;
+    }
+    default:
+      return String(time);
+  }
+}
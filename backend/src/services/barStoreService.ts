@@ -0,0 +1,438 @@
+import { PoolClient } from 'pg';
+import { query, getClient } from '../utils/db.js';
+import { canonicalSymbol, getAssetClass } from '../utils/symbol.js';
+import { exchangeTimeToUtc, getBarSession, MARKET_TIME_ZONE } from '../utils/marketCalendar.js';
+import { OHLCVData, IntradayInterval } from '../types/stock.js';
+import { BarInterval, OutputSize } from '../types/marketData.js';
+import { getMarketDataProvider } from './marketData/index.js';
+
+// Number of bars a compact provider response contains
+export const COMPACT_SIZE = 100;
+
+// How long stored bars are considered current before topping up from the provider
+const REFRESH_INTERVAL_MS: Record<BarInterval, number> = {
+  daily: 12 * 60 * 60 * 1000,   // 12 hours
+  '1min': 60 * 1000,
+  '5min': 5 * 60 * 1000,
+  '15min': 5 * 60 * 1000,
+  '30min': 5 * 60 * 1000,
+  '60min': 5 * 60 * 1000,
+};
+
+// Bar length used to estimate how many bars are missing since the last sync
+const BAR_DURATION_MS: Record<BarInterval, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  '1min': 60 * 1000,
+  '5min': 5 * 60 * 1000,
+  '15min': 15 * 60 * 1000,
+  '30min': 30 * 60 * 1000,
+  '60min': 60 * 60 * 1000,
+};
+
+interface SyncState {
+  has_full_history: boolean;
+  last_synced_at: Date;
+  latest_ts: Date | null;
+}
+
+interface BarRow {
+  ts: Date;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  volume: string;
+}
+
+export interface SessionOptions {
+  // Intraday only: drop pre-market and after-hours bars
+  regularHoursOnly?: boolean;
+}
+
+export interface GetBarsOptions extends SessionOptions {
+  // Return the entire stored history instead of the latest COMPACT_SIZE bars
+  full?: boolean;
+}
+
+/**
+ * Get bars for a symbol, reading from the ohlcv_bars store first
+ *
+ * - First request: fetch from the provider and persist
+ * - Later requests: serve from the store, topping up only the missing recent bars
+ *   once the refresh interval has passed
+ * - If the top-up fails (quota, outage) stored bars are served as-is
+ * - If the database is unavailable, falls back to the provider directly
+ *
+ * Intraday bars are tagged with their session. With regularHoursOnly the
+ * compact response is the latest COMPACT_SIZE regular-session bars.
+ *
+ * @param symbol - Stock ticker symbol
+ * @param interval - 'daily' or an intraday interval
+ * @param options - full: return entire history (backfills it on first use);
+ *                  regularHoursOnly: drop extended-hours bars
+ * @returns Array of OHLCV data (most recent first)
+ */
+export async function getBars(
+  symbol: string,
+  interval: BarInterval,
+  options: GetBarsOptions = {}
+): Promise<OHLCVData[]> {
+  const normalizedSymbol = canonicalSymbol(symbol);
+  const full = options.full === true;
+  const regularHoursOnly = options.regularHoursOnly === true;
+
+  let state: SyncState | null;
+  try {
+    state = await getSyncState(normalizedSymbol, interval);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.warn(`Bar store unavailable, fetching ${normalizedSymbol} (${interval}) from provider:`, errorMessage);
+    const bars = await fetchFromProvider(normalizedSymbol, interval, full ? 'full' : 'compact');
+    return applySessions(normalizedSymbol, bars, interval, regularHoursOnly);
+  }
+
+  if (!state || (full && !state.has_full_history)) {
+    // Nothing stored yet (or only the latest bars and full history was requested)
+    const bars = await fetchFromProvider(normalizedSymbol, interval, full ? 'full' : 'compact');
+    await saveBars(normalizedSymbol, interval, bars, full);
+    const selected = applySessions(normalizedSymbol, bars, interval, regularHoursOnly);
+    return full ? selected : selected.slice(0, COMPACT_SIZE);
+  }
+
+  const age = Date.now() - state.last_synced_at.getTime();
+  if (age > REFRESH_INTERVAL_MS[interval]) {
+    try {
+      await topUp(normalizedSymbol, interval, state);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`Serving stored bars for ${normalizedSymbol} (${interval}), top-up failed:`, errorMessage);
+    }
+  }
+
+  return getStoredBars(normalizedSymbol, interval, full ? undefined : COMPACT_SIZE, regularHoursOnly);
+}
+
+/**
+ * Read stored bars for a symbol
+ * @param symbol - Stock ticker symbol
+ * @param interval - 'daily' or an intraday interval
+ * @param limit - Optional maximum number of (most recent) bars
+ * @param regularHoursOnly - Intraday only: drop extended-hours bars
+ * @returns Array of OHLCV data (most recent first)
+ */
+export async function getStoredBars(
+  symbol: string,
+  interval: BarInterval,
+  limit?: number,
+  regularHoursOnly: boolean = false
+): Promise<OHLCVData[]> {
+  const normalizedSymbol = canonicalSymbol(symbol);
+  const params: (string | number)[] = [normalizedSymbol, interval];
+  let sessionClause = '';
+  if (regularHoursOnly && interval !== 'daily' && getAssetClass(normalizedSymbol) === 'equity') {
+    // Regular hours on a normal day; early-close afternoons are dropped by applySessions
+    params.push(MARKET_TIME_ZONE);
+    sessionClause = `AND (ts AT TIME ZONE $${params.length})::time >= '09:30'
+      AND (ts AT TIME ZONE $${params.length})::time < '16:00'`;
+  }
+  let limitClause = '';
+  if (limit !== undefined) {
+    params.push(limit);
+    limitClause = `LIMIT $${params.length}`;
+  }
+
+  const result = await query<BarRow>(
+    `
+    SELECT ts, open, high, low, close, volume
+    FROM ohlcv_bars
+    WHERE symbol = $1 AND interval = $2
+      ${sessionClause}
+    ORDER BY ts DESC
+    ${limitClause}
+    `,
+    params
+  );
+
+  return applySessions(normalizedSymbol, result.rows.map(toOHLCV), interval, regularHoursOnly);
+}
+
+/**
+ * Get one calendar month of intraday bars, reading from the ohlcv_bars store first
+ *
+ * Months are fetched from the provider once (with its month parameter) and
+ * recorded in ohlcv_intraday_months; a month fetched before it ended is
+ * fetched again on the next request so its last days are filled in.
+ * If the database is unavailable, falls back to the provider directly.
+ *
+ * @param symbol - Stock ticker symbol
+ * @param interval - Intraday interval
+ * @param month - Calendar month (YYYY-MM, exchange time)
+ * @param options - regularHoursOnly: drop extended-hours bars
+ * @returns Array of OHLCV data (most recent first)
+ */
+export async function getIntradayMonth(
+  symbol: string,
+  interval: IntradayInterval,
+  month: string,
+  options: SessionOptions = {}
+): Promise<OHLCVData[]> {
+  const regularHoursOnly = options.regularHoursOnly === true;
+  const normalizedSymbol = canonicalSymbol(symbol);
+  const { start, end } = getMonthRange(month);
+
+  let complete: boolean;
+  try {
+    const result = await query<{ complete: boolean }>(
+      'SELECT complete FROM ohlcv_intraday_months WHERE symbol = $1 AND interval = $2 AND month = $3',
+      [normalizedSymbol, interval, month]
+    );
+    complete = result.rows[0]?.complete === true;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.warn(`Bar store unavailable, fetching ${normalizedSymbol} (${interval}) ${month} from provider:`, errorMessage);
+    const bars = await getMarketDataProvider().getIntradayBars(normalizedSymbol, interval, { outputSize: 'full', month });
+    return applySessions(normalizedSymbol, bars, interval, regularHoursOnly);
+  }
+
+  if (!complete) {
+    console.log(`Backfilling ${normalizedSymbol} (${interval}) for ${month}`);
+    const bars = await getMarketDataProvider().getIntradayBars(normalizedSymbol, interval, {
+      outputSize: 'full',
+      month,
+    });
+    await saveMonth(normalizedSymbol, interval, month, bars, Date.now() >= end);
+    return applySessions(normalizedSymbol, bars, interval, regularHoursOnly);
+  }
+
+  const result = await query<BarRow>(
+    `
+    SELECT ts, open, high, low, close, volume
+    FROM ohlcv_bars
+    WHERE symbol = $1 AND interval = $2 AND ts >= $3 AND ts < $4
+    ORDER BY ts DESC
+    `,
+    [normalizedSymbol, interval, new Date(start), new Date(end)]
+  );
+
+  return applySessions(normalizedSymbol, result.rows.map(toOHLCV), interval, regularHoursOnly);
+}
+
+/**
+ * Start and end (exclusive) of a calendar month in exchange time, as UTC milliseconds
+ * @param month - YYYY-MM
+ */
+export function getMonthRange(month: string): { start: number; end: number } {
+  const [year, monthNumber] = month.split('-').map((part) => parseInt(part, 10));
+  const next = monthNumber === 12
+    ? `${year + 1}-01`
+    : `${year}-${String(monthNumber + 1).padStart(2, '0')}`;
+
+  return {
+    start: exchangeTimeToUtc(`${month}-01`, 0),
+    end: exchangeTimeToUtc(`${next}-01`, 0),
+  };
+}
+
+/**
+ * Tag intraday bars with their session, dropping extended-hours bars when asked
+ * Daily bars are returned unchanged; currency pair bars are all regular
+ */
+function applySessions(
+  symbol: string,
+  bars: OHLCVData[],
+  interval: BarInterval,
+  regularHoursOnly: boolean
+): OHLCVData[] {
+  if (interval === 'daily') {
+    return bars;
+  }
+
+  const assetClass = getAssetClass(symbol);
+  const tagged = bars.map((bar) => ({ ...bar, session: getBarSession(Date.parse(bar.timestamp), assetClass) }));
+  return regularHoursOnly ? tagged.filter((bar) => bar.session === 'regular') : tagged;
+}
+
+function toOHLCV(row: BarRow): OHLCVData {
+  return {
+    timestamp: row.ts.toISOString(),
+    open: parseFloat(row.open),
+    high: parseFloat(row.high),
+    low: parseFloat(row.low),
+    close: parseFloat(row.close),
+    volume: Number(row.volume),
+  };
+}
+
+/**
+ * Fetch only the bars missing since the last sync and store them
+ * Uses a compact request unless the gap is larger than a compact response covers
+ */
+async function topUp(symbol: string, interval: BarInterval, state: SyncState): Promise<void> {
+  const lastBarTime = state.latest_ts ? state.latest_ts.getTime() : 0;
+  let missingBars = (Date.now() - lastBarTime) / BAR_DURATION_MS[interval];
+  if (interval === 'daily' && getAssetClass(symbol) !== 'crypto') {
+    // Only weekdays have daily bars (crypto trades every day)
+    missingBars = (missingBars * 5) / 7;
+  }
+
+  const outputSize: OutputSize = missingBars >= COMPACT_SIZE ? 'full' : 'compact';
+  console.log(`Topping up ${symbol} (${interval}) with ${outputSize} request, ~${Math.ceil(missingBars)} bars missing`);
+
+  const bars = await fetchFromProvider(symbol, interval, outputSize);
+
+  // Bars older than the latest stored one are already persisted, except the
+  // latest bar itself which may have been stored while still forming
+  const newBars = bars.filter((bar) => new Date(bar.timestamp).getTime() >= lastBarTime);
+  await saveBars(symbol, interval, newBars, state.has_full_history || outputSize === 'full');
+}
+
+/**
+ * Fetch bars from the configured market data provider
+ */
+async function fetchFromProvider(
+  symbol: string,
+  interval: BarInterval,
+  outputSize: OutputSize
+): Promise<OHLCVData[]> {
+  const provider = getMarketDataProvider();
+  return interval === 'daily'
+    ? provider.getDailyBars(symbol, { outputSize })
+    : provider.getIntradayBars(symbol, interval, { outputSize });
+}
+
+/**
+ * Upsert bars and record the sync in a single transaction
+ * Storage errors are logged, not thrown - the caller already has the bars
+ */
+async function saveBars(
+  symbol: string,
+  interval: BarInterval,
+  bars: OHLCVData[],
+  hasFullHistory: boolean
+): Promise<void> {
+  let client;
+  try {
+    client = await getClient();
+    await client.query('BEGIN');
+
+    await upsertBars(client, symbol, interval, bars);
+
+    await client.query(
+      `
+      INSERT INTO ohlcv_sync_state (symbol, interval, has_full_history, last_synced_at)
+      VALUES ($1, $2, $3, CURRENT_TIMESTAMP)
+      ON CONFLICT (symbol, interval)
+      DO UPDATE SET
+        has_full_history = ohlcv_sync_state.has_full_history OR EXCLUDED.has_full_history,
+        last_synced_at = CURRENT_TIMESTAMP
+      `,
+      [symbol, interval, hasFullHistory]
+    );
+
+    await client.query('COMMIT');
+  } catch (error) {
+    if (client) {
+      await client.query('ROLLBACK').catch(() => undefined);
+    }
+    console.error(`Failed to store bars for ${symbol} (${interval}):`, error);
+  } finally {
+    client?.release();
+  }
+}
+
+/**
+ * Upsert a past month of intraday bars and record the month
+ * Leaves ohlcv_sync_state alone: the month says nothing about how current the latest bars are
+ * Storage errors are logged, not thrown - the caller already has the bars
+ */
+async function saveMonth(
+  symbol: string,
+  interval: IntradayInterval,
+  month: string,
+  bars: OHLCVData[],
+  complete: boolean
+): Promise<void> {
+  let client;
+  try {
+    client = await getClient();
+    await client.query('BEGIN');
+
+    await upsertBars(client, symbol, interval, bars);
+
+    await client.query(
+      `
+      INSERT INTO ohlcv_intraday_months (symbol, interval, month, complete, synced_at)
+      VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP)
+      ON CONFLICT (symbol, interval, month)
+      DO UPDATE SET complete = EXCLUDED.complete, synced_at = CURRENT_TIMESTAMP
+      `,
+      [symbol, interval, month, complete]
+    );
+
+    await client.query('COMMIT');
+  } catch (error) {
+    if (client) {
+      await client.query('ROLLBACK').catch(() => undefined);
+    }
+    console.error(`Failed to store ${month} bars for ${symbol} (${interval}):`, error);
+  } finally {
+    client?.release();
+  }
+}
+
+async function upsertBars(
+  client: PoolClient,
+  symbol: string,
+  interval: BarInterval,
+  bars: OHLCVData[]
+): Promise<void> {
+  if (bars.length === 0) {
+    return;
+  }
+
+  await client.query(
+    `
+    INSERT INTO ohlcv_bars (symbol, interval, ts, open, high, low, close, volume)
+    SELECT $1, $2, t.ts, t.open, t.high, t.low, t.close, t.volume
+    FROM UNNEST($3::timestamptz[], $4::numeric[], $5::numeric[], $6::numeric[], $7::numeric[], $8::bigint[])
+      AS t(ts, open, high, low, close, volume)
+    ON CONFLICT (symbol, interval, ts)
+    DO UPDATE SET
+      open = EXCLUDED.open,
+      high = EXCLUDED.high,
+      low = EXCLUDED.low,
+      close = EXCLUDED.close,
+      volume = EXCLUDED.volume
+    `,
+    [
+      symbol,
+      interval,
+      bars.map((bar) => bar.timestamp),
+      bars.map((bar) => bar.open),
+      bars.map((bar) => bar.high),
+      bars.map((bar) => bar.low),
+      bars.map((bar) => bar.close),
+      bars.map((bar) => Math.round(bar.volume)),
+    ]
+  );
+}
+
+/**
+ * Get sync bookkeeping plus the newest stored bar time
+ * @returns null if the symbol/interval has never been synced
+ */
+async function getSyncState(symbol: string, interval: BarInterval): Promise<SyncState | null> {
+  const result = await query<SyncState>(
+    `
+    SELECT
+      s.has_full_history,
+      s.last_synced_at,
+      (SELECT MAX(ts) FROM ohlcv_bars b WHERE b.symbol = s.symbol AND b.interval = s.interval) AS latest_ts
+    FROM ohlcv_sync_state s
+    WHERE s.symbol = $1 AND s.interval = $2
+    `,
+    [symbol, interval]
+  );
+
+  return result.rows[0] || null;
+}
@@ -0,0 +1,251 @@
+import { query } from '../utils/db.js';
+import { JwtPayload } from '../types/auth.js';
+import {
+  cacheService,
+  CacheCounters,
+  CacheNamespaces,
+  getCacheNamespace,
+} from './cacheService.js';
+import { tieredCache, NamespaceCounters, StoredEntry, TieredCacheStats } from './tieredCacheService.js';
+
+export type CacheInvalidationAction = 'symbol' | 'pattern' | 'all';
+
+export interface CacheNamespaceSummary {
+  namespace: string;
+  description: string | null;
+  keys: number | null; // Redis keys; null when Redis is unavailable
+  redis: CacheCounters;
+  memory: NamespaceCounters;
+}
+
+export interface CacheOverview {
+  redis: { connected: boolean; keys?: number; memory?: string };
+  memory: TieredCacheStats;
+  namespaces: CacheNamespaceSummary[];
+}
+
+export interface CacheKeyDetails {
+  key: string;
+  namespace: string;
+  inMemory: boolean;
+  inRedis: boolean;
+  ageSeconds: number | null;
+  ttlSeconds: number | null; // Until Redis expires the key
+  freshForSeconds: number | null; // Tiered entries only; negative once stale
+  staleForSeconds: number | null; // Tiered entries only; negative once past the stale window
+  sizeBytes: number | null;
+}
+
+export interface CacheInvalidationResult {
+  action: CacheInvalidationAction;
+  target: string | null;
+  keysDeleted: number;
+}
+
+export interface CacheAuditEntry {
+  id: number;
+  userId: number | null;
+  userEmail: string;
+  action: CacheInvalidationAction;
+  target: string | null;
+  keysDeleted: number;
+  createdAt: string;
+}
+
+interface CacheAuditRow {
+  id: number;
+  user_id: number | null;
+  user_email: string;
+  action: CacheInvalidationAction;
+  target: string | null;
+  keys_deleted: number;
+  created_at: Date;
+}
+
+// Upper bound on keys counted per namespace (SCAN cost)
+const MAX_COUNTED_KEYS = 10000;
+
+/**
+ * Cache size, hit/miss counters and key counts per namespace
+ */
+export async function getCacheOverview(): Promise<CacheOverview> {
+  const redisCounters = cacheService.getNamespaceCounters();
+  const memoryCounters = tieredCache.getNamespaceCounters();
+
+  // Registered namespaces first, then any others that have seen traffic
+  const namespaces = [
+    ...new Set([...Object.keys(CacheNamespaces), ...Object.keys(redisCounters), ...Object.keys(memoryCounters)]),
+  ];
+
+  const summaries: CacheNamespaceSummary[] = [];
+  for (const namespace of namespaces) {
+    summaries.push({
+      namespace,
+      description: CacheNamespaces[namespace]?.description ?? null,
+      keys: cacheService.isAvailable()
+        ? (await cacheService.scanKeys(`${namespace}:*`, MAX_COUNTED_KEYS)).length
+        : null,
+      redis: redisCounters[namespace] ?? { hits: 0, misses: 0 },
+      memory: memoryCounters[namespace] ?? { hits: 0, misses: 0, staleServed: 0 },
+    });
+  }
+
+  return {
+    redis: await cacheService.getStats(),
+    memory: tieredCache.getStats(),
+    namespaces: summaries,
+  };
+}
+
+/**
+ * Show where a key is cached, how old it is and when it expires
+ * @param key - Cache key
+ * @returns Key details, or null when neither tier holds the key
+ */
+export async function inspectCacheKey(key: string): Promise<CacheKeyDetails | null> {
+  const local = tieredCache.peek(key);
+  const remote = await cacheService.getKeyInfo(key);
+  if (!local && !remote) {
+    return null;
+  }
+
+  const namespace = getCacheNamespace(key);
+  const now = Date.now();
+  const details: CacheKeyDetails = {
+    key,
+    namespace,
+    inMemory: local !== null,
+    inRedis: remote !== null,
+    ageSeconds: null,
+    ttlSeconds: remote?.ttlSeconds ?? null,
+    freshForSeconds: null,
+    staleForSeconds: null,
+    sizeBytes: remote?.sizeBytes ?? null,
+  };
+
+  // Tiered entries carry their own timestamps; fixed-TTL entries are aged from the TTL left
+  const entry = local ?? parseStoredEntry(remote?.value);
+  if (entry) {
+    details.ageSeconds = Math.round((now - entry.storedAt) / 1000);
+    details.freshForSeconds = Math.round((entry.freshUntil - now) / 1000);
+    details.staleForSeconds = Math.round((entry.staleUntil - now) / 1000);
+  } else {
+    const ttlSeconds = CacheNamespaces[namespace]?.ttlSeconds;
+    if (ttlSeconds !== undefined && details.ttlSeconds !== null) {
+      details.ageSeconds = ttlSeconds - details.ttlSeconds;
+    }
+  }
+
+  return details;
+}
+
+/**
+ * Remove every cached market data response and metrics entry for a symbol
+ * (screener results are keyed by filter hash; invalidate them by pattern)
+ * @param symbol - Canonical stock symbol
+ * @param user - Admin making the change, for the audit log
+ */
+export async function invalidateSymbol(symbol: string, user: JwtPayload): Promise<CacheInvalidationResult> {
+  const patterns = [`stock:*:${symbol}`, `stock:*:${symbol}:*`, `metrics:${symbol}`];
+
+  let keysDeleted = 0;
+  for (const pattern of patterns) {
+    keysDeleted += await tieredCache.invalidatePattern(pattern);
+  }
+
+  return recordInvalidation(user, { action: 'symbol', target: symbol, keysDeleted });
+}
+
+/**
+ * Remove every key matching a Redis glob pattern (e.g. "screener:*")
+ * @param pattern - Pattern to match
+ * @param user - Admin making the change, for the audit log
+ */
+export async function invalidatePattern(pattern: string, user: JwtPayload): Promise<CacheInvalidationResult> {
+  const keysDeleted = await tieredCache.invalidatePattern(pattern);
+  return recordInvalidation(user, { action: 'pattern', target: pattern, keysDeleted });
+}
+
+/**
+ * Empty both cache tiers
+ * @param user - Admin making the change, for the audit log
+ */
+export async function invalidateAll(user: JwtPayload): Promise<CacheInvalidationResult> {
+  const { keys: redisKeys } = await cacheService.getStats();
+  const cleared = await cacheService.clear();
+  const localKeys = tieredCache.clearLocal();
+
+  return recordInvalidation(user, {
+    action: 'all',
+    target: null,
+    keysDeleted: cleared ? redisKeys ?? 0 : localKeys,
+  });
+}
+
+/**
+ * Most recent cache invalidations
+ * @param limit - Maximum number of entries
+ */
+export async function getCacheAuditLog(limit: number): Promise<CacheAuditEntry[]> {
+  const result = await query<CacheAuditRow>(
+    `
+    SELECT id, user_id, user_email, action, target, keys_deleted, created_at
+    FROM cache_audit_log
+    ORDER BY created_at DESC, id DESC
+    LIMIT $1
+    `,
+    [limit]
+  );
+
+  return result.rows.map((row) => ({
+    id: row.id,
+    userId: row.user_id,
+    userEmail: row.user_email,
+    action: row.action,
+    target: row.target,
+    keysDeleted: row.keys_deleted,
+    createdAt: row.created_at.toISOString(),
+  }));
+}
+
+/**
+ * Write the audit log entry for an invalidation
+ * The invalidation has already happened, so a failed write is logged rather than thrown
+ */
+async function recordInvalidation(
+  user: JwtPayload,
+  result: CacheInvalidationResult
+): Promise<CacheInvalidationResult> {
+  console.log(
+    `Cache invalidation by ${user.email}: ${result.action}${result.target ? ` ${result.target}` : ''} (${result.keysDeleted} keys)`
+  );
+
+  try {
+    await query(
+      `
+      INSERT INTO cache_audit_log (user_id, user_email, action, target, keys_deleted)
+      VALUES ($1, $2, $3, $4, $5)
+      `,
+      [user.userId, user.email, result.action, result.target, result.keysDeleted]
+    );
+  } catch (error) {
+    console.error('Failed to write cache audit log entry:', error);
+  }
+
+  return result;
+}
+
+function parseStoredEntry(value: string | undefined): StoredEntry<unknown> | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed.storedAt === 'number' && typeof parsed.freshUntil === 'number'
+      ? (parsed as StoredEntry<unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
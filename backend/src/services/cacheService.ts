@@ -1,5 +1,42 @@
 import Redis from 'ioredis';
 
+export interface CacheCounters {
+  hits: number;
+  misses: number;
+}
+
+export interface CacheKeyInfo {
+  ttlSeconds: number | null; // null when the key never expires
+  sizeBytes: number;
+  value: string;
+}
+
+/**
+ * Create a Redis client from REDIS_URL, or REDIS_HOST/REDIS_PORT
+ * The client connects lazily and gives up after a few retries, so callers can
+ * carry on without Redis. Each caller attaches its own event handlers.
+ * @param fallback - What the caller does without Redis, for the give-up warning
+ */
+export function createRedisClient(fallback: string): Redis {
+  const redisUrl = process.env.REDIS_URL;
+  const redisHost = process.env.REDIS_HOST || 'localhost';
+  const redisPort = parseInt(process.env.REDIS_PORT || '6379', 10);
+
+  const options = {
+    maxRetriesPerRequest: 3,
+    retryStrategy: (times: number) => {
+      if (times > 3) {
+        console.warn(`Redis: Max retries reached, ${fallback}`);
+        return null;
+      }
+      return Math.min(times * 200, 2000);
+    },
+    lazyConnect: true,
+  };
+
+  return redisUrl ? new Redis(redisUrl, options) : new Redis({ host: redisHost, port: redisPort, ...options });
+}
+
 /**
  * Cache Service using Redis
  * Implements graceful degradation - if Redis is unavailable, app continues without caching
@@ -8,6 +45,7 @@ class CacheService {
   private client: Redis | null = null;
   private isConnected: boolean = false;
   private enableLogging: boolean = false;
+  private counters: Map<string, CacheCounters> = new Map();
 
   constructor() {
     this.initializeRedis();
@@ -18,40 +56,10 @@ class CacheService {
    */
   private initializeRedis(): void {
     try {
-      const redisUrl = process.env.REDIS_URL;
-      const redisHost = process.env.REDIS_HOST || 'localhost';
-      const redisPort = parseInt(process.env.REDIS_PORT || '6379', 10);
-      
       // Enable cache logging if environment variable is set
       this.enableLogging = process.env.CACHE_LOGGING === 'true';
 
-      if (redisUrl) {
-        this.client = new Redis(redisUrl, {
-          maxRetriesPerRequest: 3,
-          retryStrategy: (times: number) => {
-            if (times > 3) {
-              console.warn('Redis: Max retries reached, operating without cache');
-              return null;
-            }
-            return Math.min(times * 200, 2000);
-          },
-          lazyConnect: true,
-        });
-      } else {
-        this.client = new Redis({
-          host: redisHost,
-          port: redisPort,
-          maxRetriesPerRequest: 3,
-          retryStrategy: (times: number) => {
-            if (times > 3) {
-              console.warn('Redis: Max retries reached, operating without cache');
-              return null;
-            }
-            return Math.min(times * 200, 2000);
-          },
-          lazyConnect: true,
-        });
-      }
+      this.client = createRedisClient('operating without cache');
 
       // Connection event handlers
       this.client.on('connect', () => {
@@ -100,6 +108,7 @@ class CacheService {
       if (this.enableLogging) {
         console.log(`Cache MISS (disconnected): ${key}`);
       }
+      this.count(key, false);
       return null;
     }
 
@@ -108,6 +117,7 @@ class CacheService {
       if (this.enableLogging) {
         console.log(`Cache ${value ? 'HIT' : 'MISS'}: ${key}`);
       }
+      this.count(key, value !== null);
       return value;
     } catch (error) {
       console.warn(`Redis: Error getting key ${key}:`, error);
@@ -251,6 +261,68 @@ class CacheService {
     }
   }
 
+  /**
+   * List keys matching a pattern, without blocking Redis (uses SCAN)
+   * @param pattern Pattern to match (e.g., "screener:*")
+   * @param limit Maximum number of keys to return
+   * @returns Matching keys (unordered)
+   */
+  async scanKeys(pattern: string, limit: number): Promise<string[]> {
+    if (!this.client || !this.isConnected) {
+      return [];
+    }
+
+    const keys: string[] = [];
+    try {
+      let cursor = '0';
+      do {
+        const [next, batch] = await this.client.scan(cursor, 'MATCH', pattern, 'COUNT', 500);
+        cursor = next;
+        keys.push(...batch);
+      } while (cursor !== '0' && keys.length < limit);
+    } catch (error) {
+      console.warn(`Redis: Error scanning pattern ${pattern}:`, error);
+    }
+
+    return keys.slice(0, limit);
+  }
+
+  /**
+   * Get a key's value with its remaining TTL and size, without counting a hit
+   * @param key Cache key
+   * @returns Key info or null if not found/error
+   */
+  async getKeyInfo(key: string): Promise<CacheKeyInfo | null> {
+    if (!this.client || !this.isConnected) {
+      return null;
+    }
+
+    try {
+      const [value, ttl] = await Promise.all([this.client.get(key), this.client.ttl(key)]);
+      if (value === null) {
+        return null;
+      }
+      return {
+        ttlSeconds: ttl >= 0 ? ttl : null,
+        sizeBytes: Buffer.byteLength(value),
+        value,
+      };
+    } catch (error) {
+      console.warn(`Redis: Error inspecting key ${key}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Hit/miss counters per namespace since startup
+   * @returns Map of namespace to counters
+   */
+  getNamespaceCounters(): Record<string, CacheCounters> {
+    return Object.fromEntries(
+      [...this.counters.entries()].map(([namespace, counters]) => [namespace, { ...counters }])
+    );
+  }
+
   /**
    * Check if cache is available
    * @returns true if connected, false otherwise
@@ -286,6 +358,17 @@ class CacheService {
     return stats;
   }
 
+  private count(key: string, hit: boolean): void {
+    const namespace = getCacheNamespace(key);
+    const counters = this.counters.get(namespace) ?? { hits: 0, misses: 0 };
+    if (hit) {
+      counters.hits++;
+    } else {
+      counters.misses++;
+    }
+    this.counters.set(namespace, counters);
+  }
+
   /**
    * Close Redis connection (for graceful shutdown)
    */
@@ -305,17 +388,51 @@ class CacheService {
 export const cacheService = new CacheService();
 
 // Export TTL constants for consistency
+// (market data responses use CachePolicies in tieredCacheService)
 export const CacheTTL = {
-  DAILY_DATA: 24 * 60 * 60,      // 24 hours
-  INTRADAY_DATA: 5 * 60,          // 5 minutes
   METRICS: 24 * 60 * 60,          // 24 hours
   SCREENER: 60 * 60,              // 1 hour
+  STOCK_UNIVERSE: 60 * 60,        // 1 hour
 } as const;
 
 // Export cache key helpers
 export const CacheKeys = {
-  dailyData: (symbol: string) => `stock:daily:${symbol}`,
-  intradayData: (symbol: string, interval: string) => `stock:intraday:${symbol}:${interval}`,
+  dailyBars: (symbol: string, full: boolean, adjusted: boolean) =>
+    `stock:daily:${symbol}:${full ? 'full' : 'compact'}:${adjusted ? 'adjusted' : 'raw'}`,
+  // range: compact, full or a history month (YYYY-MM)
+  intradayBars: (symbol: string, interval: string, range: string, extendedHours: boolean) =>
+    `stock:intraday:${symbol}:${interval}:${range}:${extendedHours ? 'extended' : 'regular'}`,
+  timeframeBars: (symbol: string, timeframe: string, range: string, adjusted: boolean, extendedHours: boolean) =>
+    `stock:bars:${symbol}:${timeframe}:${range}:${adjusted ? 'adjusted' : 'raw'}:${extendedHours ? 'extended' : 'regular'}`,
+  corporateActions: (symbol: string) => `stock:actions:${symbol}`,
+  stockEvents: (symbol: string) => `stock:events:${symbol}`,
   metrics: (symbol: string) => `metrics:${symbol}`,
   screener: (filterHash: string) => `screener:${filterHash}`,
+  symbolSearch: (query: string) => `search:${query}`,
+  stockUniverse: () => 'stocks:universe',
 } as const;
+
+// Key namespaces, for cache inspection
+// ttlSeconds is set for namespaces stored with a fixed CacheTTL; the others
+// are tiered entries that carry their own timestamps
+export const CacheNamespaces: Record<string, { description: string; ttlSeconds?: number }> = {
+  'stock:daily': { description: 'Daily bars' },
+  'stock:intraday': { description: 'Intraday bars' },
+  'stock:bars': { description: 'Chart timeframe bars' },
+  'stock:actions': { description: 'Splits and dividends' },
+  'stock:events': { description: 'Earnings and ex-dividend events' },
+  search: { description: 'Provider symbol search results' },
+  metrics: { description: 'Technical metrics', ttlSeconds: CacheTTL.METRICS },
+  screener: { description: 'Screener results', ttlSeconds: CacheTTL.SCREENER },
+  stocks: { description: 'Stock universe for symbol search', ttlSeconds: CacheTTL.STOCK_UNIVERSE },
+};
+
+/**
+ * Namespace a cache key belongs to (its registered prefix, else its first segment)
+ * @param key Cache key
+ */
+export function getCacheNamespace(key: string): string {
+  const [first, second] = key.split(':');
+  const twoSegments = `${first}:${second}`;
+  return twoSegments in CacheNamespaces ? twoSegments : first;
+}
@@ -0,0 +1,350 @@
+import { randomUUID } from 'crypto';
+import Redis from 'ioredis';
+import { createRedisClient } from './cacheService.js';
+import { LiveBarUpdate } from './liveBarService.js';
+import { PriceUpdateData, UserChannel } from '../types/wsProtocol.js';
+
+/**
+ * Cluster Service
+ *
+ * Lets several backend nodes serve /ws together through Redis. Each symbol
+ * watched by clients has one feed owner, elected with a lease in Redis: only
+ * the owner takes the symbol from the real-time feed, and it publishes every
+ * update on the symbol's channel. Each node follows the channels of the symbols
+ * its own clients watch and delivers what arrives to them. Events for a user
+ * (user_event) go to every node, since the user's connections may be on any.
+ *
+ * Without Redis (not configured or unreachable) the node runs on its own: it
+ * owns every symbol it watches and publishes nothing.
+ */
+
+/**
+ * Update published by a symbol's feed owner
+ */
+export interface ClusterSymbolUpdate {
+  node: string; // Publishing node (it delivers to its own clients directly)
+  symbol: string;
+  price: PriceUpdateData;
+  bars: LiveBarUpdate[];
+}
+
+export type ClusterUpdateHandler = (update: ClusterSymbolUpdate) => void;
+
+/**
+ * Event for a user's connections, published by the node that raised it
+ */
+export interface ClusterUserEvent {
+  node: string;
+  userId: number;
+  channel: UserChannel;
+  data: Record<string, unknown>;
+}
+
+export type ClusterUserEventHandler = (event: ClusterUserEvent) => void;
+
+export interface ClusterStatus {
+  nodeId: string;
+  mode: 'cluster' | 'single-node';
+  ownedSymbols: number;
+  followedSymbols: number;
+}
+
+const OWNER_KEY_PREFIX = 'ws:owner:';
+const CHANNEL_PREFIX = 'ws:symbol:';
+const USER_EVENTS_CHANNEL = 'ws:user-events';
+
+// Take the lease when it's free, renew it when it's already ours
+const CLAIM_SCRIPT = `
+local owner = redis.call('GET', KEYS[1])
+if not owner then
+  redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+  return 1
+end
+if owner == ARGV[1] then
+  redis.call('PEXPIRE', KEYS[1], ARGV[2])
+  return 1
+end
+return 0
+`;
+
+// Drop the lease only if it's still ours
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+class ClusterService {
+  readonly nodeId = randomUUID();
+  private publisher: Redis | null = null;
+  // Pub/sub needs a connection of its own
+  private subscriber: Redis | null = null;
+  private publisherReady = false;
+  private subscriberReady = false;
+  private ownedSymbols: Set<string> = new Set();
+  private followedSymbols: Set<string> = new Set();
+  private updateHandler: ClusterUpdateHandler | null = null;
+  private userEventHandler: ClusterUserEventHandler | null = null;
+
+  // Owners renew their leases on every sync; a node that dies is replaced once its lease runs out
+  private readonly OWNER_LEASE_MS = 15000;
+
+  /**
+   * Connect to Redis and start receiving other nodes' updates
+   * Runs single-node until (and unless) both connections are ready.
+   */
+  start(handler: ClusterUpdateHandler): void {
+    if (this.publisher) {
+      return;
+    }
+
+    this.updateHandler = handler;
+
+    try {
+      this.publisher = createRedisClient('serving /ws as a single node');
+      this.subscriber = createRedisClient('serving /ws as a single node');
+    } catch (error) {
+      console.warn('Cluster: Failed to initialize Redis, serving /ws as a single node:', error);
+      this.publisher = null;
+      this.subscriber = null;
+      return;
+    }
+
+    this.publisher.on('ready', () => {
+      this.publisherReady = true;
+      this.logMode();
+    });
+    this.publisher.on('close', () => {
+      this.publisherReady = false;
+    });
+    this.publisher.on('error', (error: Error) => {
+      this.publisherReady = false;
+      console.warn('Cluster: Redis connection error (serving /ws as a single node):', error.message);
+    });
+
+    this.subscriber.on('ready', () => {
+      this.subscriberReady = true;
+      // User events, and symbols followed while Redis was unreachable
+      this.subscribeChannels([
+        USER_EVENTS_CHANNEL,
+        ...Array.from(this.followedSymbols, (symbol) => CHANNEL_PREFIX + symbol),
+      ]);
+      this.logMode();
+    });
+    this.subscriber.on('close', () => {
+      this.subscriberReady = false;
+    });
+    this.subscriber.on('error', (error: Error) => {
+      this.subscriberReady = false;
+      console.warn('Cluster: Redis subscriber error (serving /ws as a single node):', error.message);
+    });
+    this.subscriber.on('message', (channel: string, message: string) => {
+      this.handleMessage(channel, message);
+    });
+
+    for (const client of [this.publisher, this.subscriber]) {
+      client.connect().catch((error: Error) => {
+        console.warn('Cluster: Redis unavailable, serving /ws as a single node:', error.message);
+      });
+    }
+  }
+
+  /**
+   * Release this node's leases and disconnect
+   */
+  async stop(): Promise<void> {
+    await this.releaseSymbols(Array.from(this.ownedSymbols));
+
+    for (const client of [this.publisher, this.subscriber]) {
+      try {
+        // Never connected (or gave up): nothing to flush, just stop reconnecting
+        if (client?.status === 'ready') {
+          await client.quit();
+        } else {
+          client?.disconnect();
+        }
+      } catch (error) {
+        console.warn('Cluster: Error disconnecting from Redis:', error);
+      }
+    }
+
+    this.publisher = null;
+    this.subscriber = null;
+    this.publisherReady = false;
+    this.subscriberReady = false;
+    this.ownedSymbols.clear();
+    this.followedSymbols.clear();
+    this.updateHandler = null;
+  }
+
+  /**
+   * Whether updates are shared with other nodes through Redis
+   */
+  isClustered(): boolean {
+    return this.publisherReady && this.subscriberReady;
+  }
+
+  /**
+   * Take or renew the feed lease of symbols this node's clients watch
+   * @returns Symbols this node owns (all of them when running single-node)
+   */
+  async claimSymbols(symbols: string[]): Promise<string[]> {
+    if (!this.publisher || !this.isClustered()) {
+      this.ownedSymbols = new Set(symbols);
+      return symbols;
+    }
+
+    const publisher = this.publisher;
+    const results = await Promise.all(
+      symbols.map(async (symbol) => {
+        try {
+          const claimed = await publisher.eval(CLAIM_SCRIPT, 1, OWNER_KEY_PREFIX + symbol, this.nodeId, this.OWNER_LEASE_MS);
+          return claimed === 1;
+        } catch (error) {
+          // Redis went away mid-sync: serve the symbol ourselves rather than drop it
+          console.warn(`Cluster: Could not claim ${symbol}, serving it locally:`, error);
+          return true;
+        }
+      })
+    );
+
+    const owned = symbols.filter((_symbol, index) => results[index]);
+    this.ownedSymbols = new Set(owned);
+    return owned;
+  }
+
+  /**
+   * Give up the feed lease of symbols, so a node still watching them takes over
+   */
+  async releaseSymbols(symbols: string[]): Promise<void> {
+    symbols.forEach((symbol) => this.ownedSymbols.delete(symbol));
+    if (!this.publisher || !this.isClustered()) {
+      return;
+    }
+
+    const publisher = this.publisher;
+    await Promise.all(
+      symbols.map((symbol) =>
+        publisher.eval(RELEASE_SCRIPT, 1, OWNER_KEY_PREFIX + symbol, this.nodeId).catch((error: Error) => {
+          console.warn(`Cluster: Could not release ${symbol} (its lease will expire):`, error.message);
+        })
+      )
+    );
+  }
+
+  /**
+   * Receive the updates of exactly these symbols (those this node's clients watch)
+   */
+  followSymbols(symbols: string[]): void {
+    const wanted = new Set(symbols);
+    const added = symbols.filter((symbol) => !this.followedSymbols.has(symbol));
+    const removed = Array.from(this.followedSymbols).filter((symbol) => !wanted.has(symbol));
+    this.followedSymbols = wanted;
+
+    // Followed once the subscriber is ready
+    if (!this.subscriber || !this.subscriberReady) {
+      return;
+    }
+
+    if (added.length > 0) {
+      this.subscribeChannels(added.map((symbol) => CHANNEL_PREFIX + symbol));
+    }
+    if (removed.length > 0) {
+      this.subscriber.unsubscribe(...removed.map((symbol) => CHANNEL_PREFIX + symbol)).catch((error: Error) => {
+        console.warn('Cluster: Could not stop following symbols:', error.message);
+      });
+    }
+  }
+
+  /**
+   * Share an owned symbol's update with the other nodes
+   */
+  publish(update: Omit<ClusterSymbolUpdate, 'node'>): void {
+    if (!this.publisher || !this.isClustered()) {
+      return;
+    }
+
+    const message: ClusterSymbolUpdate = { ...update, node: this.nodeId };
+    this.publisher.publish(CHANNEL_PREFIX + update.symbol, JSON.stringify(message)).catch((error: Error) => {
+      console.warn(`Cluster: Could not publish ${update.symbol}:`, error.message);
+    });
+  }
+
+  getStatus(): ClusterStatus {
+    return {
+      nodeId: this.nodeId,
+      mode: this.isClustered() ? 'cluster' : 'single-node',
+      ownedSymbols: this.ownedSymbols.size,
+      followedSymbols: this.followedSymbols.size,
+    };
+  }
+
+  /**
+   * Register how events other nodes raise for users are delivered here
+   */
+  setUserEventHandler(handler: ClusterUserEventHandler): void {
+    this.userEventHandler = handler;
+  }
+
+  /**
+   * Share an event for a user with the other nodes
+   */
+  publishUserEvent(event: Omit<ClusterUserEvent, 'node'>): void {
+    if (!this.publisher || !this.isClustered()) {
+      return;
+    }
+
+    const message: ClusterUserEvent = { ...event, node: this.nodeId };
+    this.publisher.publish(USER_EVENTS_CHANNEL, JSON.stringify(message)).catch((error: Error) => {
+      console.warn(`Cluster: Could not publish event for user ${event.userId}:`, error.message);
+    });
+  }
+
+  private subscribeChannels(channels: string[]): void {
+    this.subscriber?.subscribe(...channels).catch((error: Error) => {
+      console.warn('Cluster: Could not follow symbols:', error.message);
+    });
+  }
+
+  private handleMessage(channel: string, message: string): void {
+    if (channel !== USER_EVENTS_CHANNEL && !channel.startsWith(CHANNEL_PREFIX)) {
+      return;
+    }
+
+    let parsed: ClusterSymbolUpdate | ClusterUserEvent;
+    try {
+      parsed = JSON.parse(message);
+    } catch (error) {
+      console.warn(`Cluster: Ignoring malformed message on ${channel}:`, error);
+      return;
+    }
+
+    if (channel === USER_EVENTS_CHANNEL) {
+      const event = parsed as ClusterUserEvent;
+      if (event.node !== this.nodeId) {
+        this.userEventHandler?.(event);
+      }
+      return;
+    }
+
+    const update = parsed as ClusterSymbolUpdate;
+
+    // Our own updates were delivered locally when published; channels left while
+    // Redis was unreachable may still deliver until the next reconnect
+    if (update.node === this.nodeId || !this.followedSymbols.has(update.symbol)) {
+      return;
+    }
+
+    this.updateHandler?.(update);
+  }
+
+  private logMode(): void {
+    if (this.isClustered()) {
+      console.log(`✅ Cluster: Sharing /ws updates through Redis (node ${this.nodeId})`);
+    }
+  }
+}
+
+// Export singleton instance
+export const clusterService = new ClusterService();
@@ -0,0 +1,188 @@
+import { query, getClient } from '../utils/db.js';
+import { canonicalSymbol } from '../utils/symbol.js';
+import { OHLCVData } from '../types/stock.js';
+import { CorporateAction } from '../types/marketData.js';
+import { getMarketDataProvider } from './marketData/index.js';
+
+// Corporate actions change rarely; refresh once a week to spare the API quota
+const REFRESH_INTERVAL_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface CorporateActionRow {
+  ex_date: string;
+  action_type: CorporateAction['type'];
+  value: string;
+}
+
+/**
+ * Get splits and dividends for a symbol, reading from the corporate_actions store first
+ * Falls back to stored (or no) actions when the provider fails, so charts still load
+ * unadjusted rather than erroring
+ * @param symbol - Stock ticker symbol
+ * @returns Corporate actions (most recent first)
+ */
+export async function getCorporateActions(symbol: string): Promise<CorporateAction[]> {
+  const normalizedSymbol = canonicalSymbol(symbol);
+
+  let lastSyncedAt: Date | null;
+  try {
+    const result = await query<{ last_synced_at: Date }>(
+      'SELECT last_synced_at FROM corporate_actions_sync_state WHERE symbol = $1',
+      [normalizedSymbol]
+    );
+    lastSyncedAt = result.rows[0]?.last_synced_at || null;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.warn(`Corporate action store unavailable, fetching ${normalizedSymbol} from provider:`, errorMessage);
+    return fetchFromProvider(normalizedSymbol);
+  }
+
+  if (!lastSyncedAt || Date.now() - lastSyncedAt.getTime() > REFRESH_INTERVAL_MS) {
+    try {
+      const actions = await getMarketDataProvider().getCorporateActions(normalizedSymbol);
+      await saveCorporateActions(normalizedSymbol, actions);
+      return actions;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`Serving stored corporate actions for ${normalizedSymbol}, refresh failed:`, errorMessage);
+    }
+  }
+
+  try {
+    const result = await query<CorporateActionRow>(
+      `
+      SELECT TO_CHAR(ex_date, 'YYYY-MM-DD') AS ex_date, action_type, value
+      FROM corporate_actions
+      WHERE symbol = $1
+      ORDER BY ex_date DESC
+      `,
+      [normalizedSymbol]
+    );
+
+    return result.rows.map((row) => ({
+      date: row.ex_date,
+      type: row.action_type,
+      value: parseFloat(row.value),
+    }));
+  } catch (error) {
+    console.error(`Failed to read corporate actions for ${normalizedSymbol}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Apply split and dividend adjustments to daily bars
+ *
+ * Uses backward adjustment: the latest bars keep their raw prices and every
+ * earlier bar is scaled so that splits and dividends no longer show up as gaps.
+ * - split of ratio r: earlier prices / r, earlier volume * r
+ * - dividend of d: earlier prices * (1 - d / close before the ex-date)
+ *
+ * @param bars - Raw daily bars (most recent first)
+ * @param actions - Corporate actions (any order)
+ * @returns Adjusted bars (most recent first)
+ */
+export function adjustBars(bars: OHLCVData[], actions: CorporateAction[]): OHLCVData[] {
+  if (actions.length === 0 || bars.length === 0) {
+    return bars;
+  }
+
+  const sortedActions = [...actions].sort((a, b) => b.date.localeCompare(a.date));
+  let priceFactor = 1;
+  let volumeFactor = 1;
+  let actionIndex = 0;
+
+  return bars.map((bar) => {
+    const barDate = bar.timestamp.split('T')[0];
+
+    // Apply every action whose ex-date is after this bar; this bar is the
+    // last close before those ex-dates
+    while (actionIndex < sortedActions.length && sortedActions[actionIndex].date > barDate) {
+      const action = sortedActions[actionIndex];
+      if (action.type === 'split') {
+        priceFactor /= action.value;
+        volumeFactor *= action.value;
+      } else if (bar.close > action.value) {
+        priceFactor *= 1 - action.value / bar.close;
+      }
+      actionIndex++;
+    }
+
+    if (priceFactor === 1 && volumeFactor === 1) {
+      return bar;
+    }
+
+    return {
+      timestamp: bar.timestamp,
+      open: roundPrice(bar.open * priceFactor),
+      high: roundPrice(bar.high * priceFactor),
+      low: roundPrice(bar.low * priceFactor),
+      close: roundPrice(bar.close * priceFactor),
+      volume: Math.round(bar.volume * volumeFactor),
+    };
+  });
+}
+
+/**
+ * Fetch actions straight from the provider, treating failures as "no actions"
+ */
+async function fetchFromProvider(symbol: string): Promise<CorporateAction[]> {
+  try {
+    return await getMarketDataProvider().getCorporateActions(symbol);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.warn(`Unable to fetch corporate actions for ${symbol}, serving unadjusted data:`, errorMessage);
+    return [];
+  }
+}
+
+/**
+ * Replace stored actions for a symbol and record the sync
+ */
+async function saveCorporateActions(symbol: string, actions: CorporateAction[]): Promise<void> {
+  let client;
+  try {
+    client = await getClient();
+    await client.query('BEGIN');
+
+    await client.query('DELETE FROM corporate_actions WHERE symbol = $1', [symbol]);
+
+    if (actions.length > 0) {
+      await client.query(
+        `
+        INSERT INTO corporate_actions (symbol, ex_date, action_type, value)
+        SELECT $1, t.ex_date, t.action_type, t.value
+        FROM UNNEST($2::date[], $3::varchar[], $4::numeric[]) AS t(ex_date, action_type, value)
+        ON CONFLICT (symbol, ex_date, action_type) DO UPDATE SET value = EXCLUDED.value
+        `,
+        [
+          symbol,
+          actions.map((action) => action.date),
+          actions.map((action) => action.type),
+          actions.map((action) => action.value),
+        ]
+      );
+    }
+
+    await client.query(
+      `
+      INSERT INTO corporate_actions_sync_state (symbol, last_synced_at)
+      VALUES ($1, CURRENT_TIMESTAMP)
+      ON CONFLICT (symbol) DO UPDATE SET last_synced_at = CURRENT_TIMESTAMP
+      `,
+      [symbol]
+    );
+
+    await client.query('COMMIT');
+  } catch (error) {
+    if (client) {
+      await client.query('ROLLBACK').catch(() => undefined);
+    }
+    console.error(`Failed to store corporate actions for ${symbol}:`, error);
+  } finally {
+    client?.release();
+  }
+}
+
+function roundPrice(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
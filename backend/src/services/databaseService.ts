@@ -1,4 +1,12 @@
 import { query, getClient, testConnection } from '../utils/db.js';
+import { canonicalSymbol, getAssetClass } from '../utils/symbol.js';
+import {
+  parseScreenerExpression,
+  EXPRESSION_FIELDS,
+  ExpressionNode,
+  ExpressionValue,
+  ExpressionField,
+} from '../utils/screenerExpression.js';
 import { StockMetadata, StockListFilters, StockListResponse } from '../types/stock.js';
 import { cacheService, CacheTTL, CacheKeys } from './cacheService.js';
 import { createHash } from 'crypto';
@@ -15,16 +23,22 @@ export async function initializeDatabase(): Promise<void> {
     await query(`
       CREATE TABLE IF NOT EXISTS stocks (
         id SERIAL PRIMARY KEY,
-        symbol VARCHAR(10) UNIQUE NOT NULL,
+        symbol VARCHAR(20) UNIQUE NOT NULL,
         name VARCHAR(255) NOT NULL,
         sector VARCHAR(100),
         market_cap BIGINT,
         exchange VARCHAR(20),
         currency VARCHAR(3) DEFAULT 'USD',
+        asset_class VARCHAR(10) NOT NULL DEFAULT 'equity',
         last_updated TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       )
     `);
 
+    // Tables created before asset classes were added
+    await query(`
+      ALTER TABLE stocks ADD COLUMN IF NOT EXISTS asset_class VARCHAR(10) NOT NULL DEFAULT 'equity'
+    `);
+
     // Create indexes for query performance
     await query(`
       CREATE INDEX IF NOT EXISTS idx_stocks_symbol ON stocks(symbol)
@@ -38,13 +52,17 @@ export async function initializeDatabase(): Promise<void> {
       CREATE INDEX IF NOT EXISTS idx_stocks_market_cap ON stocks(market_cap)
     `);
 
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_stocks_asset_class ON stocks(asset_class)
+    `);
+
     // Create stock_metrics table for technical indicators
     await query(`
       CREATE TABLE IF NOT EXISTS stock_metrics (
         id SERIAL PRIMARY KEY,
         stock_id INTEGER NOT NULL REFERENCES stocks(id) ON DELETE CASCADE,
         date DATE NOT NULL,
-        close_price DECIMAL(10,2),
+        close_price NUMERIC(20,8),
         volume BIGINT,
         rsi DECIMAL(5,2),
         price_vs_sma_20 DECIMAL(6,2),
@@ -90,9 +108,209 @@ function createFilterHash(filters: StockListFilters): string {
   return createHash('md5').update(filterString).digest('hex');
 }
 
+// Columns of the stock list query (stocks s, latest metrics m, fundamentals f) for expression fields
+const EXPRESSION_COLUMNS: Record<ExpressionField, string> = {
+  price: 'm.close_price',
+  volume: 'm.volume',
+  avg_volume_20d: 'm.avg_volume_20d',
+  rsi: 'm.rsi',
+  price_vs_sma_20: 'm.price_vs_sma_20',
+  price_vs_sma_50: 'm.price_vs_sma_50',
+  price_vs_sma_200: 'm.price_vs_sma_200',
+  volume_spike: 'm.volume_spike',
+  market_cap: 's.market_cap',
+  pe_ratio: 'f.pe_ratio',
+  eps: 'f.eps',
+  eps_growth: 'f.eps_growth',
+  dividend_yield: 'f.dividend_yield',
+  beta: 'f.beta',
+  profit_margin: 'f.profit_margin',
+  symbol: 's.symbol',
+  sector: 's.sector',
+  industry: 'f.industry',
+  exchange: 's.exchange',
+  asset_class: 's.asset_class',
+};
+
+function compileExpressionValue(value: ExpressionValue, params: unknown[]): string {
+  if (value.type === 'field') {
+    return EXPRESSION_COLUMNS[value.field];
+  }
+  params.push(value.value);
+  // Typed, or a BIGINT column (volume, market_cap) would make 1.5 an invalid bigint
+  return value.type === 'number' ? `$${params.length}::numeric` : `$${params.length}`;
+}
+
+/**
+ * Compile a parsed filter expression to a SQL condition
+ * Values become parameters; fields only ever map to whitelisted columns.
+ * @param node - Expression tree from parseScreenerExpression
+ * @param params - Query parameters so far (values are appended)
+ * @returns SQL condition
+ */
+function compileExpression(node: ExpressionNode, params: unknown[]): string {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return `(${node.operands.map((operand) => compileExpression(operand, params)).join(` ${node.type.toUpperCase()} `)})`;
+    case 'not':
+      return `NOT (${compileExpression(node.operand, params)})`;
+    case 'comparison': {
+      const operator = node.operator === '!=' ? '<>' : node.operator;
+      return `${EXPRESSION_COLUMNS[node.field]} ${operator} ${compileExpressionValue(node.value, params)}`;
+    }
+    case 'in': {
+      params.push(node.values.map((value) => value.value));
+      const list = EXPRESSION_FIELDS[node.field] === 'number' ? `$${params.length}::numeric[]` : `$${params.length}`;
+      return node.negated
+        ? `${EXPRESSION_COLUMNS[node.field]} <> ALL(${list})`
+        : `${EXPRESSION_COLUMNS[node.field]} = ANY(${list})`;
+    }
+  }
+}
+
+/**
+ * Build the WHERE clause of the stock list query from its filters
+ * (stocks s, their latest metrics m and fundamentals f)
+ * @param filters - Stock list filters (paging is ignored)
+ * @returns WHERE clause (empty without filters) and its parameters
+ * @throws ExpressionError if filters.expression is invalid
+ */
+function buildStockListWhere(filters: StockListFilters): { whereClause: string; params: unknown[] } {
+  const {
+    sector,
+    sectors,
+    assetClass,
+    minMarketCap,
+    maxMarketCap,
+    minPrice,
+    maxPrice,
+    rsiMin,
+    rsiMax,
+    priceVsSma50,
+    priceVsSma200,
+    volumeSpikeMin,
+    peMin,
+    peMax,
+    epsGrowthMin,
+    dividendYieldMin,
+    betaMin,
+    betaMax,
+    profitMarginMin,
+    expression,
+  } = filters;
+
+  // Build WHERE clause dynamically based on filters
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  let paramIndex = 1;
+
+  // Fundamental filters
+  if (sector) {
+    conditions.push(`s.sector = $${paramIndex}`);
+    params.push(sector);
+    paramIndex++;
+  }
+
+  if (sectors && sectors.length > 0) {
+    conditions.push(`s.sector = ANY($${paramIndex})`);
+    params.push(sectors);
+    paramIndex++;
+  }
+
+  if (assetClass) {
+    conditions.push(`s.asset_class = $${paramIndex}`);
+    params.push(assetClass);
+    paramIndex++;
+  }
+
+  if (minMarketCap !== undefined) {
+    conditions.push(`s.market_cap >= $${paramIndex}`);
+    params.push(minMarketCap);
+    paramIndex++;
+  }
+
+  if (maxMarketCap !== undefined) {
+    conditions.push(`s.market_cap <= $${paramIndex}`);
+    params.push(maxMarketCap);
+    paramIndex++;
+  }
+
+  // Technical filters (only apply if stock has metrics)
+  if (minPrice !== undefined) {
+    conditions.push(`m.close_price >= $${paramIndex}`);
+    params.push(minPrice);
+    paramIndex++;
+  }
+
+  if (maxPrice !== undefined) {
+    conditions.push(`m.close_price <= $${paramIndex}`);
+    params.push(maxPrice);
+    paramIndex++;
+  }
+
+  if (rsiMin !== undefined) {
+    conditions.push(`m.rsi >= $${paramIndex}`);
+    params.push(rsiMin);
+    paramIndex++;
+  }
+
+  if (rsiMax !== undefined) {
+    conditions.push(`m.rsi <= $${paramIndex}`);
+    params.push(rsiMax);
+    paramIndex++;
+  }
+
+  if (priceVsSma50 === 'above') {
+    conditions.push(`m.price_vs_sma_50 > 0`);
+  } else if (priceVsSma50 === 'below') {
+    conditions.push(`m.price_vs_sma_50 < 0`);
+  }
+
+  if (priceVsSma200 === 'above') {
+    conditions.push(`m.price_vs_sma_200 > 0`);
+  } else if (priceVsSma200 === 'below') {
+    conditions.push(`m.price_vs_sma_200 < 0`);
+  }
+
+  if (volumeSpikeMin !== undefined) {
+    conditions.push(`m.volume_spike >= $${paramIndex}`);
+    params.push(volumeSpikeMin);
+    paramIndex++;
+  }
+
+  // Valuation and income filters (only apply if stock has fundamentals)
+  const fundamentalRanges: [string, string, number | undefined][] = [
+    ['f.pe_ratio', '>=', peMin],
+    ['f.pe_ratio', '<=', peMax],
+    ['f.eps_growth', '>=', epsGrowthMin],
+    ['f.dividend_yield', '>=', dividendYieldMin],
+    ['f.beta', '>=', betaMin],
+    ['f.beta', '<=', betaMax],
+    ['f.profit_margin', '>=', profitMarginMin],
+  ];
+
+  for (const [column, operator, value] of fundamentalRanges) {
+    if (value !== undefined) {
+      conditions.push(`${column} ${operator} $${paramIndex}`);
+      params.push(value);
+      paramIndex++;
+    }
+  }
+
+  // Filter expression (throws ExpressionError if invalid; routes validate it first)
+  if (expression) {
+    conditions.push(`(${compileExpression(parseScreenerExpression(expression), params)})`);
+  }
+
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  return { whereClause, params };
+}
+
 /**
  * Get list of stocks with optional filtering and pagination
- * Joins with stock_metrics table to include technical indicators
+ * Joins with stock_metrics and stock_fundamentals tables to include technical indicators
+ * and valuation data
  * Implements cache-aside pattern with 1-hour TTL for screener results
  * @param filters - Optional filters for sector, market cap, technical indicators, etc.
  * @returns StockListResponse with stocks array and total count
@@ -110,93 +328,13 @@ export async function getStocksList(filters: StockListFilters = {}): Promise<Sto
     }
 
     // Cache miss - query database
-    const {
-      sector,
-      minMarketCap,
-      maxMarketCap,
-      minPrice,
-      maxPrice,
-      rsiMin,
-      rsiMax,
-      priceVsSma50,
-      priceVsSma200,
-      volumeSpikeMin,
-      limit = 25,
-      offset = 0,
-      page,
-    } = filters;
+    const { limit = 25, offset = 0, page } = filters;
 
     // Calculate offset from page number if provided
     const actualOffset = page !== undefined ? (page - 1) * limit : offset;
 
-    // Build WHERE clause dynamically based on filters
-    const conditions: string[] = [];
-    const params: any[] = [];
-    let paramIndex = 1;
-
-    // Fundamental filters
-    if (sector) {
-      conditions.push(`s.sector = $${paramIndex}`);
-      params.push(sector);
-      paramIndex++;
-    }
-
-    if (minMarketCap !== undefined) {
-      conditions.push(`s.market_cap >= $${paramIndex}`);
-      params.push(minMarketCap);
-      paramIndex++;
-    }
-
-    if (maxMarketCap !== undefined) {
-      conditions.push(`s.market_cap <= $${paramIndex}`);
-      params.push(maxMarketCap);
-      paramIndex++;
-    }
-
-    // Technical filters (only apply if stock has metrics)
-    if (minPrice !== undefined) {
-      conditions.push(`m.close_price >= $${paramIndex}`);
-      params.push(minPrice);
-      paramIndex++;
-    }
-
-    if (maxPrice !== undefined) {
-      conditions.push(`m.close_price <= $${paramIndex}`);
-      params.push(maxPrice);
-      paramIndex++;
-    }
-
-    if (rsiMin !== undefined) {
-      conditions.push(`m.rsi >= $${paramIndex}`);
-      params.push(rsiMin);
-      paramIndex++;
-    }
-
-    if (rsiMax !== undefined) {
-      conditions.push(`m.rsi <= $${paramIndex}`);
-      params.push(rsiMax);
-      paramIndex++;
-    }
-
-    if (priceVsSma50 === 'above') {
-      conditions.push(`m.price_vs_sma_50 > 0`);
-    } else if (priceVsSma50 === 'below') {
-      conditions.push(`m.price_vs_sma_50 < 0`);
-    }
-
-    if (priceVsSma200 === 'above') {
-      conditions.push(`m.price_vs_sma_200 > 0`);
-    } else if (priceVsSma200 === 'below') {
-      conditions.push(`m.price_vs_sma_200 < 0`);
-    }
-
-    if (volumeSpikeMin !== undefined) {
-      conditions.push(`m.volume_spike >= $${paramIndex}`);
-      params.push(volumeSpikeMin);
-      paramIndex++;
-    }
-
-    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const { whereClause, params } = buildStockListWhere(filters);
+    const paramIndex = params.length + 1;
 
     // Get total count with metrics join
     const countQuery = `
@@ -208,6 +346,7 @@ export async function getStocksList(filters: StockListFilters = {}): Promise<Sto
         ORDER BY date DESC
         LIMIT 1
       ) m ON true
+      LEFT JOIN stock_fundamentals f ON f.symbol = s.symbol
       ${whereClause}
     `;
     const countResult = await query<{ total: string }>(countQuery, params);
@@ -216,10 +355,12 @@ export async function getStocksList(filters: StockListFilters = {}): Promise<Sto
     // Get paginated results with latest metrics
     const dataQuery = `
       SELECT
-        s.id, s.symbol, s.name, s.sector, s.market_cap, s.exchange, s.currency, s.last_updated,
+        s.id, s.symbol, s.name, s.sector, s.market_cap, s.exchange, s.currency, s.asset_class, s.last_updated,
         m.close_price, m.volume, m.rsi,
         m.price_vs_sma_20, m.price_vs_sma_50, m.price_vs_sma_200,
-        m.volume_spike, m.avg_volume_20d, m.date as metrics_date
+        m.volume_spike, m.avg_volume_20d, m.date as metrics_date,
+        f.industry, f.pe_ratio, f.eps, f.eps_growth, f.dividend_yield,
+        f.beta, f.profit_margin, f.updated_at as fundamentals_updated_at
       FROM stocks s
       LEFT JOIN LATERAL (
         SELECT * FROM stock_metrics
@@ -227,6 +368,7 @@ export async function getStocksList(filters: StockListFilters = {}): Promise<Sto
         ORDER BY date DESC
         LIMIT 1
       ) m ON true
+      LEFT JOIN stock_fundamentals f ON f.symbol = s.symbol
       ${whereClause}
       ORDER BY s.market_cap DESC NULLS LAST, s.symbol ASC
       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}
@@ -263,6 +405,36 @@ export async function getStocksList(filters: StockListFilters = {}): Promise<Sto
   }
 }
 
+/**
+ * Get the symbols of every stock matching the stock list filters
+ * Not cached: used by scheduled screen runs, which need the current result set.
+ * @param filters - Stock list filters (paging is ignored)
+ * @returns Matching symbols, sorted
+ */
+export async function getMatchingSymbols(filters: StockListFilters): Promise<string[]> {
+  try {
+    const { whereClause, params } = buildStockListWhere(filters);
+    const result = await query<{ symbol: string }>(
+      `SELECT s.symbol
+       FROM stocks s
+       LEFT JOIN LATERAL (
+         SELECT * FROM stock_metrics
+         WHERE stock_id = s.id
+         ORDER BY date DESC
+         LIMIT 1
+       ) m ON true
+       LEFT JOIN stock_fundamentals f ON f.symbol = s.symbol
+       ${whereClause}
+       ORDER BY s.symbol ASC`,
+      params
+    );
+    return result.rows.map((row) => row.symbol);
+  } catch (error) {
+    console.error('Failed to get matching symbols:', error);
+    throw error;
+  }
+}
+
 /**
  * Get a single stock by symbol
  * Implements caching with 24-hour TTL
@@ -281,8 +453,8 @@ export async function getStockBySymbol(symbol: string): Promise<StockMetadata |
 
     // Cache miss - query database
     const result = await query<StockMetadata>(
-      'SELECT id, symbol, name, sector, market_cap, exchange, currency, last_updated FROM stocks WHERE symbol = $1',
-      [symbol.toUpperCase()]
+      'SELECT id, symbol, name, sector, market_cap, exchange, currency, asset_class, last_updated FROM stocks WHERE symbol = $1',
+      [canonicalSymbol(symbol)]
     );
 
     const stock = result.rows.length > 0 ? result.rows[0] : null;
@@ -308,8 +480,8 @@ export async function upsertStock(stock: StockMetadata): Promise<StockMetadata>
   try {
     const result = await query<StockMetadata>(
       `
-      INSERT INTO stocks (symbol, name, sector, market_cap, exchange, currency, last_updated)
-      VALUES ($1, $2, $3, $4, $5, $6, CURRENT_TIMESTAMP)
+      INSERT INTO stocks (symbol, name, sector, market_cap, exchange, currency, asset_class, last_updated)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, CURRENT_TIMESTAMP)
       ON CONFLICT (symbol)
       DO UPDATE SET
         name = EXCLUDED.name,
@@ -317,16 +489,18 @@ export async function upsertStock(stock: StockMetadata): Promise<StockMetadata>
         market_cap = EXCLUDED.market_cap,
         exchange = EXCLUDED.exchange,
         currency = EXCLUDED.currency,
+        asset_class = EXCLUDED.asset_class,
         last_updated = CURRENT_TIMESTAMP
-      RETURNING id, symbol, name, sector, market_cap, exchange, currency, last_updated
+      RETURNING id, symbol, name, sector, market_cap, exchange, currency, asset_class, last_updated
       `,
       [
-        stock.symbol.toUpperCase(),
+        canonicalSymbol(stock.symbol),
         stock.name,
         stock.sector || null,
         stock.market_cap || null,
         stock.exchange || null,
         stock.currency || 'USD',
+        stock.asset_class || getAssetClass(stock.symbol),
       ]
     );
 
@@ -353,8 +527,8 @@ export async function bulkInsertStocks(stocks: StockMetadata[]): Promise<number>
     for (const stock of stocks) {
       await client.query(
         `
-        INSERT INTO stocks (symbol, name, sector, market_cap, exchange, currency, last_updated)
-        VALUES ($1, $2, $3, $4, $5, $6, CURRENT_TIMESTAMP)
+        INSERT INTO stocks (symbol, name, sector, market_cap, exchange, currency, asset_class, last_updated)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, CURRENT_TIMESTAMP)
         ON CONFLICT (symbol)
         DO UPDATE SET
           name = EXCLUDED.name,
@@ -362,15 +536,17 @@ export async function bulkInsertStocks(stocks: StockMetadata[]): Promise<number>
           market_cap = EXCLUDED.market_cap,
           exchange = EXCLUDED.exchange,
           currency = EXCLUDED.currency,
+          asset_class = EXCLUDED.asset_class,
           last_updated = CURRENT_TIMESTAMP
         `,
         [
-          stock.symbol.toUpperCase(),
+          canonicalSymbol(stock.symbol),
           stock.name,
           stock.sector || null,
           stock.market_cap || null,
           stock.exchange || null,
           stock.currency || 'USD',
+          stock.asset_class || getAssetClass(stock.symbol),
         ]
       );
       insertedCount++;
@@ -0,0 +1,200 @@
+import { query, getClient } from '../utils/db.js';
+import { canonicalSymbol } from '../utils/symbol.js';
+import { EarningsEvent, StockEvent } from '../types/marketData.js';
+import { getMarketDataProvider } from './marketData/index.js';
+import { getCorporateActions } from './corporateActionsService.js';
+
+// Report dates get confirmed and estimates revised; refresh daily
+const REFRESH_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+interface EarningsEventRow {
+  report_date: string;
+  fiscal_date_ending: string | null;
+  eps_estimate: string | null;
+  eps_actual: string | null;
+}
+
+/**
+ * Get earnings reports for a symbol, reading from the earnings_events store first
+ * Falls back to stored (or no) reports when the provider fails
+ * @param symbol - Stock ticker symbol
+ * @returns Earnings reports, past and scheduled (most recent first)
+ */
+export async function getEarnings(symbol: string): Promise<EarningsEvent[]> {
+  const normalizedSymbol = canonicalSymbol(symbol);
+
+  let lastSyncedAt: Date | null;
+  try {
+    const result = await query<{ last_synced_at: Date }>(
+      'SELECT last_synced_at FROM earnings_sync_state WHERE symbol = $1',
+      [normalizedSymbol]
+    );
+    lastSyncedAt = result.rows[0]?.last_synced_at || null;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.warn(`Earnings store unavailable, fetching ${normalizedSymbol} from provider:`, errorMessage);
+    return fetchFromProvider(normalizedSymbol);
+  }
+
+  if (!lastSyncedAt || Date.now() - lastSyncedAt.getTime() > REFRESH_INTERVAL_MS) {
+    try {
+      const events = await getMarketDataProvider().getEarnings(normalizedSymbol);
+      await saveEarnings(normalizedSymbol, events);
+      return events;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`Serving stored earnings for ${normalizedSymbol}, refresh failed:`, errorMessage);
+    }
+  }
+
+  try {
+    const result = await query<EarningsEventRow>(
+      `
+      SELECT
+        TO_CHAR(report_date, 'YYYY-MM-DD') AS report_date,
+        TO_CHAR(fiscal_date_ending, 'YYYY-MM-DD') AS fiscal_date_ending,
+        eps_estimate, eps_actual
+      FROM earnings_events
+      WHERE symbol = $1
+      ORDER BY report_date DESC
+      `,
+      [normalizedSymbol]
+    );
+
+    return result.rows.map((row) => ({
+      date: row.report_date,
+      fiscalDateEnding: row.fiscal_date_ending,
+      epsEstimate: row.eps_estimate !== null ? parseFloat(row.eps_estimate) : null,
+      epsActual: row.eps_actual !== null ? parseFloat(row.eps_actual) : null,
+    }));
+  } catch (error) {
+    console.error(`Failed to read earnings for ${normalizedSymbol}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Get earnings and ex-dividend events for a symbol
+ * @param symbol - Stock ticker symbol
+ * @returns Events (most recent first)
+ */
+export async function getStockEvents(symbol: string): Promise<StockEvent[]> {
+  const [earnings, actions] = await Promise.all([getEarnings(symbol), getCorporateActions(symbol)]);
+
+  const events: StockEvent[] = [
+    ...earnings.map((report) => ({
+      date: report.date,
+      type: 'earnings' as const,
+      fiscalDateEnding: report.fiscalDateEnding,
+      epsEstimate: report.epsEstimate,
+      epsActual: report.epsActual,
+      surprisePercent: calculateSurprisePercent(report),
+    })),
+    ...actions
+      .filter((action) => action.type === 'dividend')
+      .map((action) => ({
+        date: action.date,
+        type: 'ex_dividend' as const,
+        dividendAmount: action.value,
+      })),
+  ];
+
+  return events.sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/**
+ * Get the next scheduled earnings report for each symbol
+ * @param symbols - Stock ticker symbols
+ * @returns Map of canonical symbol to its next report (null when none is scheduled)
+ */
+export async function getUpcomingEarnings(symbols: string[]): Promise<Record<string, EarningsEvent | null>> {
+  const today = new Date().toISOString().split('T')[0];
+  const upcoming: Record<string, EarningsEvent | null> = {};
+
+  // Sequential on purpose: uncached symbols each cost provider requests
+  for (const symbol of symbols) {
+    const normalizedSymbol = canonicalSymbol(symbol);
+    const earnings = await getEarnings(normalizedSymbol);
+
+    // Earnings are most recent first, so the last future report is the next one
+    const future = earnings.filter((report) => report.date >= today);
+    upcoming[normalizedSymbol] = future.length > 0 ? future[future.length - 1] : null;
+  }
+
+  return upcoming;
+}
+
+/**
+ * EPS surprise relative to the estimate, in percent
+ */
+function calculateSurprisePercent(report: EarningsEvent): number | null {
+  if (report.epsActual === null || report.epsEstimate === null || report.epsEstimate === 0) {
+    return null;
+  }
+  const surprise = ((report.epsActual - report.epsEstimate) / Math.abs(report.epsEstimate)) * 100;
+  return Math.round(surprise * 100) / 100;
+}
+
+/**
+ * Fetch earnings straight from the provider, treating failures as "no reports"
+ */
+async function fetchFromProvider(symbol: string): Promise<EarningsEvent[]> {
+  try {
+    return await getMarketDataProvider().getEarnings(symbol);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.warn(`Unable to fetch earnings for ${symbol}:`, errorMessage);
+    return [];
+  }
+}
+
+/**
+ * Replace stored earnings for a symbol and record the sync
+ * Replacing (rather than upserting) drops scheduled dates that were moved
+ */
+async function saveEarnings(symbol: string, events: EarningsEvent[]): Promise<void> {
+  let client;
+  try {
+    client = await getClient();
+    await client.query('BEGIN');
+
+    await client.query('DELETE FROM earnings_events WHERE symbol = $1', [symbol]);
+
+    if (events.length > 0) {
+      await client.query(
+        `
+        INSERT INTO earnings_events (symbol, report_date, fiscal_date_ending, eps_estimate, eps_actual)
+        SELECT $1, t.report_date, t.fiscal_date_ending, t.eps_estimate, t.eps_actual
+        FROM UNNEST($2::date[], $3::date[], $4::numeric[], $5::numeric[])
+          AS t(report_date, fiscal_date_ending, eps_estimate, eps_actual)
+        ON CONFLICT (symbol, report_date) DO NOTHING
+        `,
+        [
+          symbol,
+          events.map((event) => event.date),
+          events.map((event) => event.fiscalDateEnding),
+          events.map((event) => event.epsEstimate),
+          events.map((event) => event.epsActual),
+        ]
+      );
+    }
+
+    await client.query(
+      `
+      INSERT INTO earnings_sync_state (symbol, last_synced_at)
+      VALUES ($1, CURRENT_TIMESTAMP)
+      ON CONFLICT (symbol) DO UPDATE SET last_synced_at = CURRENT_TIMESTAMP
+      `,
+      [symbol]
+    );
+
+    await client.query('COMMIT');
+  } catch (error) {
+    if (client) {
+      await client.query('ROLLBACK').catch(() => undefined);
+    }
+    console.error(`Failed to store earnings for ${symbol}:`, error);
+  } finally {
+    client?.release();
+  }
+}
@@ -0,0 +1,222 @@
+import { query, getClient } from '../utils/db.js';
+import { StockMetadata } from '../types/stock.js';
+import { Fundamentals } from '../types/marketData.js';
+import { getMarketDataProvider, runWithPriority } from './marketData/index.js';
+
+// Fundamentals change at most quarterly; a week keeps market cap reasonably fresh
+const STALE_AFTER_DAYS = 7;
+
+/**
+ * Delay helper for rate limiting
+ * @param ms - Milliseconds to delay
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Store fundamentals for a stock
+ * Market cap lives on the stocks table (the screener's market cap filter reads it),
+ * everything else in stock_fundamentals
+ * @param fundamentals - Fundamentals fetched from the provider
+ */
+async function saveFundamentals(fundamentals: Fundamentals): Promise<void> {
+  const client = await getClient();
+  try {
+    await client.query('BEGIN');
+
+    await client.query(
+      `
+      INSERT INTO stock_fundamentals (
+        symbol, industry, pe_ratio, eps, eps_growth,
+        dividend_yield, beta, profit_margin, updated_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, CURRENT_TIMESTAMP)
+      ON CONFLICT (symbol)
+      DO UPDATE SET
+        industry = EXCLUDED.industry,
+        pe_ratio = EXCLUDED.pe_ratio,
+        eps = EXCLUDED.eps,
+        eps_growth = EXCLUDED.eps_growth,
+        dividend_yield = EXCLUDED.dividend_yield,
+        beta = EXCLUDED.beta,
+        profit_margin = EXCLUDED.profit_margin,
+        updated_at = CURRENT_TIMESTAMP
+      `,
+      [
+        fundamentals.symbol,
+        fundamentals.industry,
+        fundamentals.peRatio,
+        fundamentals.eps,
+        fundamentals.epsGrowth,
+        fundamentals.dividendYield,
+        fundamentals.beta,
+        fundamentals.profitMargin,
+      ]
+    );
+
+    // Keep the seeded sector when the provider has none
+    await client.query(
+      `
+      UPDATE stocks
+      SET market_cap = COALESCE($2, market_cap),
+          sector = COALESCE(sector, $3),
+          last_updated = CURRENT_TIMESTAMP
+      WHERE symbol = $1
+      `,
+      [fundamentals.symbol, fundamentals.marketCap, fundamentals.sector]
+    );
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Fetch and store fundamentals for a single stock
+ * @param stock - Stock metadata
+ * @returns Success status
+ */
+export async function updateFundamentalsForStock(stock: StockMetadata): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  try {
+    console.log(`Fetching fundamentals for ${stock.symbol}...`);
+
+    const fundamentals = await getMarketDataProvider().getFundamentals(stock.symbol);
+    await saveFundamentals({ ...fundamentals, symbol: stock.symbol });
+
+    console.log(`✓ Successfully updated fundamentals for ${stock.symbol}`);
+    return { success: true };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`✗ Failed to update fundamentals for ${stock.symbol}:`, errorMessage);
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Refresh fundamentals for stocks that have none or whose data is stale,
+ * oldest first (with rate limiting)
+ * @param stockLimit - Optional limit on number of stocks to process
+ * @param delayBetweenRequests - Delay in ms between API requests (default: 13000ms = ~4.5 req/min for free tier)
+ * @returns Summary of results
+ */
+export async function refreshStaleFundamentals(
+  stockLimit?: number,
+  delayBetweenRequests: number = 13000
+): Promise<{
+  total: number;
+  successful: number;
+  failed: number;
+  errors: { symbol: string; error: string }[];
+}> {
+  console.log('\n=== Starting fundamentals refresh ===\n');
+
+  try {
+    const result = await query<StockMetadata>(
+      `
+      SELECT s.*
+      FROM stocks s
+      LEFT JOIN stock_fundamentals f ON f.symbol = s.symbol
+      WHERE f.updated_at IS NULL
+         OR f.updated_at < CURRENT_TIMESTAMP - ($1 || ' days')::interval
+      ORDER BY f.updated_at ASC NULLS FIRST, s.market_cap DESC NULLS LAST
+      ${stockLimit && stockLimit > 0 ? 'LIMIT $2' : ''}
+      `,
+      stockLimit && stockLimit > 0 ? [STALE_AFTER_DAYS, stockLimit] : [STALE_AFTER_DAYS]
+    );
+    const stocks = result.rows;
+
+    const total = stocks.length;
+    let successful = 0;
+    let failed = 0;
+    const errors: { symbol: string; error: string }[] = [];
+
+    console.log(`Processing ${total} stocks with missing or stale fundamentals...`);
+
+    for (let i = 0; i < stocks.length; i++) {
+      const stock = stocks[i];
+      console.log(`[${i + 1}/${total}] Processing ${stock.symbol}...`);
+
+      // Batch priority: chart requests from users go first in the provider queue
+      const updateResult = await runWithPriority('batch', () => updateFundamentalsForStock(stock));
+
+      if (updateResult.success) {
+        successful++;
+      } else {
+        failed++;
+        errors.push({ symbol: stock.symbol, error: updateResult.error || 'Unknown error' });
+      }
+
+      // Add delay between requests to respect API rate limits
+      // (except after the last stock)
+      if (i < stocks.length - 1) {
+        await delay(delayBetweenRequests);
+      }
+    }
+
+    console.log('\n=== Fundamentals refresh complete ===');
+    console.log(`Total: ${total}`);
+    console.log(`Successful: ${successful}`);
+    console.log(`Failed: ${failed}`);
+
+    return { total, successful, failed, errors };
+  } catch (error) {
+    console.error('Failed to refresh fundamentals:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get fundamentals status (last update time and coverage)
+ * @returns Status information
+ */
+export async function getFundamentalsStatus(): Promise<{
+  last_updated: string | null;
+  stocks_with_fundamentals: number;
+  stale_stocks: number;
+  total_stocks: number;
+}> {
+  try {
+    const result = await query<{
+      last_updated: string | null;
+      with_fundamentals: string;
+      stale: string;
+      total: string;
+    }>(
+      `
+      SELECT
+        MAX(f.updated_at) AS last_updated,
+        COUNT(f.symbol) AS with_fundamentals,
+        COUNT(*) FILTER (
+          WHERE f.updated_at IS NULL
+             OR f.updated_at < CURRENT_TIMESTAMP - ($1 || ' days')::interval
+        ) AS stale,
+        COUNT(*) AS total
+      FROM stocks s
+      LEFT JOIN stock_fundamentals f ON f.symbol = s.symbol
+      `,
+      [STALE_AFTER_DAYS]
+    );
+    const row = result.rows[0];
+
+    return {
+      last_updated: row.last_updated,
+      stocks_with_fundamentals: parseInt(row.with_fundamentals, 10),
+      stale_stocks: parseInt(row.stale, 10),
+      total_stocks: parseInt(row.total, 10),
+    };
+  } catch (error) {
+    console.error('Failed to get fundamentals status:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,311 @@
+import { OHLCVData } from '../types/stock.js';
+import {
+  IndicatorAlertTimeframe,
+  IndicatorComparison,
+  IndicatorName,
+  IndicatorOperand,
+  IndicatorRule,
+  LiveBar,
+  LiveBarInterval,
+} from '../types/wsProtocol.js';
+import {
+  calculateSMA,
+  calculateEMA,
+  calculateRSI,
+  calculateMACD,
+  calculateAverageVolume,
+  calculateVolumeSpike,
+} from './technicalMetricsService.js';
+import { parseExchangeTimestamp } from '../utils/marketCalendar.js';
+
+/**
+ * Indicator Alert Service
+ *
+ * Rules of indicator alerts (e.g. "RSI(14) crosses below 30", "SMA(50) crosses
+ * above SMA(200)", "Volume ratio(20) above 3") and their evaluation over a
+ * symbol's bars when one closes. Values come from the technical metrics
+ * formulas, which use the same technicalindicators settings as the chart's
+ * indicators. crosses_* compare the closed bar with the bar before it.
+ */
+
+// Timeframes indicator alerts are checked on, and the live bar interval whose close triggers the check
+export const INDICATOR_ALERT_TIMEFRAMES: Record<IndicatorAlertTimeframe, LiveBarInterval> = {
+  '15min': '15min',
+  '1hour': '60min',
+  daily: 'daily',
+};
+
+export const INDICATOR_NAMES: IndicatorName[] = ['close', 'sma', 'ema', 'rsi', 'macd', 'macd_signal', 'volume_ratio'];
+export const INDICATOR_COMPARISONS: IndicatorComparison[] = ['above', 'below', 'crosses_above', 'crosses_below'];
+
+// Indicators that take a period, with the default when it's omitted (sma and ema require one)
+const PERIOD_DEFAULTS: Partial<Record<IndicatorName, number | null>> = {
+  sma: null,
+  ema: null,
+  rsi: 14,
+  volume_ratio: 20,
+};
+const MAX_PERIOD = 500;
+
+// MACD is always 12/26/9, like the chart's default
+const MACD_SLOW_PERIOD = 26;
+const MACD_SIGNAL_PERIOD = 9;
+
+// EMA-based series (ema, rsi, macd) get this many periods of bars to settle on the chart's values
+const CONVERGENCE_PERIODS = 10;
+
+const COMPARISON_LABELS: Record<IndicatorComparison, string> = {
+  above: 'above',
+  below: 'below',
+  crosses_above: 'crosses above',
+  crosses_below: 'crosses below',
+};
+
+const TRIGGER_LABELS: Record<IndicatorComparison, string> = {
+  above: 'is above',
+  below: 'is below',
+  crosses_above: 'crossed above',
+  crosses_below: 'crossed below',
+};
+
+export interface IndicatorRuleResult {
+  met: boolean;
+  values: Record<string, number>; // Values at the closed bar, by label
+}
+
+/**
+ * Chart timeframe of indicator alerts checked when a live bar interval closes
+ * @returns Timeframe, or null when no indicator alert uses the interval
+ */
+export function getIndicatorAlertTimeframe(interval: LiveBarInterval): IndicatorAlertTimeframe | null {
+  const entry = Object.entries(INDICATOR_ALERT_TIMEFRAMES).find(([, barInterval]) => barInterval === interval);
+  return entry ? (entry[0] as IndicatorAlertTimeframe) : null;
+}
+
+function validateOperand(operand: unknown, side: string): string | null {
+  if (typeof operand !== 'object' || operand === null) {
+    return `${side} must be an indicator`;
+  }
+
+  const { indicator, period } = operand as Record<string, unknown>;
+  if (!INDICATOR_NAMES.includes(indicator as IndicatorName)) {
+    return `${side}.indicator must be one of: ${INDICATOR_NAMES.join(', ')}`;
+  }
+  if (!((indicator as IndicatorName) in PERIOD_DEFAULTS)) {
+    return period === undefined ? null : `${side}.period is not used by ${indicator}`;
+  }
+  if (period === undefined && PERIOD_DEFAULTS[indicator as IndicatorName] === null) {
+    return `${side}.period is required for ${indicator}`;
+  }
+  if (period !== undefined && (!Number.isInteger(period) || (period as number) < 2 || (period as number) > MAX_PERIOD)) {
+    return `${side}.period must be an integer between 2 and ${MAX_PERIOD}`;
+  }
+  return null;
+}
+
+/**
+ * Validate an indicator rule from a request
+ * @returns Error message, or null when it's valid
+ */
+export function validateIndicatorRule(rule: unknown): string | null {
+  if (typeof rule !== 'object' || rule === null) {
+    return 'rule must be an object with left, comparison and right';
+  }
+
+  const { left, comparison, right } = rule as Record<string, unknown>;
+  if (!INDICATOR_COMPARISONS.includes(comparison as IndicatorComparison)) {
+    return `rule.comparison must be one of: ${INDICATOR_COMPARISONS.join(', ')}`;
+  }
+  if (typeof right === 'number') {
+    return Number.isFinite(right) ? validateOperand(left, 'rule.left') : 'rule.right must be a finite number';
+  }
+  return validateOperand(left, 'rule.left') ?? validateOperand(right, 'rule.right');
+}
+
+function normalizeOperand(operand: IndicatorOperand): IndicatorOperand {
+  const period = operand.period ?? PERIOD_DEFAULTS[operand.indicator];
+  return period !== undefined && period !== null
+    ? { indicator: operand.indicator, period }
+    : { indicator: operand.indicator };
+}
+
+/**
+ * Rule with only the known fields, and default periods filled in
+ * @param rule - Rule that passed validateIndicatorRule
+ */
+export function normalizeIndicatorRule(rule: IndicatorRule): IndicatorRule {
+  return {
+    left: normalizeOperand(rule.left),
+    comparison: rule.comparison,
+    right: typeof rule.right === 'number' ? rule.right : normalizeOperand(rule.right),
+  };
+}
+
+/**
+ * Label of an operand, e.g. "RSI(14)", "SMA(50)", "Close" or "30"
+ */
+export function describeOperand(operand: IndicatorOperand | number): string {
+  if (typeof operand === 'number') {
+    return String(operand);
+  }
+
+  const { indicator, period } = normalizeOperand(operand);
+  switch (indicator) {
+    case 'close':
+      return 'Close';
+    case 'sma':
+      return `SMA(${period})`;
+    case 'ema':
+      return `EMA(${period})`;
+    case 'rsi':
+      return `RSI(${period})`;
+    case 'macd':
+      return 'MACD(12,26,9)';
+    case 'macd_signal':
+      return 'MACD signal(12,26,9)';
+    case 'volume_ratio':
+      return `Volume ratio(${period})`;
+  }
+}
+
+/**
+ * Summary of a rule, e.g. "RSI(14) crosses below 30"
+ */
+export function describeIndicatorRule(rule: IndicatorRule): string {
+  return `${describeOperand(rule.left)} ${COMPARISON_LABELS[rule.comparison]} ${describeOperand(rule.right)}`;
+}
+
+/**
+ * Summary of a trigger for notifications, e.g. "AAPL RSI(14) crossed below 30 on the daily close at 181.20"
+ */
+export function describeIndicatorTrigger(
+  symbol: string,
+  rule: IndicatorRule,
+  timeframe: IndicatorAlertTimeframe,
+  close: string
+): string {
+  return `${symbol} ${describeOperand(rule.left)} ${TRIGGER_LABELS[rule.comparison]} ${describeOperand(rule.right)} on the ${timeframe} close at ${close}`;
+}
+
+function getOperandBars(operand: IndicatorOperand): number {
+  const { indicator, period = 0 } = normalizeOperand(operand);
+  switch (indicator) {
+    case 'close':
+      return 1;
+    case 'sma':
+    case 'volume_ratio':
+      return period;
+    case 'ema':
+    case 'rsi':
+      return period * CONVERGENCE_PERIODS;
+    case 'macd':
+    case 'macd_signal':
+      return (MACD_SLOW_PERIOD + MACD_SIGNAL_PERIOD) * CONVERGENCE_PERIODS;
+  }
+}
+
+/**
+ * Number of most recent bars a rule is evaluated over (the closed bar, the
+ * one before it for crosses, and the history each indicator needs)
+ */
+export function getRequiredBars(rule: IndicatorRule): number {
+  const rightBars = typeof rule.right === 'number' ? 1 : getOperandBars(rule.right);
+  return Math.max(getOperandBars(rule.left), rightBars) + 1;
+}
+
+/**
+ * Fold a closed live bar into the history bars (most recent first)
+ * The live bar only covers the trades since the feed started following the
+ * symbol, so a stored bar with the same open time keeps its open and extremes.
+ * @returns Bars ending with the closed bar (most recent first)
+ */
+export function mergeClosedBar(history: OHLCVData[], bar: LiveBar): OHLCVData[] {
+  const start = Date.parse(bar.timestamp);
+  const index = history.findIndex((stored) => parseExchangeTimestamp(stored.timestamp).getTime() <= start);
+  const bars = index === -1 ? [] : history.slice(index);
+  const stored = bars[0];
+
+  if (stored && parseExchangeTimestamp(stored.timestamp).getTime() === start) {
+    return [
+      {
+        ...stored,
+        high: Math.max(stored.high, bar.high),
+        low: Math.min(stored.low, bar.low),
+        close: bar.close,
+        volume: Math.max(stored.volume, bar.volume),
+      },
+      ...bars.slice(1),
+    ];
+  }
+  return [{ ...bar }, ...bars];
+}
+
+function getOperandValue(operand: IndicatorOperand, closes: number[], volumes: number[]): number | null {
+  const { indicator, period = 0 } = normalizeOperand(operand);
+  switch (indicator) {
+    case 'close':
+      return closes[0] ?? null;
+    case 'sma':
+      return calculateSMA(closes, period);
+    case 'ema':
+      return calculateEMA(closes, period);
+    case 'rsi':
+      return calculateRSI(closes, period);
+    case 'macd':
+      return calculateMACD(closes)?.macd ?? null;
+    case 'macd_signal':
+      return calculateMACD(closes)?.signal ?? null;
+    case 'volume_ratio': {
+      const averageVolume = calculateAverageVolume(volumes, period);
+      return averageVolume !== null ? calculateVolumeSpike(volumes[0], averageVolume) : null;
+    }
+  }
+}
+
+/**
+ * Evaluate a rule at the most recent bar
+ * @param bars - Bars ending with the closed bar (most recent first)
+ * @returns Whether the rule holds and the values it compared, or null when
+ *          the bars are too few for its indicators
+ */
+export function evaluateIndicatorRule(rule: IndicatorRule, bars: OHLCVData[]): IndicatorRuleResult | null {
+  const closes = bars.map((bar) => bar.close);
+  const volumes = bars.map((bar) => bar.volume);
+  const valueAt = (operand: IndicatorOperand | number, offset: number): number | null =>
+    typeof operand === 'number' ? operand : getOperandValue(operand, closes.slice(offset), volumes.slice(offset));
+
+  const left = valueAt(rule.left, 0);
+  const right = valueAt(rule.right, 0);
+  if (left === null || right === null) {
+    return null;
+  }
+
+  let met: boolean;
+  switch (rule.comparison) {
+    case 'above':
+      met = left > right;
+      break;
+    case 'below':
+      met = left < right;
+      break;
+    case 'crosses_above':
+    case 'crosses_below': {
+      const previousLeft = valueAt(rule.left, 1);
+      const previousRight = valueAt(rule.right, 1);
+      if (previousLeft === null || previousRight === null) {
+        return null;
+      }
+      met = rule.comparison === 'crosses_above'
+        ? previousLeft <= previousRight && left > right
+        : previousLeft >= previousRight && left < right;
+      break;
+    }
+  }
+
+  const values: Record<string, number> = { Close: closes[0], Volume: volumes[0] };
+  values[describeOperand(rule.left)] = left;
+  if (typeof rule.right !== 'number') {
+    values[describeOperand(rule.right)] = right;
+  }
+  return { met, values };
+}
@@ -0,0 +1,245 @@
+import { getAssetTradingDay, getBarSession, getSessionDate } from '../utils/marketCalendar.js';
+import { getAssetClass, getPricePrecision } from '../utils/symbol.js';
+import { AssetClass } from '../types/marketData.js';
+import { Trade } from '../types/realtime.js';
+import { LiveBar, LiveBarInterval } from '../types/wsProtocol.js';
+
+/**
+ * Live Bar Service
+ *
+ * Builds 1min/5min/15min/60min/daily bars from the trades of the real-time feed
+ * (forwarded by the real-time price service) so charts can move their last
+ * candle. Bars line up with the stored history: intraday bars open on the
+ * interval boundary (UTC, which is also the New York boundary for these
+ * intervals), daily bars on the asset's session date. Only the current bar of
+ * each interval is kept.
+ *
+ * A bar closes when the next bar's first trade arrives or, failing that, once
+ * its end has passed (see closeDueBars); either way its close is reported once
+ * to the bar close listeners. Daily bars end with the asset's regular session.
+ */
+
+export const LIVE_BAR_INTERVALS: LiveBarInterval[] = ['1min', '5min', '15min', '60min', 'daily'];
+
+const INTERVAL_MS: Record<Exclude<LiveBarInterval, 'daily'>, number> = {
+  '1min': 60 * 1000,
+  '5min': 5 * 60 * 1000,
+  '15min': 15 * 60 * 1000,
+  '60min': 60 * 60 * 1000,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Trades can reach us a little after their bar's end
+const CLOSE_GRACE_MS = 2000;
+
+interface BarState {
+  start: number; // Bar open time, UTC milliseconds
+  end: number; // Bar close time, UTC milliseconds
+  lastTrade: number; // Time of the trade that set the close
+  bar: LiveBar;
+  changed: boolean; // Moved since the last takeChangedBars
+  closed: boolean; // Close already reported
+}
+
+export interface LiveBarUpdate {
+  interval: LiveBarInterval;
+  bar: LiveBar;
+}
+
+export type BarCloseListener = (symbol: string, interval: LiveBarInterval, bar: LiveBar) => void;
+
+class LiveBarService {
+  private bars: Map<string, Map<LiveBarInterval, BarState>> = new Map();
+  private closeListeners: Set<BarCloseListener> = new Set();
+
+  /**
+   * Listen to bars closing
+   * @returns Function that removes the listener
+   */
+  onBarClose(listener: BarCloseListener): () => void {
+    this.closeListeners.add(listener);
+    return () => this.closeListeners.delete(listener);
+  }
+
+  /**
+   * Fold a trade into the current bar of every interval
+   */
+  handleTrade(trade: Trade): void {
+    const assetClass = getAssetClass(trade.symbol);
+    let symbolBars = this.bars.get(trade.symbol);
+    if (!symbolBars) {
+      symbolBars = new Map();
+      this.bars.set(trade.symbol, symbolBars);
+    }
+
+    const time = Date.parse(trade.timestamp);
+    const tradeSession = getBarSession(time, assetClass);
+
+    for (const interval of LIVE_BAR_INTERVALS) {
+      // Daily history only covers the regular session
+      if (interval === 'daily' && tradeSession !== 'regular') {
+        continue;
+      }
+
+      const start = this.getBarStart(time, interval, assetClass);
+      const state = symbolBars.get(interval);
+
+      if (state && start < state.start) {
+        // Late trade for a bar that has already been replaced
+        continue;
+      }
+
+      if (!state || start > state.start) {
+        if (state && !state.closed) {
+          this.close(trade.symbol, interval, state);
+        }
+        symbolBars.set(interval, {
+          start,
+          end: this.getBarEnd(start, interval, assetClass),
+          lastTrade: time,
+          bar: {
+            timestamp: new Date(start).toISOString(),
+            open: trade.price,
+            high: trade.price,
+            low: trade.price,
+            close: trade.price,
+            volume: trade.size,
+            // Tagged by open time, like stored intraday bars
+            session: interval === 'daily' ? 'regular' : getBarSession(start, assetClass),
+          },
+          changed: true,
+          closed: false,
+        });
+        continue;
+      }
+
+      const { bar } = state;
+      bar.high = Math.max(bar.high, trade.price);
+      bar.low = Math.min(bar.low, trade.price);
+      // An out-of-order trade within the bar doesn't move the close back
+      if (time >= state.lastTrade) {
+        bar.close = trade.price;
+        state.lastTrade = time;
+      }
+      bar.volume += trade.size;
+      state.changed = true;
+    }
+  }
+
+  /**
+   * Bars that moved since the last call, marking them as sent
+   */
+  takeChangedBars(symbol: string): LiveBarUpdate[] {
+    const updates: LiveBarUpdate[] = [];
+    this.bars.get(symbol)?.forEach((state, interval) => {
+      if (state.changed) {
+        state.changed = false;
+        updates.push({ interval, bar: this.format(symbol, state.bar) });
+      }
+    });
+    return updates;
+  }
+
+  /**
+   * Close the bars whose end has passed without a trade for the next bar
+   * @param now - Current time, UTC milliseconds
+   */
+  closeDueBars(now: number = Date.now()): void {
+    this.bars.forEach((symbolBars, symbol) => {
+      symbolBars.forEach((state, interval) => {
+        if (!state.closed && state.end + CLOSE_GRACE_MS <= now) {
+          this.close(symbol, interval, state);
+        }
+      });
+    });
+  }
+
+  /**
+   * Current bar of an interval, or null before the symbol's first trade
+   */
+  getBar(symbol: string, interval: LiveBarInterval): LiveBar | null {
+    const state = this.bars.get(symbol)?.get(interval);
+    return state ? this.format(symbol, state.bar) : null;
+  }
+
+  /**
+   * Continue from a bar built elsewhere (e.g. by the symbol's previous feed owner)
+   * Bars this service already has are kept. A bar that has already ended was
+   * closed by the node that built it, so its close isn't reported again.
+   */
+  restoreBar(symbol: string, interval: LiveBarInterval, bar: LiveBar): void {
+    let symbolBars = this.bars.get(symbol);
+    if (!symbolBars) {
+      symbolBars = new Map();
+      this.bars.set(symbol, symbolBars);
+    }
+    if (!symbolBars.has(interval)) {
+      const start = Date.parse(bar.timestamp);
+      const end = this.getBarEnd(start, interval, getAssetClass(symbol));
+      symbolBars.set(interval, {
+        start,
+        end,
+        lastTrade: start,
+        bar: { ...bar },
+        changed: false,
+        closed: end <= Date.now(),
+      });
+    }
+  }
+
+  /**
+   * Forget a symbol's bars (no longer watched), without reporting their close
+   */
+  clearSymbol(symbol: string): void {
+    this.bars.delete(symbol);
+  }
+
+  clear(): void {
+    this.bars.clear();
+  }
+
+  private getBarStart(time: number, interval: LiveBarInterval, assetClass: AssetClass): number {
+    if (interval === 'daily') {
+      return Date.parse(`${getSessionDate(assetClass, time)}T00:00:00Z`);
+    }
+    return Math.floor(time / INTERVAL_MS[interval]) * INTERVAL_MS[interval];
+  }
+
+  private getBarEnd(start: number, interval: LiveBarInterval, assetClass: AssetClass): number {
+    if (interval === 'daily') {
+      const tradingDay = getAssetTradingDay(assetClass, new Date(start).toISOString().slice(0, 10));
+      return tradingDay ? Date.parse(tradingDay.regular.end) : start + DAY_MS;
+    }
+    return start + INTERVAL_MS[interval];
+  }
+
+  private close(symbol: string, interval: LiveBarInterval, state: BarState): void {
+    state.closed = true;
+    const bar = this.format(symbol, state.bar);
+    this.closeListeners.forEach((listener) => {
+      try {
+        listener(symbol, interval, bar);
+      } catch (error) {
+        console.error(`Error in bar close listener for ${symbol} ${interval}:`, error);
+      }
+    });
+  }
+
+  /**
+   * Quote a bar to the symbol's precision (cents, pips, satoshis)
+   */
+  private format(symbol: string, bar: LiveBar): LiveBar {
+    const precision = getPricePrecision(symbol, bar.close);
+    return {
+      ...bar,
+      open: parseFloat(bar.open.toFixed(precision)),
+      high: parseFloat(bar.high.toFixed(precision)),
+      low: parseFloat(bar.low.toFixed(precision)),
+      close: parseFloat(bar.close.toFixed(precision)),
+      volume: Math.floor(bar.volume),
+    };
+  }
+}
+
+// Export singleton instance
+export const liveBarService = new LiveBarService();
@@ -0,0 +1,543 @@
+import axios from 'axios';
+import {
+  OHLCVData,
+  AlphaVantageTimeSeriesDaily,
+  AlphaVantageTimeSeriesDailyAdjusted,
+  AlphaVantageTimeSeriesIntraday,
+  IntradayInterval,
+} from '../../types/stock.js';
+import {
+  MarketDataProvider,
+  FetchBarsOptions,
+  CorporateAction,
+  SymbolMatch,
+  MarketDataProviderName,
+  Fundamentals,
+  EarningsEvent,
+} from '../../types/marketData.js';
+import {
+  SymbolNotFoundError,
+  ProviderUnavailableError,
+} from './errors.js';
+import { toProviderSymbol, canonicalSymbol, parseSymbol, getAssetClass, ParsedSymbol } from '../../utils/symbol.js';
+import { parseExchangeTimestamp } from '../../utils/marketCalendar.js';
+import { getAlphaVantageQuota } from './quotaManager.js';
+
+const BASE_URL = 'https://www.alphavantage.co/query';
+const PROVIDER_NAME: MarketDataProviderName = 'alphavantage';
+
+type AlphaVantageSymbolSearch = {
+  bestMatches?: {
+    '1. symbol': string;
+    '2. name': string;
+    '3. type': string;
+    '4. region': string;
+    '8. currency': string;
+    '9. matchScore': string;
+  }[];
+};
+
+// OVERVIEW reports every value as a string, with "None" or "-" for missing data
+type AlphaVantageOverview = {
+  Symbol?: string;
+  Name?: string;
+  Sector?: string;
+  Industry?: string;
+  MarketCapitalization?: string;
+  PERatio?: string;
+  EPS?: string;
+  QuarterlyEarningsGrowthYOY?: string;
+  DividendYield?: string;
+  Beta?: string;
+  ProfitMargin?: string;
+};
+
+type AlphaVantageEarnings = {
+  quarterlyEarnings?: {
+    fiscalDateEnding: string;
+    reportedDate: string;
+    reportedEPS: string;
+    estimatedEPS: string;
+  }[];
+};
+
+// FX series carry no volume
+type AlphaVantageTimeSeries = {
+  [datetime: string]: {
+    '1. open': string;
+    '2. high': string;
+    '3. low': string;
+    '4. close': string;
+    '5. volume'?: string;
+  };
+};
+
+type AlphaVantagePairSeries = {
+  [key: string]: AlphaVantageTimeSeries | undefined;
+};
+
+/**
+ * Market data adapter for the Alpha Vantage REST API
+ * Free tier: 25 requests per day, 5 per minute
+ */
+export class AlphaVantageProvider implements MarketDataProvider {
+  readonly name = PROVIDER_NAME;
+
+  /**
+   * Fetch daily bars (TIME_SERIES_DAILY)
+   */
+  async getDailyBars(symbol: string, options: FetchBarsOptions): Promise<OHLCVData[]> {
+    const pair = getPair(symbol);
+    if (pair) {
+      return this.getPairDailyBars(symbol, pair, options);
+    }
+
+    const data = await this.request<AlphaVantageTimeSeriesDaily>(
+      symbol,
+      {
+        function: 'TIME_SERIES_DAILY',
+        symbol: toProviderSymbol(symbol, PROVIDER_NAME),
+        outputsize: options.outputSize,
+      },
+      // Full output is 20+ years of data, give it more time
+      options.outputSize === 'full' ? 30000 : 10000
+    );
+
+    const timeSeries = data['Time Series (Daily)'];
+    if (!timeSeries) {
+      throw new ProviderUnavailableError('Invalid response format from Alpha Vantage API', PROVIDER_NAME);
+    }
+
+    return transformTimeSeries(timeSeries);
+  }
+
+  /**
+   * Fetch intraday bars (TIME_SERIES_INTRADAY)
+   * Full output covers the trailing 30 days; older history is fetched a month at a time
+   */
+  async getIntradayBars(
+    symbol: string,
+    interval: IntradayInterval,
+    options: FetchBarsOptions
+  ): Promise<OHLCVData[]> {
+    const pair = getPair(symbol);
+    if (pair) {
+      return this.getPairIntradayBars(symbol, pair, interval, options);
+    }
+
+    const params: Record<string, string> = {
+      function: 'TIME_SERIES_INTRADAY',
+      symbol: toProviderSymbol(symbol, PROVIDER_NAME),
+      interval,
+      outputsize: options.month ? 'full' : options.outputSize,
+      // Pre-market and after-hours bars are stored too; the bar store filters them per request
+      extended_hours: 'true',
+    };
+    if (options.month) {
+      // A past month in one request (full output returns the whole month)
+      params.month = options.month;
+    }
+
+    const data = await this.request<AlphaVantageTimeSeriesIntraday>(
+      symbol,
+      params,
+      params.outputsize === 'full' ? 30000 : 10000
+    );
+
+    // The key format is dynamic: "Time Series (1min)", "Time Series (5min)", etc.
+    const timeSeries = data[`Time Series (${interval})`];
+    if (!timeSeries) {
+      throw new ProviderUnavailableError('Invalid response format from Alpha Vantage API', PROVIDER_NAME);
+    }
+
+    return transformTimeSeries(timeSeries);
+  }
+
+  /**
+   * Extract splits and dividends from the adjusted daily series (TIME_SERIES_DAILY_ADJUSTED)
+   */
+  async getCorporateActions(symbol: string): Promise<CorporateAction[]> {
+    // Currencies have no splits or dividends
+    if (getPair(symbol)) {
+      return [];
+    }
+
+    const data = await this.request<AlphaVantageTimeSeriesDailyAdjusted>(
+      symbol,
+      {
+        function: 'TIME_SERIES_DAILY_ADJUSTED',
+        symbol: toProviderSymbol(symbol, PROVIDER_NAME),
+        outputsize: 'full',
+      },
+      30000
+    );
+
+    const timeSeries = data['Time Series (Daily)'];
+    if (!timeSeries) {
+      throw new ProviderUnavailableError('Invalid response format from Alpha Vantage API', PROVIDER_NAME);
+    }
+
+    const actions: CorporateAction[] = [];
+    for (const [date, values] of Object.entries(timeSeries)) {
+      const dividend = parseFloat(values['7. dividend amount']);
+      const splitCoefficient = parseFloat(values['8. split coefficient']);
+
+      if (dividend > 0) {
+        actions.push({ date, type: 'dividend', value: dividend });
+      }
+      if (splitCoefficient > 0 && splitCoefficient !== 1) {
+        actions.push({ date, type: 'split', value: splitCoefficient });
+      }
+    }
+
+    return actions.sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  /**
+   * Look up symbols by keyword (SYMBOL_SEARCH)
+   */
+  async searchSymbols(query: string): Promise<SymbolMatch[]> {
+    const data = await this.request<AlphaVantageSymbolSearch>(
+      query,
+      {
+        function: 'SYMBOL_SEARCH',
+        keywords: query,
+      },
+      10000
+    );
+
+    // Matches come back sorted by match score; symbols use Alpha Vantage's
+    // format (BRK-B, SHOP.TRT) so convert them to the canonical form
+    return (data.bestMatches || []).map((match) => ({
+      symbol: canonicalSymbol(match['1. symbol']),
+      name: match['2. name'],
+      exchange: match['4. region'] || null,
+      type: match['3. type'] || null,
+      currency: match['8. currency'] || null,
+      assetClass: getAssetClass(match['1. symbol']),
+    }));
+  }
+
+  /**
+   * Fetch company fundamentals (OVERVIEW)
+   */
+  async getFundamentals(symbol: string): Promise<Fundamentals> {
+    if (getPair(symbol)) {
+      return emptyFundamentals(symbol);
+    }
+
+    const data = await this.request<AlphaVantageOverview>(
+      symbol,
+      {
+        function: 'OVERVIEW',
+        symbol: toProviderSymbol(symbol, PROVIDER_NAME),
+      },
+      10000
+    );
+
+    // Unknown symbols come back as an empty object
+    if (!data.Symbol) {
+      throw new SymbolNotFoundError(symbol, PROVIDER_NAME);
+    }
+
+    return {
+      symbol: canonicalSymbol(symbol),
+      name: parseText(data.Name),
+      sector: parseText(data.Sector),
+      industry: parseText(data.Industry),
+      marketCap: parseNumber(data.MarketCapitalization),
+      peRatio: parseNumber(data.PERatio),
+      eps: parseNumber(data.EPS),
+      epsGrowth: toPercent(parseNumber(data.QuarterlyEarningsGrowthYOY)),
+      dividendYield: toPercent(parseNumber(data.DividendYield)),
+      beta: parseNumber(data.Beta),
+      profitMargin: toPercent(parseNumber(data.ProfitMargin)),
+    };
+  }
+
+  /**
+   * Fetch reported earnings (EARNINGS) and the next scheduled report (EARNINGS_CALENDAR)
+   */
+  async getEarnings(symbol: string): Promise<EarningsEvent[]> {
+    if (getPair(symbol)) {
+      return [];
+    }
+
+    const providerSymbol = toProviderSymbol(symbol, PROVIDER_NAME);
+    const data = await this.request<AlphaVantageEarnings>(
+      symbol,
+      {
+        function: 'EARNINGS',
+        symbol: providerSymbol,
+      },
+      10000
+    );
+
+    const events: EarningsEvent[] = (data.quarterlyEarnings || []).map((report) => ({
+      date: report.reportedDate,
+      fiscalDateEnding: parseText(report.fiscalDateEnding),
+      epsEstimate: parseNumber(report.estimatedEPS),
+      epsActual: parseNumber(report.reportedEPS),
+    }));
+
+    // The calendar is a CSV of reports scheduled in the next three months; reported
+    // history is still useful without it, so a failure here is not fatal
+    try {
+      const calendar = await this.request<string>(
+        symbol,
+        {
+          function: 'EARNINGS_CALENDAR',
+          symbol: providerSymbol,
+          horizon: '3month',
+        },
+        10000
+      );
+      const reported = new Set(events.map((event) => event.date));
+
+      for (const line of String(calendar).split(/\r?\n/).slice(1)) {
+        // symbol,name,reportDate,fiscalDateEnding,estimate,currency
+        const fields = line.split(',');
+        if (fields.length < 5 || !/^\d{4}-\d{2}-\d{2}$/.test(fields[2]) || reported.has(fields[2])) {
+          continue;
+        }
+        events.push({
+          date: fields[2],
+          fiscalDateEnding: parseText(fields[3]),
+          epsEstimate: parseNumber(fields[4]),
+          epsActual: null,
+        });
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`Alpha Vantage earnings calendar unavailable for ${symbol}:`, errorMessage);
+    }
+
+    return events.sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  /**
+   * Fetch daily bars for a currency pair (DIGITAL_CURRENCY_DAILY or FX_DAILY)
+   */
+  private async getPairDailyBars(
+    symbol: string,
+    pair: ParsedSymbol,
+    options: FetchBarsOptions
+  ): Promise<OHLCVData[]> {
+    const params: Record<string, string> =
+      pair.assetClass === 'crypto'
+        ? { function: 'DIGITAL_CURRENCY_DAILY', symbol: pair.ticker, market: pair.quoteCurrency! }
+        : {
+            function: 'FX_DAILY',
+            from_symbol: pair.ticker,
+            to_symbol: pair.quoteCurrency!,
+            outputsize: options.outputSize,
+          };
+
+    const data = await this.request<AlphaVantagePairSeries>(
+      symbol,
+      params,
+      options.outputSize === 'full' ? 30000 : 10000
+    );
+
+    const timeSeries =
+      data[pair.assetClass === 'crypto' ? 'Time Series (Digital Currency Daily)' : 'Time Series FX (Daily)'];
+    if (!timeSeries) {
+      throw new ProviderUnavailableError('Invalid response format from Alpha Vantage API', PROVIDER_NAME);
+    }
+
+    return transformTimeSeries(timeSeries, 'utc');
+  }
+
+  /**
+   * Fetch intraday bars for a currency pair (CRYPTO_INTRADAY or FX_INTRADAY)
+   * These endpoints have no month parameter, so a month is cut from the full output
+   */
+  private async getPairIntradayBars(
+    symbol: string,
+    pair: ParsedSymbol,
+    interval: IntradayInterval,
+    options: FetchBarsOptions
+  ): Promise<OHLCVData[]> {
+    const outputSize = options.month ? 'full' : options.outputSize;
+    const params: Record<string, string> =
+      pair.assetClass === 'crypto'
+        ? { function: 'CRYPTO_INTRADAY', symbol: pair.ticker, market: pair.quoteCurrency! }
+        : { function: 'FX_INTRADAY', from_symbol: pair.ticker, to_symbol: pair.quoteCurrency! };
+    params.interval = interval;
+    params.outputsize = outputSize;
+
+    const data = await this.request<AlphaVantagePairSeries>(
+      symbol,
+      params,
+      outputSize === 'full' ? 30000 : 10000
+    );
+
+    const timeSeries =
+      data[pair.assetClass === 'crypto' ? `Time Series Crypto (${interval})` : `Time Series FX (${interval})`];
+    if (!timeSeries) {
+      throw new ProviderUnavailableError('Invalid response format from Alpha Vantage API', PROVIDER_NAME);
+    }
+
+    const bars = transformTimeSeries(timeSeries, 'utc');
+    return options.month ? bars.filter((bar) => bar.timestamp.startsWith(options.month!)) : bars;
+  }
+
+  /**
+   * Perform a query against Alpha Vantage within the shared API key quota
+   * Identical concurrent queries share one request
+   */
+  private async request<T>(
+    symbol: string,
+    params: Record<string, string>,
+    timeout: number
+  ): Promise<T> {
+    const apiKey = process.env.ALPHA_VANTAGE_API_KEY;
+
+    if (!apiKey) {
+      throw new ProviderUnavailableError('Alpha Vantage API key is not configured', PROVIDER_NAME);
+    }
+
+    const key = Object.keys(params)
+      .sort()
+      .map((name) => `${name}=${params[name]}`)
+      .join('&');
+    return getAlphaVantageQuota().schedule(key, () => this.send<T>(symbol, params, apiKey, timeout));
+  }
+
+  /**
+   * Send a query to Alpha Vantage and translate its error payloads into typed
+   * market data errors
+   */
+  private async send<T>(
+    symbol: string,
+    params: Record<string, string>,
+    apiKey: string,
+    timeout: number
+  ): Promise<T> {
+    try {
+      const response = await axios.get<T>(BASE_URL, {
+        params: { ...params, apikey: apiKey },
+        timeout,
+      });
+
+      // Alpha Vantage reports errors with HTTP 200 and a message key
+      // (CSV endpoints answer with plain text unless there is an error)
+      const body = response.data;
+      if (typeof body === 'object' && body !== null) {
+        if ('Error Message' in body) {
+          throw new SymbolNotFoundError(symbol, PROVIDER_NAME);
+        }
+
+        // "Note" is the per-minute limit; "Information" mentions the daily limit
+        if ('Note' in body || 'Information' in body) {
+          const message = String((body as Record<string, unknown>).Note ?? (body as Record<string, unknown>).Information);
+          throw getAlphaVantageQuota().reportExhausted(/per day|daily/i.test(message) ? 'day' : 'minute');
+        }
+      }
+
+      return body;
+    } catch (error: unknown) {
+      if (axios.isAxiosError(error)) {
+        if (error.code === 'ECONNABORTED') {
+          throw new ProviderUnavailableError('Request timeout: Alpha Vantage API is not responding', PROVIDER_NAME);
+        }
+        if (error.response) {
+          throw new ProviderUnavailableError(
+            `API error: ${error.response.status} - ${error.response.statusText}`,
+            PROVIDER_NAME
+          );
+        }
+        if (error.request) {
+          throw new ProviderUnavailableError('Network error: Unable to reach Alpha Vantage API', PROVIDER_NAME);
+        }
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Parsed currency pair, or null for equities
+ */
+function getPair(symbol: string): ParsedSymbol | null {
+  const parsed = parseSymbol(symbol);
+  return parsed?.quoteCurrency ? parsed : null;
+}
+
+/**
+ * Fundamentals for instruments without company data
+ */
+function emptyFundamentals(symbol: string): Fundamentals {
+  return {
+    symbol: canonicalSymbol(symbol),
+    name: null,
+    sector: null,
+    industry: null,
+    marketCap: null,
+    peRatio: null,
+    eps: null,
+    epsGrowth: null,
+    dividendYield: null,
+    beta: null,
+    profitMargin: null,
+  };
+}
+
+/**
+ * Parse an OVERVIEW text field, treating placeholders as missing
+ */
+function parseText(value: string | undefined): string | null {
+  if (!value || value === 'None' || value === '-') {
+    return null;
+  }
+  return value;
+}
+
+/**
+ * Parse an OVERVIEW numeric field, treating placeholders as missing
+ */
+function parseNumber(value: string | undefined): number | null {
+  const text = parseText(value);
+  if (text === null) {
+    return null;
+  }
+  const number = parseFloat(text);
+  return isNaN(number) ? null : number;
+}
+
+/**
+ * Convert a ratio (0.025) to a percentage (2.5)
+ */
+function toPercent(value: number | null): number | null {
+  return value === null ? null : Math.round(value * 10000) / 100;
+}
+
+/**
+ * Transform an Alpha Vantage time series object to standardized OHLCV format
+ * @param timeZone - Zone of the intraday keys: equity series are US/Eastern, pair series UTC
+ */
+function transformTimeSeries(
+  timeSeries: AlphaVantageTimeSeries,
+  timeZone: 'exchange' | 'utc' = 'exchange'
+): OHLCVData[] {
+  const data: OHLCVData[] = [];
+
+  for (const [datetime, values] of Object.entries(timeSeries)) {
+    const timestamp =
+      timeZone === 'utc' ? new Date(`${datetime.trim().replace(' ', 'T')}Z`) : parseExchangeTimestamp(datetime);
+    data.push({
+      // Keys are wall-clock times without an offset
+      timestamp: timestamp.toISOString(),
+      open: parseFloat(values['1. open']),
+      high: parseFloat(values['2. high']),
+      low: parseFloat(values['3. low']),
+      close: parseFloat(values['4. close']),
+      volume: values['5. volume'] ? parseFloat(values['5. volume']) : 0,
+    });
+  }
+
+  // Sort by timestamp in descending order (most recent first)
+  data.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+  return data;
+}
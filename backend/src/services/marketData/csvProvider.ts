@@ -0,0 +1,325 @@
+import { readFile, readdir } from 'fs/promises';
+import { join, resolve } from 'path';
+import { OHLCVData, IntradayInterval } from '../../types/stock.js';
+import {
+  MarketDataProvider,
+  FetchBarsOptions,
+  CorporateAction,
+  SymbolMatch,
+  Fundamentals,
+  EarningsEvent,
+} from '../../types/marketData.js';
+import { SymbolNotFoundError, ProviderUnavailableError } from './errors.js';
+import { canonicalSymbol, getAssetClass } from '../../utils/symbol.js';
+import { getExchangeDate, parseExchangeTimestamp } from '../../utils/marketCalendar.js';
+
+const PROVIDER_NAME = 'csv';
+const COMPACT_SIZE = 100;
+
+/**
+ * Market data adapter that reads bars from CSV files in a local directory
+ *
+ * File layout (one file per symbol and interval):
+ *   <dir>/AAPL.csv          - daily bars
+ *   <dir>/AAPL_15min.csv    - intraday bars for the 15min interval
+ *   <dir>/AAPL_actions.csv  - optional splits/dividends (header: date,type,value)
+ *   <dir>/AAPL_earnings.csv - optional earnings reports (header: date,fiscal_date_ending,eps_estimate,eps_actual)
+ *   <dir>/AAPL_fundamentals.csv - optional fundamentals, one row under a header of
+ *                             Fundamentals fields in snake_case (market_cap, pe_ratio, ...)
+ *
+ * Bar files need a header row with: timestamp,open,high,low,close,volume
+ * Rows may be in any order; timestamps are anything Date can parse.
+ */
+export class CsvProvider implements MarketDataProvider {
+  readonly name = PROVIDER_NAME;
+  private readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = resolve(directory);
+  }
+
+  async getDailyBars(symbol: string, options: FetchBarsOptions): Promise<OHLCVData[]> {
+    const bars = await this.readBars(symbol, `${canonicalSymbol(symbol)}.csv`);
+    return options.outputSize === 'compact' ? bars.slice(0, COMPACT_SIZE) : bars;
+  }
+
+  async getIntradayBars(
+    symbol: string,
+    interval: IntradayInterval,
+    options: FetchBarsOptions
+  ): Promise<OHLCVData[]> {
+    const bars = await this.readBars(symbol, `${canonicalSymbol(symbol)}_${interval}.csv`);
+    if (options.month) {
+      return bars.filter((bar) => getExchangeDate(Date.parse(bar.timestamp)).startsWith(options.month!));
+    }
+    return options.outputSize === 'compact' ? bars.slice(0, COMPACT_SIZE) : bars;
+  }
+
+  /**
+   * Read splits and dividends; a missing file means the symbol has none
+   */
+  async getCorporateActions(symbol: string): Promise<CorporateAction[]> {
+    const filePath = join(this.directory, `${canonicalSymbol(symbol)}_actions.csv`);
+    let contents: string;
+
+    try {
+      contents = await readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw new ProviderUnavailableError(`Unable to read ${filePath}`, PROVIDER_NAME);
+    }
+
+    const actions = parseActionsCsv(contents, filePath);
+    return actions.sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  /**
+   * Read fundamentals; missing columns or blank values are treated as unknown
+   */
+  async getFundamentals(symbol: string): Promise<Fundamentals> {
+    const filePath = join(this.directory, `${canonicalSymbol(symbol)}_fundamentals.csv`);
+    let contents: string;
+
+    try {
+      contents = await readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new SymbolNotFoundError(symbol, PROVIDER_NAME);
+      }
+      throw new ProviderUnavailableError(`Unable to read ${filePath}`, PROVIDER_NAME);
+    }
+
+    const lines = contents.split(/\r?\n/).filter((line) => line.trim() !== '');
+    if (lines.length < 2) {
+      throw new SymbolNotFoundError(symbol, PROVIDER_NAME);
+    }
+
+    const header = lines[0].split(',').map((column) => column.trim().toLowerCase());
+    const fields = lines[1].split(',').map((field) => field.trim());
+    const text = (column: string): string | null => {
+      const index = header.indexOf(column);
+      return index !== -1 && fields[index] ? fields[index] : null;
+    };
+    const number = (column: string): number | null => {
+      const value = parseFloat(text(column) ?? '');
+      return isNaN(value) ? null : value;
+    };
+
+    return {
+      symbol: canonicalSymbol(symbol),
+      name: text('name'),
+      sector: text('sector'),
+      industry: text('industry'),
+      marketCap: number('market_cap'),
+      peRatio: number('pe_ratio'),
+      eps: number('eps'),
+      epsGrowth: number('eps_growth'),
+      dividendYield: number('dividend_yield'),
+      beta: number('beta'),
+      profitMargin: number('profit_margin'),
+    };
+  }
+
+  /**
+   * Read earnings reports; a missing file means none are known
+   * Rows without eps_actual are scheduled (upcoming) reports
+   */
+  async getEarnings(symbol: string): Promise<EarningsEvent[]> {
+    const filePath = join(this.directory, `${canonicalSymbol(symbol)}_earnings.csv`);
+    let contents: string;
+
+    try {
+      contents = await readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw new ProviderUnavailableError(`Unable to read ${filePath}`, PROVIDER_NAME);
+    }
+
+    const lines = contents.split(/\r?\n/).filter((line) => line.trim() !== '');
+    if (lines.length === 0) {
+      return [];
+    }
+
+    const header = lines[0].split(',').map((column) => column.trim().toLowerCase());
+    const [dateIdx, fiscalIdx, estimateIdx, actualIdx] = [
+      'date',
+      'fiscal_date_ending',
+      'eps_estimate',
+      'eps_actual',
+    ].map((column) => header.indexOf(column));
+
+    if (dateIdx === -1) {
+      throw new ProviderUnavailableError(
+        `Invalid CSV header in ${filePath}. Expected columns: date, fiscal_date_ending, eps_estimate, eps_actual`,
+        PROVIDER_NAME
+      );
+    }
+
+    const optionalNumber = (fields: string[], index: number): number | null => {
+      const value = index === -1 ? NaN : parseFloat(fields[index]);
+      return isNaN(value) ? null : value;
+    };
+    const events: EarningsEvent[] = [];
+
+    for (let i = 1; i < lines.length; i++) {
+      const fields = lines[i].split(',').map((field) => field.trim());
+      const date = new Date(fields[dateIdx]);
+
+      if (isNaN(date.getTime())) {
+        console.warn(`CSV provider: skipping row ${i + 1} in ${filePath} (invalid date)`);
+        continue;
+      }
+
+      events.push({
+        date: date.toISOString().split('T')[0],
+        fiscalDateEnding: fiscalIdx !== -1 && fields[fiscalIdx] ? fields[fiscalIdx] : null,
+        epsEstimate: optionalNumber(fields, estimateIdx),
+        epsActual: optionalNumber(fields, actualIdx),
+      });
+    }
+
+    return events.sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  /**
+   * Match symbols that have a daily file, by ticker prefix
+   */
+  async searchSymbols(query: string): Promise<SymbolMatch[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch {
+      throw new ProviderUnavailableError(`Unable to read ${this.directory}`, PROVIDER_NAME);
+    }
+
+    const prefix = query.trim().toUpperCase();
+    return files
+      .filter((file) => /^[A-Z0-9.\-]+\.csv$/i.test(file))
+      .map((file) => canonicalSymbol(file.replace(/\.csv$/i, '')))
+      .filter((symbol) => symbol.startsWith(prefix))
+      .sort()
+      .map((symbol) => ({
+        symbol,
+        name: symbol,
+        exchange: null,
+        type: null,
+        currency: null,
+        assetClass: getAssetClass(symbol),
+      }));
+  }
+
+  /**
+   * Read and parse a CSV file into OHLCV bars (most recent first)
+   */
+  private async readBars(symbol: string, filename: string): Promise<OHLCVData[]> {
+    const filePath = join(this.directory, filename);
+    let contents: string;
+
+    try {
+      contents = await readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new SymbolNotFoundError(symbol, PROVIDER_NAME);
+      }
+      throw new ProviderUnavailableError(`Unable to read ${filePath}`, PROVIDER_NAME);
+    }
+
+    const bars = parseCsv(contents, filePath);
+    if (bars.length === 0) {
+      throw new SymbolNotFoundError(symbol, PROVIDER_NAME);
+    }
+
+    // Sort by timestamp in descending order (most recent first)
+    bars.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+    return bars;
+  }
+}
+
+/**
+ * Parse CSV text with a header row into OHLCV bars
+ */
+function parseCsv(contents: string, filePath: string): OHLCVData[] {
+  const lines = contents.split(/\r?\n/).filter((line) => line.trim() !== '');
+  if (lines.length === 0) {
+    return [];
+  }
+
+  const header = lines[0].split(',').map((column) => column.trim().toLowerCase());
+  const columns = ['timestamp', 'open', 'high', 'low', 'close', 'volume'];
+  const indexes = columns.map((column) => header.indexOf(column));
+
+  if (indexes.some((index) => index === -1)) {
+    throw new ProviderUnavailableError(
+      `Invalid CSV header in ${filePath}. Expected columns: ${columns.join(', ')}`,
+      PROVIDER_NAME
+    );
+  }
+
+  const [timestampIdx, openIdx, highIdx, lowIdx, closeIdx, volumeIdx] = indexes;
+  const bars: OHLCVData[] = [];
+
+  for (let i = 1; i < lines.length; i++) {
+    const fields = lines[i].split(',');
+    // Timestamps without an offset are exchange (America/New_York) time
+    const date = parseExchangeTimestamp(fields[timestampIdx] ?? '');
+
+    if (isNaN(date.getTime())) {
+      console.warn(`CSV provider: skipping row ${i + 1} in ${filePath} (invalid timestamp)`);
+      continue;
+    }
+
+    bars.push({
+      timestamp: date.toISOString(),
+      open: parseFloat(fields[openIdx]),
+      high: parseFloat(fields[highIdx]),
+      low: parseFloat(fields[lowIdx]),
+      close: parseFloat(fields[closeIdx]),
+      volume: parseFloat(fields[volumeIdx]),
+    });
+  }
+
+  return bars;
+}
+
+/**
+ * Parse a corporate actions CSV (date,type,value) into actions
+ */
+function parseActionsCsv(contents: string, filePath: string): CorporateAction[] {
+  const lines = contents.split(/\r?\n/).filter((line) => line.trim() !== '');
+  if (lines.length === 0) {
+    return [];
+  }
+
+  const header = lines[0].split(',').map((column) => column.trim().toLowerCase());
+  const [dateIdx, typeIdx, valueIdx] = ['date', 'type', 'value'].map((column) => header.indexOf(column));
+
+  if (dateIdx === -1 || typeIdx === -1 || valueIdx === -1) {
+    throw new ProviderUnavailableError(
+      `Invalid CSV header in ${filePath}. Expected columns: date, type, value`,
+      PROVIDER_NAME
+    );
+  }
+
+  const actions: CorporateAction[] = [];
+
+  for (let i = 1; i < lines.length; i++) {
+    const fields = lines[i].split(',').map((field) => field.trim());
+    const date = new Date(fields[dateIdx]);
+    const type = fields[typeIdx]?.toLowerCase();
+    const value = parseFloat(fields[valueIdx]);
+
+    if (isNaN(date.getTime()) || (type !== 'split' && type !== 'dividend') || !(value > 0)) {
+      console.warn(`CSV provider: skipping row ${i + 1} in ${filePath} (invalid corporate action)`);
+      continue;
+    }
+
+    actions.push({ date: date.toISOString().split('T')[0], type, value });
+  }
+
+  return actions;
+}
@@ -0,0 +1,75 @@
+/**
+ * Typed errors raised by market data providers
+ * Routes map these to HTTP status codes instead of matching on message text
+ */
+
+/**
+ * Base class for all provider failures
+ */
+export class MarketDataError extends Error {
+  readonly provider: string;
+
+  constructor(message: string, provider: string) {
+    super(message);
+    this.name = 'MarketDataError';
+    this.provider = provider;
+  }
+}
+
+/**
+ * The provider does not know the requested symbol
+ */
+export class SymbolNotFoundError extends MarketDataError {
+  readonly symbol: string;
+
+  constructor(symbol: string, provider: string) {
+    super(`Invalid symbol: ${symbol}`, provider);
+    this.name = 'SymbolNotFoundError';
+    this.symbol = symbol;
+  }
+}
+
+/**
+ * The API quota is used up (rejected by the provider, or the daily budget is spent)
+ */
+export class QuotaExceededError extends MarketDataError {
+  readonly retryAfterSeconds?: number;
+  // When the budget resets (ISO timestamp), if known
+  readonly resetAt?: string;
+
+  constructor(provider: string, retryAfterSeconds?: number, resetAt?: string) {
+    super(
+      resetAt
+        ? `API quota exhausted until ${resetAt}.`
+        : 'API rate limit exceeded. Please try again later.',
+      provider
+    );
+    this.name = 'QuotaExceededError';
+    this.retryAfterSeconds = retryAfterSeconds;
+    this.resetAt = resetAt;
+  }
+}
+
+/**
+ * The request is waiting for the per-minute budget and will run later
+ * Retrying after the ETA picks up the result without spending quota again
+ */
+export class RequestQueuedError extends MarketDataError {
+  readonly etaSeconds: number;
+
+  constructor(provider: string, etaSeconds: number) {
+    super(`Request queued: API rate limit reached, data expected in about ${etaSeconds} seconds.`, provider);
+    this.name = 'RequestQueuedError';
+    this.etaSeconds = etaSeconds;
+  }
+}
+
+/**
+ * The provider could not be reached, is misconfigured, or returned garbage
+ */
+export class ProviderUnavailableError extends MarketDataError {
+  constructor(message: string, provider: string) {
+    super(message, provider);
+    this.name = 'ProviderUnavailableError';
+  }
+}
@@ -0,0 +1,44 @@
+import { MarketDataProvider, MarketDataProviderName } from '../../types/marketData.js';
+import { AlphaVantageProvider } from './alphaVantageProvider.js';
+import { CsvProvider } from './csvProvider.js';
+import { SyntheticProvider } from './syntheticProvider.js';
+
+export * from './errors.js';
+export * from './quotaManager.js';
+
+const PROVIDER_NAMES: MarketDataProviderName[] = ['alphavantage', 'csv', 'synthetic'];
+const DEFAULT_CSV_DIR = './data/market';
+
+let activeProvider: MarketDataProvider | null = null;
+
+/**
+ * Create a market data provider by name
+ * @param name - Provider name (alphavantage, csv, synthetic)
+ */
+export function createMarketDataProvider(name: string): MarketDataProvider {
+  switch (name) {
+    case 'alphavantage':
+      return new AlphaVantageProvider();
+    case 'csv':
+      return new CsvProvider(process.env.MARKET_DATA_CSV_DIR || DEFAULT_CSV_DIR);
+    case 'synthetic':
+      return new SyntheticProvider();
+    default:
+      throw new Error(
+        `Unknown market data provider "${name}". Expected one of: ${PROVIDER_NAMES.join(', ')}`
+      );
+  }
+}
+
+/**
+ * Get the configured market data provider
+ * Selected by the MARKET_DATA_PROVIDER environment variable (default: alphavantage)
+ */
+export function getMarketDataProvider(): MarketDataProvider {
+  if (!activeProvider) {
+    const name = (process.env.MARKET_DATA_PROVIDER || 'alphavantage').trim().toLowerCase();
+    activeProvider = createMarketDataProvider(name);
+    console.log(`📈 Market data provider: ${activeProvider.name}`);
+  }
+  return activeProvider;
+}
@@ -0,0 +1,354 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { QuotaExceededError, RequestQueuedError } from './errors.js';
+
+/**
+ * Provider request quota manager
+ *
+ * The Alpha Vantage quota belongs to the API key, so it is shared by every
+ * user, the scheduled jobs and the real-time price service. All provider
+ * requests go through one QuotaManager, which:
+ * - tracks the per-minute and per-day budgets
+ * - queues requests by priority once the minute budget is spent
+ *   (interactive chart requests before background and batch work)
+ * - shares one in-flight request between concurrent identical fetches
+ * - rejects with QuotaExceededError (and the reset time) once the day budget is spent
+ *
+ * Interactive callers don't wait more than a few seconds: when their slot is
+ * further away they get a RequestQueuedError with an ETA, the request stays
+ * queued, and its result is kept so the retry is answered without a new call.
+ */
+
+export type RequestPriority = 'interactive' | 'background' | 'batch';
+
+export interface QuotaBudget {
+  perMinute: number;
+  perDay: number;
+}
+
+export interface QuotaStatus {
+  provider: string;
+  perMinute: number;
+  perDay: number;
+  usedThisMinute: number;
+  usedToday: number;
+  resetAt: string; // when the daily budget resets (ISO)
+  queued: Record<RequestPriority, number>;
+  inFlight: number;
+}
+
+interface QueuedRequest {
+  key: string;
+  priority: RequestPriority;
+  sequence: number;
+  run: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+interface PendingRequest {
+  promise: Promise<unknown>;
+  // Set while the request is still waiting in the queue
+  entry: QueuedRequest | null;
+}
+
+const PRIORITY_ORDER: Record<RequestPriority, number> = {
+  interactive: 0,
+  background: 1,
+  batch: 2,
+};
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Longest an interactive caller waits for a slot before getting an ETA instead
+const INTERACTIVE_MAX_WAIT_MS = 15 * 1000;
+// How long the result of a request nobody is waiting for is kept for the retry
+const DETACHED_RESULT_TTL_MS = 2 * MINUTE_MS;
+
+// Free tier limits
+const DEFAULT_REQUESTS_PER_MINUTE = 5;
+const DEFAULT_REQUESTS_PER_DAY = 25;
+
+const priorityContext = new AsyncLocalStorage<RequestPriority>();
+
+/**
+ * Run a function with a request priority; provider requests made anywhere
+ * inside it (including nested async calls) are queued with that priority
+ * @param priority - Request priority
+ * @param fn - Work to run
+ */
+export function runWithPriority<T>(priority: RequestPriority, fn: () => Promise<T>): Promise<T> {
+  return priorityContext.run(priority, fn);
+}
+
+/**
+ * Priority of the current async context (interactive unless set by runWithPriority)
+ */
+export function getCurrentPriority(): RequestPriority {
+  return priorityContext.getStore() ?? 'interactive';
+}
+
+export class QuotaManager {
+  private readonly provider: string;
+  private readonly budget: QuotaBudget;
+  private sentTimes: number[] = []; // Send times within the last minute, oldest first
+  private usedToday = 0;
+  private dayStart = startOfUtcDay(Date.now());
+  private queue: QueuedRequest[] = [];
+  private sequence = 0;
+  private pending: Map<string, PendingRequest> = new Map();
+  private detached: Set<string> = new Set();
+  private detachedResults: Map<string, { value: unknown; expiresAt: number }> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(provider: string, budget: QuotaBudget) {
+    this.provider = provider;
+    this.budget = budget;
+  }
+
+  /**
+   * Run a provider request within the quota
+   * @param key - Identifies the request; identical keys share one provider call
+   * @param task - Performs the provider call
+   * @param priority - Queue priority (defaults to the current context's priority)
+   * @returns The task's result
+   * @throws QuotaExceededError when the daily budget is spent
+   * @throws RequestQueuedError when an interactive request would wait too long
+   */
+  async schedule<T>(
+    key: string,
+    task: () => Promise<T>,
+    priority: RequestPriority = getCurrentPriority()
+  ): Promise<T> {
+    const now = Date.now();
+    this.rollOver(now);
+
+    const stored = this.detachedResults.get(key);
+    if (stored) {
+      this.detachedResults.delete(key);
+      if (stored.expiresAt > now) {
+        return stored.value as T;
+      }
+    }
+
+    let pending = this.pending.get(key);
+    if (pending) {
+      // Share the identical request, moving it up if this caller is more urgent
+      if (pending.entry && PRIORITY_ORDER[priority] < PRIORITY_ORDER[pending.entry.priority]) {
+        pending.entry.priority = priority;
+        this.sortQueue();
+      }
+    } else {
+      if (this.usedToday + this.queue.length >= this.budget.perDay) {
+        throw this.exhaustedError(now);
+      }
+      pending = this.enqueue(key, task, priority);
+    }
+
+    if (priority !== 'interactive') {
+      return pending.promise as Promise<T>;
+    }
+
+    const waitMs = this.estimateWaitMs(key, now);
+    if (waitMs > INTERACTIVE_MAX_WAIT_MS) {
+      // Leave it queued and keep the result for the caller's retry
+      this.detached.add(key);
+      pending.promise.catch(() => undefined);
+      throw new RequestQueuedError(this.provider, Math.ceil(waitMs / 1000));
+    }
+
+    return pending.promise as Promise<T>;
+  }
+
+  /**
+   * Record that the provider itself rejected a request for quota reasons
+   * (e.g. the key is also used elsewhere), and block further requests
+   * @param scope - Which budget the provider reported as spent
+   * @returns Error to throw to the caller
+   */
+  reportExhausted(scope: 'minute' | 'day'): QuotaExceededError {
+    const now = Date.now();
+
+    if (scope === 'day') {
+      this.usedToday = this.budget.perDay;
+      return this.exhaustedError(now);
+    }
+
+    this.sentTimes = new Array(this.budget.perMinute).fill(now);
+    return new QuotaExceededError(this.provider, MINUTE_MS / 1000);
+  }
+
+  /**
+   * Current usage, for monitoring
+   */
+  getStatus(): QuotaStatus {
+    const now = Date.now();
+    this.rollOver(now);
+
+    const queued: Record<RequestPriority, number> = { interactive: 0, background: 0, batch: 0 };
+    this.queue.forEach((entry) => queued[entry.priority]++);
+
+    return {
+      provider: this.provider,
+      perMinute: this.budget.perMinute,
+      perDay: this.budget.perDay,
+      usedThisMinute: this.sentTimes.filter((time) => now - time < MINUTE_MS).length,
+      usedToday: this.usedToday,
+      resetAt: new Date(this.dayStart + DAY_MS).toISOString(),
+      queued,
+      inFlight: this.pending.size - this.queue.length,
+    };
+  }
+
+  private enqueue(key: string, task: () => Promise<unknown>, priority: RequestPriority): PendingRequest {
+    let resolve!: (value: unknown) => void;
+    let reject!: (error: unknown) => void;
+    const promise = new Promise<unknown>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+
+    const entry: QueuedRequest = { key, priority, sequence: this.sequence++, run: task, resolve, reject };
+    const pending: PendingRequest = { promise, entry };
+
+    this.pending.set(key, pending);
+    this.queue.push(entry);
+    this.sortQueue();
+    this.pump();
+
+    return pending;
+  }
+
+  /**
+   * Start queued requests while the budgets allow, then wait for the next free slot
+   */
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const now = Date.now();
+    this.rollOver(now);
+    this.sentTimes = this.sentTimes.filter((time) => now - time < MINUTE_MS);
+
+    this.detachedResults.forEach((result, key) => {
+      if (result.expiresAt <= now) {
+        this.detachedResults.delete(key);
+      }
+    });
+
+    while (this.queue.length > 0) {
+      if (this.usedToday >= this.budget.perDay) {
+        // Budget ran out while these were waiting
+        const error = this.exhaustedError(now);
+        this.queue.splice(0).forEach((entry) => {
+          this.pending.delete(entry.key);
+          this.detached.delete(entry.key);
+          entry.reject(error);
+        });
+        return;
+      }
+
+      if (this.sentTimes.length >= this.budget.perMinute) {
+        this.timer = setTimeout(() => this.pump(), this.sentTimes[0] + MINUTE_MS - now);
+        return;
+      }
+
+      const entry = this.queue.shift()!;
+      this.sentTimes.push(now);
+      this.usedToday++;
+      this.execute(entry);
+    }
+  }
+
+  private execute(entry: QueuedRequest): void {
+    const pending = this.pending.get(entry.key);
+    if (pending) {
+      pending.entry = null;
+    }
+
+    entry
+      .run()
+      .then(
+        (value) => {
+          if (this.detached.has(entry.key)) {
+            this.detachedResults.set(entry.key, { value, expiresAt: Date.now() + DETACHED_RESULT_TTL_MS });
+          }
+          entry.resolve(value);
+        },
+        (error) => entry.reject(error)
+      )
+      .finally(() => {
+        this.pending.delete(entry.key);
+        this.detached.delete(entry.key);
+      });
+  }
+
+  /**
+   * Estimate how long a request waits for its minute slot (0 once running)
+   */
+  private estimateWaitMs(key: string, now: number): number {
+    const position = this.queue.findIndex((entry) => entry.key === key);
+    if (position === -1) {
+      return 0;
+    }
+
+    const recent = this.sentTimes.filter((time) => now - time < MINUTE_MS);
+    const free = this.budget.perMinute - recent.length;
+    if (position < free || recent.length === 0) {
+      return 0;
+    }
+
+    // Slots free up a minute after each recent send, cycling every minute
+    const slot = position - free;
+    const slotTime = recent[slot % recent.length] + MINUTE_MS * (Math.floor(slot / this.budget.perMinute) + 1);
+    return Math.max(slotTime - now, 0);
+  }
+
+  private sortQueue(): void {
+    this.queue.sort(
+      (a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.sequence - b.sequence
+    );
+  }
+
+  /**
+   * Reset the daily count at UTC midnight
+   */
+  private rollOver(now: number): void {
+    if (now >= this.dayStart + DAY_MS) {
+      this.dayStart = startOfUtcDay(now);
+      this.usedToday = 0;
+    }
+  }
+
+  private exhaustedError(now: number): QuotaExceededError {
+    const resetAt = this.dayStart + DAY_MS;
+    return new QuotaExceededError(
+      this.provider,
+      Math.ceil((resetAt - now) / 1000),
+      new Date(resetAt).toISOString()
+    );
+  }
+}
+
+function startOfUtcDay(time: number): number {
+  return Math.floor(time / DAY_MS) * DAY_MS;
+}
+
+let alphaVantageQuota: QuotaManager | null = null;
+
+/**
+ * Get the quota manager shared by all Alpha Vantage requests
+ * Budgets default to the free tier; premium keys can raise them with
+ * ALPHA_VANTAGE_REQUESTS_PER_MINUTE and ALPHA_VANTAGE_REQUESTS_PER_DAY
+ */
+export function getAlphaVantageQuota(): QuotaManager {
+  if (!alphaVantageQuota) {
+    alphaVantageQuota = new QuotaManager('alphavantage', {
+      perMinute: parseInt(process.env.ALPHA_VANTAGE_REQUESTS_PER_MINUTE || '', 10) || DEFAULT_REQUESTS_PER_MINUTE,
+      perDay: parseInt(process.env.ALPHA_VANTAGE_REQUESTS_PER_DAY || '', 10) || DEFAULT_REQUESTS_PER_DAY,
+    });
+  }
+  return alphaVantageQuota;
+}
@@ -0,0 +1,418 @@
+import { OHLCVData, IntradayInterval } from '../../types/stock.js';
+import {
+  MarketDataProvider,
+  FetchBarsOptions,
+  CorporateAction,
+  SymbolMatch,
+  Fundamentals,
+  EarningsEvent,
+  AssetClass,
+} from '../../types/marketData.js';
+import { canonicalSymbol, parseSymbol, getAssetClass, roundPrice } from '../../utils/symbol.js';
+import { getAssetTradingDay, isTradingDay } from '../../utils/marketCalendar.js';
+
+const PROVIDER_NAME = 'synthetic';
+const COMPACT_SIZE = 100;
+
+// Daily history always starts here so past bars never change between runs
+const HISTORY_START = Date.UTC(2015, 0, 2);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Sessions in compact and full intraday responses (full matches a trailing month)
+const INTRADAY_DAYS = 5;
+const FULL_INTRADAY_DAYS = 21;
+
+const SPLIT_RATIOS = [2, 3, 4];
+// Ex-dividend months (0-based) for dividend payers: Feb, May, Aug, Nov
+const DIVIDEND_MONTHS = [1, 4, 7, 10];
+
+// Daily volatility by asset class
+const DAILY_VOLATILITY: Record<AssetClass, number> = {
+  equity: 0.018,
+  crypto: 0.04,
+  fx: 0.005,
+};
+
+const INTERVAL_MINUTES: Record<IntradayInterval, number> = {
+  '1min': 1,
+  '5min': 5,
+  '15min': 15,
+  '30min': 30,
+  '60min': 60,
+};
+
+/**
+ * Deterministic synthetic market data
+ *
+ * Every symbol is valid. Prices follow a seeded random walk so the same symbol
+ * always produces the same history, which makes the app usable offline and
+ * gives tests stable fixtures without network access. Some symbols get a
+ * stock split (raw prices before it are scaled up) and quarterly dividends.
+ * Currency pairs trade around the clock (fx on weekdays), have no volume when
+ * they are fx and no corporate actions, fundamentals or earnings.
+ */
+export class SyntheticProvider implements MarketDataProvider {
+  readonly name = PROVIDER_NAME;
+
+  async getDailyBars(symbol: string, options: FetchBarsOptions): Promise<OHLCVData[]> {
+    const bars = generateDailyBars(canonicalSymbol(symbol), Date.now());
+    return options.outputSize === 'compact' ? bars.slice(0, COMPACT_SIZE) : bars;
+  }
+
+  async getCorporateActions(symbol: string): Promise<CorporateAction[]> {
+    const normalizedSymbol = canonicalSymbol(symbol);
+    if (getAssetClass(normalizedSymbol) !== 'equity') {
+      return [];
+    }
+
+    const random = createRandom(`${normalizedSymbol}:actions`);
+    const actions: CorporateAction[] = [];
+
+    const split = getSplit(normalizedSymbol);
+    if (split) {
+      actions.push({ date: split.date, type: 'split', value: split.ratio });
+    }
+
+    // Roughly half the symbols pay a quarterly dividend of 0.25%-1% of the price
+    if (random() < 0.5) {
+      const quarterlyYield = 0.0025 + random() * 0.0075;
+      const bars = generateDailyBars(normalizedSymbol, Date.now());
+
+      // Ex-date is the first trading day on or after the 15th of each dividend month
+      const ascending = [...bars].reverse();
+      let paidPeriod = '';
+
+      for (let i = 1; i < ascending.length; i++) {
+        const date = new Date(ascending[i].timestamp);
+        const period = `${date.getUTCFullYear()}-${date.getUTCMonth()}`;
+
+        if (DIVIDEND_MONTHS.includes(date.getUTCMonth()) && date.getUTCDate() >= 15 && period !== paidPeriod) {
+          paidPeriod = period;
+          actions.push({
+            date: ascending[i].timestamp.split('T')[0],
+            type: 'dividend',
+            value: round(ascending[i - 1].close * quarterlyYield),
+          });
+        }
+      }
+    }
+
+    return actions.sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  async getFundamentals(symbol: string): Promise<Fundamentals> {
+    const normalizedSymbol = canonicalSymbol(symbol);
+    if (getAssetClass(normalizedSymbol) !== 'equity') {
+      return {
+        symbol: normalizedSymbol,
+        name: `${normalizedSymbol} (synthetic)`,
+        sector: null,
+        industry: null,
+        marketCap: null,
+        peRatio: null,
+        eps: null,
+        epsGrowth: null,
+        dividendYield: null,
+        beta: null,
+        profitMargin: null,
+      };
+    }
+
+    const random = createRandom(`${normalizedSymbol}:fundamentals`);
+    const now = Date.now();
+    const lastClose = generateDailyBars(normalizedSymbol, now)[0].close;
+
+    // Dividend yield agrees with the generated dividends over the last year
+    const yearAgo = new Date(now - 365 * DAY_MS).toISOString().split('T')[0];
+    const trailingDividends = (await this.getCorporateActions(normalizedSymbol))
+      .filter((action) => action.type === 'dividend' && action.date >= yearAgo)
+      .reduce((sum, action) => sum + action.value, 0);
+
+    // About one in ten companies is unprofitable and has no P/E
+    const profitable = random() >= 0.1;
+    const peRatio = profitable ? round(8 + random() * 52) : null;
+    const sharesOutstanding = 100_000_000 + Math.floor(random() * 4_900_000_000);
+
+    return {
+      symbol: normalizedSymbol,
+      name: `${normalizedSymbol} (synthetic)`,
+      sector: null,
+      industry: null,
+      marketCap: Math.round(lastClose * sharesOutstanding),
+      peRatio,
+      eps: peRatio ? round(lastClose / peRatio) : round(-random() * 5),
+      epsGrowth: round(-30 + random() * 80),
+      dividendYield: round((trailingDividends / lastClose) * 100),
+      beta: round(0.4 + random() * 1.6),
+      profitMargin: profitable ? round(2 + random() * 35) : round(-random() * 20),
+    };
+  }
+
+  async getEarnings(symbol: string): Promise<EarningsEvent[]> {
+    const normalizedSymbol = canonicalSymbol(symbol);
+    if (getAssetClass(normalizedSymbol) !== 'equity') {
+      return [];
+    }
+
+    const random = createRandom(`${normalizedSymbol}:earnings`);
+    const now = Date.now();
+    const events: EarningsEvent[] = [];
+
+    // Each company reports a fixed number of days (3-6 weeks) after quarter end
+    const reportLagDays = 21 + Math.floor(random() * 21);
+    let eps = 0.2 + random() * 3;
+    const quarterlyGrowth = -0.02 + random() * 0.06;
+
+    for (let year = new Date(HISTORY_START).getUTCFullYear(); ; year++) {
+      for (let quarter = 0; quarter < 4; quarter++) {
+        const quarterEnd = Date.UTC(year, quarter * 3 + 3, 0);
+        let reportDay = quarterEnd + reportLagDays * DAY_MS;
+        while (!isTradingDay(new Date(reportDay).toISOString().split('T')[0])) {
+          reportDay += DAY_MS;
+        }
+
+        eps *= 1 + quarterlyGrowth;
+        const estimate = round(eps * (0.95 + random() * 0.1));
+        const reported = reportDay <= now;
+
+        events.push({
+          date: new Date(reportDay).toISOString().split('T')[0],
+          fiscalDateEnding: new Date(quarterEnd).toISOString().split('T')[0],
+          epsEstimate: estimate,
+          epsActual: reported ? round(estimate * (1 + gaussian(random) * 0.06)) : null,
+        });
+
+        // Stop after the first report that hasn't happened yet
+        if (!reported) {
+          return events.reverse();
+        }
+      }
+    }
+  }
+
+  async searchSymbols(query: string): Promise<SymbolMatch[]> {
+    // Any ticker- or pair-shaped query is a valid synthetic symbol
+    const parsed = parseSymbol(query);
+    if (!parsed) {
+      return [];
+    }
+    return [
+      {
+        symbol: parsed.canonical,
+        name: `${parsed.canonical} (synthetic)`,
+        exchange: null,
+        type: SEARCH_TYPES[parsed.assetClass],
+        currency: parsed.quoteCurrency ?? 'USD',
+        assetClass: parsed.assetClass,
+      },
+    ];
+  }
+
+  async getIntradayBars(
+    symbol: string,
+    interval: IntradayInterval,
+    options: FetchBarsOptions
+  ): Promise<OHLCVData[]> {
+    const normalizedSymbol = canonicalSymbol(symbol);
+    const assetClass = getAssetClass(normalizedSymbol);
+    const now = Date.now();
+    const dailyBars = generateDailyBars(normalizedSymbol, now);
+    const volatility = DAILY_VOLATILITY[assetClass] / DAILY_VOLATILITY.equity;
+    const stepMinutes = INTERVAL_MINUTES[interval];
+    const bars: OHLCVData[] = [];
+
+    // dailyBars is most recent first; build the requested sessions oldest first
+    const sessions = (
+      options.month
+        ? dailyBars.filter((bar) => bar.timestamp.startsWith(options.month!))
+        : dailyBars.slice(0, options.outputSize === 'full' ? FULL_INTRADAY_DAYS : INTRADAY_DAYS)
+    ).reverse();
+
+    for (const session of sessions) {
+      // Daily bars only exist for trading days, so every session has a calendar entry
+      const { pre, regular, post } = getAssetTradingDay(assetClass, session.timestamp.split('T')[0])!;
+      const sessionStart = Date.parse(regular.start);
+      const sessionEnd = Date.parse(regular.end);
+      const sessionMinutes = (sessionEnd - sessionStart) / (60 * 1000);
+      const stepMs = stepMinutes * 60 * 1000;
+      const barVolume = session.volume / (sessionMinutes / stepMinutes);
+      const random = createRandom(`${normalizedSymbol}:${interval}:${session.timestamp}`);
+      let price = session.open;
+
+      // Extended-hours bars share the regular session's grid, from the first slot after 4:00
+      const firstBar = sessionStart - Math.floor((sessionStart - Date.parse(pre.start)) / stepMs) * stepMs;
+
+      for (let timestamp = firstBar; timestamp < Date.parse(post.end); timestamp += stepMs) {
+        if (timestamp > now) {
+          break;
+        }
+
+        let bar: OHLCVData;
+        if (timestamp < sessionStart || timestamp >= sessionEnd) {
+          // Thin extended-hours trading: small moves around the open/close, a few percent of the volume
+          bar = nextBar(normalizedSymbol, price, 0, 0.0005 * Math.sqrt(stepMinutes), random);
+          bar.volume = Math.round(barVolume * 0.05 * (0.5 + random()));
+        } else {
+          if (timestamp === sessionStart) {
+            price = session.open;
+          }
+          // Pull each bar towards the session close so intraday and daily data agree
+          const remaining = (sessionEnd - timestamp) / stepMs;
+          const drift = (session.close - price) / Math.max(remaining, 1);
+          bar = nextBar(normalizedSymbol, price, drift, 0.002 * volatility * Math.sqrt(stepMinutes), random);
+          bar.volume = Math.round(barVolume * (0.5 + random()));
+        }
+
+        bar.timestamp = new Date(timestamp).toISOString();
+        bars.push(bar);
+        price = bar.close;
+      }
+    }
+
+    bars.reverse();
+    return options.outputSize === 'compact' && !options.month ? bars.slice(0, COMPACT_SIZE) : bars;
+  }
+}
+
+const SEARCH_TYPES: Record<AssetClass, string> = {
+  equity: 'Equity',
+  crypto: 'Digital Currency',
+  fx: 'Physical Currency',
+};
+
+/**
+ * Generate bars for each trading day from HISTORY_START up to today
+ * Today's bar only appears once its session has opened (fx sessions open the evening before)
+ * @returns Bars sorted most recent first
+ */
+function generateDailyBars(symbol: string, now: number): OHLCVData[] {
+  const random = createRandom(symbol);
+  const parsed = parseSymbol(symbol);
+  const assetClass = parsed?.assetClass ?? 'equity';
+  const bars: OHLCVData[] = [];
+
+  // Starting price and volume are derived from the symbol so each one looks different
+  let price = 20 + random() * 480;
+  const baseVolume = 1_000_000 + Math.floor(random() * 50_000_000);
+  if (assetClass === 'crypto') {
+    // Anywhere from fractions of a cent to tens of thousands
+    price = 10 ** (-3 + ((price - 20) / 480) * 8);
+  } else if (assetClass === 'fx') {
+    price = (0.5 + ((price - 20) / 480) * 1.5) * (parsed?.quoteCurrency === 'JPY' ? 100 : 1);
+  }
+  const volatility = DAILY_VOLATILITY[assetClass];
+  const drift = assetClass === 'fx' ? 0 : 0.0003;
+
+  for (let day = HISTORY_START; day <= now + DAY_MS; day += DAY_MS) {
+    const date = new Date(day).toISOString().split('T')[0];
+    const tradingDay = getAssetTradingDay(assetClass, date);
+    if (!tradingDay || now < Date.parse(tradingDay.regular.start)) {
+      continue;
+    }
+
+    const bar = nextBar(symbol, price, price * drift, volatility, random);
+    bar.timestamp = new Date(day).toISOString();
+    bar.volume = assetClass === 'fx' ? 0 : Math.round(baseVolume * (0.5 + random()));
+    bars.push(bar);
+    price = bar.close;
+  }
+
+  // Raw prices before a split are higher by the split ratio, volume lower
+  const split = getSplit(symbol);
+  if (split) {
+    for (const bar of bars) {
+      if (bar.timestamp.split('T')[0] >= split.date) {
+        break;
+      }
+      bar.open = roundPrice(symbol, bar.open * split.ratio);
+      bar.high = roundPrice(symbol, bar.high * split.ratio);
+      bar.low = roundPrice(symbol, bar.low * split.ratio);
+      bar.close = roundPrice(symbol, bar.close * split.ratio);
+      bar.volume = Math.round(bar.volume / split.ratio);
+    }
+  }
+
+  bars.reverse();
+  return bars;
+}
+
+/**
+ * Deterministically decide whether a symbol had a split (about half do)
+ * Splits fall on a trading day between 2018 and 2023
+ */
+function getSplit(symbol: string): { date: string; ratio: number } | null {
+  if (getAssetClass(symbol) !== 'equity') {
+    return null;
+  }
+
+  const random = createRandom(`${symbol}:split`);
+  if (random() >= 0.5) {
+    return null;
+  }
+
+  const ratio = SPLIT_RATIOS[Math.floor(random() * SPLIT_RATIOS.length)];
+  let day = Date.UTC(2018, 0, 1) + Math.floor(random() * 6 * 365) * DAY_MS;
+  while (!isTradingDay(new Date(day).toISOString().split('T')[0])) {
+    day += DAY_MS;
+  }
+
+  return { date: new Date(day).toISOString().split('T')[0], ratio };
+}
+
+/**
+ * Produce one OHLC bar from the previous close using a random walk step
+ */
+function nextBar(
+  symbol: string,
+  previousClose: number,
+  drift: number,
+  volatility: number,
+  random: () => number
+): OHLCVData {
+  const open = previousClose * (1 + (random() - 0.5) * volatility * 0.5);
+  const close = Math.max(open * 0.5, open + drift + open * volatility * gaussian(random));
+  const high = Math.max(open, close) * (1 + random() * volatility * 0.5);
+  const low = Math.min(open, close) * (1 - random() * volatility * 0.5);
+
+  return {
+    timestamp: '',
+    open: roundPrice(symbol, open),
+    high: roundPrice(symbol, high),
+    low: roundPrice(symbol, low),
+    close: roundPrice(symbol, close),
+    volume: 0,
+  };
+}
+
+/**
+ * Standard normal sample (Box-Muller transform)
+ */
+function gaussian(random: () => number): number {
+  const u1 = Math.max(random(), Number.EPSILON);
+  const u2 = random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Seeded PRNG (mulberry32) keyed by a string (FNV-1a hash)
+ */
+function createRandom(seed: string): () => number {
+  let hash = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+
+  let state = hash >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
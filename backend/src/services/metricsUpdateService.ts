@@ -2,6 +2,7 @@ import { query } from '../utils/db.js';
 import { fetchHistoricalData } from './alphaVantageService.js';
 import { calculateAllMetrics } from './technicalMetricsService.js';
 import { StockMetadata } from '../types/stock.js';
+import { runWithPriority } from './marketData/index.js';
 
 /**
  * Interface for stock metrics to be inserted/updated
@@ -79,7 +80,8 @@ export async function updateMetricsForStock(stock: StockMetadata): Promise<{
     console.log(`Fetching historical data for ${stock.symbol}...`);
     
     // Fetch historical data (need at least 200 days for 200-day SMA)
-    const historicalData = await fetchHistoricalData(stock.symbol);
+    // Always split/dividend adjusted so corporate actions don't distort SMAs and RSI
+    const historicalData = await fetchHistoricalData(stock.symbol, { adjusted: true });
     
     if (historicalData.length < 200) {
       return {
@@ -162,7 +164,8 @@ export async function updateAllStockMetrics(
       const stock = stocks[i];
       console.log(`[${i + 1}/${total}] Processing ${stock.symbol}...`);
 
-      const result = await updateMetricsForStock(stock);
+      // Batch priority: chart requests from users go first in the provider queue
+      const result = await runWithPriority('batch', () => updateMetricsForStock(stock));
 
       if (result.success) {
         successful++;
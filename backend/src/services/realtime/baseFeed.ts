@@ -0,0 +1,152 @@
+import {
+  RealtimeFeed,
+  RealtimeFeedName,
+  FeedStatus,
+  FeedHealth,
+  Trade,
+  Quote,
+  TradeListener,
+  QuoteListener,
+} from '../../types/realtime.js';
+import { canonicalSymbol } from '../../utils/symbol.js';
+
+/**
+ * Subscription bookkeeping, listeners and health counters shared by feed adapters
+ * Adapters implement the connection and react to subscription changes.
+ */
+export abstract class BaseRealtimeFeed implements RealtimeFeed {
+  abstract readonly name: RealtimeFeedName;
+
+  protected readonly subscriptions = new Set<string>();
+  private readonly tradeListeners = new Set<TradeListener>();
+  private readonly quoteListeners = new Set<QuoteListener>();
+
+  private status: FeedStatus = 'disconnected';
+  private connectedSince: Date | null = null;
+  private lastMessageAt: Date | null = null;
+  private hasConnected = false;
+  private reconnects = 0;
+  private tradesReceived = 0;
+  private quotesReceived = 0;
+  private gapsDetected = 0;
+  private lastError: string | null = null;
+  protected reconnectAttempts = 0;
+
+  abstract connect(): Promise<void>;
+  abstract disconnect(): Promise<void>;
+
+  // Called with symbols newly added to / removed from the subscription set
+  protected abstract handleSubscribe(symbols: string[]): void;
+  protected abstract handleUnsubscribe(symbols: string[]): void;
+
+  subscribe(symbols: string[]): void {
+    const added = symbols.map(canonicalSymbol).filter((symbol) => !this.subscriptions.has(symbol));
+    if (added.length === 0) {
+      return;
+    }
+    added.forEach((symbol) => this.subscriptions.add(symbol));
+    this.handleSubscribe(added);
+  }
+
+  unsubscribe(symbols: string[]): void {
+    const removed = symbols.map(canonicalSymbol).filter((symbol) => this.subscriptions.has(symbol));
+    if (removed.length === 0) {
+      return;
+    }
+    removed.forEach((symbol) => this.subscriptions.delete(symbol));
+    this.handleUnsubscribe(removed);
+  }
+
+  onTrade(listener: TradeListener): () => void {
+    this.tradeListeners.add(listener);
+    return () => this.tradeListeners.delete(listener);
+  }
+
+  onQuote(listener: QuoteListener): () => void {
+    this.quoteListeners.add(listener);
+    return () => this.quoteListeners.delete(listener);
+  }
+
+  getHealth(): FeedHealth {
+    return {
+      feed: this.name,
+      status: this.status,
+      connectedSince: this.connectedSince?.toISOString() ?? null,
+      lastMessageAt: this.lastMessageAt?.toISOString() ?? null,
+      reconnectAttempts: this.reconnectAttempts,
+      reconnects: this.reconnects,
+      subscriptions: this.subscriptions.size,
+      tradesReceived: this.tradesReceived,
+      quotesReceived: this.quotesReceived,
+      gapsDetected: this.gapsDetected,
+      lastError: this.lastError,
+    };
+  }
+
+  protected getStatus(): FeedStatus {
+    return this.status;
+  }
+
+  protected setStatus(status: FeedStatus): void {
+    if (status === 'connected') {
+      if (this.hasConnected) {
+        this.reconnects++;
+      }
+      this.hasConnected = true;
+      this.connectedSince = new Date();
+      this.reconnectAttempts = 0;
+    } else if (status !== this.status) {
+      this.connectedSince = null;
+    }
+    this.status = status;
+  }
+
+  protected recordError(message: string): void {
+    this.lastError = message;
+  }
+
+  protected recordMessage(): void {
+    this.lastMessageAt = new Date();
+  }
+
+  protected recordGap(missed: number): void {
+    this.gapsDetected++;
+    console.warn(`${this.name} feed: sequence gap, ${missed} message(s) missed`);
+  }
+
+  protected emitTrade(trade: Trade): void {
+    this.tradesReceived++;
+    this.recordMessage();
+    this.tradeListeners.forEach((listener) => {
+      try {
+        listener(trade);
+      } catch (error) {
+        console.error(`${this.name} feed: trade listener failed:`, error);
+      }
+    });
+  }
+
+  protected emitQuote(quote: Quote): void {
+    this.quotesReceived++;
+    this.recordMessage();
+    this.quoteListeners.forEach((listener) => {
+      try {
+        listener(quote);
+      } catch (error) {
+        console.error(`${this.name} feed: quote listener failed:`, error);
+      }
+    });
+  }
+}
+
+/**
+ * Delay before a reconnect attempt: exponential backoff with jitter
+ * @param attempt - Failed attempts so far (0 for the first retry)
+ * @param baseMs - Delay of the first retry
+ * @param maxMs - Upper bound on the delay
+ */
+export function getBackoffDelay(attempt: number, baseMs: number, maxMs: number): number {
+  const delay = Math.min(maxMs, baseMs * 2 ** attempt);
+  // Jitter keeps many clients from reconnecting in lockstep after an outage
+  return Math.round(delay * (0.5 + Math.random() * 0.5));
+}
@@ -0,0 +1,41 @@
+import { RealtimeFeed, RealtimeFeedName } from '../../types/realtime.js';
+import { SimulatedFeed } from './simulatedFeed.js';
+import { WebSocketFeed } from './websocketFeed.js';
+
+export { getBackoffDelay } from './baseFeed.js';
+
+const FEED_NAMES: RealtimeFeedName[] = ['simulated', 'websocket'];
+const DEFAULT_FEED_URL = 'ws://localhost:5002';
+
+let activeFeed: RealtimeFeed | null = null;
+
+/**
+ * Create a real-time feed by name
+ * @param name - Feed name (simulated, websocket)
+ */
+export function createRealtimeFeed(name: string): RealtimeFeed {
+  switch (name) {
+    case 'simulated':
+      return new SimulatedFeed();
+    case 'websocket':
+      return new WebSocketFeed({
+        url: process.env.REALTIME_FEED_URL || DEFAULT_FEED_URL,
+        apiKey: process.env.REALTIME_FEED_API_KEY || undefined,
+      });
+    default:
+      throw new Error(`Unknown real-time feed "${name}". Expected one of: ${FEED_NAMES.join(', ')}`);
+  }
+}
+
+/**
+ * Get the configured real-time feed
+ * Selected by the REALTIME_FEED environment variable (default: simulated)
+ */
+export function getRealtimeFeed(): RealtimeFeed {
+  if (!activeFeed) {
+    const name = (process.env.REALTIME_FEED || 'simulated').trim().toLowerCase();
+    activeFeed = createRealtimeFeed(name);
+    console.log(`📡 Real-time feed: ${activeFeed.name}`);
+  }
+  return activeFeed;
+}
@@ -0,0 +1,264 @@
+import WebSocket, { WebSocketServer } from 'ws';
+import { canonicalSymbol, getAssetClass, roundPrice } from '../../utils/symbol.js';
+
+/**
+ * Local mock upstream exchange for the generic WebSocket feed protocol
+ * (see websocketFeed.ts), for exercising the adapter without network access.
+ *
+ * Besides steady trades, quotes and heartbeats it can misbehave on purpose:
+ * - dropEveryMs: close every connection periodically (reconnection and resubscribe)
+ * - gapRate: skip sequence numbers as if messages were lost (gap detection)
+ * - burstEveryMs / burstSize: send a batch of trades in one frame (burst handling)
+ * - stallEveryMs / stallMs: go silent, heartbeats included (stale connection detection)
+ */
+
+export interface MockExchangeOptions {
+  port: number;
+  // Trade + quote cadence per subscribed symbol
+  tickIntervalMs?: number;
+  heartbeatIntervalMs?: number;
+  dropEveryMs?: number | null;
+  gapRate?: number;
+  burstEveryMs?: number | null;
+  burstSize?: number;
+  stallEveryMs?: number | null;
+  stallMs?: number;
+  // When set, clients must authenticate before subscribing
+  apiKey?: string;
+}
+
+interface MockClient {
+  subscriptions: Set<string>;
+  authenticated: boolean;
+  seq: number;
+}
+
+export class MockExchangeServer {
+  private wss: WebSocketServer | null = null;
+  private clients = new Map<WebSocket, MockClient>();
+  private prices = new Map<string, number>();
+  private timers: NodeJS.Timeout[] = [];
+  private stalledUntil = 0;
+  private readonly options: Required<Omit<MockExchangeOptions, 'apiKey'>> & { apiKey?: string };
+
+  constructor(options: MockExchangeOptions) {
+    this.options = {
+      port: options.port,
+      tickIntervalMs: options.tickIntervalMs ?? 1000,
+      heartbeatIntervalMs: options.heartbeatIntervalMs ?? 5000,
+      dropEveryMs: options.dropEveryMs ?? null,
+      gapRate: options.gapRate ?? 0,
+      burstEveryMs: options.burstEveryMs ?? null,
+      burstSize: options.burstSize ?? 50,
+      stallEveryMs: options.stallEveryMs ?? null,
+      stallMs: options.stallMs ?? 30000,
+      apiKey: options.apiKey,
+    };
+  }
+
+  async start(): Promise<void> {
+    if (this.wss) {
+      return;
+    }
+
+    const wss = new WebSocketServer({ port: this.options.port });
+    await new Promise<void>((resolve, reject) => {
+      wss.once('listening', resolve);
+      wss.once('error', reject);
+    });
+    this.wss = wss;
+
+    wss.on('connection', (ws: WebSocket) => {
+      this.clients.set(ws, { subscriptions: new Set(), authenticated: !this.options.apiKey, seq: 1 });
+      ws.on('message', (data: WebSocket.RawData) => this.handleMessage(ws, data.toString()));
+      ws.on('close', () => this.clients.delete(ws));
+      ws.on('error', () => this.clients.delete(ws));
+    });
+
+    const { tickIntervalMs, heartbeatIntervalMs, dropEveryMs, burstEveryMs, stallEveryMs } = this.options;
+    this.timers.push(setInterval(() => this.tick(), tickIntervalMs));
+    this.timers.push(setInterval(() => this.heartbeat(), heartbeatIntervalMs));
+    if (dropEveryMs) {
+      this.timers.push(setInterval(() => this.dropConnections(), dropEveryMs));
+    }
+    if (burstEveryMs) {
+      this.timers.push(setInterval(() => this.burst(), burstEveryMs));
+    }
+    if (stallEveryMs) {
+      this.timers.push(
+        setInterval(() => {
+          this.stalledUntil = Date.now() + this.options.stallMs;
+          console.log(`Mock exchange: stalling for ${this.options.stallMs}ms`);
+        }, stallEveryMs)
+      );
+    }
+
+    console.log(`Mock exchange listening on ws://localhost:${this.options.port}`);
+  }
+
+  async stop(): Promise<void> {
+    this.timers.forEach((timer) => clearInterval(timer));
+    this.timers = [];
+
+    if (!this.wss) {
+      return;
+    }
+    this.clients.forEach((_client, ws) => ws.terminate());
+    this.clients.clear();
+
+    const wss = this.wss;
+    this.wss = null;
+    await new Promise<void>((resolve) => wss.close(() => resolve()));
+  }
+
+  private handleMessage(ws: WebSocket, text: string): void {
+    const client = this.clients.get(ws);
+    if (!client) {
+      return;
+    }
+
+    let message: { action?: string; key?: string; symbols?: unknown };
+    try {
+      message = JSON.parse(text);
+    } catch {
+      this.send(ws, { type: 'error', message: 'Invalid JSON' });
+      return;
+    }
+
+    const symbols = Array.isArray(message.symbols)
+      ? message.symbols.filter((symbol): symbol is string => typeof symbol === 'string').map(canonicalSymbol)
+      : [];
+
+    switch (message.action) {
+      case 'auth':
+        client.authenticated = !this.options.apiKey || message.key === this.options.apiKey;
+        if (!client.authenticated) {
+          this.send(ws, { type: 'error', message: 'Invalid API key' });
+        }
+        return;
+      case 'subscribe':
+        if (!client.authenticated) {
+          this.send(ws, { type: 'error', message: 'Not authenticated' });
+          return;
+        }
+        symbols.forEach((symbol) => client.subscriptions.add(symbol));
+        return;
+      case 'unsubscribe':
+        symbols.forEach((symbol) => client.subscriptions.delete(symbol));
+        return;
+      default:
+        this.send(ws, { type: 'error', message: `Unknown action: ${message.action}` });
+    }
+  }
+
+  /**
+   * One trade and quote per subscribed symbol for every client
+   */
+  private tick(): void {
+    if (this.isStalled()) {
+      return;
+    }
+
+    this.clients.forEach((client, ws) => {
+      const messages = Array.from(client.subscriptions).flatMap((symbol) => {
+        const price = this.nextPrice(symbol);
+        return [this.trade(client, symbol, price), this.quote(client, symbol, price)];
+      });
+      messages.forEach((message) => this.send(ws, message));
+    });
+  }
+
+  /**
+   * A batch of trades for every subscribed symbol in a single frame
+   */
+  private burst(): void {
+    if (this.isStalled()) {
+      return;
+    }
+
+    this.clients.forEach((client, ws) => {
+      const batch: Record<string, unknown>[] = [];
+      for (let i = 0; i < this.options.burstSize; i++) {
+        client.subscriptions.forEach((symbol) => batch.push(this.trade(client, symbol, this.nextPrice(symbol))));
+      }
+      if (batch.length > 0) {
+        console.log(`Mock exchange: burst of ${batch.length} trades`);
+        this.send(ws, batch);
+      }
+    });
+  }
+
+  private heartbeat(): void {
+    if (this.isStalled()) {
+      return;
+    }
+    this.clients.forEach((_client, ws) => this.send(ws, { type: 'heartbeat', timestamp: Date.now() }));
+  }
+
+  private dropConnections(): void {
+    if (this.clients.size > 0) {
+      console.log(`Mock exchange: dropping ${this.clients.size} connection(s)`);
+    }
+    this.clients.forEach((_client, ws) => ws.terminate());
+  }
+
+  private trade(client: MockClient, symbol: string, price: number): Record<string, unknown> {
+    return {
+      type: 'trade',
+      symbol,
+      price,
+      size: getAssetClass(symbol) === 'fx' ? 0 : 1 + Math.floor(Math.random() * 500),
+      timestamp: Date.now(),
+      seq: this.nextSeq(client),
+    };
+  }
+
+  private quote(client: MockClient, symbol: string, price: number): Record<string, unknown> {
+    const halfSpread = price * 0.0001;
+    return {
+      type: 'quote',
+      symbol,
+      bid: roundPrice(symbol, price - halfSpread),
+      ask: roundPrice(symbol, price + halfSpread),
+      bidSize: 100 + Math.floor(Math.random() * 900),
+      askSize: 100 + Math.floor(Math.random() * 900),
+      timestamp: Date.now(),
+      seq: this.nextSeq(client),
+    };
+  }
+
+  /**
+   * Next sequence number, sometimes skipping ahead to simulate lost messages
+   */
+  private nextSeq(client: MockClient): number {
+    if (this.options.gapRate > 0 && Math.random() < this.options.gapRate) {
+      client.seq += 1 + Math.floor(Math.random() * 3);
+    }
+    return client.seq++;
+  }
+
+  /**
+   * Random walk per symbol, starting from a price derived from the symbol
+   */
+  private nextPrice(symbol: string): number {
+    let price = this.prices.get(symbol);
+    if (price === undefined) {
+      const seed = Array.from(symbol).reduce((sum, char) => sum * 31 + char.charCodeAt(0), 7) % 1000;
+      const assetClass = getAssetClass(symbol);
+      price = assetClass === 'fx' ? 0.5 + seed / 1000 : assetClass === 'crypto' ? 1 + seed * 50 : 20 + seed / 2;
+    }
+    price *= 1 + (Math.random() - 0.5) * 0.002;
+    this.prices.set(symbol, price);
+    return roundPrice(symbol, price);
+  }
+
+  private isStalled(): boolean {
+    return Date.now() < this.stalledUntil;
+  }
+
+  private send(ws: WebSocket, message: unknown): void {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  }
+}
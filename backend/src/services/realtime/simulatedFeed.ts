@@ -0,0 +1,204 @@
+import { fetchDailyData } from '../alphaVantageService.js';
+import { runWithPriority } from '../marketData/index.js';
+import { AssetClass } from '../../types/marketData.js';
+import { RealtimeFeedName } from '../../types/realtime.js';
+import { getAssetMarketSession, MarketSession } from '../../utils/marketCalendar.js';
+import { getAssetClass, getPricePrecision, roundPrice } from '../../utils/symbol.js';
+import { BaseRealtimeFeed } from './baseFeed.js';
+
+interface SimulatedSymbol {
+  assetClass: AssetClass;
+  price: number;
+  volatility: number; // Daily volatility (0.01 = 1%)
+  timer: NodeJS.Timeout | null;
+  // Pending cleanup once nobody is subscribed
+  expiry: NodeJS.Timeout | null;
+}
+
+const UPDATE_INTERVAL_MS = 4000;
+const MAX_PRICE_CHANGE_PERCENT = 0.02;
+const DEFAULT_VOLATILITY = 0.015;
+const MIN_VOLATILITY = 0.005;
+// Pre/post-market volatility and volume vs regular
+const EXTENDED_HOURS_ACTIVITY = 0.3;
+// Keep a symbol's walk for re-subscription, so its price doesn't jump back
+const IDLE_STATE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Simulated real-time feed (development and offline use)
+ *
+ * Each subscribed symbol starts at its latest daily close and follows a
+ * geometric Brownian motion random walk, dS = σ * S * dW, with σ estimated
+ * from the last 20 daily returns. A trade and a quote are emitted every few
+ * seconds while the symbol's market is open (always for crypto).
+ */
+export class SimulatedFeed extends BaseRealtimeFeed {
+  readonly name: RealtimeFeedName = 'simulated';
+
+  private symbols = new Map<string, SimulatedSymbol>();
+
+  async connect(): Promise<void> {
+    this.setStatus('connected');
+  }
+
+  async disconnect(): Promise<void> {
+    this.symbols.forEach((state) => {
+      if (state.timer) clearInterval(state.timer);
+      if (state.expiry) clearTimeout(state.expiry);
+    });
+    this.symbols.clear();
+    this.setStatus('disconnected');
+  }
+
+  protected handleSubscribe(symbols: string[]): void {
+    for (const symbol of symbols) {
+      this.start(symbol).catch((error) => {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`Simulated feed: failed to start ${symbol}:`, errorMessage);
+        this.recordError(`${symbol}: ${errorMessage}`);
+      });
+    }
+  }
+
+  protected handleUnsubscribe(symbols: string[]): void {
+    for (const symbol of symbols) {
+      const state = this.symbols.get(symbol);
+      if (!state) {
+        continue;
+      }
+
+      if (state.timer) {
+        clearInterval(state.timer);
+        state.timer = null;
+      }
+      state.expiry = setTimeout(() => {
+        if (!this.subscriptions.has(symbol)) {
+          this.symbols.delete(symbol);
+        }
+      }, IDLE_STATE_TTL_MS);
+    }
+  }
+
+  /**
+   * Start ticking a symbol, seeding its walk from market data the first time
+   */
+  private async start(symbol: string): Promise<void> {
+    let state = this.symbols.get(symbol);
+    if (!state) {
+      state = await this.initialize(symbol);
+      this.symbols.set(symbol, state);
+    }
+
+    // Unsubscribed (or already ticking) while the seed data was loading
+    if (!this.subscriptions.has(symbol) || state.timer) {
+      return;
+    }
+
+    if (state.expiry) {
+      clearTimeout(state.expiry);
+      state.expiry = null;
+    }
+    state.timer = setInterval(() => this.tick(symbol), UPDATE_INTERVAL_MS);
+
+    // First print immediately so new subscribers see a price
+    this.tick(symbol);
+  }
+
+  /**
+   * Seed a symbol's walk from its latest daily bars
+   */
+  private async initialize(symbol: string): Promise<SimulatedSymbol> {
+    // Queued behind interactive chart requests
+    const dailyData = await runWithPriority('background', () => fetchDailyData(symbol));
+    if (!dailyData || dailyData.length === 0) {
+      throw new Error(`No data available for ${symbol}`);
+    }
+
+    // Standard deviation of recent daily returns
+    let volatility = DEFAULT_VOLATILITY;
+    if (dailyData.length >= 20) {
+      const returns: number[] = [];
+      for (let i = 0; i < Math.min(20, dailyData.length - 1); i++) {
+        returns.push((dailyData[i].close - dailyData[i + 1].close) / dailyData[i + 1].close);
+      }
+      const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+      const variance = returns.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / returns.length;
+      volatility = Math.sqrt(variance);
+    }
+
+    const price = dailyData[0].close;
+    console.log(
+      `Simulated feed: ${symbol} starts at ${price.toFixed(getPricePrecision(symbol, price))} ` +
+        `(volatility: ${(volatility * 100).toFixed(2)}%)`
+    );
+
+    return {
+      assetClass: getAssetClass(symbol),
+      price,
+      volatility: Math.max(volatility, MIN_VOLATILITY),
+      timer: null,
+      expiry: null,
+    };
+  }
+
+  /**
+   * Emit one trade and quote for a symbol
+   */
+  private tick(symbol: string): void {
+    const state = this.symbols.get(symbol);
+    if (!state) {
+      return;
+    }
+
+    // No trades outside the pre, regular and post sessions (crypto never closes)
+    const session = getAssetMarketSession(state.assetClass);
+    if (session === 'closed') {
+      return;
+    }
+
+    state.price = this.nextPrice(state, session);
+    const price = roundPrice(symbol, state.price);
+    const timestamp = new Date().toISOString();
+    const activity = session === 'regular' ? 1 : EXTENDED_HOURS_ACTIVITY;
+
+    this.emitTrade({
+      symbol,
+      price,
+      // fx has no consolidated volume
+      size: state.assetClass === 'fx' ? 0 : Math.floor((Math.random() * 9000 + 1000) * activity),
+      timestamp,
+    });
+
+    // Spread of a few ticks, wider outside regular hours
+    const tick = 10 ** -getPricePrecision(symbol, price);
+    const halfSpread = Math.max(tick, price * 0.0001) / activity;
+    this.emitQuote({
+      symbol,
+      bid: roundPrice(symbol, price - halfSpread),
+      ask: roundPrice(symbol, price + halfSpread),
+      bidSize: Math.floor(Math.random() * 900 + 100),
+      askSize: Math.floor(Math.random() * 900 + 100),
+      timestamp,
+    });
+  }
+
+  /**
+   * One random walk step, bounded to MAX_PRICE_CHANGE_PERCENT
+   */
+  private nextPrice(state: SimulatedSymbol, session: MarketSession): number {
+    const volatility = session === 'regular' ? state.volatility : state.volatility * EXTENDED_HOURS_ACTIVITY;
+
+    // Time step as a fraction of a trading day (6.5 hours, 24 hours for currency pairs)
+    const tradingDayMinutes = state.assetClass === 'equity' ? 390 : 24 * 60;
+    const dt = UPDATE_INTERVAL_MS / 1000 / (tradingDayMinutes * 60);
+
+    // Normal shock (Box-Muller transform)
+    const u1 = Math.max(Math.random(), Number.EPSILON);
+    const u2 = Math.random();
+    const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+
+    const maxChange = state.price * MAX_PRICE_CHANGE_PERCENT;
+    const change = Math.max(-maxChange, Math.min(maxChange, state.price * volatility * z * Math.sqrt(dt)));
+    return state.price + change;
+  }
+}
@@ -0,0 +1,299 @@
+import WebSocket from 'ws';
+import { RealtimeFeedName } from '../../types/realtime.js';
+import { canonicalSymbol } from '../../utils/symbol.js';
+import { BaseRealtimeFeed, getBackoffDelay } from './baseFeed.js';
+
+/**
+ * Adapter for an upstream exchange feed speaking a generic WebSocket protocol
+ *
+ * Protocol (JSON text frames):
+ *   client -> upstream
+ *     { "action": "auth", "key": "..." }             first, when an API key is configured
+ *     { "action": "subscribe", "symbols": ["AAPL", "BTC-USD"] }
+ *     { "action": "unsubscribe", "symbols": ["AAPL"] }
+ *   upstream -> client (a frame holds one message or an array of them)
+ *     { "type": "trade", "symbol", "price", "size", "timestamp", "seq" }
+ *     { "type": "quote", "symbol", "bid", "ask", "bidSize", "askSize", "timestamp", "seq" }
+ *     { "type": "heartbeat", "timestamp" }
+ *     { "type": "error", "message" }
+ *
+ * timestamp is epoch milliseconds or an ISO string. seq counts trades and
+ * quotes per connection, so a jump means messages were dropped upstream.
+ *
+ * Dropped connections are retried with exponential backoff, and a connection
+ * that goes quiet (no data or heartbeat) is treated as dead and replaced.
+ */
+
+export interface WebSocketFeedOptions {
+  url: string;
+  apiKey?: string;
+  // First reconnect delay and its upper bound
+  reconnectBaseMs?: number;
+  reconnectMaxMs?: number;
+  // Silence after which the connection is considered dead
+  staleTimeoutMs?: number;
+}
+
+type UpstreamMessage =
+  | { type: 'trade'; symbol: string; price: number; size?: number; timestamp?: number | string; seq?: number }
+  | {
+      type: 'quote';
+      symbol: string;
+      bid: number;
+      ask: number;
+      bidSize?: number;
+      askSize?: number;
+      timestamp?: number | string;
+      seq?: number;
+    }
+  | { type: 'heartbeat'; timestamp?: number | string }
+  | { type: 'error'; message?: string };
+
+const DEFAULT_RECONNECT_BASE_MS = 1000;
+const DEFAULT_RECONNECT_MAX_MS = 30000;
+const DEFAULT_STALE_TIMEOUT_MS = 20000;
+const CONNECT_TIMEOUT_MS = 10000;
+
+export class WebSocketFeed extends BaseRealtimeFeed {
+  readonly name: RealtimeFeedName = 'websocket';
+
+  private ws: WebSocket | null = null;
+  private running = false;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private staleTimer: NodeJS.Timeout | null = null;
+  private lastReceivedAt = 0;
+  // Next seq expected on the current connection (null until the first one)
+  private expectedSeq: number | null = null;
+  private readonly options: Required<Omit<WebSocketFeedOptions, 'apiKey'>> & { apiKey?: string };
+
+  constructor(options: WebSocketFeedOptions) {
+    super();
+    this.options = {
+      reconnectBaseMs: DEFAULT_RECONNECT_BASE_MS,
+      reconnectMaxMs: DEFAULT_RECONNECT_MAX_MS,
+      staleTimeoutMs: DEFAULT_STALE_TIMEOUT_MS,
+      ...options,
+    };
+  }
+
+  /**
+   * Open the upstream connection
+   * Resolves after the first attempt either way; failures keep retrying in the background
+   */
+  async connect(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.startStaleCheck();
+    await new Promise<void>((resolve) => this.open(resolve));
+  }
+
+  async disconnect(): Promise<void> {
+    this.running = false;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.staleTimer) {
+      clearInterval(this.staleTimer);
+      this.staleTimer = null;
+    }
+    if (this.ws) {
+      this.ws.removeAllListeners();
+      this.ws.on('error', () => undefined);
+      this.ws.close(1000, 'Feed disconnected');
+      this.ws = null;
+    }
+    this.setStatus('disconnected');
+  }
+
+  protected handleSubscribe(symbols: string[]): void {
+    this.send({ action: 'subscribe', symbols });
+  }
+
+  protected handleUnsubscribe(symbols: string[]): void {
+    this.send({ action: 'unsubscribe', symbols });
+  }
+
+  /**
+   * Start one connection attempt
+   * @param settled - Called once the attempt has opened or failed
+   */
+  private open(settled?: () => void): void {
+    this.setStatus(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+
+    const ws = new WebSocket(this.options.url, { handshakeTimeout: CONNECT_TIMEOUT_MS });
+    this.ws = ws;
+    let opened = false;
+
+    ws.on('open', () => {
+      opened = true;
+      this.lastReceivedAt = Date.now();
+      this.expectedSeq = null;
+      this.setStatus('connected');
+      console.log(`Realtime feed connected to ${this.options.url}`);
+
+      if (this.options.apiKey) {
+        this.send({ action: 'auth', key: this.options.apiKey });
+      }
+      // Subscriptions made while disconnected, or lost with the previous connection
+      if (this.subscriptions.size > 0) {
+        this.send({ action: 'subscribe', symbols: Array.from(this.subscriptions) });
+      }
+      settled?.();
+    });
+
+    ws.on('message', (data: WebSocket.RawData) => this.handleFrame(data.toString()));
+
+    ws.on('error', (error: Error) => {
+      this.recordError(error.message);
+      console.warn(`Realtime feed error: ${error.message}`);
+    });
+
+    ws.on('close', (code: number) => {
+      if (this.ws !== ws) {
+        return;
+      }
+      this.ws = null;
+      if (!opened) {
+        settled?.();
+      }
+      if (!this.running) {
+        return;
+      }
+      console.warn(`Realtime feed connection closed (code ${code})`);
+      this.scheduleReconnect();
+    });
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer || !this.running) {
+      return;
+    }
+
+    const delay = getBackoffDelay(this.reconnectAttempts, this.options.reconnectBaseMs, this.options.reconnectMaxMs);
+    this.reconnectAttempts++;
+    this.setStatus('reconnecting');
+    console.log(`Realtime feed reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.running) {
+        this.open();
+      }
+    }, delay);
+  }
+
+  /**
+   * Replace a connection that has gone quiet (half-open sockets never emit close)
+   */
+  private startStaleCheck(): void {
+    this.staleTimer = setInterval(() => {
+      if (this.ws?.readyState !== WebSocket.OPEN) {
+        return;
+      }
+      if (Date.now() - this.lastReceivedAt > this.options.staleTimeoutMs) {
+        this.recordError(`No data for ${this.options.staleTimeoutMs}ms`);
+        console.warn('Realtime feed is stale, reconnecting');
+        this.ws.terminate();
+      }
+    }, Math.min(this.options.staleTimeoutMs, 5000));
+  }
+
+  private handleFrame(text: string): void {
+    this.lastReceivedAt = Date.now();
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(text);
+    } catch {
+      this.recordError('Invalid JSON from upstream');
+      return;
+    }
+
+    // Bursts arrive batched in one frame
+    const messages = (Array.isArray(payload) ? payload : [payload]) as UpstreamMessage[];
+    for (const message of messages) {
+      this.handleMessage(message);
+    }
+  }
+
+  private handleMessage(message: UpstreamMessage): void {
+    switch (message?.type) {
+      case 'trade': {
+        this.checkSequence(message.seq);
+        const symbol = canonicalSymbol(message.symbol);
+        if (!this.subscriptions.has(symbol) || !Number.isFinite(message.price)) {
+          return;
+        }
+        this.emitTrade({
+          symbol,
+          price: message.price,
+          size: message.size ?? 0,
+          timestamp: toIsoTimestamp(message.timestamp),
+        });
+        return;
+      }
+      case 'quote': {
+        this.checkSequence(message.seq);
+        const symbol = canonicalSymbol(message.symbol);
+        if (!this.subscriptions.has(symbol) || !Number.isFinite(message.bid) || !Number.isFinite(message.ask)) {
+          return;
+        }
+        this.emitQuote({
+          symbol,
+          bid: message.bid,
+          ask: message.ask,
+          bidSize: message.bidSize ?? 0,
+          askSize: message.askSize ?? 0,
+          timestamp: toIsoTimestamp(message.timestamp),
+        });
+        return;
+      }
+      case 'heartbeat':
+        this.recordMessage();
+        return;
+      case 'error':
+        this.recordError(message.message ?? 'Upstream error');
+        console.warn(`Realtime feed upstream error: ${message.message ?? 'unknown'}`);
+        return;
+      default:
+        // Unknown message types are ignored so upstream additions don't break the adapter
+        return;
+    }
+  }
+
+  /**
+   * Track the per-connection sequence number and count gaps
+   */
+  private checkSequence(seq: number | undefined): void {
+    if (typeof seq !== 'number') {
+      return;
+    }
+    if (this.expectedSeq !== null && seq > this.expectedSeq) {
+      this.recordGap(seq - this.expectedSeq);
+    }
+    if (this.expectedSeq === null || seq >= this.expectedSeq) {
+      this.expectedSeq = seq + 1;
+    }
+  }
+
+  private send(message: Record<string, unknown>): void {
+    if (this.ws?.readyState !== WebSocket.OPEN) {
+      // Sent on (re)connect instead
+      return;
+    }
+    try {
+      this.ws.send(JSON.stringify(message));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.recordError(errorMessage);
+    }
+  }
+}
+
+function toIsoTimestamp(value: number | string | undefined): string {
+  const date = value === undefined ? new Date() : new Date(value);
+  return isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+}
@@ -1,45 +1,83 @@
-import { websocketService, PriceUpdateData } from './websocketService.js';
-import { fetchDailyData } from './alphaVantageService.js';
+import { websocketService } from './websocketService.js';
+import { liveBarService, LiveBarUpdate } from './liveBarService.js';
+import { clusterService, ClusterSymbolUpdate } from './clusterService.js';
+import { getRealtimeFeed } from './realtime/index.js';
+import { getSessionDate, getAssetMarketSession } from '../utils/marketCalendar.js';
+import { AssetClass } from '../types/marketData.js';
+import { Trade } from '../types/realtime.js';
+import { PriceUpdateData, LiveBar, LiveBarInterval } from '../types/wsProtocol.js';
+import { getAssetClass, getPricePrecision, canonicalSymbol } from '../utils/symbol.js';
 
 /**
  * Real-time Price Service
- * 
- * DEVELOPMENT MODE: Uses simulated price updates based on latest stock data
- * 
- * PRODUCTION UPGRADE PATH:
- * - Option 1: Integrate with Polygon.io WebSocket API (https://polygon.io/)
- * - Option 2: Integrate with Finnhub WebSocket API (https://finnhub.io/)
- * - Option 3: Integrate with IEX Cloud WebSocket API (https://iexcloud.io/)
- * - Option 4: Use Alpha Vantage WebSocket (requires paid subscription)
- * 
- * For production, replace the simulatePrice* methods with actual WebSocket
- * connections to real-time data providers.
+ *
+ * Consumes trades from the configured real-time feed (REALTIME_FEED, see
+ * services/realtime), keeps per-symbol daily stats and broadcasts price
+ * updates to subscribed WebSocket clients, along with the live bars built from
+ * the same trades (see liveBarService). The feed follows the symbols clients
+ * are subscribed to, plus those other services watch (e.g. price alerts).
+ *
+ * With several nodes (see clusterService) each watched symbol has one feed
+ * owner: the owner consumes it and publishes its updates through Redis, and
+ * the other nodes deliver those to their own clients.
  */
 
 /**
- * Symbol state for price simulation
+ * Daily stats for a symbol, built from the trades received
  */
 interface SymbolState {
   symbol: string;
-  basePrice: number;
+  assetClass: AssetClass;
   currentPrice: number;
   open: number;
   high: number;
   low: number;
   volume: number;
   lastUpdate: Date;
-  volatility: number; // Daily volatility (0.01 = 1%)
+}
+
+/**
+ * Receives the price updates of the symbols this node takes from the feed
+ */
+export type PriceUpdateListener = (symbol: string, update: PriceUpdateData) => void;
+
+/**
+ * Symbols to follow regardless of WebSocket subscriptions
+ */
+export type WatchedSymbolsProvider = () => string[];
+
+/**
+ * Latest update of a symbol owned by another node
+ */
+interface RemoteState {
+  price: PriceUpdateData;
+  bars: Map<LiveBarInterval, LiveBar>;
 }
 
 class RealtimePriceService {
   private symbolStates: Map<string, SymbolState> = new Map();
-  private updateIntervals: Map<string, NodeJS.Timeout> = new Map();
+  // Symbols with a broadcast waiting for the throttle window
+  private pendingBroadcasts: Map<string, NodeJS.Timeout> = new Map();
+  // Symbols this node takes from the feed (those it owns)
+  private feedSymbols: Set<string> = new Set();
+  private remoteStates: Map<string, RemoteState> = new Map();
+  private isSyncing = false;
+  private priceListeners: Set<PriceUpdateListener> = new Set();
+  private symbolsProviders: Set<WatchedSymbolsProvider> = new Set();
+  private monitorInterval: NodeJS.Timeout | null = null;
+  private barCloseInterval: NodeJS.Timeout | null = null;
+  private removeTradeListener: (() => void) | null = null;
   private isRunning = false;
+  // Trading date of the last daily stats reset, per asset class
+  private lastResetDates: Map<AssetClass, string | null> = new Map();
 
   // Configuration
-  private readonly UPDATE_INTERVAL_MS = 4000; // 4 seconds
-  private readonly MAX_PRICE_CHANGE_PERCENT = 0.02; // 2%
-  private readonly DEFAULT_VOLATILITY = 0.015; // 1.5% default daily volatility
+  private readonly MONITOR_INTERVAL_MS = 5000;
+  // How often bars that ended without a next trade are closed
+  private readonly BAR_CLOSE_CHECK_MS = 1000;
+  // At most one update per symbol per window, so upstream bursts don't flood clients
+  private readonly BROADCAST_THROTTLE_MS = 250;
+  private readonly ASSET_CLASSES: AssetClass[] = ['equity', 'crypto', 'fx'];
 
   /**
    * Start the real-time price service
@@ -51,8 +89,32 @@ class RealtimePriceService {
     }
 
     this.isRunning = true;
-    console.log('✅ Real-time price service started (SIMULATION MODE)');
-    console.log(`Update interval: ${this.UPDATE_INTERVAL_MS}ms`);
+
+    // Starting mid-session keeps today's stats; the next regular open resets them
+    for (const assetClass of this.ASSET_CLASSES) {
+      const session = getAssetMarketSession(assetClass);
+      this.lastResetDates.set(
+        assetClass,
+        session === 'regular' || session === 'post' ? getSessionDate(assetClass) : null
+      );
+    }
+
+    const feed = getRealtimeFeed();
+    this.removeTradeListener = feed.onTrade((trade) => this.handleTrade(trade));
+    await feed.connect();
+
+    clusterService.start((update) => this.handleClusterUpdate(update));
+
+    // Newly subscribed clients get the latest price right away, from whichever node owns the symbol
+    websocketService.setSnapshotProvider(
+      (symbol) => this.getSnapshot(symbol) ?? this.remoteStates.get(symbol)?.price ?? null
+    );
+    websocketService.setBarSnapshotProvider(
+      (symbol, interval) =>
+        liveBarService.getBar(symbol, interval) ?? this.remoteStates.get(symbol)?.bars.get(interval) ?? null
+    );
+
+    console.log(`✅ Real-time price service started (${feed.name} feed)`);
 
     // Start monitoring subscribed symbols
     this.startMonitoring();
@@ -61,249 +123,321 @@ class RealtimePriceService {
   /**
    * Stop the real-time price service
    */
-  stop(): void {
+  async stop(): Promise<void> {
     if (!this.isRunning) {
       return;
     }
 
     console.log('Stopping real-time price service...');
-    
-    // Clear all update intervals
-    this.updateIntervals.forEach((interval) => {
-      clearInterval(interval);
-    });
-    
-    this.updateIntervals.clear();
+
+    if (this.monitorInterval) {
+      clearInterval(this.monitorInterval);
+      this.monitorInterval = null;
+    }
+    if (this.barCloseInterval) {
+      clearInterval(this.barCloseInterval);
+      this.barCloseInterval = null;
+    }
+    this.pendingBroadcasts.forEach((timer) => clearTimeout(timer));
+    this.pendingBroadcasts.clear();
+
+    this.removeTradeListener?.();
+    this.removeTradeListener = null;
+    await getRealtimeFeed().disconnect();
+
+    // Hands the symbols over to the other nodes
+    await clusterService.stop();
+
+    this.feedSymbols.clear();
+    this.remoteStates.clear();
     this.symbolStates.clear();
+    liveBarService.clear();
     this.isRunning = false;
 
     console.log('✅ Real-time price service stopped');
   }
 
   /**
-   * Monitor subscribed symbols and start/stop price updates accordingly
+   * Listen to price updates as they are broadcast
+   * Only updates of symbols this node owns are seen, so with several nodes each
+   * update reaches the listeners of exactly one of them.
+   * @returns Function that removes the listener
+   */
+  onPriceUpdate(listener: PriceUpdateListener): () => void {
+    this.priceListeners.add(listener);
+    return () => this.priceListeners.delete(listener);
+  }
+
+  /**
+   * Follow more symbols than clients subscribe to (read on every sync)
+   * @returns Function that removes the provider
+   */
+  addWatchedSymbolsProvider(provider: WatchedSymbolsProvider): () => void {
+    this.symbolsProviders.add(provider);
+    return () => this.symbolsProviders.delete(provider);
+  }
+
+  /**
+   * Keep the feed subscribed to the watched symbols this node owns, and close
+   * its live bars on time
    */
   private startMonitoring(): void {
-    // Check every 5 seconds for new subscriptions
-    setInterval(() => {
-      if (!this.isRunning) {
-        return;
+    this.monitorInterval = setInterval(() => void this.runSync(), this.MONITOR_INTERVAL_MS);
+    this.barCloseInterval = setInterval(() => liveBarService.closeDueBars(), this.BAR_CLOSE_CHECK_MS);
+    void this.runSync();
+  }
+
+  private async runSync(): Promise<void> {
+    // Claims can be slow; skip a tick rather than overlap
+    if (this.isSyncing) {
+      return;
+    }
+    this.isSyncing = true;
+    try {
+      await this.syncSubscriptions();
+    } catch (error) {
+      console.error('Error syncing real-time subscriptions:', error);
+    } finally {
+      this.isSyncing = false;
+    }
+  }
+
+  private async syncSubscriptions(): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+
+    // Reset open/high/low/volume once per trading day at the regular open
+    // (midnight UTC for crypto, 17:00 New York for fx)
+    for (const assetClass of this.ASSET_CLASSES) {
+      const today = getSessionDate(assetClass);
+      if (getAssetMarketSession(assetClass) === 'regular' && this.lastResetDates.get(assetClass) !== today) {
+        this.lastResetDates.set(assetClass, today);
+        this.resetDailyStats(assetClass);
       }
+    }
 
-      const subscribedSymbols = websocketService.getSubscribedSymbols();
+    const feed = getRealtimeFeed();
+    const watchedSymbols = this.getWatchedSymbols();
 
-      // Start updates for new subscriptions
-      subscribedSymbols.forEach((symbol) => {
-        if (!this.updateIntervals.has(symbol)) {
-          this.startSymbolUpdates(symbol);
-        }
+    // Other nodes' updates for what we watch; the feed for what we own
+    clusterService.followSymbols(watchedSymbols);
+    const ownedSymbols = new Set(await clusterService.claimSymbols(watchedSymbols));
+    if (!this.isRunning) {
+      return;
+    }
+
+    const watched = new Set(watchedSymbols);
+    this.remoteStates.forEach((_state, symbol) => {
+      if (!watched.has(symbol)) {
+        this.remoteStates.delete(symbol);
+      }
+    });
+
+    const added = Array.from(ownedSymbols).filter((symbol) => !this.feedSymbols.has(symbol));
+    const removed = Array.from(this.feedSymbols).filter((symbol) => !ownedSymbols.has(symbol));
+
+    if (added.length > 0) {
+      console.log(`Starting price updates for ${added.join(', ')}`);
+      added.forEach((symbol) => {
+        this.feedSymbols.add(symbol);
+        this.takeOverRemoteState(symbol);
       });
+      feed.subscribe(added);
+    }
 
-      // Stop updates for unsubscribed symbols
-      this.updateIntervals.forEach((_interval, symbol) => {
-        if (!subscribedSymbols.includes(symbol)) {
-          this.stopSymbolUpdates(symbol);
+    if (removed.length > 0) {
+      console.log(`Stopping price updates for ${removed.join(', ')}`);
+      removed.forEach((symbol) => {
+        this.feedSymbols.delete(symbol);
+        // Stats restart from the next trade if the symbol is watched again
+        this.symbolStates.delete(symbol);
+        liveBarService.clearSymbol(symbol);
+        const pending = this.pendingBroadcasts.get(symbol);
+        if (pending) {
+          clearTimeout(pending);
+          this.pendingBroadcasts.delete(symbol);
         }
       });
-    }, 5000);
+      feed.unsubscribe(removed);
+      // Lets a node still watching them take over (ours only if we still hold the lease)
+      await clusterService.releaseSymbols(removed.filter((symbol) => !watched.has(symbol)));
+    }
   }
 
   /**
-   * Start price updates for a specific symbol
+   * Symbols clients are subscribed to, plus those of the providers
    */
-  private async startSymbolUpdates(symbol: string): Promise<void> {
-    console.log(`Starting price updates for ${symbol}`);
-
-    try {
-      // Initialize symbol state if not exists
-      if (!this.symbolStates.has(symbol)) {
-        await this.initializeSymbolState(symbol);
+  private getWatchedSymbols(): string[] {
+    const symbols = new Set(websocketService.getSubscribedSymbols());
+    this.symbolsProviders.forEach((provider) => {
+      try {
+        provider().forEach((symbol) => symbols.add(canonicalSymbol(symbol)));
+      } catch (error) {
+        console.error('Error getting watched symbols:', error);
       }
+    });
+    return Array.from(symbols);
+  }
 
-      // Start periodic updates
-      const interval = setInterval(() => {
-        this.updateSymbolPrice(symbol);
-      }, this.UPDATE_INTERVAL_MS);
-
-      this.updateIntervals.set(symbol, interval);
-
-      // Send initial update immediately
-      this.updateSymbolPrice(symbol);
-    } catch (error) {
-      console.error(`Error starting updates for ${symbol}:`, error);
+  /**
+   * Continue a symbol's daily stats and live bars from its previous owner's last update
+   */
+  private takeOverRemoteState(symbol: string): void {
+    const remote = this.remoteStates.get(symbol);
+    if (!remote) {
+      return;
     }
+    this.remoteStates.delete(symbol);
+
+    const { price } = remote;
+    this.symbolStates.set(symbol, {
+      symbol,
+      assetClass: getAssetClass(symbol),
+      currentPrice: price.price,
+      open: price.open ?? price.price - price.change,
+      high: price.high ?? price.price,
+      low: price.low ?? price.price,
+      volume: price.volume,
+      lastUpdate: new Date(price.timestamp),
+    });
+    remote.bars.forEach((bar, interval) => liveBarService.restoreBar(symbol, interval, bar));
   }
 
   /**
-   * Stop price updates for a specific symbol
+   * Deliver an update published by the node that owns the symbol
    */
-  private stopSymbolUpdates(symbol: string): void {
-    console.log(`Stopping price updates for ${symbol}`);
+  private handleClusterUpdate(update: ClusterSymbolUpdate): void {
+    // Late message from the previous owner of a symbol we now take from the feed
+    if (this.feedSymbols.has(update.symbol)) {
+      return;
+    }
 
-    const interval = this.updateIntervals.get(symbol);
-    if (interval) {
-      clearInterval(interval);
-      this.updateIntervals.delete(symbol);
+    let remote = this.remoteStates.get(update.symbol);
+    if (!remote) {
+      remote = { price: update.price, bars: new Map() };
+      this.remoteStates.set(update.symbol, remote);
     }
+    remote.price = update.price;
+    update.bars.forEach(({ interval, bar }) => remote!.bars.set(interval, bar));
 
-    // Keep symbol state for potential re-subscription
-    // Clean up after 5 minutes of inactivity
-    setTimeout(() => {
-      if (!this.updateIntervals.has(symbol)) {
-        this.symbolStates.delete(symbol);
-      }
-    }, 5 * 60 * 1000);
+    this.deliver(update.symbol, update.price, update.bars);
   }
 
   /**
-   * Initialize symbol state from latest market data
-   * 
-   * PRODUCTION: Replace with actual market data initialization
+   * Fold a trade into the symbol's daily stats and schedule a broadcast
    */
-  private async initializeSymbolState(symbol: string): Promise<void> {
-    try {
-      // Fetch latest daily data to get base price
-      const dailyData = await fetchDailyData(symbol);
-      
-      if (!dailyData || dailyData.length === 0) {
-        throw new Error(`No data available for ${symbol}`);
-      }
-
-      const latestData = dailyData[0];
-      const basePrice = latestData.close;
-
-      // Calculate volatility from recent price movements (simplified)
-      let volatility = this.DEFAULT_VOLATILITY;
-      if (dailyData.length >= 20) {
-        const returns = [];
-        for (let i = 0; i < Math.min(20, dailyData.length - 1); i++) {
-          const return_ = (dailyData[i].close - dailyData[i + 1].close) / dailyData[i + 1].close;
-          returns.push(return_);
-        }
-        // Standard deviation of returns
-        const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
-        const variance = returns.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / returns.length;
-        volatility = Math.sqrt(variance);
-      }
+  private handleTrade(trade: Trade): void {
+    if (!this.feedSymbols.has(trade.symbol)) {
+      return;
+    }
 
-      const state: SymbolState = {
-        symbol,
-        basePrice,
-        currentPrice: basePrice,
-        open: basePrice,
-        high: basePrice,
-        low: basePrice,
+    let state = this.symbolStates.get(trade.symbol);
+    if (!state) {
+      state = {
+        symbol: trade.symbol,
+        assetClass: getAssetClass(trade.symbol),
+        currentPrice: trade.price,
+        open: trade.price,
+        high: trade.price,
+        low: trade.price,
         volume: 0,
-        lastUpdate: new Date(),
-        volatility: Math.max(volatility, 0.005), // Minimum 0.5% volatility
+        lastUpdate: new Date(trade.timestamp),
       };
+      this.symbolStates.set(trade.symbol, state);
+    }
 
-      this.symbolStates.set(symbol, state);
-      console.log(`Initialized ${symbol} at $${basePrice.toFixed(2)} (volatility: ${(volatility * 100).toFixed(2)}%)`);
-    } catch (error) {
-      console.error(`Failed to initialize ${symbol}:`, error);
-      throw error;
+    state.currentPrice = trade.price;
+    state.high = Math.max(state.high, trade.price);
+    state.low = Math.min(state.low, trade.price);
+    state.volume += trade.size;
+    state.lastUpdate = new Date(trade.timestamp);
+
+    liveBarService.handleTrade(trade);
+
+    if (!this.pendingBroadcasts.has(trade.symbol)) {
+      this.pendingBroadcasts.set(
+        trade.symbol,
+        setTimeout(() => {
+          this.pendingBroadcasts.delete(trade.symbol);
+          this.broadcastSymbol(trade.symbol);
+        }, this.BROADCAST_THROTTLE_MS)
+      );
     }
   }
 
   /**
-   * Update symbol price with simulated movement
-   * 
-   * PRODUCTION: Replace with actual price updates from WebSocket feed
+   * Broadcast a symbol's latest price and daily stats, and the live bars that
+   * moved, here and on the other nodes
    */
-  private updateSymbolPrice(symbol: string): void {
-    const state = this.symbolStates.get(symbol);
-    if (!state) {
-      console.error(`No state found for ${symbol}`);
+  private broadcastSymbol(symbol: string): void {
+    const priceUpdate = this.getSnapshot(symbol);
+    if (!priceUpdate) {
       return;
     }
 
-    // Generate realistic price movement
-    const newPrice = this.simulatePriceMovement(state);
-
-    // Update state
-    state.currentPrice = newPrice;
-    state.high = Math.max(state.high, newPrice);
-    state.low = Math.min(state.low, newPrice);
-    state.volume += this.simulateVolumeChange();
-    state.lastUpdate = new Date();
+    const bars = liveBarService.takeChangedBars(symbol);
+    this.deliver(symbol, priceUpdate, bars);
+    clusterService.publish({ symbol, price: priceUpdate, bars });
 
-    // Calculate price change
-    const change = newPrice - state.open;
-    const changePercent = (change / state.open) * 100;
-
-    // Create price update
-    const priceUpdate: PriceUpdateData = {
-      price: parseFloat(newPrice.toFixed(2)),
-      change: parseFloat(change.toFixed(2)),
-      changePercent: parseFloat(changePercent.toFixed(2)),
-      volume: Math.floor(state.volume),
-      timestamp: state.lastUpdate.toISOString(),
-      open: parseFloat(state.open.toFixed(2)),
-      high: parseFloat(state.high.toFixed(2)),
-      low: parseFloat(state.low.toFixed(2)),
-    };
-
-    // Broadcast to subscribed clients
-    websocketService.broadcast(symbol, priceUpdate);
+    this.priceListeners.forEach((listener) => {
+      try {
+        listener(symbol, priceUpdate);
+      } catch (error) {
+        console.error(`Error in price update listener for ${symbol}:`, error);
+      }
+    });
   }
 
   /**
-   * Simulate realistic price movement using random walk with volatility
-   * 
-   * Uses a simple geometric Brownian motion model:
-   * dS = μ * S * dt + σ * S * dW
-   * where:
-   * - S = current price
-   * - μ = drift (trend) - set to 0 for random walk
-   * - σ = volatility
-   * - dW = random shock (normally distributed)
-   * - dt = time step
+   * Send a price update and live bars to this node's subscribed clients
    */
-  private simulatePriceMovement(state: SymbolState): number {
-    const { currentPrice, volatility } = state;
-
-    // Time step (fraction of trading day, assuming 6.5 hours = 390 minutes)
-    const dt = (this.UPDATE_INTERVAL_MS / 1000) / (390 * 60); // Convert to trading day fraction
-
-    // Random shock (Box-Muller transform for normal distribution)
-    const u1 = Math.random();
-    const u2 = Math.random();
-    const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
-
-    // Price change
-    const drift = 0; // No trend, pure random walk
-    const shock = volatility * z * Math.sqrt(dt);
-    const priceChange = currentPrice * (drift * dt + shock);
-
-    // Bound the change to realistic limits
-    const maxChange = currentPrice * this.MAX_PRICE_CHANGE_PERCENT;
-    const minChange = -currentPrice * this.MAX_PRICE_CHANGE_PERCENT;
-    const boundedChange = Math.max(minChange, Math.min(maxChange, priceChange));
-
-    return currentPrice + boundedChange;
+  private deliver(symbol: string, priceUpdate: PriceUpdateData, bars: LiveBarUpdate[]): void {
+    websocketService.broadcast(symbol, priceUpdate);
+    bars.forEach(({ interval, bar }) => websocketService.broadcastBar(symbol, interval, bar));
   }
 
   /**
-   * Simulate volume change
+   * Latest price and daily stats of a symbol, or null before its first trade
    */
-  private simulateVolumeChange(): number {
-    // Random volume between 1,000 and 10,000 shares per update
-    return Math.floor(Math.random() * 9000) + 1000;
+  getSnapshot(symbol: string): PriceUpdateData | null {
+    const state = this.symbolStates.get(symbol);
+    if (!state) {
+      return null;
+    }
+
+    const change = state.currentPrice - state.open;
+    const changePercent = state.open !== 0 ? (change / state.open) * 100 : 0;
+
+    // Quoted to the symbol's precision (cents, pips, satoshis)
+    const precision = getPricePrecision(symbol, state.currentPrice);
+    return {
+      price: parseFloat(state.currentPrice.toFixed(precision)),
+      change: parseFloat(change.toFixed(precision)),
+      changePercent: parseFloat(changePercent.toFixed(2)),
+      volume: Math.floor(state.volume),
+      timestamp: state.lastUpdate.toISOString(),
+      open: parseFloat(state.open.toFixed(precision)),
+      high: parseFloat(state.high.toFixed(precision)),
+      low: parseFloat(state.low.toFixed(precision)),
+    };
   }
 
   /**
-   * Reset daily stats (call at market open)
-   * In production, this would be triggered by actual market open events
+   * Reset daily stats (called by the monitor at each regular session open)
+   * @param assetClass - Only reset symbols of this asset class (default: all)
    */
-  resetDailyStats(): void {
+  resetDailyStats(assetClass?: AssetClass): void {
     this.symbolStates.forEach((state) => {
+      if (assetClass && state.assetClass !== assetClass) {
+        return;
+      }
       state.open = state.currentPrice;
       state.high = state.currentPrice;
       state.low = state.currentPrice;
       state.volume = 0;
     });
-    console.log('Reset daily stats for all symbols');
+    console.log(`Reset daily stats for ${assetClass ? `${assetClass} symbols` : 'all symbols'}`);
   }
 
   /**
@@ -317,45 +451,9 @@ class RealtimePriceService {
    * Get all active symbols
    */
   getActiveSymbols(): string[] {
-    return Array.from(this.symbolStates.keys());
+    return Array.from(this.feedSymbols);
   }
 }
 
-/**
- * PRODUCTION INTEGRATION GUIDE
- * 
- * To integrate with a real WebSocket data provider:
- * 
- * 1. Polygon.io Example:
- *    import WebSocket from 'ws';
- *    const ws = new WebSocket('wss://socket.polygon.io/stocks');
- *    ws.on('message', (data) => {
- *      const trade = JSON.parse(data);
- *      // Transform and broadcast via websocketService
- *    });
- * 
- * 2. Finnhub Example:
- *    const finnhubWs = new WebSocket('wss://ws.finnhub.io?token=YOUR_TOKEN');
- *    finnhubWs.on('message', (data) => {
- *      const update = JSON.parse(data);
- *      // Transform and broadcast via websocketService
- *    });
- * 
- * 3. IEX Cloud Example:
- *    const iexWs = new WebSocket('wss://cloud-sse.iexapis.com/stable/stocksUS?token=YOUR_TOKEN');
- *    iexWs.on('message', (data) => {
- *      const quote = JSON.parse(data);
- *      // Transform and broadcast via websocketService
- *    });
- * 
- * Key considerations:
- * - Handle authentication with API keys
- * - Subscribe/unsubscribe to symbols dynamically
- * - Transform provider data format to PriceUpdateData interface
- * - Implement reconnection logic for provider WebSocket
- * - Add error handling and rate limiting
- * - Monitor connection health
- */
-
 // Export singleton instance
 export const realtimePriceService = new RealtimePriceService();
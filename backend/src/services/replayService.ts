@@ -0,0 +1,476 @@
+import { randomUUID } from 'crypto';
+import { websocketService } from './websocketService.js';
+import { fetchIntradayData } from './alphaVantageService.js';
+import { getAssetTradingDay, getExchangeDate } from '../utils/marketCalendar.js';
+import { canonicalSymbol, getAssetClass, getPricePrecision } from '../utils/symbol.js';
+import { OHLCVData, IntradayInterval } from '../types/stock.js';
+import { CreateReplayOptions, ReplaySessionInfo, ReplayStatus } from '../types/replay.js';
+import { PriceUpdateData } from '../types/wsProtocol.js';
+
+/**
+ * Historical Market Replay Service
+ *
+ * Replays a past session's stored intraday bars as price updates over the
+ * WebSocket channel, for demos, training and testing outside market hours.
+ * Each bar is played as four prices (open, high/low in the order the bar most
+ * likely traded them, close) spread evenly over the bar, so at 1x a 1min bar
+ * takes one minute and at 60x one second. Gaps between bars are skipped.
+ *
+ * Clients join a session by id (replay_join) and every message they receive
+ * carries the session, so replayed prices are never mistaken for live ones.
+ * Sessions belong to the user who created them: only that user can see,
+ * control or join them.
+ */
+
+export const MIN_REPLAY_SPEED = 1;
+export const MAX_REPLAY_SPEED = 600;
+
+// Prices replayed per bar
+const STEPS_PER_BAR = 4;
+const MAX_SESSIONS = 20;
+const MAX_SESSIONS_PER_USER = 3;
+// Sessions nobody has watched for this long are closed
+const IDLE_TIMEOUT_MS = 10 * 60 * 1000;
+const CLEANUP_INTERVAL_MS = 60 * 1000;
+
+const BAR_DURATION_MS: Record<IntradayInterval, number> = {
+  '1min': 60 * 1000,
+  '5min': 5 * 60 * 1000,
+  '15min': 15 * 60 * 1000,
+  '30min': 30 * 60 * 1000,
+  '60min': 60 * 60 * 1000,
+};
+
+/**
+ * A replay can't be created (no trading session or no stored bars for the date,
+ * or too many sessions overall or for the user)
+ */
+export class ReplayUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayUnavailableError';
+  }
+}
+
+interface ReplaySession {
+  id: string;
+  userId: number; // Owner
+  options: CreateReplayOptions;
+  bars: OHLCVData[]; // Oldest first
+  barIndex: number;
+  step: number;
+  status: ReplayStatus;
+  speed: number;
+  timer: NodeJS.Timeout | null;
+  // Session stats up to the current position
+  open: number;
+  high: number;
+  low: number;
+  volume: number;
+  createdAt: Date;
+  lastWatchedAt: number;
+}
+
+class ReplayService {
+  private sessions: Map<string, ReplaySession> = new Map();
+  // Sessions being created (loading bars) per user; they hold a slot against the limits
+  private pendingCreates: Map<number, number> = new Map();
+  private cleanupInterval: NodeJS.Timeout | null = null;
+
+  /**
+   * Create a replay session for one trading day of a symbol
+   * @param userId - Owner of the session
+   * @param options - Symbol, date, speed, bar interval and whether to include extended hours
+   * @param paused - Create the session paused at the first bar instead of playing
+   */
+  async createSession(userId: number, options: CreateReplayOptions, paused = false): Promise<ReplaySessionInfo> {
+    const pendingTotal = Array.from(this.pendingCreates.values()).reduce((sum, count) => sum + count, 0);
+    if (this.sessions.size + pendingTotal >= MAX_SESSIONS) {
+      throw new ReplayUnavailableError(`Maximum replay sessions reached (${MAX_SESSIONS})`);
+    }
+    const pendingForUser = this.pendingCreates.get(userId) ?? 0;
+    if (this.listSessions(userId).length + pendingForUser >= MAX_SESSIONS_PER_USER) {
+      throw new ReplayUnavailableError(
+        `You can have at most ${MAX_SESSIONS_PER_USER} replay sessions; stop one to start another`
+      );
+    }
+
+    // Hold the slot while the bars load, so concurrent creates can't overrun the limits
+    this.pendingCreates.set(userId, pendingForUser + 1);
+    const symbol = canonicalSymbol(options.symbol);
+    let bars: OHLCVData[];
+    try {
+      bars = await this.loadBars({ ...options, symbol });
+    } finally {
+      const pending = (this.pendingCreates.get(userId) ?? 1) - 1;
+      if (pending > 0) {
+        this.pendingCreates.set(userId, pending);
+      } else {
+        this.pendingCreates.delete(userId);
+      }
+    }
+    if (bars.length === 0) {
+      throw new ReplayUnavailableError(`No ${options.interval} bars stored for ${symbol} on ${options.date}`);
+    }
+
+    const session: ReplaySession = {
+      id: randomUUID(),
+      userId,
+      options: { ...options, symbol },
+      bars,
+      barIndex: 0,
+      step: 0,
+      status: paused ? 'paused' : 'playing',
+      speed: options.speed,
+      timer: null,
+      open: bars[0].open,
+      high: bars[0].open,
+      low: bars[0].open,
+      volume: 0,
+      createdAt: new Date(),
+      lastWatchedAt: Date.now(),
+    };
+    this.sessions.set(session.id, session);
+    this.startCleanup();
+
+    console.log(
+      `Replay ${session.id} created by user ${userId}: ${symbol} ${options.date} (${bars.length} ${options.interval} bars, ${options.speed}x)`
+    );
+
+    if (session.status === 'playing') {
+      this.advance(session);
+    }
+    return this.toInfo(session);
+  }
+
+  /**
+   * A user's session
+   * @returns null if not found or owned by another user
+   */
+  getSession(id: string, userId: number): ReplaySessionInfo | null {
+    const session = this.getOwnedSession(id, userId);
+    return session ? this.toInfo(session) : null;
+  }
+
+  /**
+   * A user's active sessions
+   */
+  listSessions(userId: number): ReplaySessionInfo[] {
+    return Array.from(this.sessions.values())
+      .filter((session) => session.userId === userId)
+      .map((session) => this.toInfo(session));
+  }
+
+  pause(id: string, userId: number): ReplaySessionInfo | null {
+    const session = this.getOwnedSession(id, userId);
+    if (!session) {
+      return null;
+    }
+
+    if (session.status === 'playing') {
+      this.clearTimer(session);
+      session.status = 'paused';
+      websocketService.broadcastReplayStatus(this.toInfo(session));
+    }
+    return this.toInfo(session);
+  }
+
+  /**
+   * Resume playback (an ended session restarts from the first bar)
+   */
+  resume(id: string, userId: number): ReplaySessionInfo | null {
+    const session = this.getOwnedSession(id, userId);
+    if (!session) {
+      return null;
+    }
+
+    if (session.status === 'ended') {
+      this.moveTo(session, 0);
+    }
+    if (session.status !== 'playing') {
+      session.status = 'playing';
+      websocketService.broadcastReplayStatus(this.toInfo(session));
+      this.advance(session);
+    }
+    return this.toInfo(session);
+  }
+
+  /**
+   * Jump to the bar containing a point in time (clamped to the session)
+   * @param time - UTC milliseconds
+   */
+  seek(id: string, userId: number, time: number): ReplaySessionInfo | null {
+    const session = this.getOwnedSession(id, userId);
+    if (!session) {
+      return null;
+    }
+
+    let index = 0;
+    while (index < session.bars.length - 1 && Date.parse(session.bars[index + 1].timestamp) <= time) {
+      index++;
+    }
+
+    this.clearTimer(session);
+    this.moveTo(session, index);
+    if (session.status === 'ended') {
+      session.status = 'paused';
+    }
+
+    const info = this.toInfo(session);
+    websocketService.broadcastReplayStatus(info);
+    if (session.status === 'playing') {
+      this.advance(session);
+    } else {
+      // Show the price at the new position while paused
+      websocketService.broadcastReplay(info, this.buildUpdate(session, session.bars[index].open));
+    }
+    return this.toInfo(session);
+  }
+
+  setSpeed(id: string, userId: number, speed: number): ReplaySessionInfo | null {
+    const session = this.getOwnedSession(id, userId);
+    if (!session) {
+      return null;
+    }
+
+    session.speed = speed;
+    if (session.status === 'playing' && session.timer) {
+      // Apply the new pace from the next price
+      this.clearTimer(session);
+      session.timer = setTimeout(() => this.advance(session), this.getStepDelay(session));
+    }
+    websocketService.broadcastReplayStatus(this.toInfo(session));
+    return this.toInfo(session);
+  }
+
+  /**
+   * Stop and remove a user's session
+   * @returns false if the session did not exist or is owned by another user
+   */
+  closeSession(id: string, userId: number): boolean {
+    if (!this.getOwnedSession(id, userId)) {
+      return false;
+    }
+    this.endSession(id);
+    return true;
+  }
+
+  /**
+   * Close every session (server shutdown)
+   */
+  stopAll(): void {
+    Array.from(this.sessions.keys()).forEach((id) => this.endSession(id));
+  }
+
+  private getOwnedSession(id: string, userId: number): ReplaySession | null {
+    const session = this.sessions.get(id);
+    return session && session.userId === userId ? session : null;
+  }
+
+  /**
+   * Stop and remove a session
+   */
+  private endSession(id: string): void {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return;
+    }
+
+    this.clearTimer(session);
+    session.status = 'ended';
+    websocketService.broadcastReplayStatus(this.toInfo(session));
+    websocketService.closeReplay(id);
+    this.sessions.delete(id);
+    console.log(`Replay ${id} closed`);
+
+    if (this.sessions.size === 0 && this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+  }
+
+  /**
+   * Load the bars of one trading day, oldest first
+   */
+  private async loadBars(options: CreateReplayOptions): Promise<OHLCVData[]> {
+    const day = getAssetTradingDay(getAssetClass(options.symbol), options.date);
+    if (!day) {
+      throw new ReplayUnavailableError(`${options.date} is not a trading day for ${options.symbol}`);
+    }
+
+    const start = Date.parse(day.pre.start);
+    const end = Date.parse(day.post.end);
+
+    // A session can straddle two months (fx opens the evening before)
+    const months = new Set([getExchangeDate(start).slice(0, 7), getExchangeDate(end - 1).slice(0, 7)]);
+    const bars: OHLCVData[] = [];
+    for (const month of months) {
+      bars.push(
+        ...(await fetchIntradayData(options.symbol, options.interval, {
+          month,
+          extendedHours: options.extendedHours,
+        }))
+      );
+    }
+
+    return bars
+      .filter((bar) => {
+        const time = Date.parse(bar.timestamp);
+        return time >= start && time < end;
+      })
+      .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  }
+
+  /**
+   * Play the price at the current position and schedule the next one
+   */
+  private advance(session: ReplaySession): void {
+    session.timer = null;
+    if (session.status !== 'playing' || !this.sessions.has(session.id)) {
+      return;
+    }
+
+    const bar = session.bars[session.barIndex];
+    const price = this.getStepPrice(bar, session.step);
+    session.high = Math.max(session.high, price);
+    session.low = Math.min(session.low, price);
+    session.volume += bar.volume / STEPS_PER_BAR;
+    websocketService.broadcastReplay(this.toInfo(session), this.buildUpdate(session, price));
+
+    session.step++;
+    if (session.step >= STEPS_PER_BAR) {
+      session.step = 0;
+      session.barIndex++;
+    }
+
+    if (session.barIndex >= session.bars.length) {
+      session.status = 'ended';
+      console.log(`Replay ${session.id} reached the end of ${session.options.date}`);
+      websocketService.broadcastReplayStatus(this.toInfo(session));
+      return;
+    }
+
+    session.timer = setTimeout(() => this.advance(session), this.getStepDelay(session));
+  }
+
+  /**
+   * Price of a step within a bar: open, then the extreme the bar most likely
+   * reached first (low for an up bar, high for a down bar), the other extreme, close
+   */
+  private getStepPrice(bar: OHLCVData, step: number): number {
+    const up = bar.close >= bar.open;
+    switch (step) {
+      case 0:
+        return bar.open;
+      case 1:
+        return up ? bar.low : bar.high;
+      case 2:
+        return up ? bar.high : bar.low;
+      default:
+        return bar.close;
+    }
+  }
+
+  /**
+   * Move to the start of a bar, rebuilding the session stats from the bars before it
+   */
+  private moveTo(session: ReplaySession, index: number): void {
+    session.barIndex = index;
+    session.step = 0;
+    session.open = session.bars[0].open;
+    session.high = session.bars[0].open;
+    session.low = session.bars[0].open;
+    session.volume = 0;
+
+    for (const bar of session.bars.slice(0, index)) {
+      session.high = Math.max(session.high, bar.high);
+      session.low = Math.min(session.low, bar.low);
+      session.volume += bar.volume;
+    }
+  }
+
+  private getStepDelay(session: ReplaySession): number {
+    return BAR_DURATION_MS[session.options.interval] / STEPS_PER_BAR / session.speed;
+  }
+
+  private buildUpdate(session: ReplaySession, price: number): PriceUpdateData {
+    const { symbol } = session.options;
+    const change = price - session.open;
+    const changePercent = session.open !== 0 ? (change / session.open) * 100 : 0;
+
+    // Quoted to the symbol's precision (cents, pips, satoshis)
+    const precision = getPricePrecision(symbol, price);
+    return {
+      price: parseFloat(price.toFixed(precision)),
+      change: parseFloat(change.toFixed(precision)),
+      changePercent: parseFloat(changePercent.toFixed(2)),
+      volume: Math.floor(session.volume),
+      timestamp: this.getCurrentTime(session),
+      open: parseFloat(session.open.toFixed(precision)),
+      high: parseFloat(session.high.toFixed(precision)),
+      low: parseFloat(session.low.toFixed(precision)),
+    };
+  }
+
+  /**
+   * Simulated clock: the current step's position within its bar
+   */
+  private getCurrentTime(session: ReplaySession): string {
+    const duration = BAR_DURATION_MS[session.options.interval];
+    const bar = session.bars[Math.min(session.barIndex, session.bars.length - 1)];
+    const offset = session.barIndex >= session.bars.length ? duration : (session.step * duration) / STEPS_PER_BAR;
+    return new Date(Date.parse(bar.timestamp) + offset).toISOString();
+  }
+
+  private toInfo(session: ReplaySession): ReplaySessionInfo {
+    const { options, bars } = session;
+    const lastBar = bars[bars.length - 1];
+    return {
+      id: session.id,
+      symbol: options.symbol,
+      assetClass: getAssetClass(options.symbol),
+      date: options.date,
+      interval: options.interval,
+      extendedHours: options.extendedHours,
+      speed: session.speed,
+      status: session.status,
+      startTime: bars[0].timestamp,
+      endTime: new Date(Date.parse(lastBar.timestamp) + BAR_DURATION_MS[options.interval]).toISOString(),
+      currentTime: this.getCurrentTime(session),
+      barIndex: Math.min(session.barIndex, bars.length - 1),
+      barCount: bars.length,
+      createdAt: session.createdAt.toISOString(),
+    };
+  }
+
+  private clearTimer(session: ReplaySession): void {
+    if (session.timer) {
+      clearTimeout(session.timer);
+      session.timer = null;
+    }
+  }
+
+  /**
+   * Periodically close sessions nobody is watching
+   */
+  private startCleanup(): void {
+    if (this.cleanupInterval) {
+      return;
+    }
+
+    this.cleanupInterval = setInterval(() => {
+      const now = Date.now();
+      this.sessions.forEach((session) => {
+        if (websocketService.getReplaySubscriberCount(session.id) > 0) {
+          session.lastWatchedAt = now;
+        } else if (now - session.lastWatchedAt > IDLE_TIMEOUT_MS) {
+          console.log(`Replay ${session.id} idle, closing`);
+          this.endSession(session.id);
+        }
+      });
+    }, CLEANUP_INTERVAL_MS);
+  }
+}
+
+// Export singleton instance
+export const replayService = new ReplayService();
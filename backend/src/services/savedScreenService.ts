@@ -0,0 +1,310 @@
+// Saved screen service for database operations related to users' saved screens and their runs
+
+import { query } from '../utils/db.js';
+import {
+  CreateScreenInput,
+  SavedScreen,
+  ScreenDisplaySettings,
+  ScreenFilters,
+  ScreenRun,
+  UpdateScreenInput,
+} from '../types/screens.js';
+
+export const MAX_SCREENS_PER_USER = 25;
+// Older runs of a screen are dropped past this many
+export const MAX_RUNS_PER_SCREEN = 100;
+
+/**
+ * Thrown when a user already has MAX_SCREENS_PER_USER screens
+ */
+export class ScreenLimitError extends Error {
+  constructor() {
+    super(`You can have at most ${MAX_SCREENS_PER_USER} saved screens`);
+    this.name = 'ScreenLimitError';
+  }
+}
+
+/**
+ * Thrown when the user already has a screen with the name
+ */
+export class ScreenNameTakenError extends Error {
+  constructor(name: string) {
+    super(`You already have a screen named "${name}"`);
+    this.name = 'ScreenNameTakenError';
+  }
+}
+
+interface ScreenRow {
+  id: number;
+  user_id: number;
+  name: string;
+  filters: ScreenFilters; // JSONB comes back parsed
+  display: ScreenDisplaySettings;
+  notify: boolean;
+  filters_updated_at: Date;
+  last_run_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface ScreenRunRow {
+  id: number;
+  screen_id: number;
+  symbols: string[];
+  entered: string[];
+  exited: string[];
+  run_at: Date;
+}
+
+const SCREEN_COLUMNS = `id, user_id, name, filters, display, notify, filters_updated_at, last_run_at,
+  created_at, updated_at`;
+
+const RUN_COLUMNS = 'id, screen_id, symbols, entered, exited, run_at';
+
+function toScreen(row: ScreenRow): SavedScreen {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    filters: row.filters,
+    display: row.display,
+    notify: row.notify,
+    filtersUpdatedAt: row.filters_updated_at.toISOString(),
+    lastRunAt: row.last_run_at?.toISOString() ?? null,
+    createdAt: row.created_at.toISOString(),
+    updatedAt: row.updated_at.toISOString(),
+  };
+}
+
+function toRun(row: ScreenRunRow): ScreenRun {
+  return {
+    id: row.id,
+    screenId: row.screen_id,
+    symbols: row.symbols,
+    entered: row.entered,
+    exited: row.exited,
+    matchCount: row.symbols.length,
+    runAt: row.run_at.toISOString(),
+  };
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string }).code === '23505';
+}
+
+/**
+ * Get all saved screens of a user
+ * @param userId - User's ID
+ * @returns Screens, by name
+ */
+export async function getUserScreens(userId: number): Promise<SavedScreen[]> {
+  const result = await query<ScreenRow>(
+    `SELECT ${SCREEN_COLUMNS}
+     FROM user_saved_screens
+     WHERE user_id = $1
+     ORDER BY name ASC`,
+    [userId]
+  );
+
+  return result.rows.map(toScreen);
+}
+
+/**
+ * Get one of a user's saved screens
+ * @returns Screen, or null if not found or not owned by the user
+ */
+export async function getScreen(userId: number, screenId: number): Promise<SavedScreen | null> {
+  const result = await query<ScreenRow>(
+    `SELECT ${SCREEN_COLUMNS}
+     FROM user_saved_screens
+     WHERE id = $1 AND user_id = $2`,
+    [screenId, userId]
+  );
+
+  return result.rows[0] ? toScreen(result.rows[0]) : null;
+}
+
+/**
+ * Save a screen
+ * @param userId - User's ID
+ * @param input - Screen to save
+ * @returns Created screen
+ * @throws ScreenLimitError if the user already has MAX_SCREENS_PER_USER screens
+ * @throws ScreenNameTakenError if the user already has a screen with the name
+ */
+export async function createScreen(userId: number, input: CreateScreenInput): Promise<SavedScreen> {
+  try {
+    // Inserts only while the user is under the limit
+    const result = await query<ScreenRow>(
+      `INSERT INTO user_saved_screens (user_id, name, filters, display, notify)
+       SELECT $1::integer, $2::varchar, $3::jsonb, $4::jsonb, $5::boolean
+       WHERE (SELECT COUNT(*) FROM user_saved_screens WHERE user_id = $1) < $6
+       RETURNING ${SCREEN_COLUMNS}`,
+      [userId, input.name, JSON.stringify(input.filters), JSON.stringify(input.display), input.notify, MAX_SCREENS_PER_USER]
+    );
+
+    if (result.rows.length === 0) {
+      throw new ScreenLimitError();
+    }
+
+    return toScreen(result.rows[0]);
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      throw new ScreenNameTakenError(input.name);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Update a saved screen
+ * New filters start a new baseline: the next run doesn't report changes.
+ * @param userId - User's ID
+ * @param screenId - Screen ID
+ * @param input - Fields to change
+ * @returns Updated screen, or null if not found or not owned by the user
+ * @throws ScreenNameTakenError if the user already has another screen with the new name
+ */
+export async function updateScreen(
+  userId: number,
+  screenId: number,
+  input: UpdateScreenInput
+): Promise<SavedScreen | null> {
+  try {
+    const result = await query<ScreenRow>(
+      `UPDATE user_saved_screens
+       SET name = COALESCE($3, name),
+           filters = COALESCE($4::jsonb, filters),
+           display = COALESCE($5::jsonb, display),
+           notify = COALESCE($6, notify),
+           filters_updated_at = CASE WHEN $4::jsonb IS NULL THEN filters_updated_at ELSE CURRENT_TIMESTAMP END
+       WHERE id = $1 AND user_id = $2
+       RETURNING ${SCREEN_COLUMNS}`,
+      [
+        screenId,
+        userId,
+        input.name ?? null,
+        input.filters ? JSON.stringify(input.filters) : null,
+        input.display ? JSON.stringify(input.display) : null,
+        input.notify ?? null,
+      ]
+    );
+
+    return result.rows[0] ? toScreen(result.rows[0]) : null;
+  } catch (error) {
+    if (isUniqueViolation(error) && input.name) {
+      throw new ScreenNameTakenError(input.name);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Delete a saved screen and its runs
+ * @returns true if deleted, false if not found or not owned by the user
+ */
+export async function deleteScreen(userId: number, screenId: number): Promise<boolean> {
+  const result = await query(
+    `DELETE FROM user_saved_screens
+     WHERE id = $1 AND user_id = $2`,
+    [screenId, userId]
+  );
+
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Most recent runs of one of a user's screens
+ * @param userId - User's ID
+ * @param screenId - Screen ID
+ * @param limit - Maximum number of runs
+ * @returns Runs, newest first (empty if the screen isn't the user's)
+ */
+export async function getScreenRuns(userId: number, screenId: number, limit: number): Promise<ScreenRun[]> {
+  const result = await query<ScreenRunRow>(
+    `SELECT r.id, r.screen_id, r.symbols, r.entered, r.exited, r.run_at
+     FROM user_screen_runs r
+     JOIN user_saved_screens s ON s.id = r.screen_id
+     WHERE r.screen_id = $1 AND s.user_id = $2
+     ORDER BY r.run_at DESC, r.id DESC
+     LIMIT $3`,
+    [screenId, userId, limit]
+  );
+
+  return result.rows.map(toRun);
+}
+
+/**
+ * Every user's saved screens, for the scheduled runs
+ */
+export async function getAllScreens(): Promise<SavedScreen[]> {
+  const result = await query<ScreenRow>(
+    `SELECT ${SCREEN_COLUMNS}
+     FROM user_saved_screens
+     ORDER BY id ASC`
+  );
+
+  return result.rows.map(toScreen);
+}
+
+/**
+ * Latest run of a screen, or null before its first
+ */
+export async function getLatestRun(screenId: number): Promise<ScreenRun | null> {
+  const result = await query<ScreenRunRow>(
+    `SELECT ${RUN_COLUMNS}
+     FROM user_screen_runs
+     WHERE screen_id = $1
+     ORDER BY id DESC
+     LIMIT 1`,
+    [screenId]
+  );
+
+  return result.rows[0] ? toRun(result.rows[0]) : null;
+}
+
+/**
+ * Record a run of a screen, after the run it was compared with
+ * Only one caller wins when several record a run after the same one (e.g. two nodes).
+ * @param screenId - Screen ID
+ * @param previousRunId - Run the entered and exited symbols are relative to (null for the first run)
+ * @param symbols - Result set, sorted
+ * @param entered - Symbols that entered since the previous run
+ * @param exited - Symbols that left since the previous run
+ * @returns Recorded run, or null if another run was recorded after the previous one first
+ */
+export async function recordScreenRun(
+  screenId: number,
+  previousRunId: number | null,
+  symbols: string[],
+  entered: string[],
+  exited: string[]
+): Promise<ScreenRun | null> {
+  const result = await query<ScreenRunRow>(
+    `INSERT INTO user_screen_runs (screen_id, previous_run_id, symbols, entered, exited)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT DO NOTHING
+     RETURNING ${RUN_COLUMNS}`,
+    [screenId, previousRunId, symbols, entered, exited]
+  );
+
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+
+  await query(
+    `UPDATE user_saved_screens SET last_run_at = $2 WHERE id = $1`,
+    [screenId, row.run_at]
+  );
+  await query(
+    `DELETE FROM user_screen_runs
+     WHERE screen_id = $1
+       AND id NOT IN (
+         SELECT id FROM user_screen_runs WHERE screen_id = $1 ORDER BY id DESC LIMIT $2
+       )`,
+    [screenId, MAX_RUNS_PER_SCREEN]
+  );
+
+  return toRun(row);
+}
@@ -0,0 +1,115 @@
+import { getMatchingSymbols } from './databaseService.js';
+import { getAllScreens, getLatestRun, recordScreenRun } from './savedScreenService.js';
+import { websocketService } from './websocketService.js';
+import { SavedScreen, ScreenChangedEvent, ScreenRun } from '../types/screens.js';
+
+/**
+ * Screen Run Service
+ *
+ * Runs users' saved screens against the latest metrics (after each daily
+ * metrics update, see jobs/dailyMetricsJob.ts, or on request) and diffs each
+ * result set against the screen's previous run. Every run is kept in the
+ * screen's history; symbols that entered or left are sent to the user's
+ * connections (user_event on the notifications channel) unless the screen
+ * has notify off. A screen's first run, and its first after new filters, is a
+ * baseline without changes.
+ *
+ * With several nodes each runs the screens; a run is recorded after a given
+ * previous run only once, so only one node notifies.
+ */
+
+const MAX_SYMBOLS_IN_MESSAGE = 5;
+
+export interface ScreenRunSummary {
+  total: number;
+  successful: number;
+  failed: number;
+  changed: number; // Screens with symbols that entered or left
+}
+
+/**
+ * List of symbols for a message, e.g. "AAPL, MSFT and 3 more"
+ */
+function listSymbols(symbols: string[]): string {
+  if (symbols.length <= MAX_SYMBOLS_IN_MESSAGE) {
+    return symbols.join(', ');
+  }
+  return `${symbols.slice(0, MAX_SYMBOLS_IN_MESSAGE).join(', ')} and ${symbols.length - MAX_SYMBOLS_IN_MESSAGE} more`;
+}
+
+/**
+ * Summary of a change for notifications, e.g. "Oversold tech: AAPL, MSFT entered; TSLA left"
+ */
+function describeChange(name: string, entered: string[], exited: string[]): string {
+  const parts: string[] = [];
+  if (entered.length > 0) {
+    parts.push(`${listSymbols(entered)} entered`);
+  }
+  if (exited.length > 0) {
+    parts.push(`${listSymbols(exited)} left`);
+  }
+  return `${name}: ${parts.join('; ')}`;
+}
+
+/**
+ * Run a saved screen, record the run and notify the user of changes
+ * @param screen - Screen to run
+ * @returns Recorded run, or null if another node recorded this run first
+ */
+export async function runSavedScreen(screen: SavedScreen): Promise<ScreenRun | null> {
+  const symbols = await getMatchingSymbols(screen.filters);
+  const previous = await getLatestRun(screen.id);
+
+  // Runs with other filters aren't comparable
+  const isBaseline = !previous || Date.parse(previous.runAt) < Date.parse(screen.filtersUpdatedAt);
+  const previousSymbols = new Set(isBaseline ? symbols : previous.symbols);
+  const currentSymbols = new Set(symbols);
+  const entered = symbols.filter((symbol) => !previousSymbols.has(symbol));
+  const exited = isBaseline ? [] : previous.symbols.filter((symbol) => !currentSymbols.has(symbol));
+
+  const run = await recordScreenRun(screen.id, previous?.id ?? null, symbols, entered, exited);
+  if (!run) {
+    return null;
+  }
+
+  if (screen.notify && (entered.length > 0 || exited.length > 0)) {
+    const event: ScreenChangedEvent = {
+      type: 'screen_changed',
+      screenId: screen.id,
+      runId: run.id,
+      name: screen.name,
+      entered,
+      exited,
+      matchCount: run.matchCount,
+      message: describeChange(screen.name, entered, exited),
+      runAt: run.runAt,
+    };
+    websocketService.sendToUser(screen.userId, 'notifications', { ...event });
+  }
+
+  return run;
+}
+
+/**
+ * Run every user's saved screens (after the metrics update)
+ * @returns Counts of screens run, failed and changed
+ */
+export async function runAllSavedScreens(): Promise<ScreenRunSummary> {
+  const screens = await getAllScreens();
+  const summary: ScreenRunSummary = { total: screens.length, successful: 0, failed: 0, changed: 0 };
+
+  for (const screen of screens) {
+    try {
+      const run = await runSavedScreen(screen);
+      summary.successful++;
+      if (run && (run.entered.length > 0 || run.exited.length > 0)) {
+        summary.changed++;
+      }
+    } catch (error) {
+      summary.failed++;
+      console.error(`Failed to run saved screen ${screen.id}:`, error);
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,243 @@
+import { query } from '../utils/db.js';
+import { SymbolSearchResult } from '../types/stock.js';
+import { SymbolMatch } from '../types/marketData.js';
+import { cacheService, CacheTTL, CacheKeys } from './cacheService.js';
+import { tieredCache, CachePolicies } from './tieredCacheService.js';
+import { getMarketDataProvider } from './marketData/index.js';
+import { normalizeSymbol, parseSymbol, getAssetClass } from '../utils/symbol.js';
+
+// Match tiers, best first
+const RANK_EXACT_SYMBOL = 0;
+const RANK_SYMBOL_PREFIX = 1;
+const RANK_NAME_PREFIX = 2;
+const RANK_NAME_WORD_PREFIX = 3;
+const RANK_CONTAINS = 4;
+
+interface StockSearchRow {
+  symbol: string;
+  name: string;
+  exchange: string | null;
+  sector: string | null;
+  market_cap: string | null;
+  rank?: number;
+}
+
+/**
+ * Search symbols by ticker or company name
+ *
+ * Ranking, best first:
+ *   1. exact ticker, 2. ticker prefix, 3. name prefix, 4. prefix of a word in the name,
+ *   5. ticker/name contains the query, 6. fuzzy (typo-tolerant) ticker or name match
+ * Ties are broken by market cap so large companies come first.
+ *
+ * Symbols outside the stocks table are looked up with the market data provider
+ * when the local universe has no exact or prefix hit. A currency pair query
+ * (BTC-USD, EUR/USD) is always offered as a result, since provider symbol
+ * search only covers listed securities.
+ *
+ * @param searchQuery - Ticker or name fragment
+ * @param limit - Maximum number of results
+ * @returns Ranked search results
+ */
+export async function searchSymbols(searchQuery: string, limit: number): Promise<SymbolSearchResult[]> {
+  const trimmed = searchQuery.trim();
+  let rows: StockSearchRow[] = [];
+
+  try {
+    rows = await searchLocal(trimmed, limit);
+
+    if (rows.length < limit) {
+      const seen = new Set(rows.map((row) => row.symbol));
+      const fuzzy = (await fuzzySearchLocal(trimmed)).filter((row) => !seen.has(row.symbol));
+      rows = rows.concat(fuzzy.slice(0, limit - rows.length));
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.warn('Local symbol search unavailable, using provider only:', errorMessage);
+  }
+
+  const results: SymbolSearchResult[] = rows.map((row) => ({
+    symbol: row.symbol,
+    name: row.name,
+    exchange: row.exchange,
+    sector: row.sector,
+    assetClass: getAssetClass(row.symbol),
+    source: 'local',
+  }));
+
+  const pair = parseSymbol(trimmed);
+  if (pair?.quoteCurrency && !results.some((result) => result.symbol === pair.canonical)) {
+    results.unshift({
+      symbol: pair.canonical,
+      name: `${pair.ticker}/${pair.quoteCurrency}`,
+      exchange: null,
+      sector: null,
+      assetClass: pair.assetClass,
+      source: 'provider',
+    });
+    results.splice(limit);
+  }
+
+  // Only hit the provider when we don't know the symbol ourselves (spares the API quota)
+  const hasStrongLocalMatch = rows.some((row) => row.rank !== undefined && row.rank <= RANK_NAME_PREFIX);
+  if (!hasStrongLocalMatch && results.length < limit) {
+    const seen = new Set(results.map((result) => result.symbol));
+    const providerMatches = await searchProvider(trimmed);
+
+    for (const match of providerMatches) {
+      if (results.length >= limit) break;
+      if (seen.has(match.symbol)) continue;
+
+      seen.add(match.symbol);
+      results.push({
+        symbol: match.symbol,
+        name: match.name,
+        exchange: match.exchange,
+        sector: null,
+        assetClass: match.assetClass,
+        source: 'provider',
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Prefix and substring matches ranked in SQL
+ */
+async function searchLocal(searchQuery: string, limit: number): Promise<StockSearchRow[]> {
+  // Escape LIKE wildcards so user input is matched literally
+  const escaped = searchQuery.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+  const result = await query<StockSearchRow>(
+    `
+    SELECT symbol, name, exchange, sector, market_cap,
+      CASE
+        WHEN symbol = UPPER($1) THEN ${RANK_EXACT_SYMBOL}
+        WHEN symbol LIKE UPPER($2) || '%' THEN ${RANK_SYMBOL_PREFIX}
+        WHEN name ILIKE $2 || '%' THEN ${RANK_NAME_PREFIX}
+        WHEN name ILIKE '% ' || $2 || '%' THEN ${RANK_NAME_WORD_PREFIX}
+        ELSE ${RANK_CONTAINS}
+      END AS rank
+    FROM stocks
+    WHERE symbol LIKE '%' || UPPER($2) || '%' OR name ILIKE '%' || $2 || '%'
+    ORDER BY rank ASC, market_cap DESC NULLS LAST, symbol ASC
+    LIMIT $3
+    `,
+    // Exact ticker matches compare canonical forms, so "brk-b" finds BRK.B
+    [normalizeSymbol(searchQuery) ?? searchQuery, escaped, limit]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Typo-tolerant matches against the cached stock universe
+ * e.g. "microsft" -> MSFT, "appel" -> AAPL
+ */
+async function fuzzySearchLocal(searchQuery: string): Promise<StockSearchRow[]> {
+  const needle = searchQuery.toLowerCase();
+
+  // Very short queries would fuzzy-match almost everything
+  if (needle.length < 4) {
+    return [];
+  }
+  const maxDistance = needle.length <= 5 ? 1 : 2;
+
+  const universe = await getStockUniverse();
+  const scored: { row: StockSearchRow; distance: number }[] = [];
+
+  for (const row of universe) {
+    const name = row.name.toLowerCase();
+    const candidates = [
+      row.symbol.toLowerCase(),
+      // Compare against the start of the name so partially typed names still match
+      name.slice(0, needle.length),
+      ...name.split(/[^a-z0-9]+/).filter((word) => word.length > 0),
+    ];
+
+    const distance = Math.min(...candidates.map((candidate) => editDistance(needle, candidate)));
+    if (distance <= maxDistance) {
+      scored.push({ row, distance });
+    }
+  }
+
+  return scored
+    .sort(
+      (a, b) =>
+        a.distance - b.distance ||
+        Number(b.row.market_cap || 0) - Number(a.row.market_cap || 0)
+    )
+    .map(({ row }) => row);
+}
+
+/**
+ * Load every stock (symbol, name, exchange, sector, market cap) for fuzzy matching
+ * Cached in Redis since the universe changes rarely
+ */
+async function getStockUniverse(): Promise<StockSearchRow[]> {
+  const cacheKey = CacheKeys.stockUniverse();
+
+  const cachedData = await cacheService.getJSON<StockSearchRow[]>(cacheKey);
+  if (cachedData) {
+    return cachedData;
+  }
+
+  const result = await query<StockSearchRow>(
+    'SELECT symbol, name, exchange, sector, market_cap FROM stocks'
+  );
+
+  await cacheService.setJSON(cacheKey, result.rows, CacheTTL.STOCK_UNIVERSE);
+  return result.rows;
+}
+
+/**
+ * Provider symbol lookup, cached per query
+ * Provider failures (quota, outage) yield no results rather than failing the search
+ */
+async function searchProvider(searchQuery: string): Promise<SymbolMatch[]> {
+  const cacheKey = CacheKeys.symbolSearch(`${getMarketDataProvider().name}:${searchQuery.toLowerCase()}`);
+
+  try {
+    const { data } = await tieredCache.getOrLoad(
+      cacheKey,
+      () => getMarketDataProvider().searchSymbols(searchQuery),
+      CachePolicies.SYMBOL_SEARCH
+    );
+    return data;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.warn(`Provider symbol search failed for "${searchQuery}":`, errorMessage);
+    return [];
+  }
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+ */
+function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, () => new Array<number>(cols).fill(0));
+
+  for (let i = 0; i < rows; i++) d[i][0] = i;
+  for (let j = 0; j < cols; j++) d[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+}
@@ -1,13 +1,14 @@
-import { RSI, SMA } from 'technicalindicators';
+import { RSI, SMA, EMA, MACD } from 'technicalindicators';
 
 /**
- * Calculate 14-period RSI (Relative Strength Index)
+ * Calculate RSI (Relative Strength Index)
  * @param closePrices - Array of closing prices (most recent first)
+ * @param period - RSI period (default: 14)
  * @returns RSI value (0-100) or null if insufficient data
  */
-export function calculateRSI(closePrices: number[]): number | null {
-  if (closePrices.length < 15) {
-    return null; // Need at least 15 data points for 14-period RSI
+export function calculateRSI(closePrices: number[], period: number = 14): number | null {
+  if (closePrices.length < period + 1) {
+    return null; // Need period + 1 data points (period price changes)
   }
 
   // RSI library expects prices in chronological order (oldest first)
@@ -15,7 +16,7 @@ export function calculateRSI(closePrices: number[]): number | null {
 
   const rsiValues = RSI.calculate({
     values: reversedPrices,
-    period: 14,
+    period,
   });
 
   // Return the most recent RSI value
@@ -45,6 +46,61 @@ export function calculateSMA(closePrices: number[], period: number): number | nu
   return smaValues.length > 0 ? smaValues[smaValues.length - 1] : null;
 }
 
+/**
+ * Calculate Exponential Moving Average
+ * @param closePrices - Array of closing prices (most recent first)
+ * @param period - EMA period (e.g., 12, 26)
+ * @returns EMA value or null if insufficient data
+ */
+export function calculateEMA(closePrices: number[], period: number): number | null {
+  if (closePrices.length < period) {
+    return null;
+  }
+
+  // EMA library expects prices in chronological order (oldest first)
+  const emaValues = EMA.calculate({
+    values: [...closePrices].reverse(),
+    period,
+  });
+
+  return emaValues.length > 0 ? emaValues[emaValues.length - 1] : null;
+}
+
+/**
+ * Calculate MACD with EMA oscillator and signal (as charted by the frontend)
+ * @param closePrices - Array of closing prices (most recent first)
+ * @param fastPeriod - Fast EMA period (default: 12)
+ * @param slowPeriod - Slow EMA period (default: 26)
+ * @param signalPeriod - Signal line period (default: 9)
+ * @returns Latest MACD line, signal and histogram, or null if insufficient data
+ */
+export function calculateMACD(
+  closePrices: number[],
+  fastPeriod: number = 12,
+  slowPeriod: number = 26,
+  signalPeriod: number = 9
+): { macd: number; signal: number; histogram: number } | null {
+  if (closePrices.length < slowPeriod + signalPeriod - 1) {
+    return null;
+  }
+
+  // MACD library expects prices in chronological order (oldest first)
+  const macdValues = MACD.calculate({
+    values: [...closePrices].reverse(),
+    fastPeriod,
+    slowPeriod,
+    signalPeriod,
+    SimpleMAOscillator: false,
+    SimpleMASignal: false,
+  });
+
+  const latest = macdValues[macdValues.length - 1];
+  if (!latest || latest.MACD === undefined || latest.signal === undefined || latest.histogram === undefined) {
+    return null;
+  }
+  return { macd: latest.MACD, signal: latest.signal, histogram: latest.histogram };
+}
+
 /**
  * Calculate percentage difference between current price and SMA
  * @param currentPrice - Current closing price
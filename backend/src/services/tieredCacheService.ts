@@ -0,0 +1,311 @@
+import { cacheService, getCacheNamespace } from './cacheService.js';
+import { runWithPriority } from './marketData/index.js';
+
+/**
+ * Two-tier cache for market data: an in-process LRU in front of Redis
+ *
+ * - Fresh entries are served as-is
+ * - Stale entries (past the fresh TTL, inside the stale window) are served
+ *   immediately while one background load refreshes them (stale-while-revalidate);
+ *   the refresh is queued at background priority, not the caller's
+ * - When a load fails, an entry that is still held is served instead of the error
+ * - Concurrent misses for the same key share one load (stampede protection)
+ * - A load that was in flight when its key was invalidated doesn't store its result
+ *
+ * Redis keeps entries for a day past their stale window so there is something
+ * to fall back on during provider outages; without Redis the LRU alone is used.
+ */
+
+export interface CachePolicy {
+  // Served without revalidation for this long
+  freshSeconds: number;
+  // Then served while revalidating in the background for this long
+  staleSeconds: number;
+}
+
+export interface CacheResult<T> {
+  data: T;
+  cached: boolean;
+  // True when the data is past its fresh TTL (being revalidated or a fallback)
+  stale: boolean;
+}
+
+export interface TieredCacheStats {
+  l1Entries: number;
+  l1MaxEntries: number;
+  l1Hits: number;
+  l2Hits: number;
+  misses: number;
+  staleServed: number;
+  fallbackServed: number;
+  inFlightLoads: number;
+}
+
+export interface NamespaceCounters {
+  hits: number; // from either tier
+  misses: number;
+  staleServed: number;
+}
+
+export interface StoredEntry<T> {
+  value: T;
+  storedAt: number;
+  freshUntil: number;
+  staleUntil: number;
+}
+
+// Entries past their stale window are kept this long as a fallback for failed loads
+const FALLBACK_SECONDS = 24 * 60 * 60;
+// Full daily histories are large, so the in-process tier stays small
+const L1_MAX_ENTRIES = 200;
+
+// Cache policies for market data responses
+export const CachePolicies = {
+  DAILY_BARS: { freshSeconds: 5 * 60, staleSeconds: 55 * 60 },
+  INTRADAY_BARS: { freshSeconds: 60, staleSeconds: 4 * 60 },
+  // Past months of intraday history no longer change
+  INTRADAY_MONTH: { freshSeconds: 24 * 60 * 60, staleSeconds: 6 * 24 * 60 * 60 },
+  CORPORATE_ACTIONS: { freshSeconds: 60 * 60, staleSeconds: 23 * 60 * 60 },
+  EVENTS: { freshSeconds: 60 * 60, staleSeconds: 5 * 60 * 60 },
+  SYMBOL_SEARCH: { freshSeconds: 24 * 60 * 60, staleSeconds: 6 * 24 * 60 * 60 },
+} as const satisfies Record<string, CachePolicy>;
+
+class TieredCacheService {
+  private lru: Map<string, StoredEntry<unknown>> = new Map();
+  private loads: Map<string, Promise<unknown>> = new Map();
+  // Bumped when a key is invalidated while its load is in flight
+  private generations: Map<string, number> = new Map();
+  private hits = { l1: 0, l2: 0, misses: 0, stale: 0, fallback: 0 };
+  private namespaceCounters: Map<string, NamespaceCounters> = new Map();
+
+  /**
+   * Get a value from the cache, loading it on a miss
+   * @param key - Cache key (see CacheKeys)
+   * @param loader - Loads the value from the source (store or provider)
+   * @param policy - Fresh and stale TTLs for the value
+   * @returns The value, and whether it came from the cache and is stale
+   * @throws The loader's error when there is no cached value to fall back on
+   */
+  async getOrLoad<T>(key: string, loader: () => Promise<T>, policy: CachePolicy): Promise<CacheResult<T>> {
+    const entry = await this.lookup<T>(key);
+    const now = Date.now();
+
+    if (entry && now < entry.freshUntil) {
+      return { data: entry.value, cached: true, stale: false };
+    }
+
+    if (entry && now < entry.staleUntil) {
+      this.hits.stale++;
+      this.countNamespace(key, 'staleServed');
+      runWithPriority('background', () => this.load(key, loader, policy)).catch((error) => {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.warn(`Cache: background refresh of ${key} failed:`, errorMessage);
+      });
+      return { data: entry.value, cached: true, stale: true };
+    }
+
+    try {
+      const value = await this.load(key, loader, policy);
+      return { data: value, cached: false, stale: false };
+    } catch (error) {
+      if (!entry) {
+        throw error;
+      }
+      this.hits.fallback++;
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`Cache: serving expired ${key} after load failure:`, errorMessage);
+      return { data: entry.value, cached: true, stale: true };
+    }
+  }
+
+  /**
+   * Remove a key from both tiers
+   */
+  async invalidate(key: string): Promise<void> {
+    this.lru.delete(key);
+    this.abandonLoad(key);
+    await cacheService.delete(key);
+  }
+
+  /**
+   * Remove every key matching a pattern from both tiers
+   * @param pattern - Redis glob pattern; only * and ? are supported for the LRU
+   * @returns Number of keys deleted (from Redis, or from the LRU when Redis is unavailable)
+   */
+  async invalidatePattern(pattern: string): Promise<number> {
+    const matcher = globToRegExp(pattern);
+    for (const key of [...this.loads.keys()]) {
+      if (matcher.test(key)) {
+        this.abandonLoad(key);
+      }
+    }
+
+    let localDeleted = 0;
+    for (const key of [...this.lru.keys()]) {
+      if (matcher.test(key)) {
+        this.lru.delete(key);
+        localDeleted++;
+      }
+    }
+
+    const deleted = await cacheService.deletePattern(pattern);
+    return cacheService.isAvailable() ? deleted : localDeleted;
+  }
+
+  /**
+   * Empty the in-process tier (Redis is cleared through cacheService)
+   * @returns Number of entries removed
+   */
+  clearLocal(): number {
+    const size = this.lru.size;
+    for (const key of [...this.loads.keys()]) {
+      this.abandonLoad(key);
+    }
+    this.lru.clear();
+    return size;
+  }
+
+  /**
+   * Look at a key's in-process entry without counting a hit or refreshing its LRU position
+   */
+  peek(key: string): StoredEntry<unknown> | null {
+    return this.lru.get(key) ?? null;
+  }
+
+  /**
+   * Hit/miss counters per namespace since startup
+   */
+  getNamespaceCounters(): Record<string, NamespaceCounters> {
+    return Object.fromEntries(
+      [...this.namespaceCounters.entries()].map(([namespace, counters]) => [namespace, { ...counters }])
+    );
+  }
+
+  /**
+   * Hit/miss counters and LRU size, for monitoring
+   */
+  getStats(): TieredCacheStats {
+    return {
+      l1Entries: this.lru.size,
+      l1MaxEntries: L1_MAX_ENTRIES,
+      l1Hits: this.hits.l1,
+      l2Hits: this.hits.l2,
+      misses: this.hits.misses,
+      staleServed: this.hits.stale,
+      fallbackServed: this.hits.fallback,
+      inFlightLoads: this.loads.size,
+    };
+  }
+
+  /**
+   * Load a value once per key at a time and store it in both tiers, unless
+   * the key was invalidated while the load was in flight
+   */
+  private load<T>(key: string, loader: () => Promise<T>, policy: CachePolicy): Promise<T> {
+    let pending = this.loads.get(key) as Promise<T> | undefined;
+    if (!pending) {
+      const generation = this.generations.get(key) ?? 0;
+      const started: Promise<T> = loader()
+        .then(async (value) => {
+          if ((this.generations.get(key) ?? 0) === generation) {
+            await this.store(key, value, policy);
+          }
+          return value;
+        })
+        .finally(() => {
+          if (this.loads.get(key) === started) {
+            this.loads.delete(key);
+          }
+        });
+      pending = started;
+      this.loads.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Stop an in-flight load from storing its result; later callers start a new load
+   */
+  private abandonLoad(key: string): void {
+    if (!this.loads.has(key)) {
+      return;
+    }
+    this.loads.delete(key);
+    this.generations.set(key, (this.generations.get(key) ?? 0) + 1);
+  }
+
+  private async lookup<T>(key: string): Promise<StoredEntry<T> | null> {
+    const local = this.lru.get(key) as StoredEntry<T> | undefined;
+    if (local && Date.now() < local.staleUntil + FALLBACK_SECONDS * 1000) {
+      this.hits.l1++;
+      this.countNamespace(key, 'hits');
+      this.remember(key, local);
+      return local;
+    }
+
+    const remote = await cacheService.getJSON<StoredEntry<T>>(key);
+    if (remote) {
+      this.hits.l2++;
+      this.countNamespace(key, 'hits');
+      this.remember(key, remote);
+      return remote;
+    }
+
+    this.hits.misses++;
+    this.countNamespace(key, 'misses');
+    this.lru.delete(key);
+    return null;
+  }
+
+  private async store<T>(key: string, value: T, policy: CachePolicy): Promise<void> {
+    const now = Date.now();
+    const entry: StoredEntry<T> = {
+      value,
+      storedAt: now,
+      freshUntil: now + policy.freshSeconds * 1000,
+      staleUntil: now + (policy.freshSeconds + policy.staleSeconds) * 1000,
+    };
+
+    this.remember(key, entry);
+    await cacheService.setJSON(key, entry, policy.freshSeconds + policy.staleSeconds + FALLBACK_SECONDS);
+  }
+
+  /**
+   * Insert or refresh an LRU entry, evicting the least recently used beyond the limit
+   */
+  private remember(key: string, entry: StoredEntry<unknown>): void {
+    this.lru.delete(key);
+    this.lru.set(key, entry);
+
+    while (this.lru.size > L1_MAX_ENTRIES) {
+      const oldest = this.lru.keys().next().value;
+      if (oldest === undefined) break;
+      this.lru.delete(oldest);
+    }
+  }
+
+  private countNamespace(key: string, counter: keyof NamespaceCounters): void {
+    const namespace = getCacheNamespace(key);
+    const counters = this.namespaceCounters.get(namespace) ?? { hits: 0, misses: 0, staleServed: 0 };
+    counters[counter]++;
+    this.namespaceCounters.set(namespace, counters);
+  }
+}
+
+/**
+ * Convert a Redis glob pattern (* and ?) to an anchored regular expression
+ */
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+// Export singleton instance
+export const tieredCache = new TieredCacheService();
@@ -1,6 +1,7 @@
 // Watchlist service for database operations related to user watchlists
 
 import { query } from '../utils/db.js';
+import { canonicalSymbol } from '../utils/symbol.js';
 
 // Watchlist item structure
 export interface WatchlistItem {
@@ -54,7 +55,7 @@ export async function addToWatchlist(
       `INSERT INTO user_watchlists (user_id, stock_symbol)
        VALUES ($1, $2)
        RETURNING stock_symbol as symbol, added_at`,
-      [userId, symbol.toUpperCase()]
+      [userId, canonicalSymbol(symbol)]
     );
 
     if (result.rows.length === 0) {
@@ -88,7 +89,7 @@ export async function removeFromWatchlist(
     const result = await query(
       `DELETE FROM user_watchlists
        WHERE user_id = $1 AND stock_symbol = $2`,
-      [userId, symbol.toUpperCase()]
+      [userId, canonicalSymbol(symbol)]
     );
 
     // Return true if at least one row was deleted
@@ -115,7 +116,7 @@ export async function isInWatchlist(
          SELECT 1 FROM user_watchlists
          WHERE user_id = $1 AND stock_symbol = $2
        ) as exists`,
-      [userId, symbol.toUpperCase()]
+      [userId, canonicalSymbol(symbol)]
     );
 
     return result.rows[0]?.exists ?? false;
@@ -1,78 +1,111 @@
 import { WebSocketServer, WebSocket } from 'ws';
-import { Server as HTTPServer } from 'http';
+import { Server as HTTPServer, IncomingMessage } from 'http';
+import { normalizeSymbol, canonicalSymbol } from '../utils/symbol.js';
+import { verifyToken } from '../utils/auth.js';
+import { JwtPayload } from '../types/auth.js';
+import { LIVE_BAR_INTERVALS } from './liveBarService.js';
+import { clusterService } from './clusterService.js';
+import {
+  PROTOCOL_VERSION,
+  CLOSE_UNSUPPORTED_VERSION,
+  CLOSE_HANDSHAKE_REQUIRED,
+  CLOSE_TOKEN_EXPIRED,
+  ClientMessage,
+  UnsequencedMessage,
+  ErrorCode,
+  RejectedSymbol,
+  PriceUpdateData,
+  LiveBar,
+  LiveBarInterval,
+  ReplaySessionInfo,
+  UserChannel,
+} from '../types/wsProtocol.js';
 
 /**
- * WebSocket message types
+ * Client connection info
  */
-export enum MessageType {
-  SUBSCRIBE = 'subscribe',
-  UNSUBSCRIBE = 'unsubscribe',
-  PRICE_UPDATE = 'price_update',
-  ERROR = 'error',
-  HEARTBEAT = 'heartbeat',
-  PONG = 'pong',
+interface ClientInfo {
+  ws: WebSocket;
+  user: JwtPayload | null; // null for anonymous connections
+  principal: string; // Who limits apply to: user:<id>, or ip:<address> when anonymous
+  expiryTimer: NodeJS.Timeout | null;
+  subscriptions: Set<string>;
+  barIntervals: Map<string, Set<LiveBarInterval>>; // Live bars requested per subscribed symbol
+  replaySessions: Set<string>;
+  isAlive: boolean;
+  handshakeComplete: boolean;
+  handshakeTimer: NodeJS.Timeout | null;
+  seq: number; // seq of the last message sent (or dropped)
 }
 
 /**
- * Client message interface
+ * Looks up a user's replay session by id (registered by the replay service)
+ * Returns null when the session doesn't exist or belongs to another user.
  */
-interface ClientMessage {
-  type: MessageType;
-  symbol?: string;
-}
+export type ReplaySessionLookup = (sessionId: string, userId: number) => ReplaySessionInfo | null;
 
 /**
- * Price update data interface
+ * Current quote of a symbol, sent as a snapshot on subscribe (registered by the
+ * real-time price service)
  */
-export interface PriceUpdateData {
-  price: number;
-  change: number;
-  changePercent: number;
-  volume: number;
-  timestamp: string;
-  open?: number;
-  high?: number;
-  low?: number;
-}
+export type SnapshotProvider = (symbol: string) => PriceUpdateData | null;
 
 /**
- * Server message interface
+ * Current live bar of a symbol, sent after the snapshot to clients that asked
+ * for bars (registered by the real-time price service)
  */
-interface ServerMessage {
-  type: MessageType;
-  symbol?: string;
-  data?: PriceUpdateData;
-  message?: string;
-}
+export type BarSnapshotProvider = (symbol: string, interval: LiveBarInterval) => LiveBar | null;
 
 /**
- * Client connection info
+ * Limits shared by all connections of a user (or of an address when anonymous)
  */
-interface ClientInfo {
-  ws: WebSocket;
-  subscriptions: Set<string>;
-  isAlive: boolean;
+interface Entitlements {
+  maxConnections: number;
+  maxSubscriptions: number;
 }
 
 /**
  * WebSocket Service for real-time stock price updates
  * 
+ * Speaks protocol v2, see types/wsProtocol.ts
+ *
  * Features:
  * - Connection management with automatic cleanup
- * - Symbol subscription tracking
+ * - Optional JWT authentication on the upgrade request; the connection closes
+ *   when the token expires
+ * - Version handshake: clients on another protocol version are closed
+ * - Batch symbol subscriptions with acks and a snapshot per symbol
+ * - Live bars (1min to daily) streamed per symbol to the clients that ask for them
+ * - Per-connection sequence numbers so clients can detect dropped messages
  * - Heartbeat/ping-pong for dead connection detection
- * - Per-client subscription limits
+ * - Connection and subscription limits per user (per address when anonymous)
+ * - User-scoped channels (alerts, notifications) delivered to all of a user's connections
  * - Efficient symbol-to-clients mapping for broadcasts
+ * - Replay sessions: clients join a session by id and receive its replayed
+ *   price updates, tagged with the session so they are never mistaken for live data
  */
 class WebSocketService {
   private wss: WebSocketServer | null = null;
   private clients: Map<WebSocket, ClientInfo> = new Map();
+  // Connections per principal, for per-user limits and user-scoped channels
+  private principalConnections: Map<string, Set<WebSocket>> = new Map();
+  // Users authenticated during the upgrade, picked up when the connection opens
+  private upgradeUsers: WeakMap<IncomingMessage, JwtPayload | null> = new WeakMap();
   private symbolSubscriptions: Map<string, Set<WebSocket>> = new Map();
+  private replaySubscriptions: Map<string, Set<WebSocket>> = new Map();
+  private replaySessionLookup: ReplaySessionLookup | null = null;
+  private snapshotProvider: SnapshotProvider | null = null;
+  private barSnapshotProvider: BarSnapshotProvider | null = null;
   private heartbeatInterval: NodeJS.Timeout | null = null;
   
   // Configuration
-  private readonly MAX_SUBSCRIPTIONS_PER_CLIENT = 50;
+  private readonly ANONYMOUS_ENTITLEMENTS: Entitlements = { maxConnections: 5, maxSubscriptions: 50 };
+  private readonly USER_ENTITLEMENTS: Entitlements = { maxConnections: 10, maxSubscriptions: 200 };
+  private readonly MAX_REPLAY_SESSIONS_PER_CLIENT = 5;
   private readonly HEARTBEAT_INTERVAL_MS = 30000; // 30 seconds
+  private readonly HANDSHAKE_TIMEOUT_MS = 10000;
+  // Price and bar updates are skipped while this much is still queued for a slow client
+  private readonly MAX_BUFFERED_BYTES = 1024 * 1024;
 
   /**
    * Initialize WebSocket server
@@ -85,38 +118,125 @@ class WebSocketService {
 
     this.wss = new WebSocketServer({ 
       server,
-      path: '/ws'
+      path: '/ws',
+      verifyClient: (info, done) => this.verifyClient(info.req, done),
     });
 
-    console.log('WebSocket server initialized on path: /ws');
+    console.log(`WebSocket server initialized on path: /ws (protocol v${PROTOCOL_VERSION})`);
 
     // Handle new connections
-    this.wss.on('connection', (ws: WebSocket) => {
-      this.handleConnection(ws);
+    this.wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
+      this.handleConnection(ws, req);
     });
 
     // Start heartbeat monitoring
     this.startHeartbeat();
+
+    // Events raised for our users on other nodes
+    clusterService.setUserEventHandler((event) => {
+      this.deliverToUser(event.userId, event.channel, event.data);
+    });
+  }
+
+  /**
+   * Authenticate an upgrade request and enforce the connection limit
+   * An absent token makes an anonymous connection; an invalid one is refused.
+   */
+  private verifyClient(
+    req: IncomingMessage,
+    done: (result: boolean, code?: number, message?: string) => void
+  ): void {
+    const token = this.getRequestToken(req);
+    let user: JwtPayload | null = null;
+
+    if (token) {
+      try {
+        user = verifyToken(token);
+      } catch (error) {
+        done(false, 401, error instanceof Error ? error.message : 'Invalid token');
+        return;
+      }
+    }
+
+    const { maxConnections } = this.getEntitlements(user);
+    const connections = this.principalConnections.get(this.getPrincipal(user, req))?.size ?? 0;
+    if (connections >= maxConnections) {
+      done(false, 429, `Maximum connections limit reached (${maxConnections})`);
+      return;
+    }
+
+    this.upgradeUsers.set(req, user);
+    done(true);
+  }
+
+  /**
+   * JWT from the token query parameter (browsers can't set headers on a
+   * WebSocket) or the Authorization header
+   */
+  private getRequestToken(req: IncomingMessage): string | null {
+    const queryToken = new URL(req.url ?? '/', 'http://localhost').searchParams.get('token');
+    if (queryToken) {
+      return queryToken;
+    }
+
+    const parts = req.headers.authorization?.split(' ');
+    return parts && parts.length === 2 && parts[0] === 'Bearer' ? parts[1] : null;
+  }
+
+  private getPrincipal(user: JwtPayload | null, req: IncomingMessage): string {
+    return user ? `user:${user.userId}` : `ip:${req.socket.remoteAddress || 'unknown'}`;
+  }
+
+  private getEntitlements(user: JwtPayload | null): Entitlements {
+    return user ? this.USER_ENTITLEMENTS : this.ANONYMOUS_ENTITLEMENTS;
   }
 
   /**
    * Handle new WebSocket connection
    */
-  private handleConnection(ws: WebSocket): void {
-    console.log('New WebSocket connection established');
+  private handleConnection(ws: WebSocket, req: IncomingMessage): void {
+    const user = this.upgradeUsers.get(req) ?? null;
+    const principal = this.getPrincipal(user, req);
+    console.log(`New WebSocket connection established (${user ? `user ${user.userId}` : 'anonymous'})`);
 
     // Initialize client info
     const clientInfo: ClientInfo = {
       ws,
+      user,
+      principal,
+      expiryTimer: null,
       subscriptions: new Set(),
+      barIntervals: new Map(),
+      replaySessions: new Set(),
       isAlive: true,
+      handshakeComplete: false,
+      // Clients must say hello before anything else
+      handshakeTimer: setTimeout(() => {
+        console.log('Client did not complete the handshake, closing connection');
+        ws.close(CLOSE_HANDSHAKE_REQUIRED, 'Handshake timeout');
+      }, this.HANDSHAKE_TIMEOUT_MS),
+      seq: 0,
     };
 
     this.clients.set(ws, clientInfo);
 
+    if (!this.principalConnections.has(principal)) {
+      this.principalConnections.set(principal, new Set());
+    }
+    this.principalConnections.get(principal)!.add(ws);
+
+    // Close cleanly once the token stops being valid
+    if (user?.exp) {
+      clientInfo.expiryTimer = setTimeout(() => {
+        console.log(`Token of user ${user.userId} expired, closing connection`);
+        this.sendError(clientInfo, 'token_expired', 'Session expired, sign in again');
+        ws.close(CLOSE_TOKEN_EXPIRED, 'Token expired');
+      }, Math.max(0, user.exp * 1000 - Date.now()));
+    }
+
     // Set up event handlers
     ws.on('message', (data: Buffer) => {
-      this.handleMessage(ws, data);
+      this.handleMessage(clientInfo, data);
     });
 
     ws.on('close', () => {
@@ -130,115 +250,308 @@ class WebSocketService {
 
     // Handle pong responses for heartbeat
     ws.on('pong', () => {
-      const client = this.clients.get(ws);
-      if (client) {
-        client.isAlive = true;
-      }
+      clientInfo.isAlive = true;
     });
   }
 
   /**
    * Handle incoming messages from clients
    */
-  private handleMessage(ws: WebSocket, data: Buffer): void {
+  private handleMessage(client: ClientInfo, data: Buffer): void {
+    let message: ClientMessage;
     try {
-      const message: ClientMessage = JSON.parse(data.toString());
-
-      switch (message.type) {
-        case MessageType.SUBSCRIBE:
-          if (message.symbol) {
-            this.handleSubscribe(ws, message.symbol);
-          } else {
-            this.sendError(ws, 'Symbol is required for subscription');
-          }
-          break;
-
-        case MessageType.UNSUBSCRIBE:
-          if (message.symbol) {
-            this.handleUnsubscribe(ws, message.symbol);
-          } else {
-            this.sendError(ws, 'Symbol is required for unsubscription');
-          }
-          break;
-
-        case MessageType.PONG:
-          // Client responded to heartbeat
-          const client = this.clients.get(ws);
-          if (client) {
-            client.isAlive = true;
-          }
-          break;
-
-        default:
-          this.sendError(ws, `Unknown message type: ${message.type}`);
-      }
+      message = JSON.parse(data.toString());
     } catch (error) {
       console.error('Error parsing message:', error);
-      this.sendError(ws, 'Invalid message format');
+      this.sendError(client, 'invalid_message', 'Invalid message format');
+      return;
     }
-  }
 
-  /**
-   * Handle client subscription to a symbol
-   */
-  private handleSubscribe(ws: WebSocket, symbol: string): void {
-    const client = this.clients.get(ws);
-    if (!client) {
+    if (!message || typeof message !== 'object' || typeof message.type !== 'string') {
+      this.sendError(client, 'invalid_message', 'Message type is required');
       return;
     }
 
-    // Validate symbol format (basic validation)
-    const normalizedSymbol = symbol.toUpperCase().trim();
-    if (!normalizedSymbol || normalizedSymbol.length > 10) {
-      this.sendError(ws, 'Invalid symbol format');
+    const id = typeof message.id === 'string' || typeof message.id === 'number' ? String(message.id) : undefined;
+
+    if (!client.handshakeComplete) {
+      if (message.type === 'hello') {
+        this.handleHello(client, message.version, id);
+      } else {
+        this.sendError(client, 'handshake_required', `Send hello with protocol version ${PROTOCOL_VERSION} first`, id);
+        client.ws.close(CLOSE_HANDSHAKE_REQUIRED, 'Handshake required');
+      }
       return;
     }
 
-    // Check subscription limit
-    if (client.subscriptions.size >= this.MAX_SUBSCRIPTIONS_PER_CLIENT) {
-      this.sendError(ws, `Maximum subscriptions limit reached (${this.MAX_SUBSCRIPTIONS_PER_CLIENT})`);
+    switch (message.type) {
+      case 'hello':
+        this.sendError(client, 'invalid_request', 'Handshake already completed', id);
+        break;
+
+      case 'subscribe':
+      case 'unsubscribe':
+        if (
+          !Array.isArray(message.symbols) ||
+          message.symbols.length === 0 ||
+          message.symbols.length > this.getEntitlements(client.user).maxSubscriptions ||
+          !message.symbols.every((symbol) => typeof symbol === 'string')
+        ) {
+          this.sendError(
+            client,
+            'invalid_request',
+            `symbols must be an array of 1 to ${this.getEntitlements(client.user).maxSubscriptions} symbols`,
+            id
+          );
+        } else if (
+          message.type === 'subscribe' &&
+          message.bars !== undefined &&
+          (!Array.isArray(message.bars) || !message.bars.every((interval) => LIVE_BAR_INTERVALS.includes(interval)))
+        ) {
+          this.sendError(client, 'invalid_request', `bars must be an array of ${LIVE_BAR_INTERVALS.join(', ')}`, id);
+        } else if (message.type === 'subscribe') {
+          this.handleSubscribe(client, message.symbols, message.bars, id);
+        } else {
+          this.handleUnsubscribe(client, message.symbols, id);
+        }
+        break;
+
+      case 'replay_join':
+      case 'replay_leave':
+        if (typeof message.sessionId !== 'string' || !message.sessionId) {
+          this.sendError(client, 'invalid_request', 'sessionId is required', id);
+        } else if (message.type === 'replay_join') {
+          this.handleReplayJoin(client, message.sessionId, id);
+        } else {
+          this.handleReplayLeave(client, message.sessionId, id);
+        }
+        break;
+
+      case 'pong':
+        // Client responded to heartbeat
+        client.isAlive = true;
+        if (id) {
+          this.send(client, { type: 'ack', id });
+        }
+        break;
+
+      default:
+        this.sendError(client, 'unknown_type', `Unknown message type: ${(message as { type: string }).type}`, id);
+    }
+  }
+
+  /**
+   * Complete the version handshake, or close a client speaking another protocol version
+   */
+  private handleHello(client: ClientInfo, version: unknown, id?: string): void {
+    if (client.handshakeTimer) {
+      clearTimeout(client.handshakeTimer);
+      client.handshakeTimer = null;
+    }
+
+    if (version !== PROTOCOL_VERSION) {
+      this.sendError(
+        client,
+        'unsupported_version',
+        `Protocol version ${String(version)} is not supported, expected ${PROTOCOL_VERSION}`,
+        id
+      );
+      client.ws.close(CLOSE_UNSUPPORTED_VERSION, 'Unsupported protocol version');
       return;
     }
 
-    // Add to client subscriptions
-    client.subscriptions.add(normalizedSymbol);
+    client.handshakeComplete = true;
+    const { maxConnections, maxSubscriptions } = this.getEntitlements(client.user);
+    this.send(client, {
+      type: 'welcome',
+      version: PROTOCOL_VERSION,
+      authenticated: client.user !== null,
+      maxSubscriptions,
+      maxConnections,
+    });
+  }
 
-    // Add to symbol subscriptions map
-    if (!this.symbolSubscriptions.has(normalizedSymbol)) {
-      this.symbolSubscriptions.set(normalizedSymbol, new Set());
+  /**
+   * Handle client subscription to a batch of symbols
+   * Valid symbols are subscribed even when others in the batch are rejected;
+   * each subscribed symbol is followed by a snapshot of its current quote, then
+   * its current live bars when bars were requested.
+   * The subscription limit counts distinct symbols across the user's connections.
+   * @param bars - Live bar intervals replacing the symbols' earlier ones (undefined keeps them)
+   */
+  private handleSubscribe(client: ClientInfo, symbols: string[], bars: LiveBarInterval[] | undefined, id?: string): void {
+    const subscribed: string[] = [];
+    const rejected: RejectedSymbol[] = [];
+    const { maxSubscriptions } = this.getEntitlements(client.user);
+    const principalSymbols = this.getPrincipalSymbols(client.principal);
+
+    for (const symbol of symbols) {
+      // Validate and normalize symbol format (e.g. brk-b -> BRK.B)
+      const normalizedSymbol = normalizeSymbol(symbol);
+      if (!normalizedSymbol) {
+        rejected.push({ symbol, reason: 'invalid_symbol' });
+        continue;
+      }
+
+      // Check subscription limit
+      if (!principalSymbols.has(normalizedSymbol) && principalSymbols.size >= maxSubscriptions) {
+        rejected.push({ symbol, reason: 'subscription_limit' });
+        continue;
+      }
+
+      // Add to client subscriptions
+      client.subscriptions.add(normalizedSymbol);
+      principalSymbols.add(normalizedSymbol);
+
+      // Add to symbol subscriptions map
+      if (!this.symbolSubscriptions.has(normalizedSymbol)) {
+        this.symbolSubscriptions.set(normalizedSymbol, new Set());
+      }
+      this.symbolSubscriptions.get(normalizedSymbol)!.add(client.ws);
+
+      if (bars?.length) {
+        client.barIntervals.set(normalizedSymbol, new Set(bars));
+      } else if (bars) {
+        client.barIntervals.delete(normalizedSymbol);
+      }
+
+      if (!subscribed.includes(normalizedSymbol)) {
+        subscribed.push(normalizedSymbol);
+      }
     }
-    this.symbolSubscriptions.get(normalizedSymbol)!.add(ws);
 
-    console.log(`Client subscribed to ${normalizedSymbol}. Active symbols: ${this.symbolSubscriptions.size}`);
+    if (id) {
+      this.send(client, { type: 'ack', id, symbols: subscribed, rejected });
+    } else if (rejected.length > 0) {
+      this.sendError(
+        client,
+        'invalid_request',
+        `Could not subscribe to ${rejected.map((r) => `${r.symbol} (${r.reason})`).join(', ')}`
+      );
+    }
+
+    subscribed.forEach((symbol) => {
+      this.send(client, {
+        type: 'snapshot',
+        symbol,
+        data: this.snapshotProvider?.(symbol) ?? null,
+      });
+
+      client.barIntervals.get(symbol)?.forEach((interval) => {
+        const bar = this.barSnapshotProvider?.(symbol, interval) ?? null;
+        if (bar) {
+          this.send(client, { type: 'bar_update', symbol, interval, bar });
+        }
+      });
+    });
+
+    if (subscribed.length > 0) {
+      console.log(`Client subscribed to ${subscribed.join(', ')}. Active symbols: ${this.symbolSubscriptions.size}`);
+    }
   }
 
   /**
-   * Handle client unsubscription from a symbol
+   * Handle client unsubscription from a batch of symbols
    */
-  private handleUnsubscribe(ws: WebSocket, symbol: string): void {
-    const client = this.clients.get(ws);
-    if (!client) {
-      return;
+  private handleUnsubscribe(client: ClientInfo, symbols: string[], id?: string): void {
+    const unsubscribed: string[] = [];
+
+    for (const symbol of symbols) {
+      const normalizedSymbol = canonicalSymbol(symbol);
+
+      // Remove from client subscriptions
+      if (client.subscriptions.delete(normalizedSymbol)) {
+        unsubscribed.push(normalizedSymbol);
+      }
+      client.barIntervals.delete(normalizedSymbol);
+
+      // Remove from symbol subscriptions map
+      this.removeSymbolSubscriber(normalizedSymbol, client.ws);
     }
 
-    const normalizedSymbol = symbol.toUpperCase().trim();
+    if (id) {
+      this.send(client, { type: 'ack', id, symbols: unsubscribed });
+    }
 
-    // Remove from client subscriptions
-    client.subscriptions.delete(normalizedSymbol);
+    if (unsubscribed.length > 0) {
+      console.log(`Client unsubscribed from ${unsubscribed.join(', ')}. Active symbols: ${this.symbolSubscriptions.size}`);
+    }
+  }
 
-    // Remove from symbol subscriptions map
-    const symbolClients = this.symbolSubscriptions.get(normalizedSymbol);
+  /**
+   * Distinct symbols subscribed across all connections of a principal
+   */
+  private getPrincipalSymbols(principal: string): Set<string> {
+    const symbols = new Set<string>();
+    this.principalConnections.get(principal)?.forEach((ws) => {
+      this.clients.get(ws)?.subscriptions.forEach((symbol) => symbols.add(symbol));
+    });
+    return symbols;
+  }
+
+  private removeSymbolSubscriber(symbol: string, ws: WebSocket): void {
+    const symbolClients = this.symbolSubscriptions.get(symbol);
     if (symbolClients) {
       symbolClients.delete(ws);
-      
+
       // Clean up empty symbol subscriptions
       if (symbolClients.size === 0) {
-        this.symbolSubscriptions.delete(normalizedSymbol);
-        console.log(`No more subscribers for ${normalizedSymbol}. Active symbols: ${this.symbolSubscriptions.size}`);
+        this.symbolSubscriptions.delete(symbol);
+        console.log(`No more subscribers for ${symbol}. Active symbols: ${this.symbolSubscriptions.size}`);
       }
     }
+  }
+
+  /**
+   * Handle client joining a replay session
+   */
+  private handleReplayJoin(client: ClientInfo, sessionId: string, id?: string): void {
+    // Only the session's owner can join; others can't tell it exists
+    const session = client.user ? this.replaySessionLookup?.(sessionId, client.user.userId) ?? null : null;
+    if (!session) {
+      this.sendError(client, 'replay_not_found', `Replay session not found: ${sessionId}`, id);
+      return;
+    }
+
+    if (!client.replaySessions.has(sessionId) && client.replaySessions.size >= this.MAX_REPLAY_SESSIONS_PER_CLIENT) {
+      this.sendError(client, 'replay_limit', `Maximum replay sessions limit reached (${this.MAX_REPLAY_SESSIONS_PER_CLIENT})`, id);
+      return;
+    }
 
-    console.log(`Client unsubscribed from ${normalizedSymbol}`);
+    client.replaySessions.add(sessionId);
+    if (!this.replaySubscriptions.has(sessionId)) {
+      this.replaySubscriptions.set(sessionId, new Set());
+    }
+    this.replaySubscriptions.get(sessionId)!.add(client.ws);
+
+    if (id) {
+      this.send(client, { type: 'ack', id });
+    }
+    // Current position and status, so a paused session still shows where it is
+    this.send(client, { type: 'replay_status', symbol: session.symbol, replay: session });
+    console.log(`Client joined replay ${sessionId} (${session.symbol} ${session.date})`);
+  }
+
+  /**
+   * Handle client leaving a replay session
+   */
+  private handleReplayLeave(client: ClientInfo, sessionId: string, id?: string): void {
+    client.replaySessions.delete(sessionId);
+    this.removeReplaySubscriber(sessionId, client.ws);
+
+    if (id) {
+      this.send(client, { type: 'ack', id });
+    }
+  }
+
+  private removeReplaySubscriber(sessionId: string, ws: WebSocket): void {
+    const sessionClients = this.replaySubscriptions.get(sessionId);
+    if (sessionClients) {
+      sessionClients.delete(ws);
+      if (sessionClients.size === 0) {
+        this.replaySubscriptions.delete(sessionId);
+      }
+    }
   }
 
   /**
@@ -252,16 +565,24 @@ class WebSocketService {
 
     console.log('WebSocket connection closed');
 
+    if (client.handshakeTimer) {
+      clearTimeout(client.handshakeTimer);
+      client.handshakeTimer = null;
+    }
+    if (client.expiryTimer) {
+      clearTimeout(client.expiryTimer);
+      client.expiryTimer = null;
+    }
+
+    const principalClients = this.principalConnections.get(client.principal);
+    principalClients?.delete(ws);
+    if (principalClients?.size === 0) {
+      this.principalConnections.delete(client.principal);
+    }
+
     // Remove all subscriptions for this client
-    client.subscriptions.forEach((symbol) => {
-      const symbolClients = this.symbolSubscriptions.get(symbol);
-      if (symbolClients) {
-        symbolClients.delete(ws);
-        if (symbolClients.size === 0) {
-          this.symbolSubscriptions.delete(symbol);
-        }
-      }
-    });
+    client.subscriptions.forEach((symbol) => this.removeSymbolSubscriber(symbol, ws));
+    client.replaySessions.forEach((sessionId) => this.removeReplaySubscriber(sessionId, ws));
 
     // Remove client
     this.clients.delete(ws);
@@ -273,63 +594,173 @@ class WebSocketService {
    * Broadcast price update to all subscribed clients
    */
   broadcast(symbol: string, data: PriceUpdateData): void {
-    const normalizedSymbol = symbol.toUpperCase();
+    const normalizedSymbol = canonicalSymbol(symbol);
     const subscribedClients = this.symbolSubscriptions.get(normalizedSymbol);
 
     if (!subscribedClients || subscribedClients.size === 0) {
       return;
     }
 
-    const message: ServerMessage = {
-      type: MessageType.PRICE_UPDATE,
-      symbol: normalizedSymbol,
-      data,
-    };
-
-    const messageStr = JSON.stringify(message);
     let successCount = 0;
-    let errorCount = 0;
-
     subscribedClients.forEach((ws) => {
-      try {
-        if (ws.readyState === WebSocket.OPEN) {
-          ws.send(messageStr);
-          successCount++;
-        }
-      } catch (error) {
-        console.error(`Error sending to client:`, error);
-        errorCount++;
+      const client = this.clients.get(ws);
+      if (client && this.send(client, { type: 'price_update', symbol: normalizedSymbol, data })) {
+        successCount++;
       }
     });
 
     if (successCount > 0) {
       console.log(`Broadcast ${normalizedSymbol} update to ${successCount} clients`);
     }
-    if (errorCount > 0) {
-      console.error(`Failed to send to ${errorCount} clients`);
-    }
   }
 
   /**
-   * Send error message to client
+   * Send a live bar to the subscribed clients that asked for its interval
+   */
+  broadcastBar(symbol: string, interval: LiveBarInterval, bar: LiveBar): void {
+    const normalizedSymbol = canonicalSymbol(symbol);
+    this.symbolSubscriptions.get(normalizedSymbol)?.forEach((ws) => {
+      const client = this.clients.get(ws);
+      if (client?.barIntervals.get(normalizedSymbol)?.has(interval)) {
+        this.send(client, { type: 'bar_update', symbol: normalizedSymbol, interval, bar });
+      }
+    });
+  }
+
+  /**
+   * Send an event on a user-scoped channel to all of the user's connections,
+   * on this node and (through clusterService) on the others
+   * @returns Number of this node's connections it was delivered to
+   */
+  sendToUser(userId: number, channel: UserChannel, data: Record<string, unknown>): number {
+    clusterService.publishUserEvent({ userId, channel, data });
+    return this.deliverToUser(userId, channel, data);
+  }
+
+  private deliverToUser(userId: number, channel: UserChannel, data: Record<string, unknown>): number {
+    let delivered = 0;
+    this.principalConnections.get(`user:${userId}`)?.forEach((ws) => {
+      const client = this.clients.get(ws);
+      if (client?.handshakeComplete && this.send(client, { type: 'user_event', channel, data })) {
+        delivered++;
+      }
+    });
+    return delivered;
+  }
+
+  /**
+   * Get number of open connections of a user
    */
-  private sendError(ws: WebSocket, message: string): void {
+  getUserConnectionCount(userId: number): number {
+    return this.principalConnections.get(`user:${userId}`)?.size ?? 0;
+  }
+
+  /**
+   * Register how replay sessions are looked up when clients join them
+   */
+  setReplaySessionLookup(lookup: ReplaySessionLookup): void {
+    this.replaySessionLookup = lookup;
+  }
+
+  /**
+   * Register where the snapshot sent after a subscribe comes from
+   */
+  setSnapshotProvider(provider: SnapshotProvider): void {
+    this.snapshotProvider = provider;
+  }
+
+  /**
+   * Register where the live bars sent after a subscribe come from
+   */
+  setBarSnapshotProvider(provider: BarSnapshotProvider): void {
+    this.barSnapshotProvider = provider;
+  }
+
+  /**
+   * Send a replayed price update to the clients that joined the session
+   */
+  broadcastReplay(session: ReplaySessionInfo, data: PriceUpdateData): void {
+    this.sendToReplay(session.id, {
+      type: 'price_update',
+      symbol: session.symbol,
+      data,
+      replay: session,
+    });
+  }
+
+  /**
+   * Notify the clients that joined a session of a status change (pause, seek, speed, end)
+   */
+  broadcastReplayStatus(session: ReplaySessionInfo): void {
+    this.sendToReplay(session.id, {
+      type: 'replay_status',
+      symbol: session.symbol,
+      replay: session,
+    });
+  }
+
+  /**
+   * Detach all clients from a replay session that has been closed
+   */
+  closeReplay(sessionId: string): void {
+    const sessionClients = this.replaySubscriptions.get(sessionId);
+    sessionClients?.forEach((ws) => this.clients.get(ws)?.replaySessions.delete(sessionId));
+    this.replaySubscriptions.delete(sessionId);
+  }
+
+  /**
+   * Get number of clients watching a replay session
+   */
+  getReplaySubscriberCount(sessionId: string): number {
+    return this.replaySubscriptions.get(sessionId)?.size ?? 0;
+  }
+
+  private sendToReplay(sessionId: string, message: UnsequencedMessage): void {
+    this.replaySubscriptions.get(sessionId)?.forEach((ws) => {
+      const client = this.clients.get(ws);
+      if (client) {
+        this.send(client, message);
+      }
+    });
+  }
+
+  /**
+   * Send a message with the client's next sequence number
+   * @returns Whether the message was sent
+   */
+  private send(client: ClientInfo, message: UnsequencedMessage): boolean {
+    const { ws } = client;
     if (ws.readyState !== WebSocket.OPEN) {
-      return;
+      return false;
     }
 
-    const errorMessage: ServerMessage = {
-      type: MessageType.ERROR,
-      message,
-    };
+    client.seq++;
+
+    // A client that can't keep up misses price and bar updates; the seq gap tells it to resync
+    if (
+      (message.type === 'price_update' || message.type === 'bar_update') &&
+      ws.bufferedAmount > this.MAX_BUFFERED_BYTES
+    ) {
+      return false;
+    }
 
     try {
-      ws.send(JSON.stringify(errorMessage));
+      ws.send(JSON.stringify({ ...message, seq: client.seq }));
+      return true;
     } catch (error) {
-      console.error('Error sending error message:', error);
+      console.error('Error sending message to client:', error);
+      return false;
     }
   }
 
+  /**
+   * Send error message to client
+   * @param id - Request the error answers, if it had one
+   */
+  private sendError(client: ClientInfo, code: ErrorCode, message: string, id?: string): void {
+    this.send(client, { type: 'error', code, message, ...(id ? { id } : {}) });
+  }
+
   /**
    * Start heartbeat monitoring to detect dead connections
    */
@@ -381,7 +812,7 @@ class WebSocketService {
    * Get number of subscribers for a symbol
    */
   getSubscriberCount(symbol: string): number {
-    const normalizedSymbol = symbol.toUpperCase();
+    const normalizedSymbol = canonicalSymbol(symbol);
     const subscribers = this.symbolSubscriptions.get(normalizedSymbol);
     return subscribers ? subscribers.size : 0;
   }
@@ -416,8 +847,18 @@ class WebSocketService {
     }
 
     // Clear data structures
+    this.clients.forEach((client) => {
+      if (client.handshakeTimer) {
+        clearTimeout(client.handshakeTimer);
+      }
+      if (client.expiryTimer) {
+        clearTimeout(client.expiryTimer);
+      }
+    });
     this.clients.clear();
+    this.principalConnections.clear();
     this.symbolSubscriptions.clear();
+    this.replaySubscriptions.clear();
 
     console.log('WebSocket server shutdown complete');
   }
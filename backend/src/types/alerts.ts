@@ -0,0 +1,78 @@
+// Price alert types (see services/alertService.ts and services/alertEvaluatorService.ts)
+
+import { AlertCondition, IndicatorAlertTimeframe, IndicatorRule } from './wsProtocol.js';
+
+// Conditions, indicator rules and trigger events are part of the WebSocket protocol (user_event on the alerts channel)
+export type {
+  AlertCondition,
+  AlertTriggeredEvent,
+  IndicatorAlertTimeframe,
+  IndicatorComparison,
+  IndicatorName,
+  IndicatorOperand,
+  IndicatorRule,
+} from './wsProtocol.js';
+
+// Active alerts are evaluated; triggered ones wait to be re-armed
+export type AlertStatus = 'active' | 'triggered';
+
+export interface PriceAlert {
+  id: number;
+  userId: number;
+  symbol: string;
+  condition: AlertCondition;
+  target: number | null; // Price level, or day change in percent for percent_change (negative for a drop)
+  timeframe: IndicatorAlertTimeframe | null; // Indicator alerts: checked when a bar of it closes
+  rule: IndicatorRule | null; // Indicator alerts only
+  rearm: boolean; // Return to active once the condition no longer holds
+  note: string | null;
+  status: AlertStatus;
+  triggerCount: number;
+  lastTriggeredAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AlertHistoryEntry {
+  id: number;
+  alertId: number | null; // null once the alert is deleted
+  symbol: string;
+  condition: AlertCondition;
+  target: number | null;
+  timeframe: IndicatorAlertTimeframe | null;
+  rule: IndicatorRule | null;
+  price: number; // Bar close for indicator alerts
+  changePercent: number | null;
+  indicators: Record<string, number> | null; // Indicator alerts: values at the closed bar
+  barTime: string | null; // Indicator alerts: open time of the closed bar
+  triggeredAt: string;
+}
+
+// What fired an alert, as recorded in its history
+export interface AlertTriggerInput {
+  price: number;
+  changePercent: number | null;
+  indicators?: Record<string, number>;
+  barTime?: string;
+}
+
+export interface CreateAlertInput {
+  symbol: string;
+  condition: AlertCondition;
+  target: number | null;
+  timeframe: IndicatorAlertTimeframe | null;
+  rule: IndicatorRule | null;
+  rearm: boolean;
+  note: string | null;
+}
+
+// Changing the condition (given with its target, or timeframe and rule) re-arms the alert, as does status: 'active'
+export interface UpdateAlertInput {
+  condition?: AlertCondition;
+  target?: number | null;
+  timeframe?: IndicatorAlertTimeframe | null;
+  rule?: IndicatorRule | null;
+  rearm?: boolean;
+  note?: string | null;
+  status?: 'active';
+}
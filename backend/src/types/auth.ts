@@ -6,6 +6,7 @@ import { Request } from 'express';
 export interface JwtPayload {
   userId: number;
   email: string;
+  exp?: number; // Expiry in seconds since epoch, added when the token is signed
 }
 
 // Extended Express Request with authenticated user
@@ -0,0 +1,121 @@
+// Market data provider types shared by all provider adapters
+
+import { OHLCVData, IntradayInterval } from './stock.js';
+
+// How much history a provider call should return
+// compact = latest 100 bars, full = everything the provider has
+export type OutputSize = 'compact' | 'full';
+
+// Names accepted by the MARKET_DATA_PROVIDER environment variable
+export type MarketDataProviderName = 'alphavantage' | 'csv' | 'synthetic';
+
+// Kind of instrument a symbol refers to (see utils/symbol.ts)
+// equity: exchange-listed shares and funds; crypto / fx: currency pairs such as BTC-USD, EUR-USD
+export type AssetClass = 'equity' | 'crypto' | 'fx';
+
+export interface FetchBarsOptions {
+  outputSize: OutputSize;
+  // Intraday only: return every bar of this calendar month (YYYY-MM, exchange time)
+  // instead of the latest bars; outputSize is ignored
+  month?: string;
+}
+
+// Interval key used by the persistent bar store (ohlcv_bars.interval)
+export type BarInterval = 'daily' | IntradayInterval;
+
+// Chart timeframes served by GET /api/stock/:symbol/bars
+// 2hour/4hour are resampled from 60min bars; weekly/monthly/quarterly from daily bars
+export type BarTimeframe =
+  | '15min'
+  | '30min'
+  | '1hour'
+  | '2hour'
+  | '4hour'
+  | 'daily'
+  | 'weekly'
+  | 'monthly'
+  | 'quarterly';
+
+// Corporate actions used to build split- and dividend-adjusted series
+export type CorporateActionType = 'split' | 'dividend';
+
+export interface CorporateAction {
+  date: string; // Ex-date, YYYY-MM-DD
+  type: CorporateActionType;
+  // split: shares after / shares before (e.g. 4 for a 4-for-1 split)
+  // dividend: cash amount per share
+  value: number;
+}
+
+// Symbol lookup result returned by a provider's search endpoint
+export interface SymbolMatch {
+  symbol: string;
+  name: string;
+  exchange: string | null;
+  type: string | null; // e.g. Equity, ETF
+  currency: string | null;
+  assetClass: AssetClass;
+}
+
+// Quarterly earnings report; upcoming reports have no actual EPS yet
+export interface EarningsEvent {
+  date: string; // report date, YYYY-MM-DD
+  fiscalDateEnding: string | null; // last day of the reported quarter
+  epsEstimate: number | null;
+  epsActual: number | null;
+}
+
+// Dated event shown on charts and watchlists
+export type StockEventType = 'earnings' | 'ex_dividend';
+
+export interface StockEvent {
+  date: string; // YYYY-MM-DD
+  type: StockEventType;
+  // Earnings only
+  fiscalDateEnding?: string | null;
+  epsEstimate?: number | null;
+  epsActual?: number | null;
+  surprisePercent?: number | null;
+  // Ex-dividend only
+  dividendAmount?: number;
+}
+
+// Company fundamentals (valuation, growth, income) for a symbol
+// Ratios that are percentages are stored as percentages (2.5 = 2.5%)
+export interface Fundamentals {
+  symbol: string;
+  name: string | null;
+  sector: string | null;
+  industry: string | null;
+  marketCap: number | null;
+  peRatio: number | null;
+  eps: number | null;
+  epsGrowth: number | null; // quarterly EPS growth, year over year (%)
+  dividendYield: number | null; // trailing twelve months (%)
+  beta: number | null;
+  profitMargin: number | null; // trailing twelve months (%)
+}
+
+/**
+ * Contract implemented by every market data source
+ * Bars are returned sorted by timestamp, most recent first.
+ * Failures must be raised as MarketDataError subclasses (see services/marketData/errors.ts)
+ */
+export interface MarketDataProvider {
+  readonly name: MarketDataProviderName;
+  getDailyBars(symbol: string, options: FetchBarsOptions): Promise<OHLCVData[]>;
+  // Includes pre-market and after-hours bars where the source has them
+  getIntradayBars(
+    symbol: string,
+    interval: IntradayInterval,
+    options: FetchBarsOptions
+  ): Promise<OHLCVData[]>;
+  // Splits and dividends, sorted by date (most recent first)
+  getCorporateActions(symbol: string): Promise<CorporateAction[]>;
+  // Look up symbols by ticker or company name, best match first
+  searchSymbols(query: string): Promise<SymbolMatch[]>;
+  // Latest company fundamentals
+  getFundamentals(symbol: string): Promise<Fundamentals>;
+  // Past and scheduled earnings reports, sorted by date (most recent first)
+  getEarnings(symbol: string): Promise<EarningsEvent[]>;
+}
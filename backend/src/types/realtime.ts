@@ -0,0 +1,63 @@
+// Real-time feed types shared by all feed adapters (see services/realtime)
+
+// Names accepted by the REALTIME_FEED environment variable
+export type RealtimeFeedName = 'simulated' | 'websocket';
+
+export type FeedStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+// Last-sale print
+export interface Trade {
+  symbol: string; // canonical symbol
+  price: number;
+  size: number; // shares or units; 0 where the venue reports none (fx)
+  timestamp: string; // ISO
+}
+
+// Top-of-book quote
+export interface Quote {
+  symbol: string; // canonical symbol
+  bid: number;
+  ask: number;
+  bidSize: number;
+  askSize: number;
+  timestamp: string; // ISO
+}
+
+export interface FeedHealth {
+  feed: RealtimeFeedName;
+  status: FeedStatus;
+  connectedSince: string | null;
+  lastMessageAt: string | null;
+  // Failed attempts since the last successful connect
+  reconnectAttempts: number;
+  // Successful reconnects since start
+  reconnects: number;
+  subscriptions: number;
+  tradesReceived: number;
+  quotesReceived: number;
+  // Sequence gaps (dropped upstream messages) since start
+  gapsDetected: number;
+  lastError: string | null;
+}
+
+export type TradeListener = (trade: Trade) => void;
+export type QuoteListener = (quote: Quote) => void;
+
+/**
+ * Contract implemented by every real-time price source
+ * Symbols are canonical (see utils/symbol.ts). Subscriptions outlive the
+ * connection: adapters resubscribe everything after a reconnect.
+ */
+export interface RealtimeFeed {
+  readonly name: RealtimeFeedName;
+  // Open the connection; failures are retried with backoff rather than thrown
+  connect(): Promise<void>;
+  // Close the connection and stop reconnecting
+  disconnect(): Promise<void>;
+  subscribe(symbols: string[]): void;
+  unsubscribe(symbols: string[]): void;
+  // Register a listener; the returned function removes it
+  onTrade(listener: TradeListener): () => void;
+  onQuote(listener: QuoteListener): () => void;
+  getHealth(): FeedHealth;
+}
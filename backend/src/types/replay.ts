@@ -0,0 +1,14 @@
+// Historical market replay types (see services/replayService.ts)
+
+import { IntradayInterval } from './stock.js';
+
+// Session state is part of the WebSocket protocol, sent with every replayed message
+export type { ReplayStatus, ReplaySessionInfo } from './wsProtocol.js';
+
+export interface CreateReplayOptions {
+  symbol: string;
+  date: string; // Trading date, YYYY-MM-DD
+  speed: number; // Simulated seconds per wall-clock second (1 = real time)
+  interval: IntradayInterval;
+  extendedHours: boolean;
+}
@@ -0,0 +1,52 @@
+// Saved screen types (see services/savedScreenService.ts and services/screenRunService.ts)
+
+import { StockListFilters } from './stock.js';
+
+// Change notifications are part of the WebSocket protocol (user_event on the notifications channel)
+export type { ScreenChangedEvent } from './wsProtocol.js';
+
+// Stock list filters a screen runs with (paging isn't saved)
+export type ScreenFilters = Omit<StockListFilters, 'limit' | 'offset' | 'page'>;
+
+// How the screener shows the screen's results
+export interface ScreenDisplaySettings {
+  sort?: { field: string; direction: 'asc' | 'desc' };
+  pageSize?: number;
+}
+
+export interface SavedScreen {
+  id: number;
+  userId: number;
+  name: string;
+  filters: ScreenFilters;
+  display: ScreenDisplaySettings;
+  notify: boolean; // Send the symbols that entered or left after each run
+  filtersUpdatedAt: string; // Runs before this used other filters
+  lastRunAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScreenRun {
+  id: number;
+  screenId: number;
+  symbols: string[]; // Full result set, sorted
+  entered: string[]; // Since the run before (empty for the first run)
+  exited: string[];
+  matchCount: number;
+  runAt: string;
+}
+
+export interface CreateScreenInput {
+  name: string;
+  filters: ScreenFilters;
+  display: ScreenDisplaySettings;
+  notify: boolean;
+}
+
+export interface UpdateScreenInput {
+  name?: string;
+  filters?: ScreenFilters;
+  display?: ScreenDisplaySettings;
+  notify?: boolean;
+}
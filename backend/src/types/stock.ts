@@ -1,5 +1,7 @@
 // Stock data types for the application
 
+import { AssetClass } from './marketData.js';
+
 export interface OHLCVData {
   timestamp: string; // ISO format
   open: number;
@@ -7,6 +9,7 @@ export interface OHLCVData {
   low: number;
   close: number;
   volume: number;
+  session?: 'pre' | 'regular' | 'post'; // Intraday bars only
 }
 
 // Alpha Vantage API response types
@@ -29,6 +32,28 @@ export interface AlphaVantageTimeSeriesDaily {
   };
 }
 
+export interface AlphaVantageTimeSeriesDailyAdjusted {
+  'Meta Data': {
+    '1. Information': string;
+    '2. Symbol': string;
+    '3. Last Refreshed': string;
+    '4. Output Size': string;
+    '5. Time Zone': string;
+  };
+  'Time Series (Daily)': {
+    [date: string]: {
+      '1. open': string;
+      '2. high': string;
+      '3. low': string;
+      '4. close': string;
+      '5. adjusted close': string;
+      '6. volume': string;
+      '7. dividend amount': string;
+      '8. split coefficient': string;
+    };
+  };
+}
+
 export interface AlphaVantageTimeSeriesIntraday {
   'Meta Data': {
     '1. Information': string;
@@ -51,12 +76,6 @@ export interface ApiError {
   statusCode?: number;
 }
 
-// Cache entry type
-export interface CacheEntry<T> {
-  data: T;
-  timestamp: number;
-}
-
 // Stock metadata types for database
 export interface StockMetadata {
   id?: number;
@@ -66,6 +85,7 @@ export interface StockMetadata {
   market_cap?: number;
   exchange?: string;
   currency?: string;
+  asset_class?: AssetClass;
   last_updated?: Date;
   // Technical metrics (when joined with stock_metrics table)
   close_price?: number;
@@ -77,11 +97,22 @@ export interface StockMetadata {
   volume_spike?: number;
   avg_volume_20d?: number;
   metrics_date?: string;
+  // Fundamentals (when joined with stock_fundamentals table)
+  industry?: string;
+  pe_ratio?: number;
+  eps?: number;
+  eps_growth?: number;
+  dividend_yield?: number;
+  beta?: number;
+  profit_margin?: number;
+  fundamentals_updated_at?: Date;
 }
 
 // Stock list query filters
 export interface StockListFilters {
   sector?: string;
+  sectors?: string[]; // Any of these sectors
+  assetClass?: AssetClass;
   minMarketCap?: number;
   maxMarketCap?: number;
   minPrice?: number;
@@ -92,6 +123,16 @@ export interface StockListFilters {
   priceVsSma50?: 'above' | 'below';
   priceVsSma200?: 'above' | 'below';
   volumeSpikeMin?: number;
+  // Fundamental filters (percentages are in percent, e.g. 2.5 = 2.5%)
+  peMin?: number;
+  peMax?: number;
+  epsGrowthMin?: number;
+  dividendYieldMin?: number;
+  betaMin?: number;
+  betaMax?: number;
+  profitMarginMin?: number;
+  // Filter expression, e.g. "rsi < 30 and sector = 'Technology'" (utils/screenerExpression.ts)
+  expression?: string;
   limit?: number;
   offset?: number;
   page?: number;
@@ -116,3 +157,14 @@ export interface StockListResponse {
   limit: number;
   offset: number;
 }
+
+// Symbol search result (GET /api/stocks/search)
+export interface SymbolSearchResult {
+  symbol: string;
+  name: string;
+  exchange: string | null;
+  sector: string | null;
+  assetClass: AssetClass;
+  // local = stocks table, provider = market data provider lookup
+  source: 'local' | 'provider';
+}
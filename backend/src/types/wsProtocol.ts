@@ -0,0 +1,271 @@
+/**
+ * WebSocket protocol (/ws), shared by the backend and the frontend
+ *
+ * backend/src/types/wsProtocol.ts and frontend/src/types/wsProtocol.ts must stay
+ * identical: each app builds from its own directory, so the file is mirrored
+ * rather than imported across. Bump PROTOCOL_VERSION on any breaking change.
+ *
+ * Flow:
+ * - Signed-in clients pass their JWT on the upgrade request, as ?token= (browsers)
+ *   or an Authorization: Bearer header. Without one the connection is anonymous;
+ *   an invalid or expired token is refused (HTTP 401), as are connections past
+ *   the user's limit (HTTP 429). Authenticated connections are closed with
+ *   CLOSE_TOKEN_EXPIRED when the token expires
+ * - The client opens with hello { version }; the server answers welcome, or an
+ *   unsupported_version error and closes with CLOSE_UNSUPPORTED_VERSION
+ * - Requests may carry an id; the server answers each one with an ack or an
+ *   error echoing that id
+ * - subscribe is followed by one snapshot per subscribed symbol with its
+ *   current quote (null until the feed has traded it)
+ * - subscribe may also ask for live bars (bars: ['1min', 'daily', ...]); the
+ *   current bar of each interval follows the snapshot, then bar_update messages
+ *   as trades move it. Bars keep streaming until unsubscribe or bars: []
+ * - Every server message carries seq, incremented by one per message on the
+ *   connection. A gap means messages were dropped (e.g. a slow client), and the
+ *   client should resubscribe to get fresh snapshots
+ * - Authenticated connections also receive user_event messages for their user
+ *   (alerts, notifications) without subscribing
+ */
+
+export const PROTOCOL_VERSION = 2;
+
+// Close codes (4000-4999 are reserved for applications)
+export const CLOSE_UNSUPPORTED_VERSION = 4000;
+export const CLOSE_HANDSHAKE_REQUIRED = 4001;
+export const CLOSE_TOKEN_EXPIRED = 4002;
+
+// Price and daily stats for a symbol
+export interface PriceUpdateData {
+  price: number;
+  change: number;
+  changePercent: number;
+  volume: number;
+  timestamp: string; // ISO, time of the last trade
+  open?: number;
+  high?: number;
+  low?: number;
+}
+
+// Intervals of the bars built from live trades
+export type LiveBarInterval = '1min' | '5min' | '15min' | '60min' | 'daily';
+
+// Bar in progress (or just completed) built from live trades
+export interface LiveBar {
+  timestamp: string; // ISO, bar open time; daily bars are the session date at 00:00 UTC
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  session: 'pre' | 'regular' | 'post'; // Daily bars only count the regular session
+}
+
+// Historical replay session (see backend services/replayService.ts)
+export type ReplayStatus = 'playing' | 'paused' | 'ended';
+
+export interface ReplaySessionInfo {
+  id: string;
+  symbol: string;
+  assetClass: 'equity' | 'crypto' | 'fx';
+  date: string; // Trading date being replayed (YYYY-MM-DD)
+  interval: '1min' | '5min' | '15min' | '30min' | '60min';
+  extendedHours: boolean;
+  speed: number; // Simulated seconds per wall-clock second (1 = real time)
+  status: ReplayStatus;
+  startTime: string; // ISO, first bar
+  endTime: string; // ISO, end of the last bar
+  currentTime: string; // ISO, simulated clock
+  barIndex: number;
+  barCount: number;
+  createdAt: string;
+}
+
+// Client -> server
+
+export interface HelloMessage {
+  type: 'hello';
+  version: number;
+  id?: string;
+}
+
+export interface SubscribeMessage {
+  type: 'subscribe' | 'unsubscribe';
+  symbols: string[];
+  // subscribe only: live bar intervals for these symbols, replacing earlier ones
+  // (omitted keeps them, [] stops bars)
+  bars?: LiveBarInterval[];
+  id?: string;
+}
+
+export interface ReplayJoinMessage {
+  type: 'replay_join' | 'replay_leave';
+  sessionId: string;
+  id?: string;
+}
+
+export interface PongMessage {
+  type: 'pong';
+  id?: string;
+}
+
+export type ClientMessage = HelloMessage | SubscribeMessage | ReplayJoinMessage | PongMessage;
+
+// Server -> client
+
+export interface WelcomeMessage {
+  type: 'welcome';
+  seq: number;
+  version: number;
+  authenticated: boolean;
+  // Limits are per user (per address when anonymous), shared by all its connections
+  maxSubscriptions: number;
+  maxConnections: number;
+}
+
+export interface RejectedSymbol {
+  symbol: string;
+  reason: 'invalid_symbol' | 'subscription_limit';
+}
+
+export interface AckMessage {
+  type: 'ack';
+  seq: number;
+  id: string;
+  // subscribe/unsubscribe: canonical symbols applied (e.g. brk-b -> BRK.B) and those refused
+  symbols?: string[];
+  rejected?: RejectedSymbol[];
+}
+
+export type ErrorCode =
+  | 'invalid_message'
+  | 'unknown_type'
+  | 'handshake_required'
+  | 'unsupported_version'
+  | 'invalid_request'
+  | 'replay_not_found'
+  | 'replay_limit'
+  | 'token_expired';
+
+export interface ErrorMessage {
+  type: 'error';
+  seq: number;
+  id?: string; // Request the error answers, when it had one
+  code: ErrorCode;
+  message: string;
+}
+
+export interface SnapshotMessage {
+  type: 'snapshot';
+  seq: number;
+  symbol: string;
+  data: PriceUpdateData | null;
+}
+
+export interface PriceUpdateMessage {
+  type: 'price_update';
+  seq: number;
+  symbol: string;
+  data: PriceUpdateData;
+  // Present when the update comes from a replay session rather than the live feed
+  replay?: ReplaySessionInfo;
+}
+
+export interface BarUpdateMessage {
+  type: 'bar_update';
+  seq: number;
+  symbol: string;
+  interval: LiveBarInterval;
+  bar: LiveBar;
+}
+
+export interface ReplayStatusMessage {
+  type: 'replay_status';
+  seq: number;
+  symbol: string;
+  replay: ReplaySessionInfo;
+}
+
+// Channels delivered to all of a user's connections
+export type UserChannel = 'alerts' | 'notifications';
+
+// Price alert conditions (see backend services/alertEvaluatorService.ts)
+// indicator alerts compare indicator values when a bar closes (see IndicatorRule)
+export type AlertCondition = 'price_above' | 'price_below' | 'percent_change' | 'crosses' | 'indicator';
+
+// Chart timeframes indicator alerts are checked on (those with live bars)
+export type IndicatorAlertTimeframe = '15min' | '1hour' | 'daily';
+
+// Series an indicator rule can compare (see backend services/indicatorAlertService.ts)
+export type IndicatorName = 'close' | 'sma' | 'ema' | 'rsi' | 'macd' | 'macd_signal' | 'volume_ratio';
+
+export interface IndicatorOperand {
+  indicator: IndicatorName;
+  // sma/ema period, rsi period (default 14), or volume_ratio average period (default 20);
+  // macd and macd_signal are always 12/26/9
+  period?: number;
+}
+
+// crosses_* compare the closed bar with the bar before it
+export type IndicatorComparison = 'above' | 'below' | 'crosses_above' | 'crosses_below';
+
+// e.g. RSI(14) crosses below 30: { left: { indicator: 'rsi', period: 14 }, comparison: 'crosses_below', right: 30 }
+export interface IndicatorRule {
+  left: IndicatorOperand;
+  comparison: IndicatorComparison;
+  right: IndicatorOperand | number;
+}
+
+// data of a user_event on the alerts channel when one of the user's alerts fires
+export interface AlertTriggeredEvent {
+  type: 'alert_triggered';
+  alertId: number;
+  historyId: number;
+  symbol: string;
+  condition: AlertCondition;
+  target: number | null; // Price level, or day change in percent for percent_change; null for indicator
+  price: number; // Bar close for indicator alerts
+  changePercent: number | null; // Day change; null for indicator alerts
+  note: string | null;
+  rearm: boolean; // Fires again once the condition has cleared
+  message: string; // Human-readable summary, e.g. "AAPL crossed 200 at 200.15"
+  triggeredAt: string; // ISO
+  // Indicator alerts only
+  timeframe?: IndicatorAlertTimeframe;
+  rule?: IndicatorRule;
+  barTime?: string; // Open time of the closed bar (ISO)
+  indicators?: Record<string, number>; // Values at the closed bar, e.g. { 'RSI(14)': 28.4, Close: 181.2 }
+}
+
+// data of a user_event on the notifications channel when a saved screen's run
+// finds symbols that entered or left it (see backend services/screenRunService.ts)
+export interface ScreenChangedEvent {
+  type: 'screen_changed';
+  screenId: number;
+  runId: number;
+  name: string;
+  entered: string[];
+  exited: string[];
+  matchCount: number;
+  message: string; // Human-readable summary, e.g. "Oversold tech: AAPL, MSFT entered; TSLA left"
+  runAt: string; // ISO
+}
+
+export interface UserEventMessage {
+  type: 'user_event';
+  seq: number;
+  channel: UserChannel;
+  data: Record<string, unknown>;
+}
+
+export type ServerMessage =
+  | WelcomeMessage
+  | AckMessage
+  | ErrorMessage
+  | SnapshotMessage
+  | PriceUpdateMessage
+  | BarUpdateMessage
+  | ReplayStatusMessage
+  | UserEventMessage;
+
+// A server message before the connection assigns its seq
+export type UnsequencedMessage<M extends ServerMessage = ServerMessage> = M extends unknown ? Omit<M, 'seq'> : never;
@@ -0,0 +1,512 @@
+/**
+ * NYSE trading calendar and market sessions
+ *
+ * Holidays and early closes are derived from the exchange's rules rather than a
+ * hard-coded list, so the calendar works for any year. Session times are
+ * America/New_York wall-clock times; functions take and return UTC instants
+ * (milliseconds) and exchange dates as YYYY-MM-DD strings.
+ *
+ * Sessions:
+ * - pre:     04:00-09:30
+ * - regular: 09:30-16:00 (13:00 on early close days)
+ * - post:    16:00-20:00 (17:00 on early close days)
+ *
+ * Currency pairs have no exchange sessions (the getAsset* functions):
+ * - crypto trades around the clock; a trading day is a UTC calendar day
+ * - fx trades from Sunday 17:00 to Friday 17:00 New York time; each weekday's
+ *   trading day starts at 17:00 the evening before
+ * Both are a single regular session, without holidays.
+ */
+
+import { AssetClass } from '../types/marketData.js';
+
+export const MARKET_TIME_ZONE = 'America/New_York';
+
+export type MarketSession = 'pre' | 'regular' | 'post' | 'closed';
+
+// Session an intraday bar belongs to
+export type BarSession = Exclude<MarketSession, 'closed'>;
+
+export interface SessionWindow {
+  start: string; // ISO timestamp (UTC)
+  end: string; // ISO timestamp (UTC)
+}
+
+export interface TradingDay {
+  date: string; // YYYY-MM-DD (exchange date)
+  earlyClose: boolean;
+  pre: SessionWindow;
+  regular: SessionWindow;
+  post: SessionWindow;
+}
+
+export interface MarketStatus {
+  session: MarketSession;
+  isOpen: boolean; // true during the regular session only
+  date: string; // exchange date
+  holiday: string | null; // holiday name when the exchange date is a holiday
+  earlyClose: boolean;
+  nextOpen: string; // next regular session open (ISO)
+  nextClose: string; // close of the current or next regular session (ISO)
+}
+
+// Session boundaries in minutes after midnight, exchange time
+const PRE_OPEN = 4 * 60;
+const REGULAR_OPEN = 9 * 60 + 30;
+const REGULAR_CLOSE = 16 * 60;
+const EARLY_CLOSE = 13 * 60;
+const POST_CLOSE = 20 * 60;
+const EARLY_POST_CLOSE = 17 * 60;
+// FX trading days roll over at 17:00 New York time
+const FX_ROLLOVER = 17 * 60;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// One-off closures that no rule predicts
+const SPECIAL_CLOSURES: Record<string, string> = {
+  '2012-10-29': 'Hurricane Sandy',
+  '2012-10-30': 'Hurricane Sandy',
+  '2018-12-05': 'National Day of Mourning (George H.W. Bush)',
+  '2025-01-09': 'National Day of Mourning (Jimmy Carter)',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const LOCAL_DATETIME_PATTERN = /^(\d{4}-\d{2}-\d{2})[ T](\d{2}):(\d{2})(?::(\d{2}))?$/;
+
+const zonedFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: MARKET_TIME_ZONE,
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+});
+
+const holidayCache = new Map<number, Map<string, string>>();
+
+/**
+ * Get the exchange (America/New_York) calendar date of an instant
+ * @param time - UTC milliseconds (defaults to now)
+ * @returns Date in YYYY-MM-DD format
+ */
+export function getExchangeDate(time: number = Date.now()): string {
+  const parts = zonedParts(time);
+  return formatDate(parts.year, parts.month - 1, parts.day);
+}
+
+/**
+ * Get minutes after midnight, exchange time, of an instant
+ */
+export function getExchangeMinutes(time: number = Date.now()): number {
+  const parts = zonedParts(time);
+  return parts.hour * 60 + parts.minute;
+}
+
+/**
+ * Convert an exchange wall-clock time to a UTC instant, handling DST
+ * @param date - Exchange date (YYYY-MM-DD)
+ * @param minutes - Minutes after midnight, exchange time
+ * @returns UTC milliseconds
+ */
+export function exchangeTimeToUtc(date: string, minutes: number): number {
+  const local = Date.parse(`${date}T00:00:00Z`) + minutes * MINUTE_MS;
+  // The offset at the naive guess can be off by an hour across a DST change;
+  // a second pass with the offset at the corrected instant settles it
+  const guess = local - timeZoneOffset(local);
+  return local - timeZoneOffset(guess);
+}
+
+/**
+ * Parse a provider timestamp, treating times without a zone as exchange time
+ *
+ * - "2024-03-15" stays UTC midnight (the convention for daily bars)
+ * - "2024-03-15 09:30:00" is 09:30 America/New_York
+ * - Timestamps with an explicit zone ("...Z", "...-04:00") are kept as-is
+ *
+ * @param value - Timestamp string
+ * @returns Parsed date (invalid Date when unparseable)
+ */
+export function parseExchangeTimestamp(value: string): Date {
+  const text = value.trim();
+  if (DATE_PATTERN.test(text)) {
+    return new Date(`${text}T00:00:00Z`);
+  }
+
+  const match = text.match(LOCAL_DATETIME_PATTERN);
+  if (match) {
+    const [, date, hours, minutes, seconds] = match;
+    const time = exchangeTimeToUtc(date, parseInt(hours, 10) * 60 + parseInt(minutes, 10));
+    return new Date(time + parseInt(seconds ?? '0', 10) * 1000);
+  }
+
+  return new Date(text);
+}
+
+/**
+ * Get the name of the exchange holiday on a date
+ * @param date - Exchange date (YYYY-MM-DD)
+ * @returns Holiday name, or null when the exchange is not closed for a holiday
+ */
+export function getHoliday(date: string): string | null {
+  if (SPECIAL_CLOSURES[date]) {
+    return SPECIAL_CLOSURES[date];
+  }
+  return getHolidays(parseInt(date.slice(0, 4), 10)).get(date) ?? null;
+}
+
+/**
+ * Whether the exchange is open on a date (weekday and not a holiday)
+ */
+export function isTradingDay(date: string): boolean {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return weekday !== 0 && weekday !== 6 && getHoliday(date) === null;
+}
+
+/**
+ * Whether the regular session closes at 13:00 on a date
+ *
+ * Early closes: July 3, the day after Thanksgiving and Christmas Eve, when
+ * those are trading days
+ */
+export function isEarlyClose(date: string): boolean {
+  if (!isTradingDay(date)) {
+    return false;
+  }
+
+  const year = parseInt(date.slice(0, 4), 10);
+  const dayAfterThanksgiving = addDays(nthWeekday(year, 10, 4, 4), 1);
+  return date === `${year}-07-03` || date === `${year}-12-24` || date === dayAfterThanksgiving;
+}
+
+/**
+ * Get the session windows for a date
+ * @param date - Exchange date (YYYY-MM-DD)
+ * @returns Trading day, or null when the exchange is closed
+ */
+export function getTradingDay(date: string): TradingDay | null {
+  if (!isTradingDay(date)) {
+    return null;
+  }
+
+  const earlyClose = isEarlyClose(date);
+  const close = earlyClose ? EARLY_CLOSE : REGULAR_CLOSE;
+  const postClose = earlyClose ? EARLY_POST_CLOSE : POST_CLOSE;
+  const at = (minutes: number) => new Date(exchangeTimeToUtc(date, minutes)).toISOString();
+
+  return {
+    date,
+    earlyClose,
+    pre: { start: at(PRE_OPEN), end: at(REGULAR_OPEN) },
+    regular: { start: at(REGULAR_OPEN), end: at(close) },
+    post: { start: at(close), end: at(postClose) },
+  };
+}
+
+/**
+ * Get trading days in a date range (inclusive)
+ * @param from - First exchange date (YYYY-MM-DD)
+ * @param to - Last exchange date (YYYY-MM-DD)
+ * @returns Trading days, oldest first
+ */
+export function getTradingDays(from: string, to: string): TradingDay[] {
+  const days: TradingDay[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    const day = getTradingDay(date);
+    if (day) {
+      days.push(day);
+    }
+  }
+  return days;
+}
+
+/**
+ * Get the first trading day after a date
+ */
+export function nextTradingDate(date: string): string {
+  let next = addDays(date, 1);
+  while (!isTradingDay(next)) {
+    next = addDays(next, 1);
+  }
+  return next;
+}
+
+/**
+ * Get the last trading day before a date
+ */
+export function previousTradingDate(date: string): string {
+  let previous = addDays(date, -1);
+  while (!isTradingDay(previous)) {
+    previous = addDays(previous, -1);
+  }
+  return previous;
+}
+
+/**
+ * Get the market session at an instant
+ * @param time - UTC milliseconds (defaults to now)
+ */
+export function getMarketSession(time: number = Date.now()): MarketSession {
+  const day = getTradingDay(getExchangeDate(time));
+  if (!day) {
+    return 'closed';
+  }
+
+  if (time < Date.parse(day.pre.start) || time >= Date.parse(day.post.end)) {
+    return 'closed';
+  }
+  if (time < Date.parse(day.regular.start)) {
+    return 'pre';
+  }
+  return time < Date.parse(day.regular.end) ? 'regular' : 'post';
+}
+
+/**
+ * Get the session of an intraday bar from its open time
+ * Bars outside the extended sessions count as pre or post by time of day;
+ * currency pairs only have a regular session
+ * @param time - Bar open time, UTC milliseconds
+ * @param assetClass - Asset class of the bar's symbol
+ */
+export function getBarSession(time: number, assetClass: AssetClass = 'equity'): BarSession {
+  if (assetClass !== 'equity') {
+    return 'regular';
+  }
+
+  const minutes = getExchangeMinutes(time);
+  if (minutes < REGULAR_OPEN) {
+    return 'pre';
+  }
+
+  const close = isEarlyClose(getExchangeDate(time)) ? EARLY_CLOSE : REGULAR_CLOSE;
+  return minutes < close ? 'regular' : 'post';
+}
+
+/**
+ * Get the market status at an instant, including the next open and close
+ * @param time - UTC milliseconds (defaults to now)
+ */
+export function getMarketStatus(time: number = Date.now()): MarketStatus {
+  const date = getExchangeDate(time);
+  const session = getMarketSession(time);
+  const today = getTradingDay(date);
+
+  const next = getTradingDay(nextTradingDate(date))!;
+  const nextOpen = today && time < Date.parse(today.regular.start) ? today : next;
+  const nextClose = today && time < Date.parse(today.regular.end) ? today : next;
+
+  return {
+    session,
+    isOpen: session === 'regular',
+    date,
+    holiday: getHoliday(date),
+    earlyClose: isEarlyClose(date),
+    nextOpen: nextOpen.regular.start,
+    nextClose: nextClose.regular.end,
+  };
+}
+
+/**
+ * Get the trading day an instant belongs to for an asset class
+ * @param assetClass - Asset class
+ * @param time - UTC milliseconds (defaults to now)
+ * @returns Trading date (YYYY-MM-DD)
+ */
+export function getSessionDate(assetClass: AssetClass, time: number = Date.now()): string {
+  switch (assetClass) {
+    case 'crypto':
+      return new Date(time).toISOString().split('T')[0];
+    case 'fx':
+      // Evening trading after the rollover counts towards the next day
+      return getExchangeDate(time + (24 * 60 - FX_ROLLOVER) * MINUTE_MS);
+    default:
+      return getExchangeDate(time);
+  }
+}
+
+/**
+ * Get the session windows of a date for an asset class
+ * Currency pairs have empty pre and post windows at either end of the regular session
+ * @param assetClass - Asset class
+ * @param date - Trading date (YYYY-MM-DD)
+ * @returns Trading day, or null when the market is closed
+ */
+export function getAssetTradingDay(assetClass: AssetClass, date: string): TradingDay | null {
+  let start: number;
+  let end: number;
+
+  switch (assetClass) {
+    case 'crypto':
+      start = Date.parse(`${date}T00:00:00Z`);
+      end = start + DAY_MS;
+      break;
+    case 'fx': {
+      const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+      if (weekday === 0 || weekday === 6) {
+        return null;
+      }
+      start = exchangeTimeToUtc(addDays(date, -1), FX_ROLLOVER);
+      end = exchangeTimeToUtc(date, FX_ROLLOVER);
+      break;
+    }
+    default:
+      return getTradingDay(date);
+  }
+
+  const open = new Date(start).toISOString();
+  const close = new Date(end).toISOString();
+  return {
+    date,
+    earlyClose: false,
+    pre: { start: open, end: open },
+    regular: { start: open, end: close },
+    post: { start: close, end: close },
+  };
+}
+
+/**
+ * Get the trading days in a date range (inclusive) for an asset class
+ * @returns Trading days, oldest first
+ */
+export function getAssetTradingDays(assetClass: AssetClass, from: string, to: string): TradingDay[] {
+  const days: TradingDay[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    const day = getAssetTradingDay(assetClass, date);
+    if (day) {
+      days.push(day);
+    }
+  }
+  return days;
+}
+
+/**
+ * Get the market session of an asset class at an instant
+ * @param assetClass - Asset class
+ * @param time - UTC milliseconds (defaults to now)
+ */
+export function getAssetMarketSession(assetClass: AssetClass, time: number = Date.now()): MarketSession {
+  if (assetClass === 'equity') {
+    return getMarketSession(time);
+  }
+  return getAssetTradingDay(assetClass, getSessionDate(assetClass, time)) ? 'regular' : 'closed';
+}
+
+/**
+ * Compute rule-based NYSE holidays for a year
+ *
+ * Holidays on a Saturday are observed the Friday before and on a Sunday the
+ * Monday after, except New Year's Day: when it falls on a Saturday the
+ * exchange stays open the Friday before.
+ */
+function getHolidays(year: number): Map<string, string> {
+  const cached = holidayCache.get(year);
+  if (cached) {
+    return cached;
+  }
+
+  const holidays = new Map<string, string>();
+
+  const newYear = formatDate(year, 0, 1);
+  const newYearWeekday = new Date(`${newYear}T00:00:00Z`).getUTCDay();
+  if (newYearWeekday === 0) {
+    holidays.set(addDays(newYear, 1), "New Year's Day");
+  } else if (newYearWeekday !== 6) {
+    holidays.set(newYear, "New Year's Day");
+  }
+
+  holidays.set(nthWeekday(year, 0, 1, 3), 'Martin Luther King Jr. Day');
+  holidays.set(nthWeekday(year, 1, 1, 3), "Washington's Birthday");
+  holidays.set(addDays(easterSunday(year), -2), 'Good Friday');
+  holidays.set(lastWeekday(year, 4, 1), 'Memorial Day');
+  if (year >= 2022) {
+    holidays.set(observed(formatDate(year, 5, 19)), 'Juneteenth');
+  }
+  holidays.set(observed(formatDate(year, 6, 4)), 'Independence Day');
+  holidays.set(nthWeekday(year, 8, 1, 1), 'Labor Day');
+  holidays.set(nthWeekday(year, 10, 4, 4), 'Thanksgiving Day');
+  holidays.set(observed(formatDate(year, 11, 25)), 'Christmas Day');
+
+  holidayCache.set(year, holidays);
+  return holidays;
+}
+
+/**
+ * Shift a weekend holiday to its observed weekday
+ */
+function observed(date: string): string {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  if (weekday === 6) return addDays(date, -1);
+  if (weekday === 0) return addDays(date, 1);
+  return date;
+}
+
+/**
+ * Date of the nth given weekday (0 = Sunday) of a month (0-based)
+ */
+function nthWeekday(year: number, month: number, weekday: number, n: number): string {
+  const first = new Date(Date.UTC(year, month, 1)).getUTCDay();
+  const day = 1 + ((weekday - first + 7) % 7) + (n - 1) * 7;
+  return formatDate(year, month, day);
+}
+
+/**
+ * Date of the last given weekday (0 = Sunday) of a month (0-based)
+ */
+function lastWeekday(year: number, month: number, weekday: number): string {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0));
+  const day = lastDay.getUTCDate() - ((lastDay.getUTCDay() - weekday + 7) % 7);
+  return formatDate(year, month, day);
+}
+
+/**
+ * Easter Sunday (Gregorian calendar, anonymous algorithm)
+ */
+function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return formatDate(year, month - 1, day);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().split('T')[0];
+}
+
+function formatDate(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month, day)).toISOString().split('T')[0];
+}
+
+/**
+ * Wall-clock fields of an instant in the exchange time zone
+ */
+function zonedParts(time: number): Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number> {
+  const parts = { year: 0, month: 0, day: 0, hour: 0, minute: 0, second: 0 };
+  for (const part of zonedFormatter.formatToParts(new Date(time))) {
+    if (part.type in parts) {
+      parts[part.type as keyof typeof parts] = parseInt(part.value, 10);
+    }
+  }
+  return parts;
+}
+
+/**
+ * Offset of exchange time from UTC at an instant, in milliseconds (negative in New York)
+ */
+function timeZoneOffset(time: number): number {
+  const parts = zonedParts(time);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(time / 1000) * 1000;
+}
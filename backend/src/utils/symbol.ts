@@ -0,0 +1,231 @@
+import { MarketDataProviderName, AssetClass } from '../types/marketData.js';
+
+/**
+ * Symbol normalization
+ *
+ * Every symbol entering the backend (routes, WebSocket, watchlist, DB layer)
+ * goes through this module so the same listing is always stored and cached
+ * under one canonical form:
+ *
+ *   Equities:       TICKER[.CLASS][-P[SERIES]][.EXCHANGE]
+ *                   AAPL, BRK.B, BAC-PL, SHOP.TO, BRK.B.TO
+ *   Currency pairs: BASE-QUOTE, quoted in a fiat currency
+ *                   BTC-USD, ETH-EUR (crypto), EUR-USD, USD-JPY (fx)
+ *
+ * Accepted input variants include lowercase, '-', '/' or ' ' as the share
+ * class separator (BRK-B, brk/b), '.PR' preferreds (BAC.PR.L), provider
+ * exchange codes (SHOP.TRT) and '/' or ' ' between pair currencies (EUR/USD).
+ * A pair whose base is a fiat currency is fx, any other base is crypto.
+ */
+
+// Canonical symbols fit the VARCHAR(20) symbol columns
+export const MAX_SYMBOL_LENGTH = 20;
+
+export interface ParsedSymbol {
+  assetClass: AssetClass;
+  // Base ticker, e.g. BRK (the base currency of a pair, e.g. BTC)
+  ticker: string;
+  // Quote currency of a pair, e.g. USD for BTC-USD
+  quoteCurrency: string | null;
+  // Share class letter, e.g. B for BRK.B
+  shareClass: string | null;
+  // Preferred series ('' for a preferred without a series letter)
+  preferredSeries: string | null;
+  // Canonical exchange suffix for non-US listings, e.g. TO
+  exchange: string | null;
+  // Canonical form used for storage, cache keys and API responses
+  canonical: string;
+}
+
+interface ExchangeSuffix {
+  // Alternate suffixes accepted on input (including provider codes)
+  aliases: string[];
+  // Suffix Alpha Vantage expects
+  alphaVantage: string;
+}
+
+// Exchange suffixes keyed by canonical code; US listings carry no suffix.
+// Single letters are always read as share classes, so every code is 2+ letters.
+const EXCHANGE_SUFFIXES: Record<string, ExchangeSuffix> = {
+  TO: { aliases: ['TSX', 'TRT'], alphaVantage: 'TRT' },
+  TSXV: { aliases: ['TRV', 'VN'], alphaVantage: 'TRV' },
+  LON: { aliases: ['LSE'], alphaVantage: 'LON' },
+  DE: { aliases: ['DEX', 'XETRA'], alphaVantage: 'DEX' },
+  FRK: { aliases: ['FRA'], alphaVantage: 'FRK' },
+  PA: { aliases: ['PAR'], alphaVantage: 'PAR' },
+  AS: { aliases: ['AMS'], alphaVantage: 'AMS' },
+  BSE: { aliases: ['BO'], alphaVantage: 'BSE' },
+  NSE: { aliases: ['NS'], alphaVantage: 'NSE' },
+  SS: { aliases: ['SHH'], alphaVantage: 'SHH' },
+  SZ: { aliases: ['SHZ'], alphaVantage: 'SHZ' },
+};
+
+// Fiat currencies pairs can be quoted in (and fx pairs are made of)
+const FIAT_CURRENCIES = new Set([
+  'USD', 'EUR', 'GBP', 'JPY', 'CHF', 'CAD', 'AUD', 'NZD', 'HKD', 'SGD', 'SEK',
+  'NOK', 'DKK', 'CNY', 'INR', 'KRW', 'MXN', 'BRL', 'ZAR', 'TRY', 'PLN',
+]);
+
+const EXCHANGE_LOOKUP = new Map<string, string>(
+  Object.entries(EXCHANGE_SUFFIXES).flatMap(([code, suffix]) => [
+    [code, code] as [string, string],
+    ...suffix.aliases.map((alias) => [alias, code] as [string, string]),
+  ])
+);
+
+// Alternatives are tried in order, so "-P" reads as a preferred before a share class
+const SYMBOL_PATTERN =
+  /^([A-Z0-9]{1,10})(?:-P([A-Z])?|\.PR\.?([A-Z])?|[.-]([A-Z]))?(?:\.([A-Z]{2,5}))?$/;
+
+// BASE-QUOTE; the quote must be a fiat currency, which no exchange suffix is
+const PAIR_PATTERN = /^([A-Z0-9]{2,10})[.-]([A-Z]{3})$/;
+
+/**
+ * Parse a user- or provider-supplied symbol
+ * @param input - Raw symbol, e.g. "brk-b", "BAC.PR.L", "SHOP.TO"
+ * @returns Parsed symbol, or null if the input is not a valid symbol
+ */
+export function parseSymbol(input: string): ParsedSymbol | null {
+  if (typeof input !== 'string') {
+    return null;
+  }
+
+  const cleaned = input.trim().toUpperCase().replace(/[\s/]+/g, '.');
+
+  const pair = PAIR_PATTERN.exec(cleaned);
+  if (pair && FIAT_CURRENCIES.has(pair[2]) && pair[1] !== pair[2]) {
+    const [, base, quote] = pair;
+    return {
+      assetClass: FIAT_CURRENCIES.has(base) ? 'fx' : 'crypto',
+      ticker: base,
+      quoteCurrency: quote,
+      shareClass: null,
+      preferredSeries: null,
+      exchange: null,
+      canonical: `${base}-${quote}`,
+    };
+  }
+
+  const match = SYMBOL_PATTERN.exec(cleaned);
+  if (!match) {
+    return null;
+  }
+
+  const [, ticker, dashSeries, prSeries, shareClass, exchangeSuffix] = match;
+  const isPreferred = cleaned.startsWith(`${ticker}-P`) || cleaned.startsWith(`${ticker}.PR`);
+
+  let exchange: string | null = null;
+  if (exchangeSuffix) {
+    exchange = EXCHANGE_LOOKUP.get(exchangeSuffix) ?? null;
+    if (!exchange) {
+      return null;
+    }
+  }
+
+  const preferredSeries = isPreferred ? dashSeries ?? prSeries ?? '' : null;
+  const canonical =
+    ticker +
+    (shareClass ? `.${shareClass}` : '') +
+    (preferredSeries !== null ? `-P${preferredSeries}` : '') +
+    (exchange ? `.${exchange}` : '');
+
+  if (canonical.length > MAX_SYMBOL_LENGTH) {
+    return null;
+  }
+
+  return {
+    assetClass: 'equity',
+    ticker,
+    quoteCurrency: null,
+    shareClass: shareClass ?? null,
+    preferredSeries,
+    exchange,
+    canonical,
+  };
+}
+
+/**
+ * Normalize a symbol to its canonical form
+ * @param input - Raw symbol
+ * @returns Canonical symbol, or null if the input is not a valid symbol
+ */
+export function normalizeSymbol(input: string): string | null {
+  return parseSymbol(input)?.canonical ?? null;
+}
+
+/**
+ * Canonical form of an already-validated symbol, for the storage and provider layers
+ * Unparseable input is passed through uppercased rather than rejected
+ */
+export function canonicalSymbol(input: string): string {
+  return normalizeSymbol(input) ?? input.trim().toUpperCase();
+}
+
+/**
+ * Asset class of a symbol; anything that isn't a currency pair is an equity
+ */
+export function getAssetClass(input: string): AssetClass {
+  return parseSymbol(input)?.assetClass ?? 'equity';
+}
+
+/**
+ * Translate a symbol into the format a market data provider expects
+ * @param input - Canonical (or raw) symbol
+ * @param provider - Target provider
+ * @returns Provider-specific symbol
+ */
+export function toProviderSymbol(input: string, provider: MarketDataProviderName): string {
+  const parsed = parseSymbol(input);
+  if (!parsed) {
+    return input.trim().toUpperCase();
+  }
+
+  switch (provider) {
+    case 'alphavantage':
+      if (parsed.quoteCurrency) {
+        // Pair endpoints take the two currencies as separate parameters
+        return parsed.ticker;
+      }
+      // Alpha Vantage uses BRK-B style classes and its own exchange codes
+      return (
+        parsed.ticker +
+        (parsed.shareClass ? `-${parsed.shareClass}` : '') +
+        (parsed.preferredSeries !== null ? `-P${parsed.preferredSeries}` : '') +
+        (parsed.exchange ? `.${EXCHANGE_SUFFIXES[parsed.exchange].alphaVantage}` : '')
+      );
+    default:
+      // CSV files and synthetic data are keyed by the canonical symbol
+      return parsed.canonical;
+  }
+}
+
+/**
+ * Decimal places a price of the symbol is quoted to
+ * Equities use cents, fx pips (JPY quotes two fewer) and crypto scales with the price
+ * @param input - Canonical (or raw) symbol
+ * @param price - Price level, used for crypto
+ */
+export function getPricePrecision(input: string, price: number): number {
+  const parsed = parseSymbol(input);
+
+  switch (parsed?.assetClass) {
+    case 'fx':
+      return parsed.quoteCurrency === 'JPY' ? 3 : 5;
+    case 'crypto': {
+      const magnitude = Math.abs(price);
+      if (magnitude >= 1000) return 2;
+      if (magnitude >= 1) return 4;
+      return 8;
+    }
+    default:
+      return 2;
+  }
+}
+
+/**
+ * Round a price to the symbol's quoted precision
+ */
+export function roundPrice(input: string, price: number): number {
+  const factor = 10 ** getPricePrecision(input, price);
+  return Math.round(price * factor) / factor;
+}
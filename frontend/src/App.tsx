@@ -3,6 +3,7 @@ import { AuthProvider } from './contexts/AuthContext';
 import ChartPage from './components/ChartPage';
 import Screener from './components/Screener';
 import Watchlist from './components/Watchlist';
+import AlertToasts from './components/AlertToasts';
 
 function App() {
   return (
@@ -13,6 +14,7 @@ function App() {
           <Route path="/screener" element={<Screener />} />
           <Route path="/watchlist" element={<Watchlist />} />
         </Routes>
+        <AlertToasts />
       </BrowserRouter>
     </AuthProvider>
   );
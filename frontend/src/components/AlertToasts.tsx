@@ -0,0 +1,147 @@
+/**
+ * Alert Toasts Component
+ * Shows a toast for each of the signed-in user's price alerts as it fires
+ * (user_event on the alerts channel), on every page. Indicator alerts show
+ * the indicator values at the closed bar. Saved screens whose scheduled run
+ * found symbols entering or leaving show up too (notifications channel).
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useUserEvents } from '../hooks/useWebSocket';
+import { AlertTriggeredEvent } from '../types/alerts';
+import { ScreenChangedEvent } from '../types/screens';
+
+// Toasts close by themselves after this long
+const TOAST_DURATION_MS = 8000;
+// Oldest toasts make way past this many
+const MAX_TOASTS = 4;
+
+// Alert and screen events, keyed apart since their IDs come from different tables
+type Toast =
+  | { key: string; event: AlertTriggeredEvent }
+  | { key: string; event: ScreenChangedEvent };
+
+/**
+ * Indicator snapshot value, e.g. "28.41", "0.000123" or "1,250,000"
+ */
+function formatIndicatorValue(value: number): string {
+  if (Number.isInteger(value)) {
+    return value.toLocaleString();
+  }
+  return value.toLocaleString(undefined, { maximumFractionDigits: Math.abs(value) < 1 ? 6 : 2 });
+}
+
+export default function AlertToasts() {
+  const { isAuthenticated } = useAuth();
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const timersRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
+
+  const dismiss = useCallback((key: string) => {
+    const timer = timersRef.current.get(key);
+    if (timer) {
+      clearTimeout(timer);
+      timersRef.current.delete(key);
+    }
+    setToasts((current) => current.filter((toast) => toast.key !== key));
+  }, []);
+
+  const show = useCallback((toast: Toast) => {
+    setToasts((current) => [...current, toast].slice(-MAX_TOASTS));
+    timersRef.current.set(toast.key, setTimeout(() => dismiss(toast.key), TOAST_DURATION_MS));
+  }, [dismiss]);
+
+  const handleAlert = useCallback((data: Record<string, unknown>) => {
+    if (data.type !== 'alert_triggered') {
+      return;
+    }
+
+    const event = data as unknown as AlertTriggeredEvent;
+    show({ key: `alert-${event.historyId}`, event });
+  }, [show]);
+
+  const handleNotification = useCallback((data: Record<string, unknown>) => {
+    if (data.type !== 'screen_changed') {
+      return;
+    }
+
+    const event = data as unknown as ScreenChangedEvent;
+    show({ key: `screen-${event.runId}`, event });
+  }, [show]);
+
+  useUserEvents('alerts', handleAlert, isAuthenticated);
+  useUserEvents('notifications', handleNotification, isAuthenticated);
+
+  // Signing out clears the user's toasts
+  useEffect(() => {
+    if (!isAuthenticated) {
+      timersRef.current.forEach((timer) => clearTimeout(timer));
+      timersRef.current.clear();
+      setToasts([]);
+    }
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => timers.forEach((timer) => clearTimeout(timer));
+  }, []);
+
+  if (toasts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="fixed top-4 right-4 z-50 flex flex-col gap-2 max-w-sm w-[calc(100%-2rem)]">
+      {toasts.map(({ key, event: toast }) => (
+        <div
+          key={key}
+          role="alert"
+          className="px-4 py-3 rounded-lg shadow-lg flex items-start gap-3 animate-fade-in"
+          style={{
+            backgroundColor: 'var(--bg-tertiary)',
+            color: 'var(--text-primary)',
+            border: '1px solid var(--border-primary)'
+          }}
+        >
+          <svg className="w-5 h-5 mt-0.5 flex-shrink-0" style={{ color: 'var(--accent)' }} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+          </svg>
+          <div className="flex-1 min-w-0">
+            <div className="text-sm font-semibold">{toast.message}</div>
+            {toast.type === 'screen_changed' && (
+              <div className="text-xs mt-0.5" style={{ color: 'var(--text-secondary)' }}>
+                {new Date(toast.runAt).toLocaleTimeString()} · {toast.matchCount} now match
+              </div>
+            )}
+            {toast.type === 'alert_triggered' && toast.note && (
+              <div className="text-xs mt-0.5 break-words" style={{ color: 'var(--text-secondary)' }}>{toast.note}</div>
+            )}
+            {toast.type === 'alert_triggered' && toast.indicators && (
+              <div className="text-xs mt-0.5 break-words" style={{ color: 'var(--text-secondary)' }}>
+                {Object.entries(toast.indicators)
+                  .map(([label, value]) => `${label} ${formatIndicatorValue(value)}`)
+                  .join(' · ')}
+              </div>
+            )}
+            {toast.type === 'alert_triggered' && (
+              <div className="text-xs mt-0.5" style={{ color: 'var(--text-secondary)' }}>
+                {new Date(toast.triggeredAt).toLocaleTimeString()}
+                {toast.rearm ? ' · fires again once cleared' : ''}
+              </div>
+            )}
+          </div>
+          <button
+            onClick={() => dismiss(key)}
+            className="flex-shrink-0 p-1 rounded transition-colors"
+            style={{ color: 'var(--text-secondary)' }}
+            aria-label="Dismiss alert"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,10 +1,13 @@
 import { useEffect, useRef, useMemo, useCallback, memo, useState } from 'react';
-import { createChart, IChartApi, ISeriesApi, CandlestickData, LineData, HistogramData, LogicalRange } from 'lightweight-charts';
-import { OHLCVData, DataRangeMetadata } from '../types/stock';
+import { createChart, IChartApi, ISeriesApi, CandlestickData, LineData, HistogramData, LogicalRange, SeriesMarker, Time, MouseEventParams } from 'lightweight-charts';
+import { OHLCVData, DataRangeMetadata, CorporateAction, StockEvent, TradingSession, Timeframe } from '../types/stock';
 import { IndicatorConfig } from './IndicatorControls';
-import { fetchDailyData } from '../services/stockApi';
+import { fetchDailyData, fetchBars } from '../services/stockApi';
+import { getPricePrecision } from '../utils/symbol';
 import { useTheme } from '../contexts/ThemeContext';
 import { ComparisonSeries } from '../types/comparison';
+import { LiveBar } from '../types/realtime';
+import { mergeLiveBar, getIndicatorWindowSize, calculateLastBarIndicators } from '../utils/liveBars';
 import {
   calculateSMA,
   calculateEMA,
@@ -23,8 +26,21 @@ interface ChartProps {
   indicators?: IndicatorConfig;
   onDataUpdate?: (data: OHLCVData[]) => void;
   comparisonSeries?: ComparisonSeries[];
+  corporateActions?: CorporateAction[];
+  events?: StockEvent[];
+  sessions?: TradingSession[];
+  adjusted?: boolean;
+  extendedHours?: boolean;
+  metadata?: DataRangeMetadata;
+  timeframe?: Timeframe;
+  // Bar built from live trades for this timeframe, moving the last candle
+  liveBar?: LiveBar | null;
 }
 
+// Timeframes that load older history when scrolled left: daily via full history,
+// intraday a month at a time (resampled weekly/monthly/quarterly already have everything)
+const INTRADAY_TIMEFRAMES: Timeframe[] = ['15min', '30min', '1hour', '2hour', '4hour'];
+
 /**
  * Decimates data for large datasets to improve performance
  * @param data Original data array
@@ -51,7 +67,210 @@ function decimateData<T>(data: T[], maxPoints: number = 1000): T[] {
   return decimated;
 }
 
-const Chart = memo(function Chart({ data, symbol, indicators, onDataUpdate, comparisonSeries }: ChartProps) {
+/**
+ * Finds the candle that contains a date: the latest candle starting on or before it
+ * @param candles Candles sorted by time ascending
+ * @param date Date in YYYY-MM-DD format
+ * @returns Matching candle, or undefined when the date precedes the loaded range
+ */
+function findCandleForDate(candles: CandlestickData[], date: string): CandlestickData | undefined {
+  const time = new Date(date).getTime() / 1000;
+
+  for (let i = candles.length - 1; i >= 0; i--) {
+    if ((candles[i].time as number) <= time) {
+      return candles[i];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Builds chart markers for split and dividend days
+ * Each action is attached to the candle that contains its ex-date, so markers
+ * also line up on weekly and monthly charts
+ * @param candles Candles sorted by time ascending
+ * @param actions Corporate actions to mark
+ * @returns Markers sorted by time ascending
+ */
+function buildCorporateActionMarkers(
+  candles: CandlestickData[],
+  actions: CorporateAction[]
+): SeriesMarker<Time>[] {
+  if (candles.length === 0 || actions.length === 0) {
+    return [];
+  }
+
+  const markers: SeriesMarker<Time>[] = [];
+
+  actions.forEach((action) => {
+    const candle = findCandleForDate(candles, action.date);
+    if (!candle) return;
+
+    if (action.type === 'split') {
+      const ratio = action.value >= 1 ? `${action.value}:1` : `1:${Math.round(1 / action.value)}`;
+      markers.push({
+        time: candle.time,
+        position: 'aboveBar',
+        color: '#8b5cf6',
+        shape: 'arrowDown',
+        text: `Split ${ratio}`,
+      });
+    } else {
+      markers.push({
+        time: candle.time,
+        position: 'belowBar',
+        color: '#0ea5e9',
+        shape: 'circle',
+        text: `D $${action.value.toFixed(2)}`,
+      });
+    }
+  });
+
+  return markers.sort((a, b) => (a.time as number) - (b.time as number));
+}
+
+/**
+ * Builds chart markers for earnings reports, plus ex-dividend days that are not
+ * already marked from the corporate actions
+ * Scheduled reports are skipped; they have no candle yet
+ * @param candles Candles sorted by time ascending
+ * @param events Earnings and ex-dividend events
+ * @param actions Corporate actions already marked on the chart
+ * @returns Markers (unsorted)
+ */
+function buildEventMarkers(
+  candles: CandlestickData[],
+  events: StockEvent[],
+  actions: CorporateAction[]
+): SeriesMarker<Time>[] {
+  if (candles.length === 0 || events.length === 0) {
+    return [];
+  }
+
+  const today = new Date().toISOString().split('T')[0];
+  const markedDividends = new Set(actions.filter((a) => a.type === 'dividend').map((a) => a.date));
+  const markers: SeriesMarker<Time>[] = [];
+
+  events.forEach((event) => {
+    if (event.date > today) return;
+    if (event.type === 'ex_dividend' && markedDividends.has(event.date)) return;
+
+    const candle = findCandleForDate(candles, event.date);
+    if (!candle) return;
+
+    if (event.type === 'earnings') {
+      // Green for a beat, red for a miss, amber when there is nothing to compare
+      const surprise = event.surprisePercent;
+      const color = surprise == null ? '#f59e0b' : surprise >= 0 ? '#16a34a' : '#dc2626';
+      markers.push({
+        time: candle.time,
+        position: 'aboveBar',
+        color,
+        shape: 'square',
+        text: 'E',
+      });
+    } else if (event.dividendAmount !== undefined) {
+      markers.push({
+        time: candle.time,
+        position: 'belowBar',
+        color: '#0ea5e9',
+        shape: 'circle',
+        text: `D $${event.dividendAmount.toFixed(2)}`,
+      });
+    }
+  });
+
+  return markers;
+}
+
+/**
+ * Builds session break bars: one full-height bar on the first candle of each
+ * trading session after the first
+ * @param candles Candles sorted by time ascending
+ * @param sessions Exchange trading sessions the candles span
+ * @param color Break color
+ * @returns Histogram data sorted by time ascending
+ */
+function buildSessionBreaks(
+  candles: CandlestickData[],
+  sessions: TradingSession[],
+  color: string
+): HistogramData[] {
+  const breaks: HistogramData[] = [];
+  const ordered = [...sessions].sort((a, b) => a.date.localeCompare(b.date));
+  let index = 0;
+
+  ordered.forEach((session) => {
+    const start = Date.parse(session.pre.start) / 1000;
+    const end = Date.parse(session.post.end) / 1000;
+
+    while (index < candles.length && (candles[index].time as number) < start) {
+      index++;
+    }
+    const candle = candles[index];
+    if (!candle || (candle.time as number) >= end || index === 0) return;
+
+    breaks.push({ time: candle.time, value: 1, color });
+  });
+
+  return breaks;
+}
+
+/**
+ * Builds extended-hours shading: one full-height bar on every pre-market and
+ * after-hours candle
+ * @param candles Candles sorted by time ascending
+ * @param bars Source bars, tagged with their session
+ * @param colors Shading color for each extended session
+ * @returns Histogram data sorted by time ascending
+ */
+function buildExtendedHoursShading(
+  candles: CandlestickData[],
+  bars: OHLCVData[],
+  colors: { pre: string; post: string }
+): HistogramData[] {
+  const sessionByTime = new Map<number, OHLCVData['session']>();
+  bars.forEach((bar) => {
+    sessionByTime.set(new Date(bar.timestamp).getTime() / 1000, bar.session);
+  });
+
+  const shading: HistogramData[] = [];
+  candles.forEach((candle) => {
+    const session = sessionByTime.get(candle.time as number);
+    if (session === 'pre' || session === 'post') {
+      shading.push({ time: candle.time, value: 1, color: colors[session] });
+    }
+  });
+
+  return shading;
+}
+
+/**
+ * Formats an event as tooltip lines
+ */
+function describeEvent(event: StockEvent): string[] {
+  const formatEps = (value: number | null | undefined) =>
+    value == null ? '—' : `$${value.toFixed(2)}`;
+
+  if (event.type === 'ex_dividend') {
+    return [
+      `Ex-dividend ${event.date}`,
+      `Amount: ${event.dividendAmount !== undefined ? `$${event.dividendAmount.toFixed(2)}` : '—'}`,
+    ];
+  }
+
+  const lines = [
+    `Earnings ${event.date}${event.fiscalDateEnding ? ` (FQ ending ${event.fiscalDateEnding})` : ''}`,
+    `EPS estimate: ${formatEps(event.epsEstimate)}`,
+    `EPS actual: ${formatEps(event.epsActual)}`,
+  ];
+  if (event.surprisePercent != null) {
+    lines.push(`Surprise: ${event.surprisePercent >= 0 ? '+' : ''}${event.surprisePercent.toFixed(2)}%`);
+  }
+  return lines;
+}
+
+const Chart = memo(function Chart({ data, symbol, indicators, onDataUpdate, comparisonSeries, corporateActions, events, sessions, adjusted, extendedHours, metadata: initialMetadata, timeframe = 'daily', liveBar }: ChartProps) {
   const { theme } = useTheme();
   const chartContainerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<IChartApi | null>(null);
@@ -60,8 +279,13 @@ const Chart = memo(function Chart({ data, symbol, indicators, onDataUpdate, comp
   // Lazy loading state
   const [allData, setAllData] = useState<OHLCVData[]>(data);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
-  const [metadata, setMetadata] = useState<DataRangeMetadata | null>(null);
+  const [metadata, setMetadata] = useState<DataRangeMetadata | null>(initialMetadata ?? null);
+  const [loadedSessions, setLoadedSessions] = useState<TradingSession[]>([]);
   const loadingRef = useRef(false);
+  // View to restore after older data is prepended (instead of fitting all content)
+  const keepViewRef = useRef<{ range: LogicalRange; firstTime: number } | null>(null);
+  const eventsByTimeRef = useRef<Map<number, StockEvent[]>>(new Map());
+  const [hoveredEvents, setHoveredEvents] = useState<{ x: number; y: number; events: StockEvent[] } | null>(null);
   const lastLoadTimeRef = useRef(0);
   const LOAD_DEBOUNCE_MS = 1000; // 1 second debounce
   const EDGE_THRESHOLD = 0.2; // Load when 20% from edge
@@ -72,6 +296,8 @@ const Chart = memo(function Chart({ data, symbol, indicators, onDataUpdate, comp
   const bbMiddleSeriesRef = useRef<ISeriesApi<'Line'> | null>(null);
   const bbLowerSeriesRef = useRef<ISeriesApi<'Line'> | null>(null);
   const vwapSeriesRef = useRef<ISeriesApi<'Line'> | null>(null);
+  const sessionBreakSeriesRef = useRef<ISeriesApi<'Histogram'> | null>(null);
+  const extendedHoursSeriesRef = useRef<ISeriesApi<'Histogram'> | null>(null);
   const pivotSeriesRef = useRef<ISeriesApi<'Line'> | null>(null);
   const r1SeriesRef = useRef<ISeriesApi<'Line'> | null>(null);
   const r2SeriesRef = useRef<ISeriesApi<'Line'> | null>(null);
@@ -100,14 +326,24 @@ const Chart = memo(function Chart({ data, symbol, indicators, onDataUpdate, comp
   const stochMidlineRef = useRef<ISeriesApi<'Line'> | null>(null);
   const stochOverboughtRef = useRef<ISeriesApi<'Line'> | null>(null);
 
+  // Live bars drawn over or after the history, by open time (seconds)
+  const liveBarsRef = useRef<Map<number, OHLCVData>>(new Map());
+
   // Update allData when prop data changes
   useEffect(() => {
+    liveBarsRef.current.clear();
     setAllData(data);
-  }, [data]);
+    setMetadata(initialMetadata ?? null);
+    setLoadedSessions([]);
+  }, [data, initialMetadata]);
 
   // Function to load more historical data
   const loadMoreHistoricalData = useCallback(async () => {
-    if (loadingRef.current || !metadata?.hasMoreHistory) {
+    const intraday = INTRADAY_TIMEFRAMES.includes(timeframe);
+    if (loadingRef.current || !metadata?.hasMoreHistory || (timeframe !== 'daily' && !intraday)) {
+      return;
+    }
+    if (intraday && !metadata.previousMonth) {
       return;
     }
 
@@ -124,8 +360,15 @@ const Chart = memo(function Chart({ data, symbol, indicators, onDataUpdate, comp
     try {
       console.log('Loading more historical data for', symbol);
       
-      // Request full historical data
-      const response = await fetchDailyData(symbol, { full: true });
+      // Intraday charts go back a month per request; daily requests the full history
+      const response = intraday
+        ? await fetchBars(symbol, timeframe, { month: metadata.previousMonth!, extendedHours })
+        : await fetchDailyData(symbol, { full: true, adjusted });
+
+      // Keep paging back through intraday months even when one adds nothing new
+      if (intraday) {
+        setMetadata(response.metadata || null);
+      }
       
       if (response.data && response.data.length > 0) {
         // Merge new data with existing data
@@ -136,9 +379,19 @@ const Chart = memo(function Chart({ data, symbol, indicators, onDataUpdate, comp
           const merged = [...allData, ...newData].sort((a, b) =>
             new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
           );
+
+          // Keep the user's view in place while older bars are added to the left
+          const range = chartRef.current?.timeScale().getVisibleLogicalRange();
+          if (range) {
+            const oldest = allData[allData.length - 1];
+            keepViewRef.current = { range, firstTime: new Date(oldest.timestamp).getTime() / 1000 };
+          }
           
           setAllData(merged);
           setMetadata(response.metadata || null);
+          if ('sessions' in response && response.sessions) {
+            setLoadedSessions(prev => [...prev, ...response.sessions!]);
+          }
           
           // Notify parent component of data update
           if (onDataUpdate) {
@@ -156,9 +409,9 @@ const Chart = memo(function Chart({ data, symbol, indicators, onDataUpdate, comp
       loadingRef.current = false;
       setIsLoadingMore(false);
     }
-  }, [symbol, allData, metadata, onDataUpdate]);
+  }, [symbol, timeframe, adjusted, extendedHours, allData, metadata, onDataUpdate]);
 
-  // Detect when user zooms near edge of data (will be set up after chart is created)
+  // Detect when user scrolls or zooms near the left edge of the data
   const handleVisibleRangeChange = useCallback((range: LogicalRange | null) => {
     if (!range || !allData || allData.length === 0) {
       return;
@@ -170,25 +423,22 @@ const Chart = memo(function Chart({ data, symbol, indicators, onDataUpdate, comp
       return;
     }
 
-    // Convert allData to chart times for comparison
-    const sortedData = [...allData].sort((a, b) =>
-      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
-    
-    const dataStartTime = new Date(sortedData[0].timestamp).getTime() / 1000;
-    
+    // Logical indexes count bars from the oldest loaded one (index 0)
     const visibleRange = to - from;
     const threshold = visibleRange * EDGE_THRESHOLD;
 
-    // Check if user is zooming near the left edge (older data)
-    const distanceFromStart = Math.abs(from - dataStartTime);
-    
-    if (distanceFromStart < threshold && metadata?.hasMoreHistory) {
+    if (from < threshold && metadata?.hasMoreHistory) {
       console.log('Near edge of historical data, triggering load...');
       loadMoreHistoricalData();
     }
   }, [allData, metadata, loadMoreHistoricalData]);
 
+  // The chart subscribes once; the ref always points at the latest handler
+  const handleVisibleRangeChangeRef = useRef(handleVisibleRangeChange);
+  useEffect(() => {
+    handleVisibleRangeChangeRef.current = handleVisibleRangeChange;
+  }, [handleVisibleRangeChange]);
+
   // Memoize handleResize to prevent recreation on every render
   const handleResize = useCallback(() => {
     if (chartContainerRef.current && chartRef.current) {
@@ -217,9 +467,38 @@ const Chart = memo(function Chart({ data, symbol, indicators, onDataUpdate, comp
     return converted.sort((a, b) => (a.time as number) - (b.time as number));
   }, [allData]);
 
+  // Events grouped by the candle they fall in, for crosshair hover details
+  useEffect(() => {
+    const byTime = new Map<number, StockEvent[]>();
+    (events || []).forEach((event) => {
+      const candle = findCandleForDate(chartData, event.date);
+      if (!candle) return;
+      const time = candle.time as number;
+      byTime.set(time, [...(byTime.get(time) || []), event]);
+    });
+    eventsByTimeRef.current = byTime;
+    setHoveredEvents(null);
+  }, [chartData, events]);
+
+  // Show event details while the crosshair is over a candle with events
+  const handleCrosshairMove = useCallback((param: MouseEventParams) => {
+    const hovered = param.time !== undefined ? eventsByTimeRef.current.get(param.time as number) : undefined;
+    if (!hovered || !param.point) {
+      setHoveredEvents(null);
+      return;
+    }
+    setHoveredEvents({ x: param.point.x, y: param.point.y, events: hovered });
+  }, []);
+
+  // Bars oldest first, the order indicators are calculated in (allData is newest first)
+  const ascendingData = useMemo(
+    () => [...allData].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()),
+    [allData]
+  );
+
   // Memoize indicator calculations to prevent unnecessary recalculations
   const indicatorResults = useMemo(() => {
-    if (!allData || allData.length === 0) {
+    if (!ascendingData || ascendingData.length === 0) {
       return {
         sma: [],
         ema: [],
@@ -234,29 +513,31 @@ const Chart = memo(function Chart({ data, symbol, indicators, onDataUpdate, comp
     }
 
     return {
-      sma: indicators?.sma.enabled ? calculateSMA(allData, indicators.sma.period) : [],
-      ema: indicators?.ema.enabled ? calculateEMA(allData, indicators.ema.period) : [],
-      volume: indicators?.volume.enabled ? formatVolumeData(allData) : [],
+      sma: indicators?.sma.enabled ? calculateSMA(ascendingData, indicators.sma.period) : [],
+      ema: indicators?.ema.enabled ? calculateEMA(ascendingData, indicators.ema.period) : [],
+      volume: indicators?.volume.enabled ? formatVolumeData(ascendingData) : [],
       bollingerBands: indicators?.bollingerBands.enabled
-        ? calculateBollingerBands(allData, indicators.bollingerBands.period, indicators.bollingerBands.stdDev)
+        ? calculateBollingerBands(ascendingData, indicators.bollingerBands.period, indicators.bollingerBands.stdDev)
+        : [],
+      vwap: indicators?.vwap.enabled
+        ? calculateVWAP(ascendingData, { resetAtRegularOpen: indicators.vwap.resetAtRegularOpen })
         : [],
-      vwap: indicators?.vwap.enabled ? calculateVWAP(allData) : [],
-      pivotPoints: indicators?.pivotPoints.enabled ? calculatePivotPoints(allData) : [],
-      rsi: indicators?.rsi.enabled ? calculateRSI(allData, indicators.rsi.period) : [],
+      pivotPoints: indicators?.pivotPoints.enabled ? calculatePivotPoints(ascendingData) : [],
+      rsi: indicators?.rsi.enabled ? calculateRSI(ascendingData, indicators.rsi.period) : [],
       macd: indicators?.macd.enabled
-        ? calculateMACD(allData, indicators.macd.fastPeriod, indicators.macd.slowPeriod, indicators.macd.signalPeriod)
+        ? calculateMACD(ascendingData, indicators.macd.fastPeriod, indicators.macd.slowPeriod, indicators.macd.signalPeriod)
         : [],
       stochastic: indicators?.stochastic.enabled
-        ? calculateStochastic(allData, indicators.stochastic.kPeriod, indicators.stochastic.dPeriod, indicators.stochastic.smoothK)
+        ? calculateStochastic(ascendingData, indicators.stochastic.kPeriod, indicators.stochastic.dPeriod, indicators.stochastic.smoothK)
         : [],
     };
   }, [
-    allData,
+    ascendingData,
     indicators?.sma.enabled, indicators?.sma.period,
     indicators?.ema.enabled, indicators?.ema.period,
     indicators?.volume.enabled,
     indicators?.bollingerBands.enabled, indicators?.bollingerBands.period, indicators?.bollingerBands.stdDev,
-    indicators?.vwap.enabled,
+    indicators?.vwap.enabled, indicators?.vwap.resetAtRegularOpen,
     indicators?.pivotPoints.enabled,
     indicators?.rsi.enabled, indicators?.rsi.period,
     indicators?.macd.enabled, indicators?.macd.fastPeriod, indicators?.macd.slowPeriod, indicators?.macd.signalPeriod,
@@ -331,18 +612,21 @@ const Chart = memo(function Chart({ data, symbol, indicators, onDataUpdate, comp
 
     // Subscribe to visible time range changes for lazy loading
     const timeScale = chart.timeScale();
-    timeScale.subscribeVisibleLogicalRangeChange(handleVisibleRangeChange);
+    const onVisibleRangeChange = (range: LogicalRange | null) => handleVisibleRangeChangeRef.current(range);
+    timeScale.subscribeVisibleLogicalRangeChange(onVisibleRangeChange);
+    chart.subscribeCrosshairMove(handleCrosshairMove);
 
     // Cleanup on unmount
     return () => {
       window.removeEventListener('resize', handleResize);
-      timeScale.unsubscribeVisibleLogicalRangeChange(handleVisibleRangeChange);
+      timeScale.unsubscribeVisibleLogicalRangeChange(onVisibleRangeChange);
+      chart.unsubscribeCrosshairMove(handleCrosshairMove);
       if (chartRef.current) {
         chartRef.current.remove();
         chartRef.current = null;
       }
     };
-  }, [theme, indicators?.volume.enabled, indicators?.rsi.enabled, indicators?.macd.enabled, indicators?.stochastic.enabled, handleResize, handleVisibleRangeChange]);
+  }, [theme, indicators?.volume.enabled, indicators?.rsi.enabled, indicators?.macd.enabled, indicators?.stochastic.enabled, handleResize, handleCrosshairMove]);
 
   // Update chart theme when theme changes
   useEffect(() => {
@@ -389,12 +673,112 @@ const Chart = memo(function Chart({ data, symbol, indicators, onDataUpdate, comp
 
     seriesRef.current.setData(chartData);
 
-    // Fit content to visible area
-    if (chartRef.current) {
+    const keepView = keepViewRef.current;
+    if (chartRef.current && keepView) {
+      // Older bars were prepended: shift the view by their count so it stays put
+      const shift = chartData.findIndex((candle) => (candle.time as number) >= keepView.firstTime);
+      chartRef.current.timeScale().setVisibleLogicalRange({
+        from: keepView.range.from + Math.max(shift, 0),
+        to: keepView.range.to + Math.max(shift, 0),
+      });
+    } else if (chartRef.current) {
+      // Fit content to visible area
       chartRef.current.timeScale().fitContent();
     }
   }, [chartData]);
 
+  // Quote the price scale to the symbol's precision (fx pips, sub-cent crypto)
+  const lastClose = chartData.length > 0 ? chartData[chartData.length - 1].close : 0;
+  const pricePrecision = getPricePrecision(symbol, lastClose);
+  useEffect(() => {
+    if (!seriesRef.current) return;
+
+    seriesRef.current.applyOptions({
+      priceFormat: {
+        type: 'price',
+        precision: pricePrecision,
+        minMove: 1 / 10 ** pricePrecision,
+      },
+    });
+  }, [pricePrecision, theme]);
+
+  // Mark split, dividend and earnings days on the candlestick series
+  useEffect(() => {
+    if (!seriesRef.current) return;
+
+    const markers = [
+      ...buildCorporateActionMarkers(chartData, corporateActions || []),
+      ...buildEventMarkers(chartData, events || [], corporateActions || []),
+    ];
+    seriesRef.current.setMarkers(markers.sort((a, b) => (a.time as number) - (b.time as number)));
+  }, [chartData, corporateActions, events]);
+
+  // Draw session breaks between trading days on intraday charts
+  useEffect(() => {
+    if (!chartRef.current) return;
+
+    const breaks = buildSessionBreaks(chartData, [...(sessions || []), ...loadedSessions], theme === 'dark' ? 'rgba(163, 163, 163, 0.25)' : 'rgba(107, 114, 128, 0.2)');
+
+    if (breaks.length === 0) {
+      if (sessionBreakSeriesRef.current) {
+        chartRef.current.removeSeries(sessionBreakSeriesRef.current);
+        sessionBreakSeriesRef.current = null;
+      }
+      return;
+    }
+
+    if (!sessionBreakSeriesRef.current) {
+      // Own hidden price scale spanning the full pane height
+      sessionBreakSeriesRef.current = chartRef.current.addHistogramSeries({
+        priceScaleId: 'session-breaks',
+        priceLineVisible: false,
+        lastValueVisible: false,
+      });
+      chartRef.current.priceScale('session-breaks').applyOptions({
+        scaleMargins: { top: 0, bottom: 0 },
+        visible: false,
+      });
+    }
+
+    sessionBreakSeriesRef.current.setData(breaks);
+  }, [chartData, sessions, loadedSessions, theme]);
+
+  // Shade pre-market and after-hours candles on extended-hours intraday charts
+  useEffect(() => {
+    if (!chartRef.current) return;
+
+    const shading = buildExtendedHoursShading(
+      chartData,
+      allData,
+      theme === 'dark'
+        ? { pre: 'rgba(96, 165, 250, 0.12)', post: 'rgba(167, 139, 250, 0.12)' }
+        : { pre: 'rgba(59, 130, 246, 0.08)', post: 'rgba(139, 92, 246, 0.08)' }
+    );
+
+    if (shading.length === 0) {
+      if (extendedHoursSeriesRef.current) {
+        chartRef.current.removeSeries(extendedHoursSeriesRef.current);
+        extendedHoursSeriesRef.current = null;
+      }
+      return;
+    }
+
+    if (!extendedHoursSeriesRef.current) {
+      // Own hidden price scale spanning the full pane height
+      extendedHoursSeriesRef.current = chartRef.current.addHistogramSeries({
+        priceScaleId: 'extended-hours',
+        priceLineVisible: false,
+        lastValueVisible: false,
+      });
+      chartRef.current.priceScale('extended-hours').applyOptions({
+        scaleMargins: { top: 0, bottom: 0 },
+        visible: false,
+      });
+    }
+
+    extendedHoursSeriesRef.current.setData(shading);
+  }, [chartData, allData, theme]);
+
   // Update indicators when data or indicator config changes
   useEffect(() => {
     if (!chartRef.current || !data || data.length === 0) return;
@@ -1146,12 +1530,119 @@ const Chart = memo(function Chart({ data, symbol, indicators, onDataUpdate, comp
       }
     }
 
-    // Re-fit content after adding/removing indicators
-    if (chartRef.current) {
+    // Re-fit content after adding/removing indicators (unless older data was just prepended)
+    if (keepViewRef.current) {
+      keepViewRef.current = null;
+    } else if (chartRef.current) {
       chartRef.current.timeScale().fitContent();
     }
   }, [allData, indicators, indicatorResults]);
 
+  /**
+   * Draw a live bar with series updates: the candle, volume and the enabled
+   * indicators, recomputed for this bar only over the trailing window
+   */
+  const applyLiveBar = useCallback((seconds: number, bar: OHLCVData) => {
+    if (!seriesRef.current) return;
+    const time = seconds as Time;
+
+    seriesRef.current.update({ time, open: bar.open, high: bar.high, low: bar.low, close: bar.close });
+    volumeSeriesRef.current?.update({
+      time,
+      value: bar.volume,
+      // Same colors as formatVolumeData
+      color: bar.close >= bar.open ? 'rgba(34, 197, 94, 0.5)' : 'rgba(239, 68, 68, 0.5)',
+    });
+
+    // Trailing history up to this bar, with live bars taking the place of the bars they update
+    const windowSize = getIndicatorWindowSize(indicators);
+    const byTime = new Map<number, OHLCVData>();
+    ascendingData.slice(-windowSize).forEach((item) => {
+      byTime.set(new Date(item.timestamp).getTime() / 1000, item);
+    });
+    liveBarsRef.current.forEach((item, itemTime) => byTime.set(itemTime, item));
+    const trailing = Array.from(byTime.entries())
+      .filter(([itemTime]) => itemTime <= seconds)
+      .sort((a, b) => a[0] - b[0])
+      .slice(-windowSize)
+      .map(([, item]) => item);
+
+    const values = calculateLastBarIndicators(trailing, indicators);
+    const updateLine = (series: ISeriesApi<'Line'> | null, value: number | undefined) => {
+      if (series && value !== undefined) {
+        series.update({ time, value });
+      }
+    };
+
+    updateLine(smaSeriesRef.current, values.sma);
+    updateLine(emaSeriesRef.current, values.ema);
+    updateLine(bbUpperSeriesRef.current, values.bollingerBands?.upper);
+    updateLine(bbMiddleSeriesRef.current, values.bollingerBands?.middle);
+    updateLine(bbLowerSeriesRef.current, values.bollingerBands?.lower);
+    updateLine(vwapSeriesRef.current, values.vwap);
+    updateLine(pivotSeriesRef.current, values.pivotPoints?.pivot);
+    updateLine(r1SeriesRef.current, values.pivotPoints?.r1);
+    updateLine(r2SeriesRef.current, values.pivotPoints?.r2);
+    updateLine(r3SeriesRef.current, values.pivotPoints?.r3);
+    updateLine(s1SeriesRef.current, values.pivotPoints?.s1);
+    updateLine(s2SeriesRef.current, values.pivotPoints?.s2);
+    updateLine(s3SeriesRef.current, values.pivotPoints?.s3);
+    updateLine(rsiSeriesRef.current, values.rsi);
+    updateLine(macdLineRef.current, values.macd?.macd);
+    updateLine(macdSignalRef.current, values.macd?.signal);
+    if (macdHistogramRef.current && values.macd) {
+      macdHistogramRef.current.update({
+        time,
+        value: values.macd.histogram,
+        color: values.macd.histogram >= 0 ? '#22C55E80' : '#EF444480',
+      });
+    }
+    updateLine(stochKRef.current, values.stochastic?.k);
+    updateLine(stochDRef.current, values.stochastic?.d);
+
+    // Reference lines run to the last bar
+    updateLine(rsiOversoldRef.current, 30);
+    updateLine(rsiMidlineRef.current, 50);
+    updateLine(rsiOverboughtRef.current, 70);
+    updateLine(macdZeroRef.current, 0);
+    updateLine(stochOversoldRef.current, 20);
+    updateLine(stochMidlineRef.current, 50);
+    updateLine(stochOverboughtRef.current, 80);
+  }, [ascendingData, indicators]);
+
+  // Move the last candle (or open a new one) as live bars arrive
+  useEffect(() => {
+    if (!liveBar || chartData.length === 0) return;
+    // Extended-hours bars only belong on extended-hours charts
+    if (liveBar.session !== 'regular' && !extendedHours) return;
+
+    const seconds = new Date(liveBar.timestamp).getTime() / 1000;
+    const lastLiveTime = Math.max(0, ...liveBarsRef.current.keys());
+    if (seconds < (chartData[chartData.length - 1].time as number) || seconds < lastLiveTime) return;
+
+    const historyBar = allData.find((item) => new Date(item.timestamp).getTime() / 1000 === seconds);
+    const bar = mergeLiveBar(liveBarsRef.current.get(seconds) ?? historyBar, liveBar);
+    liveBarsRef.current.set(seconds, bar);
+    applyLiveBar(seconds, bar);
+  }, [liveBar]);
+
+  // setData replaces the live candles; draw them again after a full refresh
+  useEffect(() => {
+    if (chartData.length === 0) return;
+    const lastTime = chartData[chartData.length - 1].time as number;
+
+    Array.from(liveBarsRef.current.entries())
+      .sort((a, b) => a[0] - b[0])
+      .forEach(([seconds, bar]) => {
+        if (seconds < lastTime) {
+          // The history has caught up with this bar
+          liveBarsRef.current.delete(seconds);
+        } else {
+          applyLiveBar(seconds, bar);
+        }
+      });
+  }, [chartData, indicatorResults, applyLiveBar]);
+
   // Handle comparison series
   useEffect(() => {
     if (!chartRef.current || !comparisonSeries || comparisonSeries.length === 0) {
@@ -1240,14 +1731,38 @@ const Chart = memo(function Chart({ data, symbol, indicators, onDataUpdate, comp
           </div>
         )}
       </div>
-      <div
-        ref={chartContainerRef}
-        className="w-full rounded-lg shadow-sm"
-        style={{
-          backgroundColor: 'var(--bg-primary)',
-          border: '1px solid var(--border-primary)',
-        }}
-      />
+      <div className="relative">
+        <div
+          ref={chartContainerRef}
+          className="w-full rounded-lg shadow-sm"
+          style={{
+            backgroundColor: 'var(--bg-primary)',
+            border: '1px solid var(--border-primary)',
+          }}
+        />
+        {hoveredEvents && (
+          <div
+            className="absolute z-10 pointer-events-none rounded-md shadow-lg px-3 py-2 text-xs space-y-2"
+            style={{
+              left: hoveredEvents.x + 16,
+              top: Math.max(hoveredEvents.y - 16, 0),
+              backgroundColor: 'var(--bg-secondary)',
+              border: '1px solid var(--border-primary)',
+              color: 'var(--text-primary)',
+            }}
+          >
+            {hoveredEvents.events.map((event) => (
+              <div key={`${event.type}-${event.date}`}>
+                {describeEvent(event).map((line, index) => (
+                  <div key={index} className={index === 0 ? 'font-semibold' : undefined}>
+                    {line}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
     </div>
   );
 });
@@ -16,12 +16,15 @@ import LayoutSwitcher from './LayoutSwitcher';
 import MultiChartContainer from './MultiChartContainer';
 import SymbolComparisonPanel from './SymbolComparisonPanel';
 import ComparisonLegend from './ComparisonLegend';
+import ReplayControls from './ReplayControls';
+import PriceAlertControls from './PriceAlertControls';
 import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
-import { useRealtimePrice } from '../hooks/useWebSocket';
+import { useRealtimePrice, useReplaySession, useLiveBar } from '../hooks/useWebSocket';
 import { useTheme } from '../contexts/ThemeContext';
 import { useAuth } from '../contexts/AuthContext';
-import { Timeframe, OHLCVData } from '../types/stock';
-import { fetchDailyData, fetchIntradayData } from '../services/stockApi';
+import { Timeframe, OHLCVData, CorporateAction, StockEvent, TradingSession, DataRangeMetadata } from '../types/stock';
+import { fetchDailyData, fetchBars, fetchEvents } from '../services/stockApi';
+import { getLiveBarInterval } from '../utils/liveBars';
 import {
   ComparisonMode,
   ComparisonSymbol,
@@ -47,8 +50,10 @@ import {
   IndicatorPreset,
 } from '../utils/presets';
 import { useWatchlist } from '../hooks/useWatchlist';
+import { formatSymbolPrice, getPricePrecision, getAssetClass, normalizeSymbol } from '../utils/symbol';
 import { ChartConfig, ChartConfigData } from '../types/chartConfig';
 import { createChartConfig } from '../services/chartConfigApi';
+import { stopReplay } from '../services/replayApi';
 import { DrawingType, DrawingTool, Annotation } from '../types/drawings';
 import { DrawingManager, generateDrawingId } from '../utils/drawingManager';
 
@@ -62,6 +67,12 @@ export default function ChartPage() {
   const [stockName] = useState<string>('');
   const [timeframe, setTimeframe] = useState<Timeframe>('daily');
   const [chartData, setChartData] = useState<OHLCVData[]>([]);
+  const [adjusted, setAdjusted] = useState(true); // Split/dividend-adjusted prices
+  const [extendedHours, setExtendedHours] = useState(false); // Pre-market and after-hours bars (intraday)
+  const [corporateActions, setCorporateActions] = useState<CorporateAction[]>([]);
+  const [sessions, setSessions] = useState<TradingSession[]>([]); // Trading sessions for intraday session breaks
+  const [metadata, setMetadata] = useState<DataRangeMetadata | undefined>(undefined); // Range and lazy-loading info for the chart
+  const [events, setEvents] = useState<StockEvent[]>([]); // Earnings and ex-dividend events
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string>('');
   const [showWatchlistToast, setShowWatchlistToast] = useState(false);
@@ -70,6 +81,7 @@ export default function ChartPage() {
   const [showIndicators, setShowIndicators] = useState(true); // Toggle indicator panel visibility
   const [liveUpdatesEnabled, setLiveUpdatesEnabled] = useState(true); // Toggle live price updates
   const [priceFlash, setPriceFlash] = useState<'up' | 'down' | null>(null); // Price change flash animation
+  const [replaySessionId, setReplaySessionId] = useState<string | null>(null); // Historical replay in place of live prices
   
   // Chart config management
   const [showConfigManager, setShowConfigManager] = useState(false);
@@ -117,13 +129,29 @@ export default function ChartPage() {
     return initialLayout.panes;
   });
 
-  // Real-time price updates
+  // Real-time price updates (paused while a replay is running)
   const {
-    price: livePrice,
-    change: liveChange,
-    changePercent: liveChangePercent,
+    price: realtimePrice,
+    change: realtimeChange,
+    changePercent: realtimeChangePercent,
     isConnected: wsConnected,
-  } = useRealtimePrice(symbol, liveUpdatesEnabled);
+  } = useRealtimePrice(symbol, liveUpdatesEnabled && !replaySessionId);
+
+  // Live candle for timeframes the server builds bars for
+  const liveBar = useLiveBar(symbol, getLiveBarInterval(timeframe), liveUpdatesEnabled && !replaySessionId);
+
+  // Historical replay, shown in the header instead of live prices
+  const {
+    session: replaySession,
+    price: replayPrice,
+    change: replayChange,
+    changePercent: replayChangePercent,
+  } = useReplaySession(replaySessionId);
+
+  const isReplaying = replaySessionId !== null;
+  const livePrice = isReplaying ? replayPrice : realtimePrice;
+  const liveChange = isReplaying ? replayChange : realtimeChange;
+  const liveChangePercent = isReplaying ? replayChangePercent : realtimeChangePercent;
 
   // Refs
   const saveTimerRef = useRef<NodeJS.Timeout | null>(null);
@@ -153,7 +181,7 @@ export default function ChartPage() {
     const symbolParam = searchParams.get('symbol');
     if (symbolParam && symbolParam !== symbol) {
       setSymbol(symbolParam);
-      fetchChartData(symbolParam, timeframe);
+      fetchChartData(symbolParam, timeframe, adjusted, extendedHours);
     }
   }, [searchParams]);
 
@@ -169,32 +197,38 @@ export default function ChartPage() {
   }, []);
 
   // Memoize fetchChartData to prevent recreation
-  const fetchChartData = useCallback(async (stockSymbol: string, selectedTimeframe: Timeframe) => {
+  const fetchChartData = useCallback(async (
+    stockSymbol: string,
+    selectedTimeframe: Timeframe,
+    adjustPrices: boolean,
+    includeExtendedHours: boolean
+  ) => {
     setLoading(true);
     setError('');
     setChartData([]);
+    setCorporateActions([]);
+    setSessions([]);
+    setMetadata(undefined);
 
     try {
       let response;
 
-      // Determine which API endpoint to use based on timeframe
-      if (selectedTimeframe === 'daily' || selectedTimeframe === 'weekly') {
-        response = await fetchDailyData(stockSymbol);
+      // Daily uses the daily endpoint (supports loading more history);
+      // every other timeframe is served (and resampled) by the bars endpoint
+      if (selectedTimeframe === 'daily') {
+        response = await fetchDailyData(stockSymbol, { adjusted: adjustPrices });
       } else {
-        // Map timeframe to API interval
-        const intervalMap: Record<string, string> = {
-          '15min': '15min',
-          '30min': '30min',
-          '1hour': '60min',
-        };
-        const interval = intervalMap[selectedTimeframe] || '60min';
-        response = await fetchIntradayData(stockSymbol, interval);
+        response = await fetchBars(stockSymbol, selectedTimeframe, {
+          adjusted: adjustPrices,
+          extendedHours: includeExtendedHours,
+        });
+        setSessions(response.sessions || []);
       }
 
       if (response.data && response.data.length > 0) {
-        // For weekly, we could implement aggregation here in the future
-        // For now, we'll just use daily data
         setChartData(response.data);
+        setCorporateActions(response.corporateActions || []);
+        setMetadata(response.metadata);
       } else {
         setError('No data available for this symbol and timeframe');
       }
@@ -207,17 +241,66 @@ export default function ChartPage() {
     }
   }, []);
 
+  // Events don't depend on timeframe or adjustment, so only refetch on symbol change
+  useEffect(() => {
+    setEvents([]);
+    if (!symbol) return;
+
+    let cancelled = false;
+    fetchEvents(symbol)
+      .then((response) => {
+        if (!cancelled) setEvents(response.events);
+      })
+      .catch((err) => {
+        // Markers are optional; the chart still works without them
+        console.error('Error fetching events:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [symbol]);
+
+  // A replay belongs to one symbol; stop it when the symbol changes
+  useEffect(() => {
+    if (replaySessionId && replaySession && replaySession.symbol !== (normalizeSymbol(symbol) ?? symbol)) {
+      setReplaySessionId(null);
+      stopReplay(replaySessionId).catch((err) => console.error('Failed to stop replay:', err));
+    }
+  }, [symbol, replaySessionId, replaySession]);
+
+  // A replay belongs to the signed-in user; signing out leaves it (it closes once nobody watches)
+  useEffect(() => {
+    if (!user) {
+      setReplaySessionId(null);
+    }
+  }, [user]);
+
   const handleSymbolSubmit = useCallback(async (newSymbol: string) => {
     setSymbol(newSymbol);
-    await fetchChartData(newSymbol, timeframe);
-  }, [fetchChartData, timeframe]);
+    await fetchChartData(newSymbol, timeframe, adjusted, extendedHours);
+  }, [fetchChartData, timeframe, adjusted, extendedHours]);
 
   const handleTimeframeChange = useCallback(async (newTimeframe: Timeframe) => {
     setTimeframe(newTimeframe);
     if (symbol) {
-      await fetchChartData(symbol, newTimeframe);
+      await fetchChartData(symbol, newTimeframe, adjusted, extendedHours);
     }
-  }, [symbol, fetchChartData]);
+  }, [symbol, fetchChartData, adjusted, extendedHours]);
+
+  const handleAdjustedChange = useCallback(async (newAdjusted: boolean) => {
+    setAdjusted(newAdjusted);
+    if (symbol) {
+      await fetchChartData(symbol, timeframe, newAdjusted, extendedHours);
+    }
+  }, [symbol, timeframe, fetchChartData, extendedHours]);
+
+  const handleExtendedHoursChange = useCallback(async (newExtendedHours: boolean) => {
+    setExtendedHours(newExtendedHours);
+    if (symbol) {
+      await fetchChartData(symbol, timeframe, adjusted, newExtendedHours);
+    }
+  }, [symbol, timeframe, fetchChartData, adjusted]);
 
   const handleIndicatorConfigChange = useCallback((newConfig: IndicatorConfig) => {
     setIndicatorConfig(newConfig);
@@ -630,7 +713,7 @@ export default function ChartPage() {
     // Fetch data for the new symbol
     setLoadingComparison(true);
     try {
-      const response = await fetchDailyData(newSymbol);
+      const response = await fetchDailyData(newSymbol, { adjusted });
       if (response.data && response.data.length > 0) {
         newComparisonSymbol.data = response.data;
         setComparisonSymbols(prev =>
@@ -642,7 +725,7 @@ export default function ChartPage() {
     } finally {
       setLoadingComparison(false);
     }
-  }, [comparisonSymbols, comparisonBaseSymbol, symbol]);
+  }, [comparisonSymbols, comparisonBaseSymbol, symbol, adjusted]);
 
   const handleRemoveComparisonSymbol = useCallback((symbolToRemove: string) => {
     setComparisonSymbols(prev => prev.filter(s => s.symbol !== symbolToRemove));
@@ -771,7 +854,15 @@ export default function ChartPage() {
                  <div className="flex flex-col items-start">
                    <div className="flex items-center gap-2">
                      <span className="text-lg sm:text-xl font-semibold" style={{ color: 'var(--text-primary)' }}>{symbol}</span>
-                     {liveUpdatesEnabled && wsConnected && livePrice && (
+                     {isReplaying && (
+                       <span
+                         className="inline-flex items-center px-2 py-1 rounded text-xs font-semibold bg-amber-100 text-amber-800"
+                         title="Replaying historical prices, not live data"
+                       >
+                         REPLAY
+                       </span>
+                     )}
+                     {!isReplaying && liveUpdatesEnabled && wsConnected && livePrice && (
                        <span
                          className={`inline-flex items-center px-2 py-1 rounded text-xs font-semibold transition-colors ${
                            priceFlash === 'up' ? 'bg-green-500 text-white' :
@@ -783,7 +874,7 @@ export default function ChartPage() {
                        </span>
                      )}
                    </div>
-                   {liveUpdatesEnabled && livePrice !== undefined && (
+                   {(isReplaying || liveUpdatesEnabled) && livePrice !== undefined && (
                      <div className="flex items-center gap-2 mt-1">
                        <span
                          className={`text-sm font-medium transition-colors ${
@@ -792,7 +883,7 @@ export default function ChartPage() {
                            'text-gray-700'
                          }`}
                        >
-                         ${livePrice.toFixed(2)}
+                         {formatSymbolPrice(symbol, livePrice)}
                        </span>
                        {liveChange !== undefined && liveChangePercent !== undefined && (
                          <span
@@ -800,7 +891,7 @@ export default function ChartPage() {
                              liveChange >= 0 ? 'text-green-600' : 'text-red-600'
                            }`}
                          >
-                           {liveChange >= 0 ? '+' : ''}{liveChange.toFixed(2)} (
+                           {liveChange >= 0 ? '+' : ''}{liveChange.toFixed(getPricePrecision(symbol, livePrice))} (
                            {liveChange >= 0 ? '+' : ''}{liveChangePercent.toFixed(2)}%)
                          </span>
                        )}
@@ -869,6 +960,37 @@ export default function ChartPage() {
                   onChange={handleTimeframeChange}
                   disabled={loading || !symbol}
                 />
+                <div className="flex flex-wrap gap-x-6 gap-y-2">
+                  <label
+                    className="inline-flex items-center gap-2 text-sm cursor-pointer"
+                    style={{ color: 'var(--text-secondary)' }}
+                    title="Adjust historical prices for stock splits and dividends (daily, weekly, monthly and quarterly charts)"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={adjusted}
+                      onChange={(e) => handleAdjustedChange(e.target.checked)}
+                      disabled={loading || !symbol}
+                      className="h-4 w-4 rounded"
+                    />
+                    Adjust for splits &amp; dividends
+                  </label>
+                  <label
+                    className="inline-flex items-center gap-2 text-sm cursor-pointer"
+                    style={{ color: 'var(--text-secondary)' }}
+                    title="Include pre-market (4:00-9:30) and after-hours (16:00-20:00) bars on intraday charts"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={extendedHours}
+                      onChange={(e) => handleExtendedHoursChange(e.target.checked)}
+                      // Currency pairs trade around the clock
+                      disabled={loading || !symbol || getAssetClass(symbol) !== 'equity'}
+                      className="h-4 w-4 rounded"
+                    />
+                    Extended hours
+                  </label>
+                </div>
               </div>
             </div>
 
@@ -1180,6 +1302,21 @@ export default function ChartPage() {
                     </button>
                   </div>
                 </div>
+                {/* Replay sessions belong to the signed-in user */}
+                {user && (
+                  <div className="mb-4">
+                    <ReplayControls
+                      symbol={symbol}
+                      extendedHours={extendedHours}
+                      sessionId={replaySessionId}
+                      session={replaySession}
+                      onSessionChange={setReplaySessionId}
+                    />
+                  </div>
+                )}
+                <div className="mb-4">
+                  <PriceAlertControls symbol={symbol} currentPrice={realtimePrice} />
+                </div>
                 <div
                   ref={chartContainerRef}
                   onClick={handleChartClick}
@@ -1202,6 +1339,14 @@ export default function ChartPage() {
                     symbol={symbol}
                     indicators={indicatorConfig}
                     comparisonSeries={comparisonSeries}
+                    corporateActions={corporateActions}
+                    sessions={sessions}
+                    events={events}
+                    adjusted={adjusted}
+                    extendedHours={extendedHours}
+                    metadata={metadata}
+                    timeframe={timeframe}
+                    liveBar={liveBar}
                   />
                   </div>
                 </div>
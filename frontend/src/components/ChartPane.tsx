@@ -3,9 +3,11 @@ import Chart from './Chart';
 import SymbolInput from './SymbolInput';
 import TimeframeSelector from './TimeframeSelector';
 import { IndicatorConfig } from './IndicatorControls';
-import { useRealtimePrice } from '../hooks/useWebSocket';
-import { Timeframe, OHLCVData } from '../types/stock';
-import { fetchDailyData, fetchIntradayData } from '../services/stockApi';
+import { useRealtimePrice, useLiveBar } from '../hooks/useWebSocket';
+import { Timeframe, OHLCVData, CorporateAction, StockEvent, TradingSession, DataRangeMetadata } from '../types/stock';
+import { fetchDailyData, fetchBars, fetchEvents } from '../services/stockApi';
+import { formatSymbolPrice } from '../utils/symbol';
+import { getLiveBarInterval } from '../utils/liveBars';
 
 interface ChartPaneProps {
   paneId: string;
@@ -34,6 +36,10 @@ const ChartPane = memo(function ChartPane({
   onActivate,
 }: ChartPaneProps) {
   const [chartData, setChartData] = useState<OHLCVData[]>([]);
+  const [corporateActions, setCorporateActions] = useState<CorporateAction[]>([]);
+  const [sessions, setSessions] = useState<TradingSession[]>([]);
+  const [metadata, setMetadata] = useState<DataRangeMetadata | undefined>(undefined);
+  const [events, setEvents] = useState<StockEvent[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string>('');
 
@@ -45,6 +51,9 @@ const ChartPane = memo(function ChartPane({
     isConnected: wsConnected,
   } = useRealtimePrice(symbol, liveUpdatesEnabled && isActive);
 
+  // Live candle for timeframes the server builds bars for
+  const liveBar = useLiveBar(symbol, getLiveBarInterval(timeframe), liveUpdatesEnabled && isActive);
+
   // Fetch chart data
   const fetchChartData = useCallback(
     async (stockSymbol: string, selectedTimeframe: Timeframe) => {
@@ -53,24 +62,25 @@ const ChartPane = memo(function ChartPane({
       setLoading(true);
       setError('');
       setChartData([]);
+      setCorporateActions([]);
+      setSessions([]);
+      setMetadata(undefined);
 
       try {
         let response;
 
-        if (selectedTimeframe === 'daily' || selectedTimeframe === 'weekly') {
-          response = await fetchDailyData(stockSymbol);
+        // Panes always show split/dividend-adjusted prices
+        if (selectedTimeframe === 'daily') {
+          response = await fetchDailyData(stockSymbol, { adjusted: true });
         } else {
-          const intervalMap: Record<string, string> = {
-            '15min': '15min',
-            '30min': '30min',
-            '1hour': '60min',
-          };
-          const interval = intervalMap[selectedTimeframe] || '60min';
-          response = await fetchIntradayData(stockSymbol, interval);
+          response = await fetchBars(stockSymbol, selectedTimeframe, { adjusted: true });
+          setSessions(response.sessions || []);
         }
 
         if (response.data && response.data.length > 0) {
           setChartData(response.data);
+          setCorporateActions(response.corporateActions || []);
+          setMetadata(response.metadata);
         } else {
           setError('No data available for this symbol and timeframe');
         }
@@ -93,6 +103,25 @@ const ChartPane = memo(function ChartPane({
     }
   }, [symbol, timeframe, fetchChartData]);
 
+  // Load earnings and ex-dividend events when symbol changes
+  useEffect(() => {
+    setEvents([]);
+    if (!symbol) return;
+
+    let cancelled = false;
+    fetchEvents(symbol)
+      .then((response) => {
+        if (!cancelled) setEvents(response.events);
+      })
+      .catch((err) => {
+        console.error('Error fetching events:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [symbol]);
+
   // Handle symbol submit
   const handleSymbolSubmit = useCallback(
     async (newSymbol: string) => {
@@ -143,7 +172,7 @@ const ChartPane = memo(function ChartPane({
                     bg-blue-100 text-blue-800
                   `}
                 >
-                  ${livePrice.toFixed(2)}
+                  {formatSymbolPrice(symbol, livePrice)}
                 </span>
               )}
               {liveChange !== undefined && liveChangePercent !== undefined && (
@@ -204,7 +233,18 @@ const ChartPane = memo(function ChartPane({
         )}
 
         {chartData.length > 0 && !loading && !error && (
-          <Chart data={chartData} symbol={symbol} indicators={indicators} />
+          <Chart
+            data={chartData}
+            symbol={symbol}
+            indicators={indicators}
+            corporateActions={corporateActions}
+            sessions={sessions}
+            events={events}
+            adjusted
+            metadata={metadata}
+            timeframe={timeframe}
+            liveBar={liveBar}
+          />
         )}
 
         {!loading && !error && chartData.length === 0 && !symbol && (
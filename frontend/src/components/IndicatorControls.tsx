@@ -33,6 +33,7 @@ export interface IndicatorConfig {
     color?: string;
     lineWidth?: number;
     lineStyle?: number;
+    resetAtRegularOpen?: boolean; // Ignore pre-market bars on extended-hours charts
   };
   pivotPoints: {
     enabled: boolean;
@@ -491,6 +492,20 @@ export const IndicatorControls: React.FC<IndicatorControlsProps> = ({
                   />
                 </div>
               )}
+              {config.vwap.enabled && (
+                <div className="ml-6 flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    id="vwap-reset-regular-open"
+                    checked={config.vwap.resetAtRegularOpen ?? false}
+                    onChange={(e) => updateIndicator('vwap', { resetAtRegularOpen: e.target.checked })}
+                    className="w-4 h-4 text-teal-600 bg-gray-100 border-gray-300 rounded focus:ring-teal-500 focus:ring-2"
+                  />
+                  <label htmlFor="vwap-reset-regular-open" className="text-sm text-gray-600 dark:text-gray-400">
+                    Reset at regular open (extended hours)
+                  </label>
+                </div>
+              )}
             </div>
 
             {/* Pivot Points */}
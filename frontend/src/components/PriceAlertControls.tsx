@@ -0,0 +1,366 @@
+/**
+ * Price Alert Controls Component
+ * Creates price and indicator alerts for the charted symbol and lists its
+ * existing ones (delete, re-arm). Alerts fire on the server; see AlertToasts
+ * for delivery.
+ */
+
+import { useState, useEffect, useCallback, CSSProperties } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useUserEvents } from '../hooks/useWebSocket';
+import { getAlerts, createAlert, updateAlert, deleteAlert } from '../services/alertsApi';
+import {
+  PriceAlert,
+  AlertCondition,
+  IndicatorAlertTimeframe,
+  IndicatorComparison,
+  IndicatorName,
+  IndicatorOperand,
+  IndicatorRule,
+} from '../types/alerts';
+
+interface PriceAlertControlsProps {
+  symbol: string;
+  currentPrice?: number; // Prefills the target
+}
+
+const CONDITION_LABELS: Record<AlertCondition, string> = {
+  price_above: 'Price above',
+  price_below: 'Price below',
+  crosses: 'Crosses',
+  percent_change: 'Day change %',
+  indicator: 'Indicator',
+};
+
+// Indicators a rule can compare, with the period they start with (those that take one)
+const INDICATOR_OPTIONS: Record<IndicatorName, { label: string; defaultPeriod?: number }> = {
+  close: { label: 'Close' },
+  sma: { label: 'SMA', defaultPeriod: 50 },
+  ema: { label: 'EMA', defaultPeriod: 20 },
+  rsi: { label: 'RSI', defaultPeriod: 14 },
+  macd: { label: 'MACD' },
+  macd_signal: { label: 'MACD signal' },
+  volume_ratio: { label: 'Volume ratio', defaultPeriod: 20 },
+};
+
+const COMPARISON_LABELS: Record<IndicatorComparison, string> = {
+  crosses_above: 'crosses above',
+  crosses_below: 'crosses below',
+  above: 'above',
+  below: 'below',
+};
+
+const TIMEFRAME_LABELS: Record<IndicatorAlertTimeframe, string> = {
+  '15min': '15m close',
+  '1hour': '1h close',
+  daily: 'Daily close',
+};
+
+// An operand being edited (period as typed)
+interface OperandDraft {
+  indicator: IndicatorName;
+  period: string;
+}
+
+function createDraft(indicator: IndicatorName): OperandDraft {
+  const { defaultPeriod } = INDICATOR_OPTIONS[indicator];
+  return { indicator, period: defaultPeriod !== undefined ? String(defaultPeriod) : '' };
+}
+
+/**
+ * Operand of a draft, or null when its period isn't a whole number of at least 2
+ */
+function toOperand(draft: OperandDraft): IndicatorOperand | null {
+  if (INDICATOR_OPTIONS[draft.indicator].defaultPeriod === undefined) {
+    return { indicator: draft.indicator };
+  }
+  const period = Number(draft.period);
+  return Number.isInteger(period) && period >= 2 ? { indicator: draft.indicator, period } : null;
+}
+
+function describeOperand(operand: IndicatorOperand | number): string {
+  if (typeof operand === 'number') {
+    return String(operand);
+  }
+  const { label } = INDICATOR_OPTIONS[operand.indicator];
+  return operand.period !== undefined ? `${label}(${operand.period})` : label;
+}
+
+/**
+ * Short description of an alert, e.g. "Crosses 200", "Day change ≤ -5%" or
+ * "RSI(14) crosses below 30 · Daily close"
+ */
+function describeAlert(alert: PriceAlert): string {
+  if (alert.rule && alert.timeframe) {
+    const { left, comparison, right } = alert.rule;
+    return `${describeOperand(left)} ${COMPARISON_LABELS[comparison]} ${describeOperand(right)} · ${TIMEFRAME_LABELS[alert.timeframe]}`;
+  }
+  const target = alert.target ?? 0;
+  if (alert.condition === 'percent_change') {
+    return `Day change ${target >= 0 ? '≥ +' : '≤ '}${target}%`;
+  }
+  return `${CONDITION_LABELS[alert.condition]} ${target}`;
+}
+
+interface OperandInputProps {
+  draft: OperandDraft;
+  onChange: (draft: OperandDraft) => void;
+  disabled: boolean;
+  style: CSSProperties;
+}
+
+/**
+ * Indicator select, with a period input for those that take one
+ */
+function OperandInput({ draft, onChange, disabled, style }: OperandInputProps) {
+  return (
+    <>
+      <select
+        value={draft.indicator}
+        onChange={(e) => onChange(createDraft(e.target.value as IndicatorName))}
+        disabled={disabled}
+        className="px-2 py-2 rounded-md text-sm min-h-[44px]"
+        style={style}
+        title="Indicator"
+      >
+        {(Object.keys(INDICATOR_OPTIONS) as IndicatorName[]).map((value) => (
+          <option key={value} value={value}>{INDICATOR_OPTIONS[value].label}</option>
+        ))}
+      </select>
+      {INDICATOR_OPTIONS[draft.indicator].defaultPeriod !== undefined && (
+        <input
+          type="number"
+          min={2}
+          step={1}
+          value={draft.period}
+          onChange={(e) => onChange({ ...draft, period: e.target.value })}
+          disabled={disabled}
+          className="w-16 px-2 py-2 rounded-md text-sm min-h-[44px]"
+          style={style}
+          title={draft.indicator === 'volume_ratio' ? 'Bars the volume is averaged over' : 'Period'}
+        />
+      )}
+    </>
+  );
+}
+
+export default function PriceAlertControls({ symbol, currentPrice }: PriceAlertControlsProps) {
+  const { isAuthenticated } = useAuth();
+  const [alerts, setAlerts] = useState<PriceAlert[]>([]);
+  const [condition, setCondition] = useState<AlertCondition>('crosses');
+  const [target, setTarget] = useState('');
+  const [rearm, setRearm] = useState(false);
+  // Indicator rule being built; a null right side compares with the target value
+  const [timeframe, setTimeframe] = useState<IndicatorAlertTimeframe>('daily');
+  const [left, setLeft] = useState<OperandDraft>(() => createDraft('rsi'));
+  const [comparison, setComparison] = useState<IndicatorComparison>('crosses_below');
+  const [right, setRight] = useState<OperandDraft | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAlerts = useCallback(async () => {
+    try {
+      const all = await getAlerts();
+      setAlerts(all.filter((alert) => alert.symbol === symbol));
+    } catch (err) {
+      console.error('Error loading alerts:', err);
+    }
+  }, [symbol]);
+
+  useEffect(() => {
+    setAlerts([]);
+    setError(null);
+    if (isAuthenticated && symbol) {
+      loadAlerts();
+    }
+  }, [isAuthenticated, symbol, loadAlerts]);
+
+  // A fired alert changes status
+  useUserEvents('alerts', () => {
+    loadAlerts();
+  }, isAuthenticated && !!symbol);
+
+  if (!isAuthenticated || !symbol) {
+    return null;
+  }
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      await loadAlerts();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Alert request failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAdd = () => {
+    if (condition === 'indicator') {
+      handleAddIndicator();
+      return;
+    }
+
+    const value = parseFloat(target);
+    if (isNaN(value)) {
+      setError(condition === 'percent_change' ? 'Enter a percent change' : 'Enter a price');
+      return;
+    }
+    run(async () => {
+      await createAlert({ symbol, condition, target: value, rearm });
+      setTarget('');
+    });
+  };
+
+  const handleAddIndicator = () => {
+    const leftOperand = toOperand(left);
+    const rightOperand = right ? toOperand(right) : parseFloat(target);
+    if (!leftOperand || rightOperand === null) {
+      setError('Periods must be whole numbers of at least 2');
+      return;
+    }
+    if (typeof rightOperand === 'number' && isNaN(rightOperand)) {
+      setError('Enter a value to compare with');
+      return;
+    }
+
+    const rule: IndicatorRule = { left: leftOperand, comparison, right: rightOperand };
+    run(async () => {
+      await createAlert({ symbol, condition, timeframe, rule, rearm });
+      setTarget('');
+    });
+  };
+
+  const inputStyle = { backgroundColor: 'var(--bg-secondary)', color: 'var(--text-primary)', border: '1px solid var(--border-primary)' };
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      <select
+        value={condition}
+        onChange={(e) => setCondition(e.target.value as AlertCondition)}
+        disabled={busy}
+        className="px-2 py-2 rounded-md text-sm min-h-[44px]"
+        style={inputStyle}
+        title="Alert condition"
+      >
+        {(Object.keys(CONDITION_LABELS) as AlertCondition[]).map((value) => (
+          <option key={value} value={value}>{CONDITION_LABELS[value]}</option>
+        ))}
+      </select>
+      {condition === 'indicator' && (
+        <>
+          <select
+            value={timeframe}
+            onChange={(e) => setTimeframe(e.target.value as IndicatorAlertTimeframe)}
+            disabled={busy}
+            className="px-2 py-2 rounded-md text-sm min-h-[44px]"
+            style={inputStyle}
+            title="Checked when a bar of this timeframe closes"
+          >
+            {(Object.keys(TIMEFRAME_LABELS) as IndicatorAlertTimeframe[]).map((value) => (
+              <option key={value} value={value}>{TIMEFRAME_LABELS[value]}</option>
+            ))}
+          </select>
+          <OperandInput draft={left} onChange={setLeft} disabled={busy} style={inputStyle} />
+          <select
+            value={comparison}
+            onChange={(e) => setComparison(e.target.value as IndicatorComparison)}
+            disabled={busy}
+            className="px-2 py-2 rounded-md text-sm min-h-[44px]"
+            style={inputStyle}
+            title="Comparison (crosses compares the closed bar with the one before)"
+          >
+            {(Object.keys(COMPARISON_LABELS) as IndicatorComparison[]).map((value) => (
+              <option key={value} value={value}>{COMPARISON_LABELS[value]}</option>
+            ))}
+          </select>
+          <select
+            value={right ? right.indicator : 'value'}
+            onChange={(e) => setRight(e.target.value === 'value' ? null : createDraft(e.target.value as IndicatorName))}
+            disabled={busy}
+            className="px-2 py-2 rounded-md text-sm min-h-[44px]"
+            style={inputStyle}
+            title="Compare with a value or another indicator"
+          >
+            <option value="value">Value</option>
+            {(Object.keys(INDICATOR_OPTIONS) as IndicatorName[]).map((value) => (
+              <option key={value} value={value}>{INDICATOR_OPTIONS[value].label}</option>
+            ))}
+          </select>
+          {right && (
+            INDICATOR_OPTIONS[right.indicator].defaultPeriod !== undefined && (
+              <input
+                type="number"
+                min={2}
+                step={1}
+                value={right.period}
+                onChange={(e) => setRight({ ...right, period: e.target.value })}
+                disabled={busy}
+                className="w-16 px-2 py-2 rounded-md text-sm min-h-[44px]"
+                style={inputStyle}
+                title="Period"
+              />
+            )
+          )}
+        </>
+      )}
+      {(condition !== 'indicator' || !right) && (
+        <input
+          type="number"
+          step="any"
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder={
+            condition === 'indicator' ? '30'
+              : condition === 'percent_change' ? '-5'
+              : currentPrice !== undefined ? String(currentPrice) : 'Price'
+          }
+          disabled={busy}
+          className="w-28 px-2 py-2 rounded-md text-sm min-h-[44px]"
+          style={inputStyle}
+          title={
+            condition === 'indicator' ? 'Value to compare with'
+              : condition === 'percent_change' ? 'Day change in percent (negative for a drop)'
+              : 'Price level'
+          }
+        />
+      )}
+      <label className="flex items-center gap-1 text-sm" style={{ color: 'var(--text-secondary)' }} title="Fire again each time the condition is met anew">
+        <input type="checkbox" checked={rearm} onChange={(e) => setRearm(e.target.checked)} disabled={busy} className="h-4 w-4 rounded" />
+        Repeat
+      </label>
+      <button
+        onClick={handleAdd}
+        disabled={busy || (!target && !(condition === 'indicator' && right))}
+        className="px-3 py-2 rounded-md text-sm min-h-[44px] text-white disabled:opacity-50 transition-colors"
+        style={{ backgroundColor: 'var(--accent)' }}
+        title={`Notify me when ${symbol} meets this condition`}
+      >
+        Add Alert
+      </button>
+      {alerts.map((alert) => (
+        <span
+          key={alert.id}
+          className="inline-flex items-center gap-1 px-2 py-1 rounded text-xs"
+          style={{ ...inputStyle, opacity: alert.status === 'triggered' ? 0.6 : 1 }}
+          title={alert.status === 'triggered' ? `Triggered ${alert.lastTriggeredAt ? new Date(alert.lastTriggeredAt).toLocaleString() : ''}` : 'Active'}
+        >
+          {describeAlert(alert)}
+          {alert.rearm && ' ↻'}
+          {alert.status === 'triggered' && (
+            <button onClick={() => run(() => updateAlert(alert.id, { status: 'active' }))} disabled={busy} className="underline" title="Re-arm">
+              re-arm
+            </button>
+          )}
+          <button onClick={() => run(() => deleteAlert(alert.id))} disabled={busy} aria-label="Delete alert" title="Delete">
+            ×
+          </button>
+        </span>
+      ))}
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+/**
+ * Replay Controls Component
+ * Starts a historical replay of a past trading day and controls its playback
+ * (pause/resume, seek, speed). Replayed prices arrive over the WebSocket tagged
+ * as replay, see useReplaySession.
+ */
+
+import { useState, useEffect } from 'react';
+import { ReplaySessionInfo } from '../types/realtime';
+import {
+  startReplay,
+  pauseReplay,
+  resumeReplay,
+  seekReplay,
+  setReplaySpeed,
+  stopReplay,
+} from '../services/replayApi';
+import websocketService from '../services/websocketService';
+
+interface ReplayControlsProps {
+  symbol: string;
+  extendedHours: boolean;
+  sessionId: string | null;
+  session: ReplaySessionInfo | null;
+  onSessionChange: (sessionId: string | null) => void;
+}
+
+const SPEEDS = [1, 10, 60];
+
+/**
+ * Most recent weekday before today (YYYY-MM-DD)
+ */
+function getDefaultReplayDate(): string {
+  const date = new Date();
+  do {
+    date.setDate(date.getDate() - 1);
+  } while (date.getDay() === 0 || date.getDay() === 6);
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Simulated clock in the session's market time (UTC for crypto, New York otherwise)
+ */
+export function formatReplayTime(session: ReplaySessionInfo, time: string = session.currentTime): string {
+  const utc = session.assetClass === 'crypto';
+  const formatted = new Date(time).toLocaleTimeString('en-US', {
+    timeZone: utc ? 'UTC' : 'America/New_York',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+  return `${formatted} ${utc ? 'UTC' : 'ET'}`;
+}
+
+export default function ReplayControls({
+  symbol,
+  extendedHours,
+  sessionId,
+  session,
+  onSessionChange,
+}: ReplayControlsProps) {
+  const [date, setDate] = useState(getDefaultReplayDate);
+  const [speed, setSpeed] = useState(10);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Slider position while dragging, committed on release
+  const [seekTime, setSeekTime] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (session) {
+      setSpeed(session.speed);
+    }
+  }, [session?.speed]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Replay request failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleStart = () =>
+    run(async () => {
+      // Created paused and joined before playing, so the first prices aren't missed
+      const created = await startReplay({ symbol, date, speed, extendedHours, paused: true });
+      websocketService.joinReplay(created.id);
+      onSessionChange(created.id);
+      await resumeReplay(created.id);
+    });
+
+  const handleStop = () =>
+    run(async () => {
+      if (sessionId) {
+        onSessionChange(null);
+        await stopReplay(sessionId);
+      }
+    });
+
+  const handleSpeedChange = (newSpeed: number) => {
+    setSpeed(newSpeed);
+    if (sessionId) {
+      run(() => setReplaySpeed(sessionId, newSpeed));
+    }
+  };
+
+  const commitSeek = () => {
+    if (sessionId && seekTime !== null) {
+      const time = new Date(seekTime).toISOString();
+      setSeekTime(null);
+      run(() => seekReplay(sessionId, time));
+    }
+  };
+
+  const speedSelect = (
+    <select
+      value={speed}
+      onChange={(e) => handleSpeedChange(Number(e.target.value))}
+      disabled={busy}
+      className="px-2 py-2 rounded-md text-sm min-h-[44px]"
+      style={{ backgroundColor: 'var(--bg-secondary)', color: 'var(--text-primary)', border: '1px solid var(--border-primary)' }}
+      title="Replay speed"
+    >
+      {SPEEDS.map((value) => (
+        <option key={value} value={value}>{value}x</option>
+      ))}
+    </select>
+  );
+
+  if (!sessionId) {
+    return (
+      <div className="flex items-center gap-2 flex-wrap">
+        <input
+          type="date"
+          value={date}
+          max={new Date().toISOString().split('T')[0]}
+          onChange={(e) => setDate(e.target.value)}
+          disabled={busy}
+          className="px-2 py-2 rounded-md text-sm min-h-[44px]"
+          style={{ backgroundColor: 'var(--bg-secondary)', color: 'var(--text-primary)', border: '1px solid var(--border-primary)' }}
+          title="Trading day to replay"
+        />
+        {speedSelect}
+        <button
+          onClick={handleStart}
+          disabled={busy || !symbol || !date}
+          className="px-3 py-2 rounded-md text-sm min-h-[44px] bg-amber-500 text-white hover:bg-amber-600 disabled:opacity-50 transition-colors"
+          title="Replay this trading day as a live stream"
+        >
+          {busy ? 'Starting...' : 'Replay Day'}
+        </button>
+        {error && <span className="text-xs text-red-600">{error}</span>}
+      </div>
+    );
+  }
+
+  const start = session ? Date.parse(session.startTime) : 0;
+  const end = session ? Date.parse(session.endTime) : 0;
+  const current = seekTime ?? (session ? Date.parse(session.currentTime) : 0);
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      <span className="inline-flex items-center px-2 py-1 rounded text-xs font-semibold bg-amber-100 text-amber-800">
+        REPLAY {session ? `${session.date} ${formatReplayTime(session, new Date(current).toISOString())}` : ''}
+      </span>
+      <button
+        onClick={() => sessionId && run(() => (session?.status === 'playing' ? pauseReplay(sessionId) : resumeReplay(sessionId)))}
+        disabled={busy || !session}
+        className="px-3 py-2 rounded-md text-sm min-h-[44px] transition-colors"
+        style={{ backgroundColor: 'var(--bg-secondary)', color: 'var(--text-primary)', border: '1px solid var(--border-primary)' }}
+      >
+        {session?.status === 'playing' ? 'Pause' : session?.status === 'ended' ? 'Restart' : 'Resume'}
+      </button>
+      {session && (
+        <input
+          type="range"
+          min={start}
+          max={end}
+          step={60 * 1000}
+          value={current}
+          onChange={(e) => setSeekTime(Number(e.target.value))}
+          onMouseUp={commitSeek}
+          onTouchEnd={commitSeek}
+          onKeyUp={commitSeek}
+          className="w-32 sm:w-48"
+          title="Seek"
+        />
+      )}
+      {speedSelect}
+      <button
+        onClick={handleStop}
+        disabled={busy}
+        className="px-3 py-2 rounded-md text-sm min-h-[44px] bg-red-600 text-white hover:bg-red-700 disabled:opacity-50 transition-colors"
+      >
+        Stop Replay
+      </button>
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </div>
+  );
+}
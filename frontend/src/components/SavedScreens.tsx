@@ -0,0 +1,372 @@
+/**
+ * Saved Screens Component
+ * Screener sidebar panel for the signed-in user's saved screens: load one,
+ * save the current filters, sort and page size as a new screen or over the
+ * selected one, and see its past runs with the symbols that entered or left.
+ * Screens run after each daily metrics update; a run that changes the
+ * selected screen refreshes its history (user_event on the notifications channel).
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useUserEvents } from '../hooks/useWebSocket';
+import { ScreenerFilters, SortConfig } from '../types/screener';
+import { SavedScreen, ScreenRun, ScreenChangedEvent } from '../types/screens';
+import { getScreens, createScreen, updateScreen, deleteScreen, getScreenRuns } from '../services/screensApi';
+import { toScreenFilters } from '../utils/screenFilters';
+
+// Runs shown in the history
+const RUN_HISTORY_LIMIT = 10;
+// Selected screen is kept across reloads
+const SELECTED_SCREEN_KEY = 'screener_selected_screen';
+
+interface SavedScreensProps {
+  filters: ScreenerFilters;
+  sortConfig: SortConfig;
+  pageSize: number;
+  onLoadScreen: (screen: SavedScreen) => void;
+}
+
+const getStoredScreenId = (): number | null => {
+  const stored = localStorage.getItem(SELECTED_SCREEN_KEY);
+  return stored ? parseInt(stored, 10) : null;
+};
+
+const formatRunDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export default function SavedScreens({ filters, sortConfig, pageSize, onLoadScreen }: SavedScreensProps) {
+  const { isAuthenticated } = useAuth();
+  const [screens, setScreens] = useState<SavedScreen[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(getStoredScreenId());
+  const [runs, setRuns] = useState<ScreenRun[]>([]);
+  const [newName, setNewName] = useState('');
+  const [showSaveAs, setShowSaveAs] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const selectedScreen = screens.find((screen) => screen.id === selectedId) ?? null;
+
+  const selectScreen = (id: number | null) => {
+    setSelectedId(id);
+    setConfirmDelete(false);
+    if (id === null) {
+      localStorage.removeItem(SELECTED_SCREEN_KEY);
+    } else {
+      localStorage.setItem(SELECTED_SCREEN_KEY, id.toString());
+    }
+  };
+
+  const loadRuns = useCallback(async (id: number) => {
+    try {
+      setRuns(await getScreenRuns(id, RUN_HISTORY_LIMIT));
+    } catch (err) {
+      console.error('Error loading screen runs:', err);
+    }
+  }, []);
+
+  // Load screens when the user signs in
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setScreens([]);
+      return;
+    }
+
+    const loadScreens = async () => {
+      try {
+        setScreens(await getScreens());
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to load saved screens';
+        setError(errorMessage);
+        console.error('Error loading saved screens:', err);
+      }
+    };
+
+    loadScreens();
+  }, [isAuthenticated]);
+
+  // Load the selected screen's run history
+  useEffect(() => {
+    setRuns([]);
+    if (isAuthenticated && selectedId !== null) {
+      loadRuns(selectedId);
+    }
+  }, [isAuthenticated, selectedId, loadRuns]);
+
+  // A scheduled run changed one of the user's screens
+  const handleNotification = useCallback((data: Record<string, unknown>) => {
+    if (data.type !== 'screen_changed') {
+      return;
+    }
+
+    const event = data as unknown as ScreenChangedEvent;
+    setScreens((current) =>
+      current.map((screen) => (screen.id === event.screenId ? { ...screen, lastRunAt: event.runAt } : screen))
+    );
+    if (event.screenId === selectedId) {
+      loadRuns(event.screenId);
+    }
+  }, [selectedId, loadRuns]);
+
+  useUserEvents('notifications', handleNotification, isAuthenticated);
+
+  const handleSelect = (value: string) => {
+    const id = value ? parseInt(value, 10) : null;
+    selectScreen(id);
+
+    const screen = screens.find((s) => s.id === id);
+    if (screen) {
+      onLoadScreen(screen);
+    }
+  };
+
+  const handleSaveAs = async () => {
+    const name = newName.trim();
+    if (!name) {
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+
+    try {
+      const screen = await createScreen({
+        name,
+        filters: toScreenFilters(filters),
+        display: { sort: sortConfig, pageSize },
+      });
+      setScreens((current) => [...current, screen].sort((a, b) => a.name.localeCompare(b.name)));
+      selectScreen(screen.id);
+      setNewName('');
+      setShowSaveAs(false);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save screen';
+      setError(errorMessage);
+      console.error('Error saving screen:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Save the current filters over the selected screen
+  const handleUpdate = async () => {
+    if (!selectedScreen) {
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+
+    try {
+      const screen = await updateScreen(selectedScreen.id, {
+        filters: toScreenFilters(filters),
+        display: { sort: sortConfig, pageSize },
+      });
+      setScreens((current) => current.map((s) => (s.id === screen.id ? screen : s)));
+      loadRuns(screen.id);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update screen';
+      setError(errorMessage);
+      console.error('Error updating screen:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleNotify = async () => {
+    if (!selectedScreen) {
+      return;
+    }
+
+    setError('');
+
+    try {
+      const screen = await updateScreen(selectedScreen.id, { notify: !selectedScreen.notify });
+      setScreens((current) => current.map((s) => (s.id === screen.id ? screen : s)));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update screen';
+      setError(errorMessage);
+      console.error('Error updating screen:', err);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedScreen) {
+      return;
+    }
+
+    setError('');
+
+    try {
+      await deleteScreen(selectedScreen.id);
+      setScreens((current) => current.filter((s) => s.id !== selectedScreen.id));
+      selectScreen(null);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete screen';
+      setError(errorMessage);
+      console.error('Error deleting screen:', err);
+    }
+  };
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  const buttonStyle = {
+    backgroundColor: 'var(--bg-secondary)',
+    color: 'var(--text-primary)',
+    border: '1px solid var(--border-primary)',
+  };
+
+  return (
+    <div className="rounded-lg shadow p-4 mb-4" style={{ backgroundColor: 'var(--bg-primary)' }}>
+      <h2 className="text-lg font-semibold mb-3" style={{ color: 'var(--text-primary)' }}>Saved Screens</h2>
+
+      {error && (
+        <div className="mb-3 p-2 rounded-md" style={{
+          backgroundColor: 'var(--color-error-bg)',
+          border: '1px solid var(--color-error)',
+        }}>
+          <p className="text-xs" style={{ color: 'var(--color-error)' }}>{error}</p>
+        </div>
+      )}
+
+      <select
+        value={selectedId ?? ''}
+        onChange={(e) => handleSelect(e.target.value)}
+        className="w-full px-3 py-2 rounded-md text-sm mb-2"
+        style={buttonStyle}
+      >
+        <option value="">Unsaved filters</option>
+        {screens.map((screen) => (
+          <option key={screen.id} value={screen.id}>{screen.name}</option>
+        ))}
+      </select>
+
+      {selectedScreen && (
+        <div className="space-y-2 mb-2">
+          <label className="flex items-center gap-2 text-sm" style={{ color: 'var(--text-secondary)' }}>
+            <input type="checkbox" checked={selectedScreen.notify} onChange={handleToggleNotify} />
+            Notify me when symbols enter or leave
+          </label>
+          <div className="flex gap-2">
+            <button
+              onClick={handleUpdate}
+              disabled={saving}
+              className="flex-1 px-3 py-2 text-sm rounded-md transition-colors disabled:opacity-50"
+              style={buttonStyle}
+              title="Save the current filters to this screen"
+            >
+              Update
+            </button>
+            {confirmDelete ? (
+              <>
+                <button
+                  onClick={handleDelete}
+                  className="px-3 py-2 text-sm rounded-md bg-red-600 text-white hover:bg-red-700 transition-colors"
+                >
+                  Confirm
+                </button>
+                <button
+                  onClick={() => setConfirmDelete(false)}
+                  className="px-3 py-2 text-sm rounded-md transition-colors"
+                  style={buttonStyle}
+                >
+                  Cancel
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={() => setConfirmDelete(true)}
+                className="px-3 py-2 text-sm rounded-md transition-colors"
+                style={buttonStyle}
+                title="Delete this screen and its history"
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {showSaveAs ? (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSaveAs()}
+            placeholder="Screen name"
+            maxLength={100}
+            autoFocus
+            className="flex-1 min-w-0 px-3 py-2 rounded-md text-sm"
+            style={buttonStyle}
+          />
+          <button
+            onClick={handleSaveAs}
+            disabled={saving || !newName.trim()}
+            className="px-3 py-2 text-sm rounded-md text-white transition-colors disabled:opacity-50"
+            style={{ backgroundColor: 'var(--accent)' }}
+          >
+            Save
+          </button>
+          <button
+            onClick={() => setShowSaveAs(false)}
+            className="px-3 py-2 text-sm rounded-md transition-colors"
+            style={buttonStyle}
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={() => setShowSaveAs(true)}
+          className="w-full px-3 py-2 text-sm rounded-md text-white transition-colors"
+          style={{ backgroundColor: 'var(--accent)' }}
+          onMouseEnter={(e) => e.currentTarget.style.backgroundColor = 'var(--accent-hover)'}
+          onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'var(--accent)'}
+        >
+          Save current filters as...
+        </button>
+      )}
+
+      {/* Run History */}
+      {selectedScreen && (
+        <div className="mt-4">
+          <h3 className="text-sm font-medium mb-2" style={{ color: 'var(--text-primary)' }}>Run History</h3>
+          {runs.length === 0 ? (
+            <p className="text-xs" style={{ color: 'var(--text-tertiary)' }}>
+              Runs after each daily metrics update
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {runs.map((run) => (
+                <li key={run.id} className="text-xs" style={{ color: 'var(--text-secondary)' }}>
+                  <div>
+                    {formatRunDate(run.runAt)} · {run.matchCount} match{run.matchCount !== 1 ? 'es' : ''}
+                  </div>
+                  {run.entered.length > 0 && (
+                    <div className="break-words" style={{ color: 'var(--color-success)' }}>
+                      + {run.entered.join(', ')}
+                    </div>
+                  )}
+                  {run.exited.length > 0 && (
+                    <div className="break-words" style={{ color: 'var(--color-error)' }}>
+                      − {run.exited.join(', ')}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import ScreenerFiltersComponent from './ScreenerFilters';
+import SavedScreens from './SavedScreens';
 import StockTable from './StockTable';
 import Pagination from './Pagination';
 import ThemeToggle from './ThemeToggle';
@@ -9,15 +10,16 @@ import KeyboardShortcutsHelp from './KeyboardShortcutsHelp';
 import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
 import { useTheme } from '../contexts/ThemeContext';
 import { exportToCSV } from '../utils/csvExport';
+import { toStockListQuery, fromScreenFilters } from '../utils/screenFilters';
 import {
   ScreenerFilters,
   StockMetadata,
   SortConfig,
   SortField,
-  MARKET_CAP_RANGES,
   StockListQuery,
   PaginationMetadata,
 } from '../types/screener';
+import { SavedScreen } from '../types/screens';
 import { fetchStocksList, fetchSectors } from '../services/screenerApi';
 
 // Initial filter state
@@ -32,6 +34,26 @@ const getInitialSort = (): SortConfig => ({
   direction: 'desc',
 });
 
+// Get filters from localStorage (kept across reloads) or the initial state
+const getStoredFilters = (): ScreenerFilters => {
+  try {
+    const stored = localStorage.getItem('screener_filters');
+    return stored ? { ...getInitialFilters(), ...JSON.parse(stored) } : getInitialFilters();
+  } catch {
+    return getInitialFilters();
+  }
+};
+
+// Get sort configuration from localStorage or the initial one
+const getStoredSort = (): SortConfig => {
+  try {
+    const stored = localStorage.getItem('screener_sort');
+    return stored ? JSON.parse(stored) : getInitialSort();
+  } catch {
+    return getInitialSort();
+  }
+};
+
 // Get initial page size from localStorage or default to 25
 const getInitialPageSize = (): number => {
   const stored = localStorage.getItem('screener_page_size');
@@ -43,10 +65,10 @@ export default function Screener() {
   const { toggleTheme } = useTheme();
   
   // State management
-  const [filters, setFilters] = useState<ScreenerFilters>(getInitialFilters());
+  const [filters, setFilters] = useState<ScreenerFilters>(getStoredFilters());
   const [stocks, setStocks] = useState<StockMetadata[]>([]);
   const [sectors, setSectors] = useState<string[]>([]);
-  const [sortConfig, setSortConfig] = useState<SortConfig>(getInitialSort());
+  const [sortConfig, setSortConfig] = useState<SortConfig>(getStoredSort());
   const [showFilters, setShowFilters] = useState(false); // Mobile filter drawer state
   const [showHelp, setShowHelp] = useState(false); // Keyboard shortcuts help modal
   const [exportingCSV, setExportingCSV] = useState(false); // CSV export loading state
@@ -87,58 +109,11 @@ export default function Screener() {
   }, []);
 
   // Build query from filters
-  const buildQuery = useCallback((): StockListQuery => {
-    const query: StockListQuery = {
-      page: currentPage,
-      limit: pageSize,
-    };
-
-    // Market cap filter
-    if (filters.marketCapRange !== 'all') {
-      const range = MARKET_CAP_RANGES[filters.marketCapRange];
-      if (range.min !== undefined) {
-        query.minMarketCap = range.min;
-      }
-      if (range.max !== undefined) {
-        query.maxMarketCap = range.max;
-      }
-    }
-
-    // Custom market cap overrides
-    if (filters.customMinMarketCap !== undefined) {
-      query.minMarketCap = filters.customMinMarketCap;
-    }
-    if (filters.customMaxMarketCap !== undefined) {
-      query.maxMarketCap = filters.customMaxMarketCap;
-    }
-
-    // Price filters
-    if (filters.minPrice !== undefined) {
-      query.minPrice = filters.minPrice;
-    }
-    if (filters.maxPrice !== undefined) {
-      query.maxPrice = filters.maxPrice;
-    }
-
-    // Technical filters
-    if (filters.rsiMin !== undefined) {
-      query.rsiMin = filters.rsiMin;
-    }
-    if (filters.rsiMax !== undefined) {
-      query.rsiMax = filters.rsiMax;
-    }
-    if (filters.priceVsSma50) {
-      query.priceVsSma50 = filters.priceVsSma50;
-    }
-    if (filters.priceVsSma200) {
-      query.priceVsSma200 = filters.priceVsSma200;
-    }
-    if (filters.volumeSpikeMin !== undefined) {
-      query.volumeSpikeMin = filters.volumeSpikeMin;
-    }
-
-    return query;
-  }, [filters, currentPage, pageSize]);
+  const buildQuery = useCallback((): StockListQuery => ({
+    ...toStockListQuery(filters),
+    page: currentPage,
+    limit: pageSize,
+  }), [filters, currentPage, pageSize]);
 
   // Fetch stocks based on filters and pagination
   const loadStocks = useCallback(async () => {
@@ -204,6 +179,15 @@ export default function Screener() {
     loadStocks();
   }, [loadStocks]);
 
+  // Keep filters and sort across reloads
+  useEffect(() => {
+    localStorage.setItem('screener_filters', JSON.stringify(filters));
+  }, [filters]);
+
+  useEffect(() => {
+    localStorage.setItem('screener_sort', JSON.stringify(sortConfig));
+  }, [sortConfig]);
+
   // Handle sort change
   const handleSort = (field: SortField) => {
     setSortConfig(prevConfig => ({
@@ -243,6 +227,19 @@ export default function Screener() {
     localStorage.setItem('screener_page_size', newPageSize.toString());
   };
 
+  // Handle loading a saved screen's filters and display settings
+  const handleLoadScreen = (screen: SavedScreen) => {
+    setFilters(fromScreenFilters(screen.filters));
+    if (screen.display.sort) {
+      setSortConfig(screen.display.sort);
+    }
+    if (screen.display.pageSize) {
+      setPageSize(screen.display.pageSize);
+      localStorage.setItem('screener_page_size', screen.display.pageSize.toString());
+    }
+    setCurrentPage(1);
+  };
+
   // Handle stock click - navigate to chart
   const handleStockClick = (symbol: string) => {
     navigate(`/?symbol=${symbol}`);
@@ -381,6 +378,12 @@ export default function Screener() {
             <div className="grid grid-cols-1 lg:grid-cols-4 gap-4 sm:gap-6">
               {/* Filters Panel - Mobile Drawer / Desktop Sidebar */}
               <div className={`lg:col-span-1 ${showFilters ? 'block' : 'hidden lg:block'}`}>
+                <SavedScreens
+                  filters={filters}
+                  sortConfig={sortConfig}
+                  pageSize={pageSize}
+                  onLoadScreen={handleLoadScreen}
+                />
                 <ScreenerFiltersComponent
                   filters={filters}
                   sectors={sectors}
@@ -1,5 +1,8 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { ScreenerFilters, MarketCapRange, MARKET_CAP_RANGES } from '../types/screener';
+import { EXPRESSION_FIELDS, validateScreenerExpression } from '../utils/screenerExpression';
+
+const EXPRESSION_EXAMPLE = "rsi < 30 and price_vs_sma_200 > 0 and (sector = 'Technology' or volume_spike >= 2)";
 
 interface ScreenerFiltersProps {
   filters: ScreenerFilters;
@@ -17,12 +20,23 @@ export default function ScreenerFiltersComponent({
   loadingSectors,
 }: ScreenerFiltersProps) {
   const [localFilters, setLocalFilters] = useState<ScreenerFilters>(filters);
+  const [expressionDraft, setExpressionDraft] = useState(filters.expression ?? '');
 
   // Update local filters when parent filters change
   useEffect(() => {
     setLocalFilters(filters);
   }, [filters]);
 
+  useEffect(() => {
+    setExpressionDraft(filters.expression ?? '');
+  }, [filters.expression]);
+
+  // Expression errors show as the user types; only valid expressions are applied
+  const expressionError = useMemo(
+    () => (expressionDraft.trim() ? validateScreenerExpression(expressionDraft) : null),
+    [expressionDraft]
+  );
+
   // Apply filters with debounce
   const applyFilters = (newFilters: ScreenerFilters) => {
     setLocalFilters(newFilters);
@@ -101,6 +115,35 @@ export default function ScreenerFiltersComponent({
     });
   };
 
+  // Fundamental filter handler (all fundamental filters are plain numbers)
+  const handleFundamentalChange = (
+    key: 'peMin' | 'peMax' | 'epsGrowthMin' | 'dividendYieldMin' | 'betaMin' | 'betaMax' | 'profitMarginMin',
+    value: string
+  ) => {
+    applyFilters({
+      ...localFilters,
+      [key]: value ? parseFloat(value) : undefined,
+    });
+  };
+
+  const handleApplyExpression = () => {
+    if (expressionError) {
+      return;
+    }
+    applyFilters({
+      ...localFilters,
+      expression: expressionDraft.trim() || undefined,
+    });
+  };
+
+  const handleClearExpression = () => {
+    setExpressionDraft('');
+    applyFilters({
+      ...localFilters,
+      expression: undefined,
+    });
+  };
+
   const handleSectorToggle = (sector: string) => {
     const newSectors = localFilters.sectors.includes(sector)
       ? localFilters.sectors.filter(s => s !== sector)
@@ -136,7 +179,15 @@ export default function ScreenerFiltersComponent({
     (localFilters.rsiMin !== undefined || localFilters.rsiMax !== undefined ? 1 : 0) +
     (localFilters.priceVsSma50 ? 1 : 0) +
     (localFilters.priceVsSma200 ? 1 : 0) +
-    (localFilters.volumeSpikeMin !== undefined ? 1 : 0);
+    (localFilters.volumeSpikeMin !== undefined ? 1 : 0) +
+    (localFilters.peMin !== undefined || localFilters.peMax !== undefined ? 1 : 0) +
+    (localFilters.epsGrowthMin !== undefined ? 1 : 0) +
+    (localFilters.dividendYieldMin !== undefined ? 1 : 0) +
+    (localFilters.betaMin !== undefined || localFilters.betaMax !== undefined ? 1 : 0) +
+    (localFilters.profitMarginMin !== undefined ? 1 : 0) +
+    (localFilters.expression ? 1 : 0);
+
+  const expressionApplied = expressionDraft.trim() === (localFilters.expression ?? '');
 
   return (
     <div className="bg-white rounded-lg shadow p-6">
@@ -445,6 +496,192 @@ export default function ScreenerFiltersComponent({
             />
           </div>
         </div>
+
+        {/* Divider */}
+        <div className="border-t border-gray-200 my-6"></div>
+
+        {/* Fundamental Filters Section */}
+        <div>
+          <h3 className="text-md font-semibold text-gray-900 mb-4">Fundamental Filters</h3>
+
+          {/* P/E Ratio */}
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              P/E Ratio
+            </label>
+            <div className="flex gap-2">
+              <div className="flex-1">
+                <input
+                  type="number"
+                  placeholder="Min"
+                  value={localFilters.peMin ?? ''}
+                  onChange={(e) => handleFundamentalChange('peMin', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  step="0.1"
+                />
+              </div>
+              <span className="self-center text-gray-500">to</span>
+              <div className="flex-1">
+                <input
+                  type="number"
+                  placeholder="Max"
+                  value={localFilters.peMax ?? ''}
+                  onChange={(e) => handleFundamentalChange('peMax', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  step="0.1"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Minimum EPS Growth (YoY %) */}
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Minimum EPS Growth (YoY %)
+            </label>
+            <input
+              type="number"
+              placeholder="e.g., 10"
+              value={localFilters.epsGrowthMin ?? ''}
+              onChange={(e) => handleFundamentalChange('epsGrowthMin', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              step="1"
+            />
+          </div>
+
+          {/* Minimum Dividend Yield (%) */}
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Minimum Dividend Yield (%)
+            </label>
+            <input
+              type="number"
+              placeholder="e.g., 2"
+              value={localFilters.dividendYieldMin ?? ''}
+              onChange={(e) => handleFundamentalChange('dividendYieldMin', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              min="0"
+              step="0.1"
+            />
+          </div>
+
+          {/* Beta */}
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Beta
+            </label>
+            <div className="flex gap-2">
+              <div className="flex-1">
+                <input
+                  type="number"
+                  placeholder="Min"
+                  value={localFilters.betaMin ?? ''}
+                  onChange={(e) => handleFundamentalChange('betaMin', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  step="0.1"
+                />
+              </div>
+              <span className="self-center text-gray-500">to</span>
+              <div className="flex-1">
+                <input
+                  type="number"
+                  placeholder="Max"
+                  value={localFilters.betaMax ?? ''}
+                  onChange={(e) => handleFundamentalChange('betaMax', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  step="0.1"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Minimum Profit Margin (%) */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Minimum Profit Margin (%)
+            </label>
+            <input
+              type="number"
+              placeholder="e.g., 15"
+              value={localFilters.profitMarginMin ?? ''}
+              onChange={(e) => handleFundamentalChange('profitMarginMin', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              step="1"
+            />
+          </div>
+          <p className="mt-2 text-xs text-gray-500">
+            Stocks without fundamentals data are excluded when these filters are set
+          </p>
+        </div>
+
+        {/* Divider */}
+        <div className="border-t border-gray-200 my-6"></div>
+
+        {/* Advanced Expression Section */}
+        <div>
+          <h3 className="text-md font-semibold text-gray-900 mb-4">Advanced</h3>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Filter Expression
+          </label>
+          <textarea
+            value={expressionDraft}
+            onChange={(e) => setExpressionDraft(e.target.value)}
+            onKeyDown={(e) => {
+              // Enter applies; Shift+Enter adds a line
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                handleApplyExpression();
+              }
+            }}
+            placeholder={EXPRESSION_EXAMPLE}
+            rows={3}
+            spellCheck={false}
+            className={`w-full px-3 py-2 border rounded-md font-mono text-sm focus:outline-none focus:ring-2 ${
+              expressionError
+                ? 'border-red-400 focus:ring-red-500 focus:border-red-500'
+                : 'border-gray-300 focus:ring-blue-500 focus:border-blue-500'
+            }`}
+            aria-invalid={expressionError ? true : undefined}
+          />
+
+          {/* Syntax error, with the offending text highlighted */}
+          {expressionError && (
+            <div className="mt-1" role="alert">
+              <p className="text-xs text-red-600">{expressionError.message}</p>
+              <pre className="mt-1 px-2 py-1 text-xs font-mono whitespace-pre-wrap break-all rounded bg-red-50 text-gray-700">
+                {expressionDraft.slice(0, expressionError.position)}
+                <span className="bg-red-200 text-red-800 underline">
+                  {expressionDraft.slice(expressionError.position, expressionError.position + expressionError.length) || ' '}
+                </span>
+                {expressionDraft.slice(expressionError.position + expressionError.length)}
+              </pre>
+            </div>
+          )}
+
+          <div className="flex gap-2 mt-2">
+            <button
+              onClick={handleApplyExpression}
+              disabled={!!expressionError || expressionApplied}
+              className="flex-1 px-3 py-1 text-sm rounded bg-blue-600 text-white hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Apply
+            </button>
+            <button
+              onClick={handleClearExpression}
+              disabled={!expressionDraft && !localFilters.expression}
+              className="px-3 py-1 text-sm rounded bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              Clear
+            </button>
+          </div>
+          <p className="mt-2 text-xs text-gray-500">
+            Combine conditions with and, or, not and parentheses. Compare with &lt;, &lt;=, &gt;, &gt;=, =, != or
+            in ('A', 'B'); quote text, e.g. sector = 'Technology'. Numbers take k, m, b or t (market_cap &gt; 10b).
+          </p>
+          <p className="mt-1 text-xs text-gray-500">
+            Fields: {Object.keys(EXPRESSION_FIELDS).join(', ')}
+          </p>
+        </div>
       </div>
     </div>
   );
@@ -2,6 +2,7 @@ import { useEffect, useState, useMemo } from 'react';
 import { StockMetadata, SortConfig, SortField } from '../types/screener';
 import { useWatchlist } from '../hooks/useWatchlist';
 import { useRealtimePrices } from '../hooks/useWebSocket';
+import { formatSymbolPrice } from '../utils/symbol';
 
 interface StockTableProps {
   stocks: StockMetadata[];
@@ -255,7 +256,7 @@ export default function StockTable({ stocks, sortConfig, onSort, onStockClick, l
                             priceFlash === 'down' ? 'text-red-600' :
                             'text-gray-900'
                           }`}>
-                            ${liveUpdate.price.toFixed(2)}
+                            {formatSymbolPrice(stock.symbol, liveUpdate.price)}
                             {isConnected && (
                               <span className="ml-1 inline-block w-2 h-2 rounded-full bg-green-500 animate-pulse"></span>
                             )}
@@ -278,7 +279,7 @@ export default function StockTable({ stocks, sortConfig, onSort, onStockClick, l
                           )}
                         </div>
                       ) : stock.close_price ? (
-                        <div className="text-sm text-gray-900">${stock.close_price.toFixed(2)}</div>
+                        <div className="text-sm text-gray-900">{formatSymbolPrice(stock.symbol, stock.close_price)}</div>
                       ) : (
                         <div className="text-sm text-gray-500">N/A</div>
                       )}
@@ -5,6 +5,7 @@ import {
   DEFAULT_COMPARISON_COLORS,
   MAX_COMPARISON_SYMBOLS,
 } from '../types/comparison';
+import { normalizeSymbol } from '../utils/symbol';
 
 interface SymbolComparisonPanelProps {
   /** List of comparison symbols */
@@ -55,9 +56,13 @@ const SymbolComparisonPanel = memo(function SymbolComparisonPanel({
    * Handle adding a new symbol
    */
   const handleAddSymbol = useCallback(() => {
-    const trimmedSymbol = inputSymbol.trim().toUpperCase();
-    
+    if (!inputSymbol.trim()) {
+      return;
+    }
+
+    const trimmedSymbol = normalizeSymbol(inputSymbol);
     if (!trimmedSymbol) {
+      alert(`${inputSymbol.trim().toUpperCase()} is not a valid symbol`);
       return;
     }
 
@@ -163,7 +168,7 @@ const SymbolComparisonPanel = memo(function SymbolComparisonPanel({
                 onChange={(e) => setInputSymbol(e.target.value.toUpperCase())}
                 onKeyPress={handleKeyPress}
                 placeholder="Enter symbol (e.g., MSFT)"
-                maxLength={10}
+                maxLength={20}
                 className="flex-1 px-3 py-2 rounded-md text-sm"
                 style={{
                   backgroundColor: 'var(--bg-secondary)',
@@ -1,58 +1,152 @@
-import { useState, FormEvent, ChangeEvent } from 'react';
+import { useState, useEffect, useRef, FormEvent, ChangeEvent, KeyboardEvent } from 'react';
+import { searchSymbols } from '../services/stockApi';
+import { SymbolSearchResult } from '../types/stock';
+import { normalizeSymbol } from '../utils/symbol';
 
 interface SymbolInputProps {
   onSubmit: (symbol: string) => void;
   disabled?: boolean;
 }
 
+const SEARCH_DEBOUNCE_MS = 250;
+
 export default function SymbolInput({ onSubmit, disabled = false }: SymbolInputProps) {
   const [symbol, setSymbol] = useState('');
   const [error, setError] = useState('');
+  const [results, setResults] = useState<SymbolSearchResult[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlightedIndex, setHighlightedIndex] = useState(-1);
+  const [searching, setSearching] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
 
-  const validateSymbol = (value: string): boolean => {
-    // Validate: only letters, 1-5 characters typical for stock symbols
-    const symbolRegex = /^[A-Z]{1,5}$/;
-    return symbolRegex.test(value);
-  };
+  // Debounced search as the user types; stale requests are aborted
+  useEffect(() => {
+    const query = symbol.trim();
+    if (!query) {
+      setResults([]);
+      setIsOpen(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const response = await searchSymbols(query, controller.signal);
+        setResults(response.results);
+        setHighlightedIndex(response.results.length > 0 ? 0 : -1);
+        setIsOpen(true);
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          console.error('Symbol search failed:', err);
+          setResults([]);
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [symbol]);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
 
   const handleChange = (e: ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value.toUpperCase();
-    setSymbol(value);
-    
+    // Keep case as typed so company names can be searched
+    setSymbol(e.target.value);
+
     // Clear error when user starts typing
     if (error) {
       setError('');
     }
   };
 
+  const selectResult = (result: SymbolSearchResult) => {
+    setSymbol(result.symbol);
+    setIsOpen(false);
+    setResults([]);
+    setError('');
+    onSubmit(result.symbol);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen || results.length === 0) {
+      return;
+    }
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setHighlightedIndex((prev) => (prev + 1) % results.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setHighlightedIndex((prev) => (prev <= 0 ? results.length - 1 : prev - 1));
+        break;
+      case 'Enter':
+        if (highlightedIndex >= 0) {
+          e.preventDefault();
+          selectResult(results[highlightedIndex]);
+        }
+        break;
+      case 'Escape':
+        e.preventDefault();
+        setIsOpen(false);
+        break;
+    }
+  };
+
   const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault();
-    
     if (!symbol.trim()) {
       setError('Please enter a stock symbol');
       return;
     }
 
-    if (!validateSymbol(symbol)) {
-      setError('Invalid symbol. Use 1-5 uppercase letters (e.g., AAPL)');
+    const value = normalizeSymbol(symbol);
+    if (!value) {
+      setError('Invalid symbol. Use a ticker (e.g., AAPL, BRK.B, SHOP.TO) or pick a search result');
       return;
     }
 
     setError('');
-    onSubmit(symbol);
+    setIsOpen(false);
+    setSymbol(value);
+    onSubmit(value);
   };
 
   return (
     <form onSubmit={handleSubmit} className="w-full">
       <div className="flex flex-col sm:flex-row gap-2">
-        <div className="flex-1">
+        <div className="flex-1 relative" ref={containerRef}>
           <input
             type="text"
             value={symbol}
             onChange={handleChange}
-            placeholder="Enter stock symbol (e.g., AAPL)"
+            onKeyDown={handleKeyDown}
+            onFocus={() => results.length > 0 && setIsOpen(true)}
+            placeholder="Search symbol or company (e.g., AAPL or Apple)"
             disabled={disabled}
-            maxLength={5}
+            maxLength={50}
+            role="combobox"
+            aria-expanded={isOpen}
+            aria-controls="symbol-search-results"
+            aria-autocomplete="list"
+            autoComplete="off"
             className={`w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
               error ? 'border-red-500' : 'border-gray-300'
             } ${disabled ? 'bg-gray-100 cursor-not-allowed' : 'bg-white'}`}
@@ -60,6 +154,55 @@ export default function SymbolInput({ onSubmit, disabled = false }: SymbolInputP
           {error && (
             <p className="mt-1 text-sm text-red-600">{error}</p>
           )}
+
+          {/* Search Results Dropdown */}
+          {isOpen && (
+            <ul
+              id="symbol-search-results"
+              role="listbox"
+              className="absolute z-20 mt-1 w-full max-h-72 overflow-auto bg-white border border-gray-300 rounded-lg shadow-lg"
+            >
+              {results.length === 0 && !searching && (
+                <li className="px-4 py-2 text-sm text-gray-500">No matching symbols</li>
+              )}
+              {results.map((result, index) => (
+                <li
+                  key={result.symbol}
+                  role="option"
+                  aria-selected={index === highlightedIndex}
+                  onMouseDown={(e) => {
+                    // Prevent input blur before the click registers
+                    e.preventDefault();
+                    selectResult(result);
+                  }}
+                  onMouseEnter={() => setHighlightedIndex(index)}
+                  className={`px-4 py-2 cursor-pointer ${
+                    index === highlightedIndex ? 'bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="flex items-baseline justify-between gap-2">
+                    <span className="font-semibold text-gray-900">{result.symbol}</span>
+                    <span className="text-xs text-gray-500">
+                      {result.exchange}
+                      {result.source === 'provider' && (
+                        <span className="ml-1 text-gray-400">(not tracked)</span>
+                      )}
+                    </span>
+                  </div>
+                  <div className="flex items-baseline justify-between gap-2">
+                    <span className="text-sm text-gray-700 truncate">{result.name}</span>
+                    {result.assetClass !== 'equity' ? (
+                      <span className="text-xs text-gray-500 whitespace-nowrap">
+                        {result.assetClass === 'crypto' ? 'Crypto' : 'FX'}
+                      </span>
+                    ) : result.sector && (
+                      <span className="text-xs text-gray-500 whitespace-nowrap">{result.sector}</span>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
         <button
           type="submit"
@@ -10,8 +10,12 @@ const timeframes: { value: Timeframe; label: string }[] = [
   { value: '15min', label: '15min' },
   { value: '30min', label: '30min' },
   { value: '1hour', label: '1 hour' },
+  { value: '2hour', label: '2 hour' },
+  { value: '4hour', label: '4 hour' },
   { value: 'daily', label: 'Daily' },
   { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
 ];
 
 export default function TimeframeSelector({ selected, onChange, disabled = false }: TimeframeSelectorProps) {
@@ -2,12 +2,13 @@ import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useWatchlist, WatchlistItem } from '../hooks/useWatchlist';
 import { useRealtimePrices } from '../hooks/useWebSocket';
-import { fetchDailyData } from '../services/stockApi';
-import { OHLCVData } from '../types/stock';
+import { fetchDailyData, fetchUpcomingEarnings } from '../services/stockApi';
+import { OHLCVData, EarningsEvent } from '../types/stock';
 import { ConnectionStatusLabel } from './ConnectionStatusIndicator';
 import ThemeToggle from './ThemeToggle';
 import AuthButton from './AuthButton';
 import { useAuth } from '../contexts/AuthContext';
+import { formatSymbolPrice } from '../utils/symbol';
 
 interface WatchlistItemWithPrice extends WatchlistItem {
   currentPrice?: number;
@@ -31,6 +32,7 @@ export default function Watchlist() {
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
   const [apiLimitWarning, setApiLimitWarning] = useState(false);
   const [useLiveData, setUseLiveData] = useState(true); // Toggle for live vs manual refresh
+  const [upcomingEarnings, setUpcomingEarnings] = useState<Record<string, EarningsEvent | null>>({});
   
   // Subscribe to real-time prices for all watchlist symbols
   const watchlistSymbols = useMemo(() => watchlist.map(item => item.symbol), [watchlist]);
@@ -140,6 +142,27 @@ export default function Watchlist() {
     fetchPricesForWatchlist();
   }, [fetchPricesForWatchlist]);
 
+  // Fetch next earnings report dates when watchlist changes
+  useEffect(() => {
+    if (watchlistSymbols.length === 0) {
+      setUpcomingEarnings({});
+      return;
+    }
+
+    let cancelled = false;
+    fetchUpcomingEarnings(watchlistSymbols)
+      .then((response) => {
+        if (!cancelled) setUpcomingEarnings(response.earnings);
+      })
+      .catch((error) => {
+        console.error('Error fetching upcoming earnings:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [watchlistSymbols]);
+
   // Handle sorting
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -208,10 +231,10 @@ export default function Watchlist() {
     navigate(`/?symbol=${symbol}`);
   };
 
-  // Format price
-  const formatPrice = (price?: number) => {
+  // Format price (at the symbol's precision when known, e.g. EUR-USD in pips)
+  const formatPrice = (price?: number, symbol?: string) => {
     if (price === undefined) return 'N/A';
-    return `$${price.toFixed(2)}`;
+    return symbol ? formatSymbolPrice(symbol, price) : `$${price.toFixed(2)}`;
   };
 
   // Format change percentage
@@ -221,6 +244,13 @@ export default function Watchlist() {
     return `${sign}${percent.toFixed(2)}%`;
   };
 
+  // Days from today until a YYYY-MM-DD date
+  const daysUntil = (date: string) => {
+    const today = new Date();
+    const todayUtc = Date.UTC(today.getFullYear(), today.getMonth(), today.getDate());
+    return Math.round((new Date(date).getTime() - todayUtc) / (24 * 60 * 60 * 1000));
+  };
+
   // Get color class for change percentage
   const getChangeColorClass = (percent?: number) => {
     if (percent === undefined) return 'text-gray-500';
@@ -562,6 +592,13 @@ export default function Watchlist() {
                               <SortIcon field="changePercent" />
                             </div>
                           </th>
+                          <th
+                            scope="col"
+                            className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap"
+                          >
+                            <span className="hidden sm:inline">Upcoming Earnings</span>
+                            <span className="sm:hidden">Earnings</span>
+                          </th>
                           <th
                             scope="col"
                             className="px-4 sm:px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap"
@@ -602,7 +639,7 @@ export default function Watchlist() {
                               <span className="text-xs text-red-500">{item.error}</span>
                             ) : (
                               <div className="text-sm text-gray-900 font-medium">
-                                {formatPrice(item.currentPrice)}
+                                {formatPrice(item.currentPrice, item.symbol)}
                               </div>
                             )}
                           </td>
@@ -619,6 +656,30 @@ export default function Watchlist() {
                               </div>
                             )}
                           </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            {(() => {
+                              const earnings = upcomingEarnings[item.symbol.toUpperCase()];
+                              if (!earnings) {
+                                return <span className="text-sm text-gray-500">—</span>;
+                              }
+                              const days = daysUntil(earnings.date);
+                              return (
+                                <div>
+                                  <div className={`text-sm ${days <= 7 ? 'text-orange-600 font-semibold' : 'text-gray-900'}`}>
+                                    {earnings.date}
+                                    <span className="ml-1 text-xs text-gray-500">
+                                      ({days === 0 ? 'today' : `in ${days}d`})
+                                    </span>
+                                  </div>
+                                  {earnings.epsEstimate !== null && (
+                                    <div className="text-xs text-gray-500">
+                                      Est. EPS {formatPrice(earnings.epsEstimate)}
+                                    </div>
+                                  )}
+                                </div>
+                              );
+                            })()}
+                          </td>
                           <td className="px-6 py-4 whitespace-nowrap text-center">
                             <div className="flex items-center justify-center gap-2">
                               <button
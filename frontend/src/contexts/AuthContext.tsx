@@ -1,6 +1,7 @@
 import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import { User, AuthState, LoginCredentials, RegisterCredentials } from '../types/auth';
 import * as authApi from '../services/authApi';
+import websocketService from '../services/websocketService';
 
 interface AuthContextType extends AuthState {
   login: (credentials: LoginCredentials) => Promise<void>;
@@ -70,6 +71,15 @@ export function AuthProvider({ children }: AuthProviderProps) {
     checkAuth();
   }, [checkAuth]);
 
+  /**
+   * Live updates connect as the signed-in user (alerts, per-user limits)
+   */
+  useEffect(() => {
+    if (!authState.isLoading) {
+      websocketService.setAuthToken(authState.token);
+    }
+  }, [authState.token, authState.isLoading]);
+
   /**
    * Login handler
    */
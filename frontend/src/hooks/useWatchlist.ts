@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import * as watchlistApi from '../services/watchlistApi';
 import { WatchlistApiItem } from '../types/watchlist';
+import { normalizeSymbol } from '../utils/symbol';
 
 export interface WatchlistItem {
   symbol: string;
@@ -169,7 +170,7 @@ export function useWatchlist() {
 
   // Add a stock to the watchlist
   const addToWatchlist = useCallback(async (symbol: string, name: string, sector?: string) => {
-    const symbolUpper = symbol.toUpperCase();
+    const symbolUpper = normalizeSymbol(symbol) ?? symbol.toUpperCase();
     
     // Check for duplicates
     if (watchlist.some(item => item.symbol === symbolUpper)) {
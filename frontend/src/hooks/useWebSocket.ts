@@ -4,7 +4,15 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import websocketService from '../services/websocketService';
-import { ConnectionStatus, RealtimePriceUpdate } from '../types/realtime';
+import {
+  ConnectionStatus,
+  RealtimePriceUpdate,
+  ReplaySessionInfo,
+  LiveBar,
+  LiveBarInterval,
+  UserChannel,
+  UserEventCallback,
+} from '../types/realtime';
 
 /**
  * Hook to get real-time price for a specific symbol
@@ -216,6 +224,63 @@ export function useRealtimePrices(symbols: string[], enabled = true) {
   };
 }
 
+/**
+ * Hook to follow the bar the server builds from live trades for a symbol
+ * The bar is replaced on every bar_update, including when a new bar opens
+ *
+ * @param symbol - Stock symbol (e.g., "AAPL")
+ * @param interval - Bar interval (null when the chart's timeframe has no live bars)
+ * @param enabled - Whether to stream bars (default: true)
+ * @returns Latest live bar, or null until the first one arrives
+ */
+export function useLiveBar(symbol: string | null, interval: LiveBarInterval | null, enabled = true) {
+  const [bar, setBar] = useState<LiveBar | null>(null);
+
+  useEffect(() => {
+    setBar(null);
+    if (!symbol || !interval || !enabled) {
+      return;
+    }
+
+    const upperSymbol = symbol.toUpperCase();
+    const handleBar = (update: LiveBar) => setBar(update);
+
+    websocketService.addBarListener(upperSymbol, interval, handleBar);
+
+    return () => {
+      websocketService.removeBarListener(upperSymbol, interval, handleBar);
+    };
+  }, [symbol, interval, enabled]);
+
+  return bar;
+}
+
+/**
+ * Hook to receive events on one of the signed-in user's channels (e.g. alerts)
+ * Keeps the connection open while enabled, even with no symbol subscribed
+ *
+ * @param channel - User channel to listen on
+ * @param callback - Called with each event's data (the latest callback is used)
+ * @param enabled - Whether to listen (default: true); pass false when signed out
+ */
+export function useUserEvents(channel: UserChannel, callback: UserEventCallback, enabled = true) {
+  const callbackRef = useRef(callback);
+  callbackRef.current = callback;
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const handleEvent: UserEventCallback = (data) => callbackRef.current(data);
+    websocketService.addUserEventListener(channel, handleEvent);
+
+    return () => {
+      websocketService.removeUserEventListener(channel, handleEvent);
+    };
+  }, [channel, enabled]);
+}
+
 /**
  * Hook to get WebSocket connection status
  * Useful for displaying connection indicators
@@ -247,3 +312,47 @@ export function useWebSocketStatus() {
     isDisconnected: status === ConnectionStatus.DISCONNECTED,
   };
 }
+
+/**
+ * Hook to follow a replay session started through the replay API
+ * Joins the session over the WebSocket and tracks its status and latest replayed price
+ *
+ * @param sessionId - Replay session id (null when no replay is active)
+ * @returns Session info (status, speed, simulated time) and the latest replayed price
+ */
+export function useReplaySession(sessionId: string | null) {
+  const [session, setSession] = useState<ReplaySessionInfo | null>(null);
+  const [priceData, setPriceData] = useState<RealtimePriceUpdate | null>(null);
+
+  useEffect(() => {
+    if (!sessionId) {
+      setSession(null);
+      setPriceData(null);
+      return;
+    }
+
+    const handleReplay = (info: ReplaySessionInfo, update?: RealtimePriceUpdate) => {
+      setSession(info);
+      if (update) {
+        setPriceData(update);
+      }
+    };
+
+    websocketService.addReplayListener(sessionId, handleReplay);
+    websocketService.joinReplay(sessionId);
+
+    return () => {
+      websocketService.removeReplayListener(sessionId, handleReplay);
+      websocketService.leaveReplay(sessionId);
+      setPriceData(null);
+    };
+  }, [sessionId]);
+
+  return {
+    session,
+    price: priceData?.price,
+    change: priceData?.change,
+    changePercent: priceData?.changePercent,
+    priceData,
+  };
+}
@@ -0,0 +1,90 @@
+import { getStoredToken, clearStoredToken } from './authApi';
+import { ApiErrorResponse } from '../types/stock';
+import { PriceAlert, AlertHistoryEntry, CreateAlertRequest, UpdateAlertRequest } from '../types/alerts';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api';
+
+/**
+ * Send an authenticated alerts API request
+ * @throws Error if not authenticated or the request fails
+ */
+async function alertsRequest<T>(path: string, method: string, body?: object): Promise<T> {
+  try {
+    const token = getStoredToken();
+
+    if (!token) {
+      throw new Error('No authentication token found');
+    }
+
+    const response = await fetch(`${API_BASE_URL}/alerts${path}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        ...(body ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      // If token is invalid, clear it
+      if (response.status === 401) {
+        clearStoredToken();
+      }
+
+      const errorData: ApiErrorResponse = await response.json();
+      throw new Error(errorData.message || 'Alert request failed');
+    }
+
+    return await response.json();
+  } catch (error) {
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new Error('An unexpected error occurred during the alert request');
+  }
+}
+
+/**
+ * Get the user's alerts, newest first
+ */
+export async function getAlerts(): Promise<PriceAlert[]> {
+  const data = await alertsRequest<{ alerts: PriceAlert[] }>('', 'GET');
+  return data.alerts;
+}
+
+/**
+ * Create an alert
+ * @returns The created alert
+ */
+export async function createAlert(request: CreateAlertRequest): Promise<PriceAlert> {
+  const data = await alertsRequest<{ alert: PriceAlert }>('', 'POST', request);
+  return data.alert;
+}
+
+/**
+ * Change an alert (or re-arm it with { status: 'active' })
+ * @returns The updated alert
+ */
+export async function updateAlert(id: number, request: UpdateAlertRequest): Promise<PriceAlert> {
+  const data = await alertsRequest<{ alert: PriceAlert }>(`/${id}`, 'PUT', request);
+  return data.alert;
+}
+
+/**
+ * Delete an alert (its trigger history is kept)
+ */
+export async function deleteAlert(id: number): Promise<void> {
+  await alertsRequest<{ message: string }>(`/${id}`, 'DELETE');
+}
+
+/**
+ * Get the user's most recent alert triggers
+ * @param limit - Maximum number of entries (default: 50)
+ */
+export async function getAlertHistory(limit?: number): Promise<AlertHistoryEntry[]> {
+  const data = await alertsRequest<{ history: AlertHistoryEntry[] }>(
+    limit !== undefined ? `/history?limit=${limit}` : '/history',
+    'GET'
+  );
+  return data.history;
+}
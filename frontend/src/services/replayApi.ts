@@ -0,0 +1,110 @@
+import { ReplaySessionInfo } from '../types/realtime';
+import { ApiErrorResponse } from '../types/stock';
+import { getStoredToken, clearStoredToken } from './authApi';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api';
+
+export interface StartReplayOptions {
+  symbol: string;
+  date: string; // YYYY-MM-DD
+  speed: number;
+  interval?: ReplaySessionInfo['interval'];
+  extendedHours?: boolean;
+  paused?: boolean;
+}
+
+/**
+ * Headers of an authenticated replay request (sessions belong to the signed-in user)
+ * @throws Error if not authenticated
+ */
+function getReplayHeaders(body?: object): HeadersInit {
+  const token = getStoredToken();
+  if (!token) {
+    throw new Error('Sign in to replay past sessions');
+  }
+  return {
+    'Authorization': `Bearer ${token}`,
+    ...(body ? { 'Content-Type': 'application/json' } : {}),
+  };
+}
+
+/**
+ * Send a replay API request and return the session it describes
+ */
+async function replayRequest(path: string, method: string, body?: object): Promise<ReplaySessionInfo> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/replay${path}`, {
+      method,
+      headers: getReplayHeaders(body),
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      // If token is invalid, clear it
+      if (response.status === 401) {
+        clearStoredToken();
+      }
+
+      const errorData: ApiErrorResponse = await response.json();
+      throw new Error(errorData.message || 'Replay request failed');
+    }
+
+    const data: { session: ReplaySessionInfo } = await response.json();
+    return data.session;
+  } catch (error) {
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new Error('An unexpected error occurred during the replay request');
+  }
+}
+
+/**
+ * Start replaying a past trading day over the WebSocket stream
+ * @returns The new session; join it with websocketService.joinReplay to receive updates
+ */
+export function startReplay(options: StartReplayOptions): Promise<ReplaySessionInfo> {
+  return replayRequest('', 'POST', options);
+}
+
+export function pauseReplay(sessionId: string): Promise<ReplaySessionInfo> {
+  return replayRequest(`/${sessionId}/pause`, 'POST');
+}
+
+export function resumeReplay(sessionId: string): Promise<ReplaySessionInfo> {
+  return replayRequest(`/${sessionId}/resume`, 'POST');
+}
+
+/**
+ * Jump to a point in the replayed session
+ * @param time - ISO timestamp
+ */
+export function seekReplay(sessionId: string, time: string): Promise<ReplaySessionInfo> {
+  return replayRequest(`/${sessionId}/seek`, 'POST', { time });
+}
+
+export function setReplaySpeed(sessionId: string, speed: number): Promise<ReplaySessionInfo> {
+  return replayRequest(`/${sessionId}/speed`, 'POST', { speed });
+}
+
+/**
+ * Stop a replay session
+ */
+export async function stopReplay(sessionId: string): Promise<void> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/replay/${sessionId}`, {
+      method: 'DELETE',
+      headers: getReplayHeaders(),
+    });
+    // Already gone (e.g. closed for inactivity) is fine
+    if (!response.ok && response.status !== 404) {
+      const errorData: ApiErrorResponse = await response.json();
+      throw new Error(errorData.message || 'Failed to stop replay');
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new Error('An unexpected error occurred while stopping the replay');
+  }
+}
@@ -47,6 +47,34 @@ export async function fetchStocksList(filters: StockListQuery = {}): Promise<Sto
     if (filters.volumeSpikeMin !== undefined) {
       params.append('volumeSpikeMin', filters.volumeSpikeMin.toString());
     }
+
+    // Fundamental filters
+    if (filters.peMin !== undefined) {
+      params.append('peMin', filters.peMin.toString());
+    }
+    if (filters.peMax !== undefined) {
+      params.append('peMax', filters.peMax.toString());
+    }
+    if (filters.epsGrowthMin !== undefined) {
+      params.append('epsGrowthMin', filters.epsGrowthMin.toString());
+    }
+    if (filters.dividendYieldMin !== undefined) {
+      params.append('dividendYieldMin', filters.dividendYieldMin.toString());
+    }
+    if (filters.betaMin !== undefined) {
+      params.append('betaMin', filters.betaMin.toString());
+    }
+    if (filters.betaMax !== undefined) {
+      params.append('betaMax', filters.betaMax.toString());
+    }
+    if (filters.profitMarginMin !== undefined) {
+      params.append('profitMarginMin', filters.profitMarginMin.toString());
+    }
+
+    // Advanced filter expression
+    if (filters.expression) {
+      params.append('expression', filters.expression);
+    }
     
     // Pagination
     if (filters.page !== undefined) {
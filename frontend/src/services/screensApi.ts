@@ -0,0 +1,90 @@
+import { getStoredToken, clearStoredToken } from './authApi';
+import { ApiErrorResponse } from '../types/stock';
+import { SavedScreen, ScreenRun, CreateScreenRequest, UpdateScreenRequest } from '../types/screens';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api';
+
+/**
+ * Send an authenticated saved screens API request
+ * @throws Error if not authenticated or the request fails
+ */
+async function screensRequest<T>(path: string, method: string, body?: object): Promise<T> {
+  try {
+    const token = getStoredToken();
+
+    if (!token) {
+      throw new Error('No authentication token found');
+    }
+
+    const response = await fetch(`${API_BASE_URL}/screens${path}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        ...(body ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      // If token is invalid, clear it
+      if (response.status === 401) {
+        clearStoredToken();
+      }
+
+      const errorData: ApiErrorResponse = await response.json();
+      throw new Error(errorData.message || 'Saved screen request failed');
+    }
+
+    return await response.json();
+  } catch (error) {
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new Error('An unexpected error occurred during the saved screen request');
+  }
+}
+
+/**
+ * Get the user's saved screens, by name
+ */
+export async function getScreens(): Promise<SavedScreen[]> {
+  const data = await screensRequest<{ screens: SavedScreen[] }>('', 'GET');
+  return data.screens;
+}
+
+/**
+ * Save a screen (it's run right away as the baseline for change notifications)
+ * @returns The saved screen
+ */
+export async function createScreen(request: CreateScreenRequest): Promise<SavedScreen> {
+  const data = await screensRequest<{ screen: SavedScreen }>('', 'POST', request);
+  return data.screen;
+}
+
+/**
+ * Change a saved screen
+ * @returns The updated screen
+ */
+export async function updateScreen(id: number, request: UpdateScreenRequest): Promise<SavedScreen> {
+  const data = await screensRequest<{ screen: SavedScreen }>(`/${id}`, 'PUT', request);
+  return data.screen;
+}
+
+/**
+ * Delete a saved screen and its run history
+ */
+export async function deleteScreen(id: number): Promise<void> {
+  await screensRequest<{ message: string }>(`/${id}`, 'DELETE');
+}
+
+/**
+ * Get a saved screen's most recent runs, newest first
+ * @param limit - Maximum number of runs (default: 20)
+ */
+export async function getScreenRuns(id: number, limit?: number): Promise<ScreenRun[]> {
+  const data = await screensRequest<{ runs: ScreenRun[] }>(
+    limit !== undefined ? `/${id}/runs?limit=${limit}` : `/${id}/runs`,
+    'GET'
+  );
+  return data.runs;
+}
@@ -1,11 +1,20 @@
-import { DailyStockResponse, IntradayStockResponse, ApiErrorResponse } from '../types/stock';
+import {
+  DailyStockResponse,
+  IntradayStockResponse,
+  BarsResponse,
+  SymbolSearchResponse,
+  StockEventsResponse,
+  UpcomingEarningsResponse,
+  Timeframe,
+  ApiErrorResponse,
+} from '../types/stock';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api';
 
 /**
  * Fetch daily stock data from the backend API
  * @param symbol - Stock symbol (e.g., 'AAPL')
- * @param options - Optional parameters for date range and full data
+ * @param options - Optional parameters for date range, full data and split/dividend adjustment
  * @returns Promise with daily stock data
  * @throws Error if the API request fails
  */
@@ -15,6 +24,7 @@ export async function fetchDailyData(
     from?: string;
     to?: string;
     full?: boolean;
+    adjusted?: boolean;
   }
 ): Promise<DailyStockResponse> {
   try {
@@ -22,6 +32,7 @@ export async function fetchDailyData(
     if (options?.from) params.append('from', options.from);
     if (options?.to) params.append('to', options.to);
     if (options?.full) params.append('full', 'true');
+    if (options?.adjusted) params.append('adjusted', 'true');
 
     const url = `${API_BASE_URL}/stock/${symbol.toUpperCase()}/daily${
       params.toString() ? `?${params.toString()}` : ''
@@ -48,16 +59,24 @@ export async function fetchDailyData(
  * Fetch intraday stock data from the backend API
  * @param symbol - Stock symbol (e.g., 'AAPL')
  * @param interval - Time interval ('15min', '30min', '1hour')
+ * @param options - full: trailing month instead of the latest 100 bars; month: one month of history (YYYY-MM);
+ *                  extendedHours: include pre-market and after-hours bars
  * @returns Promise with intraday stock data
  * @throws Error if the API request fails
  */
 export async function fetchIntradayData(
   symbol: string,
-  interval: string
+  interval: string,
+  options?: { full?: boolean; month?: string; extendedHours?: boolean }
 ): Promise<IntradayStockResponse> {
   try {
+    const params = new URLSearchParams({ interval });
+    if (options?.full) params.append('full', 'true');
+    if (options?.month) params.append('month', options.month);
+    if (options?.extendedHours) params.append('extendedHours', 'true');
+
     const response = await fetch(
-      `${API_BASE_URL}/stock/${symbol.toUpperCase()}/intraday?interval=${interval}`
+      `${API_BASE_URL}/stock/${symbol.toUpperCase()}/intraday?${params.toString()}`
     );
     
     if (!response.ok) {
@@ -75,6 +94,128 @@ export async function fetchIntradayData(
   }
 }
 
+/**
+ * Fetch candles for a chart timeframe from the backend API
+ * Weekly, monthly, quarterly, 2hour and 4hour candles are resampled server-side
+ * @param symbol - Stock symbol (e.g., 'AAPL')
+ * @param timeframe - Chart timeframe
+ * @param options - adjusted: split/dividend-adjusted prices (daily-based timeframes only);
+ *                  month: one month of history (YYYY-MM, intraday timeframes only);
+ *                  extendedHours: include pre-market and after-hours bars (intraday timeframes only)
+ * @returns Promise with bars for the timeframe
+ * @throws Error if the API request fails
+ */
+export async function fetchBars(
+  symbol: string,
+  timeframe: Timeframe,
+  options?: { adjusted?: boolean; month?: string; extendedHours?: boolean }
+): Promise<BarsResponse> {
+  try {
+    const params = new URLSearchParams({ timeframe });
+    if (options?.adjusted) params.append('adjusted', 'true');
+    if (options?.month) params.append('month', options.month);
+    if (options?.extendedHours) params.append('extendedHours', 'true');
+
+    const response = await fetch(
+      `${API_BASE_URL}/stock/${symbol.toUpperCase()}/bars?${params.toString()}`
+    );
+
+    if (!response.ok) {
+      const errorData: ApiErrorResponse = await response.json();
+      throw new Error(errorData.message || 'Failed to fetch bars');
+    }
+
+    const data: BarsResponse = await response.json();
+    return data;
+  } catch (error) {
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new Error('An unexpected error occurred while fetching bars');
+  }
+}
+
+/**
+ * Search symbols by ticker or company name
+ * @param query - Ticker or name fragment (e.g., 'AAP' or 'Apple')
+ * @param signal - Optional AbortSignal to cancel superseded searches
+ * @returns Promise with ranked search results
+ * @throws Error if the API request fails
+ */
+export async function searchSymbols(
+  query: string,
+  signal?: AbortSignal
+): Promise<SymbolSearchResponse> {
+  try {
+    const params = new URLSearchParams({ q: query });
+    const response = await fetch(`${API_BASE_URL}/stocks/search?${params.toString()}`, { signal });
+
+    if (!response.ok) {
+      const errorData: ApiErrorResponse = await response.json();
+      throw new Error(errorData.message || 'Failed to search symbols');
+    }
+
+    const data: SymbolSearchResponse = await response.json();
+    return data;
+  } catch (error) {
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new Error('An unexpected error occurred while searching symbols');
+  }
+}
+
+/**
+ * Fetch earnings and ex-dividend events for a symbol
+ * @param symbol - Stock ticker symbol (e.g., 'AAPL')
+ * @returns Promise with events, most recent first
+ * @throws Error if the API request fails
+ */
+export async function fetchEvents(symbol: string): Promise<StockEventsResponse> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/stock/${symbol.toUpperCase()}/events`);
+
+    if (!response.ok) {
+      const errorData: ApiErrorResponse = await response.json();
+      throw new Error(errorData.message || 'Failed to fetch events');
+    }
+
+    const data: StockEventsResponse = await response.json();
+    return data;
+  } catch (error) {
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new Error('An unexpected error occurred while fetching events');
+  }
+}
+
+/**
+ * Fetch the next scheduled earnings report for several symbols
+ * @param symbols - Stock ticker symbols (max 50)
+ * @returns Promise with a map of symbol to its next report (null when none is scheduled)
+ * @throws Error if the API request fails
+ */
+export async function fetchUpcomingEarnings(symbols: string[]): Promise<UpcomingEarningsResponse> {
+  try {
+    const params = new URLSearchParams({ symbols: symbols.join(',') });
+    const response = await fetch(`${API_BASE_URL}/stocks/earnings/upcoming?${params.toString()}`);
+
+    if (!response.ok) {
+      const errorData: ApiErrorResponse = await response.json();
+      throw new Error(errorData.message || 'Failed to fetch upcoming earnings');
+    }
+
+    const data: UpcomingEarningsResponse = await response.json();
+    return data;
+  } catch (error) {
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new Error('An unexpected error occurred while fetching upcoming earnings');
+  }
+}
+
 /**
  * Check if the backend API is healthy
  * @returns Promise with boolean indicating API health status
@@ -7,6 +7,12 @@
  * - Subscription management
  * - Event emitter pattern for price updates
  * - Connection state management
+ * - Replay sessions (historical playback tagged as replay, see replayApi)
+ * - Protocol v2 (types/wsProtocol.ts): version handshake, request acks,
+ *   subscribe snapshots and resync when a sequence gap shows dropped messages
+ * - Authenticated connections (JWT on connect) with user-scoped channels
+ *   (alerts, notifications); reconnects when the user signs in or out
+ * - Live bars (bar_update) per symbol and interval, requested with the subscription
  */
 
 import {
@@ -15,12 +21,26 @@ import {
   PriceUpdateCallback,
   ConnectionStatusCallback,
   ErrorCallback,
-  SubscribeMessage,
-  UnsubscribeMessage,
-  PriceUpdateMessage,
-  ErrorMessage,
-  ConnectedMessage,
+  ReplayCallback,
+  UserEventCallback,
+  BarUpdateCallback,
 } from '../types/realtime';
+import {
+  PROTOCOL_VERSION,
+  CLOSE_UNSUPPORTED_VERSION,
+  CLOSE_TOKEN_EXPIRED,
+  ClientMessage,
+  ServerMessage,
+  PriceUpdateMessage,
+  ReplayStatusMessage,
+  SubscribeMessage,
+  ReplayJoinMessage,
+  RejectedSymbol,
+  UserChannel,
+  LiveBar,
+  LiveBarInterval,
+} from '../types/wsProtocol';
+import { getStoredToken } from './authApi';
 
 // Get WebSocket URL from environment or fallback to default
 const WS_URL = import.meta.env.VITE_WS_URL || 'ws://localhost:5001/ws';
@@ -39,11 +59,26 @@ class WebSocketService {
   private reconnectDelay = INITIAL_RECONNECT_DELAY;
   private reconnectTimer: NodeJS.Timeout | null = null;
   private shouldReconnect = true;
+  // JWT sent on connect; null connects anonymously
+  private authToken: string | null = getStoredToken();
+
+  // seq of the last server message on this connection (0 before welcome)
+  private lastSeq = 0;
+  // Requests awaiting an ack, by id
+  private pendingRequests: Map<string, ClientMessage> = new Map();
+  private nextRequestId = 1;
 
   // Event listeners
   private priceUpdateListeners: Map<string, Set<PriceUpdateCallback>> = new Map();
   private connectionStatusListeners: Set<ConnectionStatusCallback> = new Set();
   private errorListeners: Set<ErrorCallback> = new Set();
+  private replayListeners: Map<string, Set<ReplayCallback>> = new Map();
+  private userEventListeners: Map<UserChannel, Set<UserEventCallback>> = new Map();
+  // Live bar listeners per symbol and interval; their intervals go with the symbol's subscription
+  private barListeners: Map<string, Map<LiveBarInterval, Set<BarUpdateCallback>>> = new Map();
+
+  // Replay sessions joined (rejoined after a reconnect)
+  private replaySessions: Set<string> = new Set();
 
   // Pending subscriptions (for when connection is being established)
   private pendingSubscriptions: Set<string> = new Set();
@@ -75,7 +110,9 @@ class WebSocketService {
     console.log(`[WebSocket] Connecting to ${WS_URL}...`);
 
     try {
-      this.ws = new WebSocket(WS_URL);
+      this.ws = new WebSocket(
+        this.authToken ? `${WS_URL}?token=${encodeURIComponent(this.authToken)}` : WS_URL
+      );
       this.setupEventHandlers();
     } catch (error) {
       console.error('[WebSocket] Connection error:', error);
@@ -104,6 +141,7 @@ class WebSocketService {
     this.setConnectionStatus(ConnectionStatus.DISCONNECTED);
     this.subscribedSymbols.clear();
     this.pendingSubscriptions.clear();
+    this.replaySessions.clear();
   }
 
   /**
@@ -140,26 +178,130 @@ class WebSocketService {
   public unsubscribe(symbols: string[]): void {
     if (symbols.length === 0) return;
 
-    console.log('[WebSocket] Unsubscribing from symbols:', symbols);
+    // Symbols still streaming bars stay subscribed until their last bar listener goes
+    const released = symbols.filter(symbol => !this.barListeners.has(symbol.toUpperCase()));
+    if (released.length === 0) return;
+
+    console.log('[WebSocket] Unsubscribing from symbols:', released);
 
     // Remove from subscribed symbols
-    symbols.forEach(symbol => {
+    released.forEach(symbol => {
       this.subscribedSymbols.delete(symbol.toUpperCase());
       this.pendingSubscriptions.delete(symbol.toUpperCase());
     });
 
     // Send unsubscribe message if connected
     if (this.connectionStatus === ConnectionStatus.CONNECTED && this.ws) {
-      this.sendUnsubscribeMessage(symbols);
+      this.sendUnsubscribeMessage(released);
     }
 
     // If no more subscriptions, disconnect
-    if (this.subscribedSymbols.size === 0) {
+    if (!this.hasListeners()) {
       console.log('[WebSocket] No more subscriptions, disconnecting');
       this.disconnect();
     }
   }
 
+  /**
+   * Join a replay session to receive its replayed price updates
+   */
+  public joinReplay(sessionId: string): void {
+    this.replaySessions.add(sessionId);
+
+    if (this.connectionStatus === ConnectionStatus.CONNECTED && this.ws) {
+      this.sendReplayMessage('replay_join', sessionId);
+    } else if (this.connectionStatus === ConnectionStatus.DISCONNECTED) {
+      // Joined on open
+      this.connect();
+    }
+  }
+
+  /**
+   * Leave a replay session
+   */
+  public leaveReplay(sessionId: string): void {
+    if (!this.replaySessions.delete(sessionId)) return;
+
+    if (this.connectionStatus === ConnectionStatus.CONNECTED && this.ws) {
+      this.sendReplayMessage('replay_leave', sessionId);
+    }
+
+    if (!this.hasListeners()) {
+      this.disconnect();
+    }
+  }
+
+  /**
+   * Add listener for a replay session's price updates and status changes
+   */
+  public addReplayListener(sessionId: string, callback: ReplayCallback): void {
+    if (!this.replayListeners.has(sessionId)) {
+      this.replayListeners.set(sessionId, new Set());
+    }
+    this.replayListeners.get(sessionId)!.add(callback);
+  }
+
+  /**
+   * Remove replay listener
+   */
+  public removeReplayListener(sessionId: string, callback: ReplayCallback): void {
+    const listeners = this.replayListeners.get(sessionId);
+    if (listeners) {
+      listeners.delete(callback);
+      if (listeners.size === 0) {
+        this.replayListeners.delete(sessionId);
+      }
+    }
+  }
+
+  /**
+   * Add listener for events on a user-scoped channel (signed-in users only)
+   */
+  public addUserEventListener(channel: UserChannel, callback: UserEventCallback): void {
+    if (!this.userEventListeners.has(channel)) {
+      this.userEventListeners.set(channel, new Set());
+    }
+    this.userEventListeners.get(channel)!.add(callback);
+
+    if (this.authToken && this.connectionStatus === ConnectionStatus.DISCONNECTED) {
+      this.shouldReconnect = true;
+      this.connect();
+    }
+  }
+
+  /**
+   * Remove user event listener
+   */
+  public removeUserEventListener(channel: UserChannel, callback: UserEventCallback): void {
+    const listeners = this.userEventListeners.get(channel);
+    if (listeners) {
+      listeners.delete(callback);
+      if (listeners.size === 0) {
+        this.userEventListeners.delete(channel);
+      }
+    }
+
+    if (!this.hasListeners() && this.connectionStatus !== ConnectionStatus.DISCONNECTED) {
+      this.disconnect();
+    }
+  }
+
+  /**
+   * Use a new JWT (or none after signing out); an open connection reconnects
+   * so the server sees the new identity
+   */
+  public setAuthToken(token: string | null): void {
+    if (token === this.authToken) return;
+    this.authToken = token;
+
+    if (this.ws) {
+      console.log('[WebSocket] Signed-in user changed, reconnecting');
+      this.reconnectNow();
+    } else if (token && this.connectionStatus === ConnectionStatus.DISCONNECTED && this.hasListeners()) {
+      this.connect();
+    }
+  }
+
   /**
    * Add listener for price updates for a specific symbol
    */
@@ -185,6 +327,61 @@ class WebSocketService {
     }
   }
 
+  /**
+   * Add listener for a symbol's live bars of an interval
+   * Subscribes to the symbol, asking the server for bars of every listened interval
+   */
+  public addBarListener(symbol: string, interval: LiveBarInterval, callback: BarUpdateCallback): void {
+    const upperSymbol = symbol.toUpperCase();
+    if (!this.barListeners.has(upperSymbol)) {
+      this.barListeners.set(upperSymbol, new Map());
+    }
+    const intervals = this.barListeners.get(upperSymbol)!;
+    const isNewInterval = !intervals.has(interval);
+    if (isNewInterval) {
+      intervals.set(interval, new Set());
+    }
+    intervals.get(interval)!.add(callback);
+
+    this.subscribedSymbols.add(upperSymbol);
+    if (this.connectionStatus === ConnectionStatus.CONNECTED && this.ws) {
+      if (isNewInterval) {
+        this.sendSubscribeMessage([upperSymbol], this.getBarIntervals(upperSymbol));
+      }
+    } else {
+      // Bars are requested on welcome (resync)
+      this.pendingSubscriptions.add(upperSymbol);
+      if (this.connectionStatus === ConnectionStatus.DISCONNECTED) {
+        this.shouldReconnect = true;
+        this.connect();
+      }
+    }
+  }
+
+  /**
+   * Remove live bar listener; the symbol is unsubscribed once nothing else listens to it
+   */
+  public removeBarListener(symbol: string, interval: LiveBarInterval, callback: BarUpdateCallback): void {
+    const upperSymbol = symbol.toUpperCase();
+    const intervals = this.barListeners.get(upperSymbol);
+    const listeners = intervals?.get(interval);
+    if (!intervals || !listeners?.delete(callback) || listeners.size > 0) return;
+
+    intervals.delete(interval);
+    if (intervals.size > 0) {
+      this.updateBarIntervals(upperSymbol);
+      return;
+    }
+
+    this.barListeners.delete(upperSymbol);
+    if (this.priceUpdateListeners.has(upperSymbol)) {
+      // Price listeners keep the subscription; just stop the bars
+      this.updateBarIntervals(upperSymbol);
+    } else {
+      this.unsubscribe([upperSymbol]);
+    }
+  }
+
   /**
    * Add connection status listener
    */
@@ -229,6 +426,54 @@ class WebSocketService {
     return Array.from(this.subscribedSymbols);
   }
 
+  /**
+   * Live bar intervals listened to for a symbol
+   */
+  private getBarIntervals(symbol: string): LiveBarInterval[] {
+    return Array.from(this.barListeners.get(symbol)?.keys() ?? []);
+  }
+
+  /**
+   * Tell the server which bar intervals a subscribed symbol still needs
+   */
+  private updateBarIntervals(symbol: string): void {
+    if (this.connectionStatus === ConnectionStatus.CONNECTED && this.ws && this.subscribedSymbols.has(symbol)) {
+      this.sendSubscribeMessage([symbol], this.getBarIntervals(symbol));
+    }
+  }
+
+  /**
+   * Whether anything still needs the connection
+   */
+  private hasListeners(): boolean {
+    return (
+      this.subscribedSymbols.size > 0 ||
+      this.replaySessions.size > 0 ||
+      (this.authToken !== null && this.userEventListeners.size > 0)
+    );
+  }
+
+  /**
+   * Drop the current socket without the close handler's backoff and connect again
+   */
+  private reconnectNow(): void {
+    const socket = this.ws;
+    this.ws = null;
+    this.lastSeq = 0;
+    this.pendingRequests.clear();
+
+    if (socket) {
+      socket.onopen = null;
+      socket.onmessage = null;
+      socket.onerror = null;
+      socket.onclose = null;
+      socket.close(1000, 'Reconnecting');
+    }
+
+    this.setConnectionStatus(ConnectionStatus.DISCONNECTED);
+    this.connect();
+  }
+
   /**
    * Setup WebSocket event handlers
    */
@@ -236,23 +481,9 @@ class WebSocketService {
     if (!this.ws) return;
 
     this.ws.onopen = () => {
-      console.log('[WebSocket] Connected successfully');
-      this.setConnectionStatus(ConnectionStatus.CONNECTED);
-      this.reconnectAttempts = 0;
-      this.reconnectDelay = INITIAL_RECONNECT_DELAY;
-
-      // Subscribe to any pending subscriptions
-      if (this.pendingSubscriptions.size > 0) {
-        const symbols = Array.from(this.pendingSubscriptions);
-        this.sendSubscribeMessage(symbols);
-        this.pendingSubscriptions.clear();
-      }
-
-      // Re-subscribe to all tracked symbols (in case of reconnect)
-      if (this.subscribedSymbols.size > 0) {
-        const symbols = Array.from(this.subscribedSymbols);
-        this.sendSubscribeMessage(symbols);
-      }
+      // Connected once the server accepts the protocol version (welcome)
+      console.log('[WebSocket] Socket open, sending hello');
+      this.send({ type: 'hello', version: PROTOCOL_VERSION });
     };
 
     this.ws.onmessage = (event) => {
@@ -272,8 +503,23 @@ class WebSocketService {
     this.ws.onclose = (event) => {
       console.log('[WebSocket] Connection closed', event.code, event.reason);
       this.ws = null;
+      this.lastSeq = 0;
+      this.pendingRequests.clear();
+
+      if (event.code === CLOSE_UNSUPPORTED_VERSION) {
+        // Reconnecting can't help until the app is reloaded with the server's version
+        this.setConnectionStatus(ConnectionStatus.DISCONNECTED);
+        this.handleError('Live updates need the latest version of the app, please reload the page');
+        return;
+      }
+
+      if (event.code === CLOSE_TOKEN_EXPIRED) {
+        // Carry on signed out rather than retrying the expired token
+        this.authToken = null;
+        this.handleError('Your session expired, sign in again for alerts and notifications');
+      }
 
-      if (this.shouldReconnect && this.subscribedSymbols.size > 0) {
+      if (this.shouldReconnect && this.hasListeners()) {
         this.scheduleReconnect();
       } else {
         this.setConnectionStatus(ConnectionStatus.DISCONNECTED);
@@ -284,18 +530,57 @@ class WebSocketService {
   /**
    * Handle incoming WebSocket messages
    */
-  private handleMessage(message: PriceUpdateMessage | ErrorMessage | ConnectedMessage): void {
+  private handleMessage(message: ServerMessage): void {
+    // A skipped seq means the server dropped messages for us; resync from snapshots
+    if (message.type !== 'welcome' && this.lastSeq > 0 && message.seq !== this.lastSeq + 1) {
+      console.warn(`[WebSocket] Missed ${message.seq - this.lastSeq - 1} message(s), resyncing`);
+      this.lastSeq = message.seq;
+      this.resync();
+    } else {
+      this.lastSeq = message.seq;
+    }
+
     switch (message.type) {
-      case 'connected':
-        console.log('[WebSocket]', message.message);
+      case 'welcome':
+        this.handleWelcome(message.authenticated);
+        break;
+
+      case 'ack':
+        this.handleAck(message.id, message.rejected);
+        break;
+
+      case 'snapshot':
+        if (message.data) {
+          this.handlePriceUpdate({ ...message.data, symbol: message.symbol });
+        }
         break;
 
       case 'price_update':
-        this.handlePriceUpdate(message.data);
+        // Replayed prices go to the session's listeners, never to live symbol listeners
+        if (message.replay) {
+          this.handleReplayMessage(message);
+        } else {
+          this.handlePriceUpdate({ ...message.data, symbol: message.symbol });
+        }
+        break;
+
+      case 'bar_update':
+        this.handleBarUpdate(message.symbol, message.interval, message.bar);
+        break;
+
+      case 'replay_status':
+        this.handleReplayMessage(message);
+        break;
+
+      case 'user_event':
+        this.handleUserEvent(message.channel, message.data);
         break;
 
       case 'error':
-        console.error('[WebSocket] Server error:', message.message);
+        if (message.id) {
+          this.handleRequestError(message.id);
+        }
+        console.error(`[WebSocket] Server error (${message.code}):`, message.message);
         this.handleError(message.message);
         break;
 
@@ -304,6 +589,63 @@ class WebSocketService {
     }
   }
 
+  /**
+   * Handshake accepted: (re)subscribe and rejoin replays
+   */
+  private handleWelcome(authenticated: boolean): void {
+    console.log(`[WebSocket] Connected successfully (${authenticated ? 'signed in' : 'anonymous'})`);
+    this.setConnectionStatus(ConnectionStatus.CONNECTED);
+    this.reconnectAttempts = 0;
+    this.reconnectDelay = INITIAL_RECONNECT_DELAY;
+
+    // Pending subscriptions are already tracked, so this covers both a first connect and a reconnect
+    this.pendingSubscriptions.clear();
+    this.resync();
+  }
+
+  /**
+   * Resubscribe to every symbol and rejoin every replay; the server answers
+   * with fresh snapshots, current bars and replay statuses
+   */
+  private resync(): void {
+    const symbols = Array.from(this.subscribedSymbols);
+    const plainSymbols = symbols.filter(symbol => !this.barListeners.has(symbol));
+    if (plainSymbols.length > 0) {
+      this.sendSubscribeMessage(plainSymbols);
+    }
+    // Symbols with bars one by one, each with its own intervals
+    symbols
+      .filter(symbol => this.barListeners.has(symbol))
+      .forEach(symbol => this.sendSubscribeMessage([symbol], this.getBarIntervals(symbol)));
+    this.replaySessions.forEach(sessionId => this.sendReplayMessage('replay_join', sessionId));
+  }
+
+  /**
+   * Handle the server's ack of a request
+   */
+  private handleAck(id: string, rejected: RejectedSymbol[] = []): void {
+    this.pendingRequests.delete(id);
+
+    if (rejected.length > 0) {
+      // Not retried on resync
+      rejected.forEach(r => this.subscribedSymbols.delete(r.symbol));
+      console.warn('[WebSocket] Subscriptions rejected:', rejected);
+      this.handleError(`Live updates unavailable for ${rejected.map(r => r.symbol).join(', ')}`);
+    }
+  }
+
+  /**
+   * Forget what a failed request was tracking, so it isn't retried on resync
+   */
+  private handleRequestError(id: string): void {
+    const request = this.pendingRequests.get(id);
+    this.pendingRequests.delete(id);
+
+    if (request?.type === 'replay_join') {
+      this.replaySessions.delete(request.sessionId);
+    }
+  }
+
   /**
    * Handle price update message
    */
@@ -323,39 +665,112 @@ class WebSocketService {
   }
 
   /**
-   * Send subscribe message to server
+   * Handle a live bar update
    */
-  private sendSubscribeMessage(symbols: string[]): void {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-      console.warn('[WebSocket] Cannot send subscribe message - not connected');
-      return;
-    }
+  private handleBarUpdate(symbol: string, interval: LiveBarInterval, bar: LiveBar): void {
+    this.barListeners.get(symbol.toUpperCase())?.get(interval)?.forEach(callback => {
+      try {
+        callback(bar);
+      } catch (error) {
+        console.error('[WebSocket] Error in bar update callback:', error);
+      }
+    });
+  }
+
+  /**
+   * Handle a replayed price update or replay status change
+   */
+  private handleReplayMessage(message: PriceUpdateMessage | ReplayStatusMessage): void {
+    const session = message.replay;
+    if (!session) return;
+
+    const update = message.type === 'price_update'
+      ? { ...message.data, symbol: message.symbol ?? session.symbol }
+      : undefined;
+
+    const listeners = this.replayListeners.get(session.id);
+    listeners?.forEach(callback => {
+      try {
+        callback(session, update);
+      } catch (error) {
+        console.error('[WebSocket] Error in replay callback:', error);
+      }
+    });
+  }
+
+  /**
+   * Handle an event on a user-scoped channel
+   */
+  private handleUserEvent(channel: UserChannel, data: Record<string, unknown>): void {
+    this.userEventListeners.get(channel)?.forEach(callback => {
+      try {
+        callback(data);
+      } catch (error) {
+        console.error('[WebSocket] Error in user event callback:', error);
+      }
+    });
+  }
+
+  /**
+   * Send replay join/leave message to server
+   */
+  private sendReplayMessage(type: ReplayJoinMessage['type'], sessionId: string): void {
+    this.sendRequest({ type, sessionId });
+  }
 
+  /**
+   * Send subscribe message to server
+   * @param bars - Live bar intervals for these symbols (omitted keeps the server's current ones)
+   */
+  private sendSubscribeMessage(symbols: string[], bars?: LiveBarInterval[]): void {
     const message: SubscribeMessage = {
       type: 'subscribe',
       symbols: symbols.map(s => s.toUpperCase()),
+      ...(bars ? { bars } : {}),
     };
 
-    this.ws.send(JSON.stringify(message));
-    console.log('[WebSocket] Sent subscribe message:', message);
+    if (this.sendRequest(message)) {
+      console.log('[WebSocket] Sent subscribe message:', message);
+    } else {
+      console.warn('[WebSocket] Cannot send subscribe message - not connected');
+    }
   }
 
   /**
    * Send unsubscribe message to server
    */
   private sendUnsubscribeMessage(symbols: string[]): void {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-      console.warn('[WebSocket] Cannot send unsubscribe message - not connected');
-      return;
-    }
-
-    const message: UnsubscribeMessage = {
+    const message: SubscribeMessage = {
       type: 'unsubscribe',
       symbols: symbols.map(s => s.toUpperCase()),
     };
 
+    if (this.sendRequest(message)) {
+      console.log('[WebSocket] Sent unsubscribe message:', message);
+    } else {
+      console.warn('[WebSocket] Cannot send unsubscribe message - not connected');
+    }
+  }
+
+  /**
+   * Send a request with a new id; the server answers it with an ack or error
+   */
+  private sendRequest(message: ClientMessage): boolean {
+    const id = String(this.nextRequestId++);
+    const request = { ...message, id };
+    if (!this.send(request)) {
+      return false;
+    }
+    this.pendingRequests.set(id, request);
+    return true;
+  }
+
+  private send(message: ClientMessage): boolean {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      return false;
+    }
     this.ws.send(JSON.stringify(message));
-    console.log('[WebSocket] Sent unsubscribe message:', message);
+    return true;
   }
 
   /**
@@ -0,0 +1,79 @@
+import { AlertCondition, IndicatorAlertTimeframe, IndicatorRule } from './wsProtocol';
+
+// Conditions, indicator rules and trigger events come over the WebSocket (user_event on the alerts channel)
+export type {
+  AlertCondition,
+  AlertTriggeredEvent,
+  IndicatorAlertTimeframe,
+  IndicatorComparison,
+  IndicatorName,
+  IndicatorOperand,
+  IndicatorRule,
+} from './wsProtocol';
+
+/**
+ * Price alert from backend
+ * Active alerts are evaluated against live prices (indicator alerts when a bar
+ * of their timeframe closes); triggered ones wait to be re-armed
+ */
+export interface PriceAlert {
+  id: number;
+  userId: number;
+  symbol: string;
+  condition: AlertCondition;
+  target: number | null; // Price level, or day change in percent for percent_change (negative for a drop)
+  timeframe: IndicatorAlertTimeframe | null; // Indicator alerts only
+  rule: IndicatorRule | null; // Indicator alerts only
+  rearm: boolean;
+  note: string | null;
+  status: 'active' | 'triggered';
+  triggerCount: number;
+  lastTriggeredAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * One trigger of an alert
+ */
+export interface AlertHistoryEntry {
+  id: number;
+  alertId: number | null; // null once the alert is deleted
+  symbol: string;
+  condition: AlertCondition;
+  target: number | null;
+  timeframe: IndicatorAlertTimeframe | null;
+  rule: IndicatorRule | null;
+  price: number; // Bar close for indicator alerts
+  changePercent: number | null;
+  indicators: Record<string, number> | null; // Indicator alerts: values at the closed bar
+  barTime: string | null;
+  triggeredAt: string;
+}
+
+/**
+ * Request body for creating an alert
+ */
+export interface CreateAlertRequest {
+  symbol: string;
+  condition: AlertCondition;
+  target?: number; // All but indicator alerts
+  timeframe?: IndicatorAlertTimeframe; // Indicator alerts
+  rule?: IndicatorRule; // Indicator alerts
+  rearm?: boolean;
+  note?: string | null;
+}
+
+/**
+ * Request body for updating an alert
+ * A new condition (with its target, or timeframe and rule) re-arms it, as does status: 'active'
+ */
+export interface UpdateAlertRequest {
+  condition?: AlertCondition;
+  target?: number;
+  timeframe?: IndicatorAlertTimeframe;
+  rule?: IndicatorRule;
+  rearm?: boolean;
+  note?: string | null;
+  status?: 'active';
+}
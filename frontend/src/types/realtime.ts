@@ -2,6 +2,8 @@
  * Real-time WebSocket types for live price updates
  */
 
+import { PriceUpdateData, ReplaySessionInfo, LiveBar } from './wsProtocol';
+
 // Connection status enum
 export enum ConnectionStatus {
   CONNECTING = 'CONNECTING',
@@ -10,55 +12,21 @@ export enum ConnectionStatus {
   RECONNECTING = 'RECONNECTING',
 }
 
-// Real-time price update data from backend
-export interface RealtimePriceUpdate {
-  symbol: string;
-  price: number;
-  change: number;
-  changePercent: number;
-  timestamp: number;
-  volume?: number;
-}
-
-// WebSocket message types
-export type WebSocketMessageType = 'subscribe' | 'unsubscribe' | 'price_update' | 'error' | 'connected';
-
-// Outgoing messages (client -> server)
-export interface SubscribeMessage {
-  type: 'subscribe';
-  symbols: string[];
-}
-
-export interface UnsubscribeMessage {
-  type: 'unsubscribe';
-  symbols: string[];
-}
-
-// Incoming messages (server -> client)
-export interface PriceUpdateMessage {
-  type: 'price_update';
-  data: RealtimePriceUpdate;
-}
+// Message types of the WebSocket protocol
+export type { ReplayStatus, ReplaySessionInfo, LiveBar, LiveBarInterval, UserChannel } from './wsProtocol';
 
-export interface ErrorMessage {
-  type: 'error';
-  message: string;
-}
-
-export interface ConnectedMessage {
-  type: 'connected';
-  message: string;
+// Real-time price update for a symbol (price_update or snapshot data)
+export interface RealtimePriceUpdate extends PriceUpdateData {
+  symbol: string;
 }
 
-// Union type for all WebSocket messages
-export type WebSocketMessage = 
-  | SubscribeMessage 
-  | UnsubscribeMessage 
-  | PriceUpdateMessage 
-  | ErrorMessage
-  | ConnectedMessage;
-
 // Callback types
 export type PriceUpdateCallback = (update: RealtimePriceUpdate) => void;
 export type ConnectionStatusCallback = (status: ConnectionStatus) => void;
 export type ErrorCallback = (error: string) => void;
+// update is absent for status-only changes (pause, seek, speed, end)
+export type ReplayCallback = (session: ReplaySessionInfo, update?: RealtimePriceUpdate) => void;
+// Event on a user-scoped channel (alerts, notifications)
+export type UserEventCallback = (data: Record<string, unknown>) => void;
+// Live bar built by the server from trades (bar_update)
+export type BarUpdateCallback = (bar: LiveBar) => void;
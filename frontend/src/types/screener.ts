@@ -1,5 +1,7 @@
 // Screener types for stock filtering and display
 
+import { AssetClass } from './stock';
+
 // Stock metadata from database with technical indicators
 export interface StockMetadata {
   id?: number;
@@ -9,6 +11,7 @@ export interface StockMetadata {
   market_cap?: number;
   exchange?: string;
   currency?: string;
+  asset_class?: AssetClass;
   last_updated?: Date;
   // Technical metrics
   close_price?: number;
@@ -20,6 +23,15 @@ export interface StockMetadata {
   volume_spike?: number;
   avg_volume_20d?: number;
   metrics_date?: string;
+  // Fundamentals (percentages are in percent, e.g. 2.5 = 2.5%)
+  industry?: string;
+  pe_ratio?: number;
+  eps?: number;
+  eps_growth?: number;
+  dividend_yield?: number;
+  beta?: number;
+  profit_margin?: number;
+  fundamentals_updated_at?: string;
 }
 
 // Market cap ranges for filtering
@@ -64,6 +76,18 @@ export interface ScreenerFilters {
   priceVsSma50?: 'above' | 'below' | null;
   priceVsSma200?: 'above' | 'below' | null;
   volumeSpikeMin?: number;
+
+  // Fundamental filters
+  peMin?: number;
+  peMax?: number;
+  epsGrowthMin?: number;
+  dividendYieldMin?: number;
+  betaMin?: number;
+  betaMax?: number;
+  profitMarginMin?: number;
+
+  // Advanced filter expression, e.g. "rsi < 30 and sector = 'Technology'"
+  expression?: string;
 }
 
 // Sort configuration
@@ -88,6 +112,16 @@ export interface StockListQuery {
   priceVsSma50?: 'above' | 'below';
   priceVsSma200?: 'above' | 'below';
   volumeSpikeMin?: number;
+  // Fundamental filters
+  peMin?: number;
+  peMax?: number;
+  epsGrowthMin?: number;
+  dividendYieldMin?: number;
+  betaMin?: number;
+  betaMax?: number;
+  profitMarginMin?: number;
+  // Filter expression (see utils/screenerExpression.ts)
+  expression?: string;
   limit?: number;
   offset?: number;
   page?: number;
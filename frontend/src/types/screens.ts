@@ -0,0 +1,70 @@
+import { SortConfig, StockListQuery } from './screener';
+
+// Change notifications come over the WebSocket (user_event on the notifications channel)
+export type { ScreenChangedEvent } from './wsProtocol';
+
+/**
+ * Stock list filters a saved screen runs with (no paging; any of several sectors)
+ */
+export type ScreenFilters = Omit<StockListQuery, 'limit' | 'offset' | 'page'> & {
+  sectors?: string[];
+};
+
+/**
+ * How the screener shows a saved screen's results
+ */
+export interface ScreenDisplaySettings {
+  sort?: SortConfig;
+  pageSize?: number;
+}
+
+/**
+ * Saved screen from backend
+ * Run after each daily metrics update; changes in its results are notified
+ */
+export interface SavedScreen {
+  id: number;
+  userId: number;
+  name: string;
+  filters: ScreenFilters;
+  display: ScreenDisplaySettings;
+  notify: boolean;
+  filtersUpdatedAt: string;
+  lastRunAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * One run of a saved screen
+ */
+export interface ScreenRun {
+  id: number;
+  screenId: number;
+  symbols: string[];
+  entered: string[]; // Since the run before (empty for a baseline run)
+  exited: string[];
+  matchCount: number;
+  runAt: string;
+}
+
+/**
+ * Request body for saving a screen
+ */
+export interface CreateScreenRequest {
+  name: string;
+  filters?: ScreenFilters;
+  display?: ScreenDisplaySettings;
+  notify?: boolean;
+}
+
+/**
+ * Request body for updating a saved screen
+ * New filters start a new baseline for change notifications
+ */
+export interface UpdateScreenRequest {
+  name?: string;
+  filters?: ScreenFilters;
+  display?: ScreenDisplaySettings;
+  notify?: boolean;
+}
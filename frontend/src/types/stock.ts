@@ -1,3 +1,6 @@
+// Instrument asset class; crypto and fx symbols are BASE-QUOTE pairs (BTC-USD, EUR-USD)
+export type AssetClass = 'equity' | 'crypto' | 'fx';
+
 // OHLCV data structure for candlestick charts
 export interface OHLCVData {
   timestamp: string; // ISO 8601 timestamp or date string
@@ -6,6 +9,7 @@ export interface OHLCVData {
   low: number;
   close: number;
   volume: number;
+  session?: 'pre' | 'regular' | 'post'; // Intraday bars only
 }
 
 // Data range metadata
@@ -14,29 +18,128 @@ export interface DataRangeMetadata {
   dataEndDate: string | null;
   dataPoints: number;
   hasMoreHistory: boolean;
+  previousMonth?: string | null; // Intraday only: next month of history to load (YYYY-MM)
+}
+
+// Split or dividend, keyed by ex-date
+export interface CorporateAction {
+  date: string; // YYYY-MM-DD
+  type: 'split' | 'dividend';
+  value: number; // split ratio (shares after / before) or dividend per share
 }
 
 // API response for daily stock data
 export interface DailyStockResponse {
   symbol: string;
+  assetClass?: AssetClass;
   data: OHLCVData[];
   source: 'cache' | 'api';
   cached?: boolean;
+  stale?: boolean; // Served past its fresh TTL (being revalidated or a fallback)
   metadata?: DataRangeMetadata;
+  adjusted?: boolean;
+  extendedHours?: boolean; // Intraday timeframes only
+  corporateActions?: CorporateAction[];
 }
 
 // API response for intraday stock data
 export interface IntradayStockResponse {
   symbol: string;
+  assetClass?: AssetClass;
   interval: string;
+  extendedHours?: boolean; // Includes pre-market and after-hours bars
   data: OHLCVData[];
   source: 'cache' | 'api';
   cached?: boolean;
+  stale?: boolean; // Served past its fresh TTL (being revalidated or a fallback)
+  metadata?: DataRangeMetadata;
+}
+
+// Session window in UTC (ISO timestamps)
+export interface SessionWindow {
+  start: string;
+  end: string;
+}
+
+// Exchange trading day with pre-market, regular and post-market sessions
+export interface TradingSession {
+  date: string; // YYYY-MM-DD (exchange date)
+  earlyClose: boolean;
+  pre: SessionWindow;
+  regular: SessionWindow;
+  post: SessionWindow;
+}
+
+// API response for resampled chart bars (GET /stock/:symbol/bars)
+export interface BarsResponse {
+  symbol: string;
+  assetClass?: AssetClass;
+  timeframe: Timeframe;
+  data: OHLCVData[];
+  cached?: boolean;
+  stale?: boolean; // Served past its fresh TTL (being revalidated or a fallback)
   metadata?: DataRangeMetadata;
+  adjusted?: boolean;
+  corporateActions?: CorporateAction[];
+  sessions?: TradingSession[]; // Intraday timeframes only
 }
 
 // Timeframe options
-export type Timeframe = '15min' | '30min' | '1hour' | 'daily' | 'weekly';
+export type Timeframe =
+  | '15min'
+  | '30min'
+  | '1hour'
+  | '2hour'
+  | '4hour'
+  | 'daily'
+  | 'weekly'
+  | 'monthly'
+  | 'quarterly';
+
+// Symbol search result (GET /stocks/search)
+export interface SymbolSearchResult {
+  symbol: string;
+  name: string;
+  exchange: string | null;
+  sector: string | null;
+  assetClass: AssetClass;
+  source: 'local' | 'provider';
+}
+
+export interface SymbolSearchResponse {
+  query: string;
+  results: SymbolSearchResult[];
+}
+
+// Earnings report (estimate/actual are per-share; actual is null until reported)
+export interface EarningsEvent {
+  date: string; // YYYY-MM-DD
+  fiscalDateEnding: string | null;
+  epsEstimate: number | null;
+  epsActual: number | null;
+}
+
+// Earnings or ex-dividend event (GET /stock/:symbol/events)
+export interface StockEvent {
+  date: string; // YYYY-MM-DD
+  type: 'earnings' | 'ex_dividend';
+  fiscalDateEnding?: string | null;
+  epsEstimate?: number | null;
+  epsActual?: number | null;
+  surprisePercent?: number | null;
+  dividendAmount?: number;
+}
+
+export interface StockEventsResponse {
+  symbol: string;
+  events: StockEvent[];
+  cached: boolean;
+}
+
+// API response for GET /stocks/earnings/upcoming
+export interface UpcomingEarningsResponse {
+  earnings: Record<string, EarningsEvent | null>;
+}
 
 // API error response
 export interface ApiErrorResponse {
@@ -154,41 +154,58 @@ export function calculateBollingerBands(
 /**
  * Calculate Volume Weighted Average Price (VWAP)
  * @param data OHLCV data array
+ * @param options resetAtRegularOpen: restart at each regular session open instead of
+ *                each calendar day, so pre-market bars don't count towards the day's VWAP
  * @returns Array of VWAP data points
  */
-export function calculateVWAP(data: OHLCVData[]): IndicatorDataPoint[] {
+export function calculateVWAP(
+  data: OHLCVData[],
+  options: { resetAtRegularOpen?: boolean } = {}
+): IndicatorDataPoint[] {
   if (!data || data.length === 0) {
     return [];
   }
 
+  // Accumulate oldest first
+  const ordered = [...data].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+
   const result: IndicatorDataPoint[] = [];
   let cumulativePriceVolume = 0;
   let cumulativeVolume = 0;
   let lastDate = '';
-
-  for (let i = 0; i < data.length; i++) {
-    const currentDate = new Date(data[i].timestamp).toDateString();
-    
-    // Reset VWAP at the start of each trading day
-    if (lastDate && currentDate !== lastDate) {
+  let lastSession: OHLCVData['session'];
+
+  for (let i = 0; i < ordered.length; i++) {
+    const currentDate = new Date(ordered[i].timestamp).toDateString();
+    const session = ordered[i].session;
+
+    // Reset VWAP at the start of each trading day, or at each regular open
+    // (bars without a session tag fall back to the daily reset)
+    const reset = options.resetAtRegularOpen && session
+      ? session === 'regular' && lastSession !== 'regular'
+      : lastDate !== '' && currentDate !== lastDate;
+    if (reset) {
       cumulativePriceVolume = 0;
       cumulativeVolume = 0;
     }
     
     lastDate = currentDate;
+    lastSession = session;
     
     // Typical price is the average of high, low, and close
-    const typicalPrice = (data[i].high + data[i].low + data[i].close) / 3;
+    const typicalPrice = (ordered[i].high + ordered[i].low + ordered[i].close) / 3;
     
-    cumulativePriceVolume += typicalPrice * data[i].volume;
-    cumulativeVolume += data[i].volume;
+    cumulativePriceVolume += typicalPrice * ordered[i].volume;
+    cumulativeVolume += ordered[i].volume;
     
     // Calculate VWAP
     const vwap = cumulativeVolume > 0 ? cumulativePriceVolume / cumulativeVolume : typicalPrice;
     
     if (!isNaN(vwap)) {
       result.push({
-        time: data[i].timestamp,
+        time: ordered[i].timestamp,
         value: vwap
       });
     }
@@ -368,8 +385,9 @@ export function calculateMACD(
   });
 
   // Map MACD values back to time series, accounting for the offset
+  // (values start at the slow EMA's first bar; the signal fills in signalPeriod - 1 later)
   const result: MACDDataPoint[] = [];
-  const offset = slowPeriod + signalPeriod - 1;
+  const offset = slowPeriod - 1;
 
   for (let i = 0; i < macdValues.length; i++) {
     const macdValue = macdValues[i];
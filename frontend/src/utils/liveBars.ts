@@ -0,0 +1,154 @@
+import { OHLCVData, Timeframe } from '../types/stock';
+import { LiveBar, LiveBarInterval } from '../types/wsProtocol';
+import { IndicatorConfig } from '../components/IndicatorControls';
+import {
+  calculateSMA,
+  calculateEMA,
+  calculateBollingerBands,
+  calculateVWAP,
+  calculatePivotPoints,
+  calculateRSI,
+  calculateMACD,
+  calculateStochastic,
+  BollingerBandsDataPoint,
+  PivotPointsDataPoint,
+  MACDDataPoint,
+  StochasticDataPoint,
+} from './indicators';
+
+/**
+ * Live bars on charts
+ *
+ * The backend builds bars from live trades for a few intervals (bar_update).
+ * Charts on a matching timeframe move their last candle with them and
+ * recompute indicators for that candle only, over a trailing window of bars.
+ */
+
+// Chart timeframes with live bars, and the interval that feeds them
+const LIVE_BAR_TIMEFRAMES: Partial<Record<Timeframe, LiveBarInterval>> = {
+  '15min': '15min',
+  '1hour': '60min',
+  daily: 'daily',
+};
+
+// Fewest trailing bars indicators are recomputed over
+const MIN_INDICATOR_WINDOW = 300;
+// Bars per period of the longest indicator, so EMA-based ones (EMA, RSI, MACD) converge
+const INDICATOR_WINDOW_PERIODS = 10;
+
+/**
+ * Live bar interval for a chart timeframe, or null when it has none
+ */
+export function getLiveBarInterval(timeframe: Timeframe): LiveBarInterval | null {
+  return LIVE_BAR_TIMEFRAMES[timeframe] ?? null;
+}
+
+/**
+ * Fold a live bar into the history bar with the same open time
+ * The live bar only covers the trades since the server started watching the
+ * symbol, so the history's open is kept along with the extremes of both.
+ * @param bar History bar, if the live bar updates one
+ * @param live Live bar
+ * @returns Bar to draw
+ */
+export function mergeLiveBar(bar: OHLCVData | undefined, live: LiveBar): OHLCVData {
+  if (!bar) {
+    return { ...live };
+  }
+
+  return {
+    ...bar,
+    high: Math.max(bar.high, live.high),
+    low: Math.min(bar.low, live.low),
+    close: live.close,
+    volume: Math.max(bar.volume, live.volume),
+  };
+}
+
+/**
+ * Number of trailing bars to recompute the enabled indicators over
+ */
+export function getIndicatorWindowSize(indicators?: IndicatorConfig): number {
+  if (!indicators) {
+    return MIN_INDICATOR_WINDOW;
+  }
+
+  const periods = [
+    indicators.sma.enabled ? indicators.sma.period : 0,
+    indicators.ema.enabled ? indicators.ema.period : 0,
+    indicators.bollingerBands.enabled ? indicators.bollingerBands.period : 0,
+    indicators.rsi.enabled ? indicators.rsi.period : 0,
+    indicators.macd.enabled ? indicators.macd.slowPeriod + indicators.macd.signalPeriod : 0,
+    indicators.stochastic.enabled
+      ? indicators.stochastic.kPeriod + indicators.stochastic.dPeriod + indicators.stochastic.smoothK
+      : 0,
+  ];
+  return Math.max(MIN_INDICATOR_WINDOW, Math.max(...periods) * INDICATOR_WINDOW_PERIODS);
+}
+
+/**
+ * Indicator values of the last bar (absent while an indicator has too few bars)
+ */
+export interface LastBarIndicators {
+  sma?: number;
+  ema?: number;
+  bollingerBands?: BollingerBandsDataPoint;
+  vwap?: number;
+  pivotPoints?: PivotPointsDataPoint;
+  rsi?: number;
+  macd?: MACDDataPoint;
+  stochastic?: StochasticDataPoint;
+}
+
+/**
+ * Recompute the enabled indicators for the last bar only
+ * @param bars Trailing bars sorted by time ascending, ending with the live bar
+ * @param indicators Indicator configuration
+ * @returns Values of the last bar
+ */
+export function calculateLastBarIndicators(bars: OHLCVData[], indicators?: IndicatorConfig): LastBarIndicators {
+  const values: LastBarIndicators = {};
+  const last = bars[bars.length - 1];
+  if (!last || !indicators) {
+    return values;
+  }
+
+  // Calculators skip bars they have no value for, so check the point is the last bar's
+  const lastPoint = <T extends { time: string }>(points: T[]): T | undefined => {
+    const point = points[points.length - 1];
+    return point && point.time === last.timestamp ? point : undefined;
+  };
+
+  if (indicators.sma.enabled) {
+    values.sma = lastPoint(calculateSMA(bars, indicators.sma.period))?.value;
+  }
+  if (indicators.ema.enabled) {
+    values.ema = lastPoint(calculateEMA(bars, indicators.ema.period))?.value;
+  }
+  if (indicators.bollingerBands.enabled) {
+    values.bollingerBands = lastPoint(
+      calculateBollingerBands(bars, indicators.bollingerBands.period, indicators.bollingerBands.stdDev)
+    );
+  }
+  if (indicators.vwap.enabled) {
+    values.vwap = lastPoint(calculateVWAP(bars, { resetAtRegularOpen: indicators.vwap.resetAtRegularOpen }))?.value;
+  }
+  if (indicators.pivotPoints.enabled) {
+    values.pivotPoints = lastPoint(calculatePivotPoints(bars));
+  }
+  if (indicators.rsi.enabled) {
+    values.rsi = lastPoint(calculateRSI(bars, indicators.rsi.period))?.value;
+  }
+  if (indicators.macd.enabled) {
+    values.macd = lastPoint(
+      calculateMACD(bars, indicators.macd.fastPeriod, indicators.macd.slowPeriod, indicators.macd.signalPeriod)
+    );
+  }
+  if (indicators.stochastic.enabled) {
+    values.stochastic = lastPoint(
+      calculateStochastic(bars, indicators.stochastic.kPeriod, indicators.stochastic.dPeriod, indicators.stochastic.smoothK)
+    );
+  }
+
+  return values;
+}
@@ -0,0 +1,125 @@
+import { ScreenerFilters, StockListQuery, MarketCapRange, MARKET_CAP_RANGES } from '../types/screener';
+import { ScreenFilters } from '../types/screens';
+
+/**
+ * Screener filters <-> stock list query filters
+ *
+ * The screener edits ScreenerFilters (market cap presets, several sectors);
+ * the stock list API and saved screens take plain query filters.
+ */
+
+// Filters copied as-is between the two
+const PASSTHROUGH_FILTERS = [
+  'minPrice',
+  'maxPrice',
+  'rsiMin',
+  'rsiMax',
+  'volumeSpikeMin',
+  'peMin',
+  'peMax',
+  'epsGrowthMin',
+  'dividendYieldMin',
+  'betaMin',
+  'betaMax',
+  'profitMarginMin',
+] as const;
+
+/**
+ * Stock list query for the screener's filters (without sectors or paging)
+ */
+export function toStockListQuery(filters: ScreenerFilters): StockListQuery {
+  const query: StockListQuery = {};
+
+  // Market cap filter
+  if (filters.marketCapRange !== 'all') {
+    const range = MARKET_CAP_RANGES[filters.marketCapRange];
+    if (range.min !== undefined) {
+      query.minMarketCap = range.min;
+    }
+    if (range.max !== undefined) {
+      query.maxMarketCap = range.max;
+    }
+  }
+
+  // Custom market cap overrides
+  if (filters.customMinMarketCap !== undefined) {
+    query.minMarketCap = filters.customMinMarketCap;
+  }
+  if (filters.customMaxMarketCap !== undefined) {
+    query.maxMarketCap = filters.customMaxMarketCap;
+  }
+
+  // Price, technical and fundamental filters
+  PASSTHROUGH_FILTERS.forEach((key) => {
+    if (filters[key] !== undefined) {
+      query[key] = filters[key];
+    }
+  });
+  if (filters.priceVsSma50) {
+    query.priceVsSma50 = filters.priceVsSma50;
+  }
+  if (filters.priceVsSma200) {
+    query.priceVsSma200 = filters.priceVsSma200;
+  }
+
+  // Advanced filter expression
+  if (filters.expression) {
+    query.expression = filters.expression;
+  }
+
+  return query;
+}
+
+/**
+ * Filters to save a screen with
+ */
+export function toScreenFilters(filters: ScreenerFilters): ScreenFilters {
+  const screenFilters: ScreenFilters = toStockListQuery(filters);
+  if (filters.sectors.length > 0) {
+    screenFilters.sectors = [...filters.sectors];
+  }
+  return screenFilters;
+}
+
+/**
+ * Screener filters of a saved screen
+ * A market cap range matching a preset selects the preset; others are custom.
+ */
+export function fromScreenFilters(saved: ScreenFilters): ScreenerFilters {
+  const filters: ScreenerFilters = {
+    marketCapRange: 'all',
+    sectors: saved.sectors ?? (saved.sector ? [saved.sector] : []),
+  };
+
+  if (saved.minMarketCap !== undefined || saved.maxMarketCap !== undefined) {
+    const preset = (Object.keys(MARKET_CAP_RANGES) as MarketCapRange[]).find(
+      (range) =>
+        range !== 'all' &&
+        MARKET_CAP_RANGES[range].min === saved.minMarketCap &&
+        MARKET_CAP_RANGES[range].max === saved.maxMarketCap
+    );
+    if (preset) {
+      filters.marketCapRange = preset;
+    } else {
+      filters.customMinMarketCap = saved.minMarketCap;
+      filters.customMaxMarketCap = saved.maxMarketCap;
+    }
+  }
+
+  PASSTHROUGH_FILTERS.forEach((key) => {
+    if (saved[key] !== undefined) {
+      filters[key] = saved[key];
+    }
+  });
+  if (saved.priceVsSma50) {
+    filters.priceVsSma50 = saved.priceVsSma50;
+  }
+  if (saved.priceVsSma200) {
+    filters.priceVsSma200 = saved.priceVsSma200;
+  }
+  if (saved.expression) {
+    filters.expression = saved.expression;
+  }
+
+  return filters;
+}
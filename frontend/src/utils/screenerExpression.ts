@@ -0,0 +1,428 @@
+/**
+ * Screener filter expressions, shared by the backend and the frontend
+ *
+ * backend/src/utils/screenerExpression.ts and frontend/src/utils/screenerExpression.ts
+ * must stay identical: each app builds from its own directory, so the file is
+ * mirrored rather than imported across (like types/wsProtocol.ts). The
+ * frontend parses as the user types to show errors inline; the backend parses
+ * again and compiles the tree to parameterized SQL (services/databaseService.ts).
+ *
+ * Grammar (keywords and fields are case-insensitive):
+ *   expression := term ('or' term)*
+ *   term       := factor ('and' factor)*
+ *   factor     := 'not' factor | '(' expression ')' | condition
+ *   condition  := field operator value
+ *               | field ['not'] 'in' '(' value (',' value)* ')'
+ *   operator   := '<' | '<=' | '>' | '>=' | '=' | '!=' | '<>'
+ *   value      := number | string | field
+ *
+ * e.g. rsi < 30 and price_vs_sma_200 > 0 and (sector = 'Technology' or volume_spike >= 2)
+ *
+ * - Fields are a fixed whitelist (EXPRESSION_FIELDS). Numeric fields compare
+ *   with numbers or other numeric fields; text fields with strings or other
+ *   text fields, using = and != only
+ * - Numbers may carry a k, m, b or t suffix (market_cap > 10b); strings are
+ *   quoted with ' or ", doubling the quote to include it
+ * - Stocks without a value for a field don't match conditions on it
+ */
+
+export const MAX_EXPRESSION_LENGTH = 1000;
+// Conditions and nesting allowed in one expression
+const MAX_CONDITIONS = 50;
+const MAX_DEPTH = 20;
+
+export type ExpressionFieldType = 'number' | 'text';
+
+// Fields an expression can filter on (latest metrics, fundamentals and stock details)
+export const EXPRESSION_FIELDS = {
+  price: 'number',
+  volume: 'number',
+  avg_volume_20d: 'number',
+  rsi: 'number',
+  price_vs_sma_20: 'number',
+  price_vs_sma_50: 'number',
+  price_vs_sma_200: 'number',
+  volume_spike: 'number',
+  market_cap: 'number',
+  pe_ratio: 'number',
+  eps: 'number',
+  eps_growth: 'number',
+  dividend_yield: 'number',
+  beta: 'number',
+  profit_margin: 'number',
+  symbol: 'text',
+  sector: 'text',
+  industry: 'text',
+  exchange: 'text',
+  asset_class: 'text',
+} as const satisfies Record<string, ExpressionFieldType>;
+
+export type ExpressionField = keyof typeof EXPRESSION_FIELDS;
+
+export type ComparisonOperator = '<' | '<=' | '>' | '>=' | '=' | '!=';
+
+export type ExpressionLiteral = { type: 'number'; value: number } | { type: 'string'; value: string };
+
+export type ExpressionValue = ExpressionLiteral | { type: 'field'; field: ExpressionField };
+
+export type ExpressionNode =
+  | { type: 'and' | 'or'; operands: ExpressionNode[] }
+  | { type: 'not'; operand: ExpressionNode }
+  | { type: 'comparison'; field: ExpressionField; operator: ComparisonOperator; value: ExpressionValue }
+  | { type: 'in'; field: ExpressionField; negated: boolean; values: ExpressionLiteral[] };
+
+/**
+ * Syntax or validation error, with where it is in the expression
+ */
+export class ExpressionError extends Error {
+  constructor(
+    message: string,
+    public readonly position: number, // Offset of the offending text
+    public readonly length: number = 1
+  ) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+type TokenKind = 'number' | 'string' | 'identifier' | 'operator' | 'minus' | 'lparen' | 'rparen' | 'comma' | 'end';
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  value: number | string;
+  start: number;
+}
+
+const KEYWORDS = new Set(['and', 'or', 'not', 'in']);
+const OPERATORS: Record<string, ComparisonOperator> = {
+  '<': '<',
+  '<=': '<=',
+  '>': '>',
+  '>=': '>=',
+  '=': '=',
+  '==': '=',
+  '!=': '!=',
+  '<>': '!=',
+};
+const NUMBER_SUFFIXES: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9, t: 1e12 };
+
+function isFieldName(name: string): name is ExpressionField {
+  return Object.prototype.hasOwnProperty.call(EXPRESSION_FIELDS, name);
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    const start = i;
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9.]/.test(char)) {
+      const match = /^(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+      if (!match) {
+        throw new ExpressionError(`Unexpected character '${char}'`, start);
+      }
+      i += match[0].length;
+      let value = parseFloat(match[0]);
+      // Suffix, e.g. 10b
+      const suffix = source[i]?.toLowerCase();
+      if (suffix && suffix in NUMBER_SUFFIXES && !/[A-Za-z0-9_]/.test(source[i + 1] ?? '')) {
+        value *= NUMBER_SUFFIXES[suffix];
+        i++;
+      }
+      if (/[A-Za-z0-9_]/.test(source[i] ?? '')) {
+        const word = /^[A-Za-z0-9_.]+/.exec(source.slice(start))![0];
+        throw new ExpressionError(`Invalid number '${word}'`, start, word.length);
+      }
+      if (!Number.isFinite(value)) {
+        throw new ExpressionError(`Number '${source.slice(start, i)}' is too large`, start, i - start);
+      }
+      tokens.push({ kind: 'number', text: source.slice(start, i), value, start });
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      let value = '';
+      i++;
+      for (;;) {
+        if (i >= source.length) {
+          throw new ExpressionError('Unterminated string', start, i - start);
+        }
+        if (source[i] === char) {
+          if (source[i + 1] === char) {
+            value += char;
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        value += source[i];
+        i++;
+      }
+      tokens.push({ kind: 'string', text: source.slice(start, i), value, start });
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      i += match[0].length;
+      tokens.push({ kind: 'identifier', text: match[0], value: match[0].toLowerCase(), start });
+      continue;
+    }
+
+    const twoChars = source.slice(i, i + 2);
+    if (twoChars in OPERATORS) {
+      i += 2;
+      tokens.push({ kind: 'operator', text: twoChars, value: OPERATORS[twoChars], start });
+      continue;
+    }
+    if (char in OPERATORS) {
+      i++;
+      tokens.push({ kind: 'operator', text: char, value: OPERATORS[char], start });
+      continue;
+    }
+
+    const punctuation: Record<string, TokenKind> = { '(': 'lparen', ')': 'rparen', ',': 'comma', '-': 'minus' };
+    if (char in punctuation) {
+      i++;
+      tokens.push({ kind: punctuation[char], text: char, value: char, start });
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character '${char}'`, start);
+  }
+
+  tokens.push({ kind: 'end', text: '', value: '', start: source.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+  private conditions = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.kind !== 'end') {
+      throw this.unexpected(token, 'and, or or the end');
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.kind !== 'end') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private isKeyword(token: Token, keyword: string): boolean {
+    return token.kind === 'identifier' && token.value === keyword;
+  }
+
+  private error(token: Token, message: string): ExpressionError {
+    return new ExpressionError(message, token.start, Math.max(token.text.length, 1));
+  }
+
+  private unexpected(token: Token, expected: string): ExpressionError {
+    const found = token.kind === 'end' ? 'end of expression' : `'${token.text}'`;
+    return this.error(token, `Unexpected ${found}, expected ${expected}`);
+  }
+
+  private parseOr(): ExpressionNode {
+    const operands = [this.parseAnd()];
+    while (this.isKeyword(this.peek(), 'or')) {
+      this.next();
+      operands.push(this.parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { type: 'or', operands };
+  }
+
+  private parseAnd(): ExpressionNode {
+    const operands = [this.parseFactor()];
+    while (this.isKeyword(this.peek(), 'and')) {
+      this.next();
+      operands.push(this.parseFactor());
+    }
+    return operands.length === 1 ? operands[0] : { type: 'and', operands };
+  }
+
+  private parseFactor(): ExpressionNode {
+    const token = this.peek();
+
+    if (this.isKeyword(token, 'not') || token.kind === 'lparen') {
+      if (++this.depth > MAX_DEPTH) {
+        throw this.error(token, `Expressions can nest at most ${MAX_DEPTH} levels`);
+      }
+      this.next();
+
+      let node: ExpressionNode;
+      if (token.kind === 'lparen') {
+        node = this.parseOr();
+        this.expect('rparen', "')'");
+      } else {
+        node = { type: 'not', operand: this.parseFactor() };
+      }
+
+      this.depth--;
+      return node;
+    }
+
+    return this.parseCondition();
+  }
+
+  private parseCondition(): ExpressionNode {
+    const fieldToken = this.next();
+    const field = this.parseField(fieldToken);
+    if (++this.conditions > MAX_CONDITIONS) {
+      throw this.error(fieldToken, `Expressions can have at most ${MAX_CONDITIONS} conditions`);
+    }
+    const fieldType = EXPRESSION_FIELDS[field];
+
+    // [not] in (...)
+    let negated = false;
+    if (this.isKeyword(this.peek(), 'not')) {
+      this.next();
+      negated = true;
+      if (!this.isKeyword(this.peek(), 'in')) {
+        throw this.unexpected(this.peek(), `in after ${field} not`);
+      }
+    }
+    if (this.isKeyword(this.peek(), 'in')) {
+      this.next();
+      this.expect('lparen', "'(' after in");
+      const values: ExpressionLiteral[] = [];
+      for (;;) {
+        const token = this.peek();
+        const value = this.parseValue();
+        if (value.type === 'field') {
+          throw this.error(token, 'in lists can only hold numbers or strings');
+        }
+        this.checkType(field, value, token);
+        values.push(value);
+
+        if (this.peek().kind !== 'comma') {
+          break;
+        }
+        this.next();
+      }
+      this.expect('rparen', "',' or ')'");
+      return { type: 'in', field, negated, values };
+    }
+
+    const operatorToken = this.next();
+    if (operatorToken.kind !== 'operator') {
+      throw this.unexpected(operatorToken, `a comparison (<, <=, >, >=, =, !=) or in after ${field}`);
+    }
+    const operator = operatorToken.value as ComparisonOperator;
+    if (fieldType === 'text' && operator !== '=' && operator !== '!=') {
+      throw this.error(operatorToken, `${field} can only be compared with = or !=`);
+    }
+
+    const valueToken = this.peek();
+    const value = this.parseValue();
+    this.checkType(field, value, valueToken);
+    return { type: 'comparison', field, operator, value };
+  }
+
+  private parseField(token: Token): ExpressionField {
+    if (token.kind !== 'identifier' || KEYWORDS.has(token.value as string)) {
+      throw this.unexpected(token, 'a field (e.g. rsi)');
+    }
+    if (!isFieldName(token.value as string)) {
+      throw this.error(token, `Unknown field '${token.text}'`);
+    }
+    return token.value as ExpressionField;
+  }
+
+  private parseValue(): ExpressionValue {
+    const token = this.next();
+
+    if (token.kind === 'minus') {
+      const number = this.next();
+      if (number.kind !== 'number') {
+        throw this.unexpected(number, "a number after '-'");
+      }
+      return { type: 'number', value: -(number.value as number) };
+    }
+    if (token.kind === 'number') {
+      return { type: 'number', value: token.value as number };
+    }
+    if (token.kind === 'string') {
+      return { type: 'string', value: token.value as string };
+    }
+    if (token.kind === 'identifier' && !KEYWORDS.has(token.value as string)) {
+      return { type: 'field', field: this.parseField(token) };
+    }
+    throw this.unexpected(token, 'a number, string or field');
+  }
+
+  private checkType(field: ExpressionField, value: ExpressionValue, token: Token): void {
+    const fieldType = EXPRESSION_FIELDS[field];
+    const valueType = value.type === 'field' ? EXPRESSION_FIELDS[value.field] : value.type === 'number' ? 'number' : 'text';
+    if (fieldType !== valueType) {
+      throw this.error(
+        token,
+        fieldType === 'number'
+          ? `${field} is a number; compare it with a number or numeric field`
+          : `${field} is text; compare it with a quoted string or text field`
+      );
+    }
+  }
+
+  private expect(kind: TokenKind, expected: string): Token {
+    const token = this.next();
+    if (token.kind !== kind) {
+      throw this.unexpected(token, expected);
+    }
+    return token;
+  }
+}
+
+/**
+ * Parse and validate a filter expression
+ * @param source - Expression, e.g. "rsi < 30 and sector = 'Technology'"
+ * @returns Expression tree
+ * @throws ExpressionError if the expression is invalid
+ */
+export function parseScreenerExpression(source: string): ExpressionNode {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError(`Expressions can be at most ${MAX_EXPRESSION_LENGTH} characters`, MAX_EXPRESSION_LENGTH);
+  }
+  if (source.trim().length === 0) {
+    throw new ExpressionError('Expression is empty', 0);
+  }
+  return new Parser(tokenize(source)).parse();
+}
+
+/**
+ * Check a filter expression
+ * @returns The error, or null when the expression is valid
+ */
+export function validateScreenerExpression(source: string): ExpressionError | null {
+  try {
+    parseScreenerExpression(source);
+    return null;
+  } catch (error) {
+    if (error instanceof ExpressionError) {
+      return error;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,109 @@
+import { AssetClass } from '../types/stock';
+
+/**
+ * Symbol normalization (mirrors backend/src/utils/symbol.ts)
+ *
+ * Canonical forms:
+ *   Equities:       TICKER[.CLASS][-P[SERIES]][.EXCHANGE], e.g. AAPL, BRK.B, BAC-PL, SHOP.TO
+ *   Currency pairs: BASE-QUOTE, e.g. BTC-USD (crypto), EUR-USD (fx; EUR/USD is accepted)
+ *
+ * Normalizing before requests and subscriptions keeps chart, watchlist and
+ * live price keys identical to the backend's. The backend remains the
+ * authority on which exchange suffixes are supported.
+ */
+
+const MAX_SYMBOL_LENGTH = 20;
+
+// Fiat currencies pairs can be quoted in (and fx pairs are made of)
+const FIAT_CURRENCIES = new Set([
+  'USD', 'EUR', 'GBP', 'JPY', 'CHF', 'CAD', 'AUD', 'NZD', 'HKD', 'SGD', 'SEK',
+  'NOK', 'DKK', 'CNY', 'INR', 'KRW', 'MXN', 'BRL', 'ZAR', 'TRY', 'PLN',
+]);
+
+// BASE-QUOTE; the quote must be a fiat currency, which no exchange suffix is
+const PAIR_PATTERN = /^([A-Z0-9]{2,10})[.-]([A-Z]{3})$/;
+
+// Alternatives are tried in order, so "-P" reads as a preferred before a share class
+const SYMBOL_PATTERN =
+  /^([A-Z0-9]{1,10})(?:-P([A-Z])?|\.PR\.?([A-Z])?|[.-]([A-Z]))?(?:\.([A-Z]{2,5}))?$/;
+
+/**
+ * Normalize a symbol to its canonical form
+ * @param input - Raw symbol, e.g. "brk-b", "BAC.PR.L", "shop.to"
+ * @returns Canonical symbol, or null if the input is not a valid symbol
+ */
+export function normalizeSymbol(input: string): string | null {
+  const cleaned = input.trim().toUpperCase().replace(/[\s/]+/g, '.');
+
+  const pair = parsePair(cleaned);
+  if (pair) {
+    return `${pair.base}-${pair.quote}`;
+  }
+
+  const match = SYMBOL_PATTERN.exec(cleaned);
+  if (!match) {
+    return null;
+  }
+
+  const [, ticker, dashSeries, prSeries, shareClass, exchange] = match;
+  const isPreferred = cleaned.startsWith(`${ticker}-P`) || cleaned.startsWith(`${ticker}.PR`);
+
+  const canonical =
+    ticker +
+    (shareClass ? `.${shareClass}` : '') +
+    (isPreferred ? `-P${dashSeries ?? prSeries ?? ''}` : '') +
+    (exchange ? `.${exchange}` : '');
+
+  return canonical.length <= MAX_SYMBOL_LENGTH ? canonical : null;
+}
+
+/**
+ * Asset class of a symbol; anything that isn't a currency pair is an equity
+ */
+export function getAssetClass(input: string): AssetClass {
+  const pair = parsePair(input.trim().toUpperCase().replace(/[\s/]+/g, '.'));
+  if (!pair) {
+    return 'equity';
+  }
+  return FIAT_CURRENCIES.has(pair.base) ? 'fx' : 'crypto';
+}
+
+/**
+ * Decimal places a price of the symbol is quoted to
+ * Equities use cents, fx pips (JPY quotes two fewer) and crypto scales with the price
+ */
+export function getPricePrecision(input: string, price: number): number {
+  switch (getAssetClass(input)) {
+    case 'fx':
+      return input.trim().toUpperCase().endsWith('JPY') ? 3 : 5;
+    case 'crypto': {
+      const magnitude = Math.abs(price);
+      if (magnitude >= 1000) return 2;
+      if (magnitude >= 1) return 4;
+      return 8;
+    }
+    default:
+      return 2;
+  }
+}
+
+/**
+ * Format a price at the symbol's precision; equities and USD-quoted crypto get a $ sign
+ */
+export function formatSymbolPrice(input: string, price: number): string {
+  const text = price.toFixed(getPricePrecision(input, price));
+  const assetClass = getAssetClass(input);
+  const dollars = assetClass === 'equity' || (assetClass === 'crypto' && input.trim().toUpperCase().endsWith('USD'));
+  return dollars ? `$${text}` : text;
+}
+
+/**
+ * Split a cleaned (uppercased, '.'-separated) symbol into pair currencies
+ */
+function parsePair(cleaned: string): { base: string; quote: string } | null {
+  const match = PAIR_PATTERN.exec(cleaned);
+  if (!match || !FIAT_CURRENCIES.has(match[2]) || match[1] === match[2]) {
+    return null;
+  }
+  return { base: match[1], quote: match[2] };
+}